@@ -7,9 +7,21 @@ import WorkOrdersPage from "@/pages/WorkOrdersPage";
 import CustomersPage from "@/pages/CustomersPage";
 import MaterialsPage from "@/pages/MaterialsPage";
 import InvoicesPage from "@/pages/InvoicesPage";
+import PlanningPage from "@/pages/PlanningPage";
+import AvailabilityPage from "@/pages/AvailabilityPage";
+import RoutePage from "@/pages/RoutePage";
+import MaintenanceContractsPage from "@/pages/MaintenanceContractsPage";
+import ProjectsPage from "@/pages/ProjectsPage";
+import QuotesPage from "@/pages/QuotesPage";
+import UsersPage from "@/pages/UsersPage";
+import AccountPage from "@/pages/AccountPage";
+import TwoFactorSetupPage from "@/pages/TwoFactorSetupPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import MyWorkOrdersPage from "@/pages/MyWorkOrdersPage";
 import { NavigationProvider } from "@/contexts/NavigationContext";
 import { Loader2 } from "lucide-react";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { hasPermission, isTwoFactorRequired } from "@shared/permissions";
 
 // Component die de routes beheert en afhankelijk is van auth status
 const AuthAwareRoutes = () => {
@@ -23,12 +35,21 @@ const AuthAwareRoutes = () => {
     );
   }
 
+  // Two-factor authentication is mandatory for some roles; nothing else is available until it is set up
+  if (user && isTwoFactorRequired(user.role) && !user.twoFactorEnabled) {
+    return <TwoFactorSetupPage />;
+  }
+
   return (
     <Switch>
       <Route path="/auth">
         {() => (user ? <Redirect to="/" /> : <AuthPage />)}
       </Route>
       
+      <Route path="/wachtwoord-herstellen">
+        {() => <ResetPasswordPage />}
+      </Route>
+      
       <Route path="/">
         {() => (!user ? <Redirect to="/auth" /> : <DashboardPage />)}
       </Route>
@@ -37,16 +58,52 @@ const AuthAwareRoutes = () => {
         {() => (!user ? <Redirect to="/auth" /> : <WorkOrdersPage />)}
       </Route>
       
+      <Route path="/mijn-werkbonnen">
+        {() => (!user ? <Redirect to="/auth" /> : <MyWorkOrdersPage />)}
+      </Route>
+      
+      <Route path="/planning">
+        {() => (!user ? <Redirect to="/auth" /> : <PlanningPage />)}
+      </Route>
+      
+      <Route path="/route">
+        {() => (!user ? <Redirect to="/auth" /> : <RoutePage />)}
+      </Route>
+      
+      <Route path="/beschikbaarheid">
+        {() => (!user ? <Redirect to="/auth" /> : <AvailabilityPage />)}
+      </Route>
+      
       <Route path="/klanten">
         {() => (!user ? <Redirect to="/auth" /> : <CustomersPage />)}
       </Route>
       
+      <Route path="/projecten">
+        {() => (!user ? <Redirect to="/auth" /> : !hasPermission(user.role, "projects:read") ? <Redirect to="/" /> : <ProjectsPage />)}
+      </Route>
+      
+      <Route path="/onderhoudscontracten">
+        {() => (!user ? <Redirect to="/auth" /> : !hasPermission(user.role, "contracts:read") ? <Redirect to="/" /> : <MaintenanceContractsPage />)}
+      </Route>
+      
       <Route path="/materialen">
         {() => (!user ? <Redirect to="/auth" /> : <MaterialsPage />)}
       </Route>
       
+      <Route path="/offertes">
+        {() => (!user ? <Redirect to="/auth" /> : !hasPermission(user.role, "quotes:read") ? <Redirect to="/" /> : <QuotesPage />)}
+      </Route>
+      
       <Route path="/facturen">
-        {() => (!user ? <Redirect to="/auth" /> : <InvoicesPage />)}
+        {() => (!user ? <Redirect to="/auth" /> : !hasPermission(user.role, "invoices:read") ? <Redirect to="/" /> : <InvoicesPage />)}
+      </Route>
+      
+      <Route path="/gebruikers">
+        {() => (!user ? <Redirect to="/auth" /> : !hasPermission(user.role, "users:manage") ? <Redirect to="/" /> : <UsersPage />)}
+      </Route>
+      
+      <Route path="/account">
+        {() => (!user ? <Redirect to="/auth" /> : <AccountPage />)}
       </Route>
       
       <Route>
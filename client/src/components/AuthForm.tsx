@@ -45,8 +45,8 @@ export default function AuthForm() {
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
-      username: "admin",
-      password: "admin123",
+      username: "",
+      password: "",
     },
   });
 
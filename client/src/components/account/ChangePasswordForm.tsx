@@ -0,0 +1,105 @@
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Huidig wachtwoord is verplicht"),
+  newPassword: z.string().min(6, "Wachtwoord moet minimaal 6 tekens bevatten"),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Wachtwoorden komen niet overeen",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordSchema>;
+
+export default function ChangePasswordForm() {
+  const { toast } = useToast();
+
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+      await apiRequest("POST", "/api/change-password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      form.reset();
+      toast({
+        title: "Wachtwoord gewijzigd",
+        description: "Uw nieuwe wachtwoord is opgeslagen.",
+      });
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(form, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het wijzigen van het wachtwoord: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => changePasswordMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Huidig wachtwoord</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nieuw wachtwoord</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nieuw wachtwoord bevestigen</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="bg-primary hover:bg-[#003A66]" disabled={changePasswordMutation.isPending}>
+          {changePasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Wachtwoord wijzigen
+        </Button>
+      </form>
+    </Form>
+  );
+}
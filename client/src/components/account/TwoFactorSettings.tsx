@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { isTwoFactorRequired } from "@shared/permissions";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpAuthUrl: string;
+  qrCode: string; // Data URL of the QR code image
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map(index => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function BackupCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertDescription>
+          Bewaar deze back-upcodes op een veilige plek. Elke code kan één keer worden gebruikt om in te loggen
+          als u geen toegang heeft tot uw authenticator-app. De codes worden niet opnieuw getoond.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded-md p-4">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <Button className="bg-primary hover:bg-[#003A66]" onClick={onDone}>
+        Ik heb de codes bewaard
+      </Button>
+    </div>
+  );
+}
+
+// Enrolment and management of two-factor authentication for the logged in user
+export default function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Fout",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetup> => {
+      const response = await apiRequest("POST", "/api/2fa/setup");
+      return await response.json();
+    },
+    onSuccess: setSetup,
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (): Promise<{ backupCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/2fa/enable", { code });
+      return await response.json();
+    },
+    onSuccess: ({ backupCodes }) => {
+      setSetup(null);
+      setCode("");
+      setBackupCodes(backupCodes);
+      toast({
+        title: "Tweestapsverificatie ingeschakeld",
+        description: "Bij het inloggen wordt voortaan om een code gevraagd.",
+      });
+    },
+    onError,
+  });
+
+  const backupCodesMutation = useMutation({
+    mutationFn: async (): Promise<{ backupCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/2fa/backup-codes", { code });
+      return await response.json();
+    },
+    onSuccess: ({ backupCodes }) => {
+      setCode("");
+      setBackupCodes(backupCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Tweestapsverificatie uitgeschakeld",
+        description: "Bij het inloggen wordt niet langer om een code gevraagd.",
+      });
+    },
+    onError,
+  });
+
+  if (!user) return null;
+
+  // Only refresh the user once the backup codes have been seen; for a forced enrolment that opens the app
+  if (backupCodes) {
+    return (
+      <BackupCodes
+        codes={backupCodes}
+        onDone={() => {
+          setBackupCodes(null);
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+        }}
+      />
+    );
+  }
+
+  if (user.twoFactorEnabled) {
+    const isPending = backupCodesMutation.isPending || disableMutation.isPending;
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center text-sm text-green-700">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Tweestapsverificatie is ingeschakeld.
+        </div>
+        <p className="text-sm text-gray-600">
+          Voer een code uit uw authenticator-app in om nieuwe back-upcodes aan te maken
+          {!isTwoFactorRequired(user.role) && " of om tweestapsverificatie uit te schakelen"}.
+        </p>
+        <CodeInput value={code} onChange={setCode} />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            disabled={code.length < 6 || isPending}
+            onClick={() => backupCodesMutation.mutate()}
+          >
+            {backupCodesMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Nieuwe back-upcodes
+          </Button>
+          {!isTwoFactorRequired(user.role) && (
+            <Button
+              variant="destructive"
+              disabled={code.length < 6 || isPending}
+              onClick={() => disableMutation.mutate()}
+            >
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Uitschakelen
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Scan de QR-code met een authenticator-app (bijvoorbeeld Google Authenticator of Microsoft Authenticator)
+          en voer de code in die de app toont.
+        </p>
+        <img src={setup.qrCode} alt="QR-code voor tweestapsverificatie" className="h-48 w-48" />
+        <p className="text-xs text-gray-500">
+          Lukt scannen niet? Voer deze sleutel handmatig in: <span className="font-mono break-all">{setup.secret}</span>
+        </p>
+        <CodeInput value={code} onChange={setCode} />
+        <Button
+          className="bg-primary hover:bg-[#003A66]"
+          disabled={code.length < 6 || enableMutation.isPending}
+          onClick={() => enableMutation.mutate()}
+        >
+          {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Bevestigen
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Met tweestapsverificatie heeft u naast uw wachtwoord een code uit een authenticator-app nodig om in te loggen.
+      </p>
+      <Button
+        className="bg-primary hover:bg-[#003A66]"
+        disabled={setupMutation.isPending}
+        onClick={() => setupMutation.mutate()}
+      >
+        {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Tweestapsverificatie instellen
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, isValid, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { AuditLog, User } from "@shared/schema";
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Aangemaakt",
+  update: "Gewijzigd",
+  delete: "Verwijderd",
+  assign: "Monteur toegewezen",
+  unassign: "Monteur verwijderd",
+  send: "Verstuurd",
+  remind: "Aanmaning",
+  pay: "Betaling geregistreerd",
+  unpay: "Betaling verwijderd",
+  link: "Afhankelijkheid toegevoegd",
+  unlink: "Afhankelijkheid verwijderd",
+};
+
+const ACTION_COLORS: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  assign: "bg-yellow-100 text-yellow-800",
+  unassign: "bg-yellow-100 text-yellow-800",
+  send: "bg-purple-100 text-purple-800",
+  remind: "bg-orange-100 text-orange-800",
+  pay: "bg-green-100 text-green-800",
+  unpay: "bg-red-100 text-red-800",
+  link: "bg-yellow-100 text-yellow-800",
+  unlink: "bg-yellow-100 text-yellow-800",
+};
+
+interface AuditHistoryProps {
+  entity: string;
+  entityId: number;
+  fieldLabels?: Record<string, string>; // Dutch names of the fields; unknown fields are shown as is
+}
+
+// Who changed a record when, and what the changed fields were before and after
+export default function AuditHistory({ entity, entityId, fieldLabels = {} }: AuditHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: [`/api/audit?entity=${entity}&id=${entityId}`],
+    retry: 1,
+  });
+
+  const { data: users = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: ['/api/users'],
+    retry: 1,
+  });
+
+  const getUserName = (userId: number | null | undefined) => {
+    if (userId == null) return "Systeem";
+    return users.find(user => user.id === userId)?.fullName || `Gebruiker ${userId}`;
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "-";
+    if (typeof value === "boolean") return value ? "Ja" : "Nee";
+    if (field === "userId" && typeof value === "number") return getUserName(value);
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) && isValid(parseISO(value))) {
+      return format(parseISO(value), "dd-MM-yyyy HH:mm");
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Nog geen wijzigingen vastgelegd</p>;
+  }
+
+  return (
+    <ul className="space-y-3 max-h-96 overflow-y-auto pr-1">
+      {entries.map(entry => (
+        <li key={entry.id} className="border border-gray-200 rounded-md p-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_COLORS[entry.action] || "bg-gray-100 text-gray-800"}`}>
+                {ACTION_LABELS[entry.action] || entry.action}
+              </span>
+              <span className="text-sm text-gray-900">{getUserName(entry.userId)}</span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {format(new Date(entry.createdAt), "dd-MM-yyyy HH:mm:ss")}
+            </span>
+          </div>
+          {entry.action === "update" && (
+            <dl className="mt-2 space-y-1">
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <div key={field} className="text-sm">
+                  <dt className="inline font-medium text-gray-700">{fieldLabels[field] || field}: </dt>
+                  <dd className="inline text-gray-600">
+                    <span className="line-through text-gray-400">{formatValue(field, change.before)}</span>
+                    {" → "}
+                    {formatValue(field, change.after)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {(entry.action === "assign" || entry.action === "unassign") && (
+            <p className="mt-2 text-sm text-gray-600">
+              {formatValue("userId", entry.changes.userId?.after ?? entry.changes.userId?.before)}
+              {entry.changes.isLead?.after ? " (hoofdmonteur)" : ""}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
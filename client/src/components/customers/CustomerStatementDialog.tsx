@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import type { CustomerStatement } from "@shared/payments";
+import type { Customer } from "@shared/schema";
+
+interface CustomerStatementDialogProps {
+  customer: Customer | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Statement (openstaande posten) of a customer: every sent invoice that is not fully paid, or paid too much
+export default function CustomerStatementDialog({ customer, open, onOpenChange }: CustomerStatementDialogProps) {
+  const { data: statement, isLoading } = useQuery<CustomerStatement>({
+    queryKey: [`/api/customers/${customer?.id}/statement`],
+    enabled: open && !!customer,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Openstaande posten</DialogTitle>
+          <DialogDescription>
+            {customer?.name} ({customer?.customerNumber}) per {format(new Date(), 'dd-MM-yyyy')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !statement ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : statement.items.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">Deze klant heeft geen openstaande posten.</p>
+        ) : (
+          <div className="border rounded-md overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Factuurnr.</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Factuurdatum</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Vervaldatum</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Bedrag</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Ontvangen</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Openstaand</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {statement.items.map(item => (
+                  <tr key={item.invoiceId}>
+                    <td className="px-4 py-2 font-medium">{item.invoiceNumber}</td>
+                    <td className="px-4 py-2">{format(new Date(item.date), 'dd-MM-yyyy')}</td>
+                    <td className="px-4 py-2">
+                      {format(new Date(item.dueDate), 'dd-MM-yyyy')}
+                      {item.daysOverdue > 0 && item.openBalance > 0 && (
+                        <span className="ml-2 text-xs text-red-600">{item.daysOverdue} dagen te laat</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(item.amount)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(item.paid)}</td>
+                    <td className={`px-4 py-2 text-right ${item.openBalance < 0 ? "text-green-700" : ""}`}>
+                      {formatCurrency(item.openBalance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={5} className="px-4 py-2 text-right font-semibold">Totaal openstaand</td>
+                  <td className="px-4 py-2 text-right font-semibold">{formatCurrency(statement.totalOpen)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Sluiten
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
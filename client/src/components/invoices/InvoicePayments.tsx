@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaPlus, FaTrash } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/formErrors";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { getInvoiceBalance, PAYMENT_METHOD_LABELS, PAYMENT_METHODS, type PaymentMethod } from "@shared/payments";
+import type { Invoice, Payment } from "@shared/schema";
+
+interface NewPayment {
+  date: string; // yyyy-MM-dd
+  amount: string;
+  method: PaymentMethod;
+  reference: string;
+}
+
+interface InvoicePaymentsProps {
+  invoice: Invoice;
+  onInvoiceChanged?: (invoice: Invoice) => void;
+}
+
+// Payments received on an invoice and its open balance. The status of the invoice follows from the balance,
+// so registering the last part of the amount marks the invoice as paid.
+export default function InvoicePayments({ invoice, onInvoiceChanged }: InvoicePaymentsProps) {
+  const { toast } = useToast();
+  const paymentsKey = [`/api/invoices/${invoice.id}/payments`];
+  const [newPayment, setNewPayment] = useState<NewPayment | null>(null);
+
+  const { data: payments = [], isLoading } = useQuery<Payment[]>({
+    queryKey: paymentsKey,
+    staleTime: 0,
+  });
+
+  const balance = getInvoiceBalance(invoice, payments);
+
+  useEffect(() => {
+    setNewPayment(null);
+  }, [invoice.id]);
+
+  const onPaymentsChanged = (updated: Invoice) => {
+    queryClient.invalidateQueries({ queryKey: paymentsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/audit?entity=invoice&id=${invoice.id}`] });
+    onInvoiceChanged?.(updated);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (payment: NewPayment): Promise<{ payment: Payment; invoice: Invoice }> => {
+      const res = await apiRequest('POST', `/api/invoices/${invoice.id}/payments`, {
+        date: payment.date,
+        amount: parseFloat(payment.amount),
+        method: payment.method,
+        reference: payment.reference.trim() || null,
+      });
+      return res.json();
+    },
+    onSuccess: ({ invoice: updated }) => {
+      toast({
+        title: "Betaling geregistreerd",
+        description: updated.status === "Betaald" ? "De factuur is volledig betaald." : "De betaling is geregistreerd.",
+      });
+      setNewPayment(null);
+      onPaymentsChanged(updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het registreren van de betaling: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (paymentId: number): Promise<Invoice> => {
+      const res = await apiRequest('DELETE', `/api/invoices/${invoice.id}/payments/${paymentId}`);
+      return res.json();
+    },
+    onSuccess: onPaymentsChanged,
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het verwijderen van de betaling: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const startNewPayment = () => {
+    setNewPayment({
+      date: format(new Date(), "yyyy-MM-dd"),
+      amount: Math.max(balance.openBalance, 0).toFixed(2),
+      method: "bank",
+      reference: "",
+    });
+  };
+
+  const updateNewPayment = (changes: Partial<NewPayment>) => {
+    setNewPayment(current => current && { ...current, ...changes });
+  };
+
+  const isNewPaymentValid = newPayment !== null && newPayment.date !== "" && parseFloat(newPayment.amount) > 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Factuurbedrag</p>
+          <p className="font-semibold">{formatCurrency(invoice.amount)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Ontvangen</p>
+          <p className="font-semibold">{formatCurrency(balance.paid)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">{balance.openBalance < 0 ? "Te veel betaald" : "Openstaand"}</p>
+          <p className={`font-semibold ${balance.openBalance > 0 ? "text-red-600" : "text-green-700"}`}>
+            {formatCurrency(Math.abs(balance.openBalance))}
+          </p>
+        </div>
+      </div>
+
+      {payments.length > 0 ? (
+        <div className="border rounded-md overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Datum</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Betaalwijze</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Kenmerk</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">Bedrag</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {payments.map(payment => (
+                <tr key={payment.id}>
+                  <td className="px-4 py-2">{format(new Date(payment.date), 'dd-MM-yyyy')}</td>
+                  <td className="px-4 py-2">{PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? payment.method}</td>
+                  <td className="px-4 py-2 text-gray-500">{payment.reference}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(payment.amount)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800"
+                      title="Betaling verwijderen"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(payment.id)}
+                    >
+                      <FaTrash />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic">Er zijn nog geen betalingen ontvangen.</p>
+      )}
+
+      {newPayment ? (
+        <div className="border rounded-md p-4 space-y-3">
+          <div className="grid grid-cols-4 gap-3">
+            <Input
+              type="date"
+              value={newPayment.date}
+              onChange={(e) => updateNewPayment({ date: e.target.value })}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Bedrag"
+              value={newPayment.amount}
+              onChange={(e) => updateNewPayment({ amount: e.target.value })}
+            />
+            <Select value={newPayment.method} onValueChange={(value) => updateNewPayment({ method: value as PaymentMethod })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map(method => (
+                  <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Kenmerk"
+              value={newPayment.reference}
+              onChange={(e) => updateNewPayment({ reference: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setNewPayment(null)}>
+              Annuleren
+            </Button>
+            <Button
+              size="sm"
+              className="bg-primary hover:bg-primary/90"
+              disabled={!isNewPaymentValid || createMutation.isPending}
+              onClick={() => newPayment && createMutation.mutate(newPayment)}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Registreren
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="text-primary hover:text-primary/90" onClick={startNewPayment}>
+          <FaPlus className="mr-2 h-3 w-3" /> Betaling registreren
+        </Button>
+      )}
+    </div>
+  );
+}
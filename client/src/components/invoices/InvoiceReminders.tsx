@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import { FaFilePdf } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import { getDunningTemplateKey } from "@shared/dunning";
+import { MAIL_TEMPLATE_LABELS } from "@shared/mailTemplates";
+import type { InvoiceReminder } from "@shared/schema";
+
+interface InvoiceRemindersProps {
+  invoiceId: number;
+}
+
+// Dunning steps of an overdue invoice with their letters; letters that were not e-mailed have to be posted
+export default function InvoiceReminders({ invoiceId }: InvoiceRemindersProps) {
+  const { data: reminders = [], isLoading } = useQuery<InvoiceReminder[]>({
+    queryKey: [`/api/invoices/${invoiceId}/reminders`],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (reminders.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Er zijn nog geen herinneringen of aanmaningen verstuurd.</p>;
+  }
+
+  return (
+    <ul className="divide-y border rounded-md">
+      {reminders.map(reminder => (
+        <li key={reminder.id} className="flex items-center justify-between px-4 py-3">
+          <div>
+            <p className="font-medium">{MAIL_TEMPLATE_LABELS[getDunningTemplateKey(reminder.step)]}</p>
+            <p className="text-sm text-gray-500">
+              {format(new Date(reminder.createdAt), 'dd-MM-yyyy')} &middot;{" "}
+              {reminder.recipient ? `Gemaild aan ${reminder.recipient}` : "Geen e-mailadres, per post versturen"}
+            </p>
+            {reminder.collectionCosts != null && (
+              <p className="text-sm text-gray-500">Incassokosten (WIK): {formatCurrency(reminder.collectionCosts)}</p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-primary hover:text-primary/90"
+            onClick={() => window.open(`/api/invoices/${invoiceId}/reminders/${reminder.id}/pdf`, "_blank")}
+          >
+            <FaFilePdf className="mr-2 h-4 w-4" /> Brief
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAIL_PLACEHOLDERS,
+  MAIL_TEMPLATE_KEYS,
+  MAIL_TEMPLATE_LABELS,
+  type MailTemplateContent,
+  type MailTemplateKey,
+} from "@shared/mailTemplates";
+
+interface MailTemplate extends MailTemplateContent {
+  key: MailTemplateKey;
+  isDefault: boolean;
+}
+
+interface MailTemplatesEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Editor for the e-mails sent with invoices and reminders; placeholders are filled in per invoice when sending
+export default function MailTemplatesEditor({ open, onOpenChange }: MailTemplatesEditorProps) {
+  const { toast } = useToast();
+  const [activeKey, setActiveKey] = useState<MailTemplateKey>("invoice");
+  const [drafts, setDrafts] = useState<Partial<Record<MailTemplateKey, MailTemplateContent>>>({});
+
+  const { data: templates = [], isLoading } = useQuery<MailTemplate[]>({
+    queryKey: ['/api/mail-templates'],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setDrafts(Object.fromEntries(templates.map(t => [t.key, { subject: t.subject, body: t.body }])));
+    }
+  }, [open, templates]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ key, template }: { key: MailTemplateKey; template: MailTemplateContent }) => {
+      const res = await apiRequest('PUT', `/api/mail-templates/${key}`, template);
+      return res.json();
+    },
+    onSuccess: (_, { key }) => {
+      toast({
+        title: "Sjabloon opgeslagen",
+        description: `Het sjabloon "${MAIL_TEMPLATE_LABELS[key]}" is opgeslagen.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/mail-templates'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het opslaan van het sjabloon: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateDraft = (key: MailTemplateKey, changes: Partial<MailTemplateContent>) => {
+    setDrafts(current => ({ ...current, [key]: { ...current[key]!, ...changes } }));
+  };
+
+  const activeDraft = drafts[activeKey];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>E-mailsjablonen</DialogTitle>
+          <DialogDescription>
+            Teksten van de e-mails waarmee facturen en betalingsherinneringen worden verstuurd.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs value={activeKey} onValueChange={(value) => setActiveKey(value as MailTemplateKey)}>
+            <TabsList className="mb-4">
+              {MAIL_TEMPLATE_KEYS.map(key => (
+                <TabsTrigger key={key} value={key}>{MAIL_TEMPLATE_LABELS[key]}</TabsTrigger>
+              ))}
+            </TabsList>
+            {MAIL_TEMPLATE_KEYS.map(key => (
+              <TabsContent key={key} value={key} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`${key}-subject`}>Onderwerp</Label>
+                  <Input
+                    id={`${key}-subject`}
+                    value={drafts[key]?.subject ?? ""}
+                    onChange={(e) => updateDraft(key, { subject: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${key}-body`}>Tekst</Label>
+                  <Textarea
+                    id={`${key}-body`}
+                    rows={12}
+                    value={drafts[key]?.body ?? ""}
+                    onChange={(e) => updateDraft(key, { body: e.target.value })}
+                  />
+                </div>
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Beschikbare velden</h3>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {Object.entries(MAIL_PLACEHOLDERS).map(([name, description]) => (
+              <div key={name} className="flex justify-between">
+                <dt className="font-mono text-primary">{`{{${name}}}`}</dt>
+                <dd className="text-gray-500">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Sluiten
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            disabled={!activeDraft?.subject.trim() || !activeDraft?.body.trim() || saveMutation.isPending}
+            onClick={() => activeDraft && saveMutation.mutate({ key: activeKey, template: activeDraft })}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Opslaan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
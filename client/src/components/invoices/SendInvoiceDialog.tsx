@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaEnvelope } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { MAIL_TEMPLATE_KEYS, MAIL_TEMPLATE_LABELS, type MailTemplateKey } from "@shared/mailTemplates";
+import type { Invoice, InvoiceMail } from "@shared/schema";
+
+interface InvoiceMailPreview {
+  recipient: string | null;
+  subject: string;
+  text: string;
+}
+
+interface SendInvoiceDialogProps {
+  invoice: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSent?: (invoice: Invoice) => void;
+}
+
+// Sends an invoice or a reminder of it as e-mail with the PDF attached, showing the e-mail as it will be sent
+// and the e-mails sent before
+export default function SendInvoiceDialog({ invoice, open, onOpenChange, onSent }: SendInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<MailTemplateKey>("invoice");
+  const [recipient, setRecipient] = useState("");
+
+  const { data: preview, isLoading: isPreviewLoading } = useQuery<InvoiceMailPreview>({
+    queryKey: [`/api/invoices/${invoice?.id}/mail-preview?type=${type}`],
+    enabled: open && !!invoice,
+    staleTime: 0,
+  });
+
+  const { data: mails = [] } = useQuery<InvoiceMail[]>({
+    queryKey: [`/api/invoices/${invoice?.id}/mails`],
+    enabled: open && !!invoice,
+    staleTime: 0,
+  });
+
+  // A concept is sent as invoice; once sent, the next e-mail is usually a reminder
+  useEffect(() => {
+    if (open && invoice) setType(invoice.status === "Concept" ? "invoice" : "reminder");
+  }, [open, invoice]);
+
+  useEffect(() => {
+    if (open) setRecipient(preview?.recipient ?? "");
+  }, [open, preview?.recipient]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (): Promise<{ invoice: Invoice; mail: InvoiceMail }> => {
+      const res = await apiRequest('POST', `/api/invoices/${invoice!.id}/send`, { type, recipient: recipient.trim() });
+      return res.json();
+    },
+    onSuccess: (sent) => {
+      toast({
+        title: type === "invoice" ? "Factuur verstuurd" : "Herinnering verstuurd",
+        description: `De e-mail is verstuurd naar ${recipient.trim()}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice!.id}/mails`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit?entity=invoice&id=${invoice!.id}`] });
+      onSent?.(sent.invoice);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het versturen van de e-mail: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Factuur versturen</DialogTitle>
+          <DialogDescription>
+            {invoice?.invoiceNumber} wordt als PDF meegestuurd.
+            {invoice?.status === "Concept" && type === "invoice" && " Na het versturen krijgt de factuur de status Verzonden."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="mail-type">Soort e-mail</Label>
+              <Select value={type} onValueChange={(value) => setType(value as MailTemplateKey)}>
+                <SelectTrigger id="mail-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAIL_TEMPLATE_KEYS.map(key => (
+                    <SelectItem key={key} value={key}>{MAIL_TEMPLATE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mail-recipient">Aan</Label>
+              <Input
+                id="mail-recipient"
+                type="email"
+                placeholder="E-mailadres van de klant"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isPreviewLoading || !preview ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <div className="border-b bg-gray-50 px-4 py-2 text-sm font-medium">{preview.subject}</div>
+              <div className="px-4 py-3 text-sm whitespace-pre-wrap max-h-60 overflow-y-auto">{preview.text}</div>
+            </div>
+          )}
+
+          {mails.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Eerder verstuurd</h3>
+              <ul className="space-y-1 text-sm">
+                {mails.map(mail => (
+                  <li key={mail.id} className="flex justify-between text-gray-600">
+                    <span>{MAIL_TEMPLATE_LABELS[mail.type as MailTemplateKey] ?? mail.type} aan {mail.recipient}</span>
+                    <span className="text-gray-400">{format(new Date(mail.sentAt), 'dd-MM-yyyy HH:mm')}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Annuleren
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            disabled={!invoice || !recipient.trim() || sendMutation.isPending}
+            onClick={() => sendMutation.mutate()}
+          >
+            {sendMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FaEnvelope className="mr-2 h-4 w-4" />
+            )}
+            Versturen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { FileText, Loader2, Package, Receipt, Search, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { useNavigation } from '@/contexts/NavigationContext';
+import { useDebouncedValue } from '@/hooks/use-paginated-query';
+import { SEARCH_MIN_LENGTH, SEARCH_TYPES, type SearchResult, type SearchType } from '@shared/search';
+
+// Per type: heading of the group, icon and the page on which a result is opened
+const SEARCH_GROUPS: Record<SearchType, { heading: string; icon: React.ReactNode; view: string }> = {
+  customer: { heading: 'Klanten', icon: <Users className="mr-2" />, view: 'klanten' },
+  workorder: { heading: 'Werkbonnen', icon: <FileText className="mr-2" />, view: 'werkbonnen' },
+  invoice: { heading: 'Facturen', icon: <Receipt className="mr-2" />, view: 'facturen' },
+  material: { heading: 'Materialen', icon: <Package className="mr-2" />, view: 'materialen' },
+};
+
+// Global search, opened with Ctrl+K (Cmd+K on a Mac) or the search button in the navigation bar.
+// Selecting a result opens it on its own page through the `open` query parameter.
+export default function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const search = useDebouncedValue(searchTerm.trim(), 200);
+  const [, setLocation] = useLocation();
+  const { setActiveView } = useNavigation();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        setOpen(isOpen => !isOpen);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(search)}`],
+    enabled: open && search.length >= SEARCH_MIN_LENGTH,
+    staleTime: 30 * 1000,
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setSearchTerm('');
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    const { view } = SEARCH_GROUPS[result.type];
+    handleOpenChange(false);
+    setActiveView(view);
+    setLocation(`/${view}?open=${result.id}`);
+  };
+
+  const tooShort = search.length < SEARCH_MIN_LENGTH;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="hidden md:flex w-64 justify-between text-gray-500 font-normal"
+        onClick={() => setOpen(true)}
+      >
+        <span className="flex items-center">
+          <Search className="mr-2 h-4 w-4" />
+          Zoeken...
+        </span>
+        <kbd className="text-xs text-gray-400">Ctrl K</kbd>
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="md:hidden text-gray-600 hover:text-primary"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-5 w-5" />
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput
+          placeholder="Zoek klanten, werkbonnen, facturen of artikelnummers..."
+          value={searchTerm}
+          onValueChange={setSearchTerm}
+        />
+        <CommandList>
+          {tooShort ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              Typ minimaal {SEARCH_MIN_LENGTH} tekens om te zoeken
+            </p>
+          ) : isFetching && results.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : (
+            <CommandEmpty>Geen resultaten gevonden</CommandEmpty>
+          )}
+          {!tooShort && SEARCH_TYPES.map(type => {
+            const group = results.filter(result => result.type === type);
+            if (group.length === 0) return null;
+            return (
+              <CommandGroup key={type} heading={SEARCH_GROUPS[type].heading}>
+                {group.map(result => (
+                  <CommandItem
+                    key={`${type}-${result.id}`}
+                    value={`${type}-${result.id}`}
+                    onSelect={() => handleSelect(result)}
+                  >
+                    {SEARCH_GROUPS[type].icon}
+                    <span className="font-medium">{result.title}</span>
+                    {result.subtitle && (
+                      <CommandShortcut className="tracking-normal">{result.subtitle}</CommandShortcut>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link } from 'wouter';
 import Logo from '@/components/Logo';
+import CommandPalette from './CommandPalette';
 import { Bell, LogOut, Settings, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { 
@@ -31,6 +32,8 @@ export default function Navbar({ onLogout, isLoggingOut = false }: NavbarProps)
         </div>
         
         <div className="flex items-center space-x-2">
+          <CommandPalette />
+          
           <Button variant="ghost" size="icon" className="text-gray-600 hover:text-primary">
             <Bell className="h-5 w-5" />
           </Button>
@@ -44,14 +47,18 @@ export default function Navbar({ onLogout, isLoggingOut = false }: NavbarProps)
             <DropdownMenuContent align="end">
               <DropdownMenuLabel>Mijn Account</DropdownMenuLabel>
               <DropdownMenuSeparator />
-              <DropdownMenuItem>
-                <User className="mr-2 h-4 w-4" />
-                <span>Profiel</span>
-              </DropdownMenuItem>
-              <DropdownMenuItem>
-                <Settings className="mr-2 h-4 w-4" />
-                <span>Instellingen</span>
-              </DropdownMenuItem>
+              <Link href="/account">
+                <DropdownMenuItem>
+                  <User className="mr-2 h-4 w-4" />
+                  <span>Profiel</span>
+                </DropdownMenuItem>
+              </Link>
+              <Link href="/account">
+                <DropdownMenuItem>
+                  <Settings className="mr-2 h-4 w-4" />
+                  <span>Instellingen</span>
+                </DropdownMenuItem>
+              </Link>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={onLogout} disabled={isLoggingOut || !onLogout}>
                 <LogOut className="mr-2 h-4 w-4" />
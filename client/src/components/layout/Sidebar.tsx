@@ -1,14 +1,25 @@
 import React from 'react';
 import { Link } from 'wouter';
-import { LayoutDashboard, FileText, Users, Package, Receipt } from 'lucide-react';
+import { LayoutDashboard, FileText, ClipboardCheck, CalendarDays, CalendarOff, Route, Users, Repeat, Package, Receipt, UserCog, FolderKanban, FileSignature } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, type Permission } from '@shared/permissions';
 
 interface SidebarProps {
   activeView: string;
 }
 
+interface NavItem {
+  name: string;
+  icon: React.ReactNode;
+  href: string;
+  active: boolean;
+  permission?: Permission;
+}
+
 export default function Sidebar({ activeView }: SidebarProps) {
-  const navItems = [
+  const { user } = useAuth();
+  const navItems: NavItem[] = [
     {
       name: 'Dashboard',
       icon: <LayoutDashboard className="h-5 w-5" />,
@@ -21,23 +32,76 @@ export default function Sidebar({ activeView }: SidebarProps) {
       href: '/werkbonnen',
       active: activeView === 'werkbonnen'
     },
+    {
+      name: 'Mijn werkbonnen',
+      icon: <ClipboardCheck className="h-5 w-5" />,
+      href: '/mijn-werkbonnen',
+      active: activeView === 'mijn-werkbonnen'
+    },
+    {
+      name: 'Planning',
+      icon: <CalendarDays className="h-5 w-5" />,
+      href: '/planning',
+      active: activeView === 'planning'
+    },
+    {
+      name: 'Route',
+      icon: <Route className="h-5 w-5" />,
+      href: '/route',
+      active: activeView === 'route'
+    },
+    {
+      name: 'Beschikbaarheid',
+      icon: <CalendarOff className="h-5 w-5" />,
+      href: '/beschikbaarheid',
+      active: activeView === 'beschikbaarheid'
+    },
     {
       name: 'Klanten',
       icon: <Users className="h-5 w-5" />,
       href: '/klanten',
       active: activeView === 'klanten'
     },
+    {
+      name: 'Projecten',
+      icon: <FolderKanban className="h-5 w-5" />,
+      href: '/projecten',
+      active: activeView === 'projecten',
+      permission: 'projects:read'
+    },
+    {
+      name: 'Onderhoudscontracten',
+      icon: <Repeat className="h-5 w-5" />,
+      href: '/onderhoudscontracten',
+      active: activeView === 'onderhoudscontracten',
+      permission: 'contracts:read'
+    },
     {
       name: 'Materialen',
       icon: <Package className="h-5 w-5" />,
       href: '/materialen',
       active: activeView === 'materialen'
     },
+    {
+      name: 'Offertes',
+      icon: <FileSignature className="h-5 w-5" />,
+      href: '/offertes',
+      active: activeView === 'offertes',
+      permission: 'quotes:read'
+    },
     {
       name: 'Facturen',
       icon: <Receipt className="h-5 w-5" />,
       href: '/facturen',
-      active: activeView === 'facturen'
+      active: activeView === 'facturen',
+      permission: 'invoices:read'
+    },
+    {
+      name: 'Gebruikers',
+      icon: <UserCog className="h-5 w-5" />,
+      href: '/gebruikers',
+      active: activeView === 'gebruikers',
+      permission: 'users:manage'
     }
   ];
 
@@ -45,7 +109,7 @@ export default function Sidebar({ activeView }: SidebarProps) {
     <div className="hidden md:block w-64 bg-white h-[calc(100vh-4rem)] border-r border-gray-200">
       <div className="p-4">
         <nav className="space-y-1">
-          {navItems.map((item) => (
+          {navItems.filter(item => !item.permission || hasPermission(user?.role, item.permission)).map((item) => (
             <Link key={item.name} href={item.href}>
               <div className={cn(
                 "flex items-center px-4 py-2.5 text-sm font-medium rounded-md",
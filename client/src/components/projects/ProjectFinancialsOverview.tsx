@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { FaExclamationTriangle } from "react-icons/fa";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatCurrency } from "@/lib/utils";
+import type { ProjectCosts, ProjectFinancials } from "@shared/projects";
+
+const COST_ROWS: { label: string; key: Exclude<keyof ProjectCosts, "total">; hours?: boolean }[] = [
+  { label: "Arbeid (uren)", key: "laborHours", hours: true },
+  { label: "Arbeid", key: "labor" },
+  { label: "Materialen", key: "materials" },
+  { label: "Onderaanneming", key: "subcontracting" },
+];
+
+interface ProjectFinancialsOverviewProps {
+  projectId: number;
+}
+
+// Budget versus actual costs of a project, with the invoiced amount and the margin
+export default function ProjectFinancialsOverview({ projectId }: ProjectFinancialsOverviewProps) {
+  // Costs change with every work order and invoice, so the overview is fetched again each time it is opened
+  const { data: financials, isLoading } = useQuery<ProjectFinancials>({
+    queryKey: [`/api/projects/${projectId}/financials`],
+    staleTime: 0,
+    retry: 1,
+  });
+
+  if (isLoading || !financials) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const formatValue = (value: number, hours?: boolean) => hours ? `${value} uur` : formatCurrency(value);
+  const differenceClass = (difference: number) => difference < 0 ? "text-red-600" : "text-gray-900";
+  const difference = (key: keyof ProjectCosts) => Math.round((financials.budget[key] - financials.actual[key]) * 100) / 100;
+
+  return (
+    <div className="space-y-4">
+      {financials.overBudget && (
+        <Alert variant="destructive">
+          <AlertDescription className="flex items-center gap-2">
+            <FaExclamationTriangle />
+            Dit project heeft meer dan {financials.warningPercentage}% van het budget verbruikt.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left font-medium py-2" />
+            <th className="text-right font-medium py-2">Budget</th>
+            <th className="text-right font-medium py-2">Werkelijk</th>
+            <th className="text-right font-medium py-2">Verschil</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COST_ROWS.map(({ label, key, hours }) => (
+            <tr key={key} className="border-b border-gray-100">
+              <td className="py-2">{label}</td>
+              <td className="py-2 text-right">{formatValue(financials.budget[key], hours)}</td>
+              <td className="py-2 text-right">{formatValue(financials.actual[key], hours)}</td>
+              <td className={`py-2 text-right ${differenceClass(difference(key))}`}>{formatValue(difference(key), hours)}</td>
+            </tr>
+          ))}
+          <tr className="font-medium">
+            <td className="py-2">Totaal</td>
+            <td className="py-2 text-right">{formatCurrency(financials.budget.total)}</td>
+            <td className="py-2 text-right">{formatCurrency(financials.actual.total)}</td>
+            <td className={`py-2 text-right ${differenceClass(difference("total"))}`}>{formatCurrency(difference("total"))}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm border-t pt-4">
+        <dt className="text-gray-500">Budget verbruikt</dt>
+        <dd className="text-right">{financials.budgetUsed === null ? "-" : `${financials.budgetUsed}%`}</dd>
+        <dt className="text-gray-500">Gefactureerd</dt>
+        <dd className="text-right">{formatCurrency(financials.invoiced)}</dd>
+        <dt className="text-gray-500">Marge (gefactureerd min werkelijke kosten)</dt>
+        <dd className={`text-right font-medium ${differenceClass(financials.margin)}`}>{formatCurrency(financials.margin)}</dd>
+        <dt className="text-gray-500">Verwachte marge (aanneemsom min budget)</dt>
+        <dd className="text-right">{financials.expectedMargin === null ? "-" : formatCurrency(financials.expectedMargin)}</dd>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaLink, FaTimes } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { addDays, differenceInCalendarDays, format, max, min, parseISO, startOfDay } from "date-fns";
+import type { GanttData } from "@shared/gantt";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ProjectGanttProps {
+  projectId: number;
+  editable?: boolean;
+}
+
+// Gantt chart of the work orders of a project with their finish-to-start dependencies. Work orders on the
+// critical path are shown in red: any delay of these delays the whole project.
+export default function ProjectGantt({ projectId, editable = false }: ProjectGanttProps) {
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [dependsOnId, setDependsOnId] = useState("");
+  const { toast } = useToast();
+  const ganttKey = [`/api/projects/${projectId}/gantt`];
+
+  const { data: gantt, isLoading } = useQuery<GanttData>({
+    queryKey: ganttKey,
+    retry: 1,
+  });
+
+  // Adding a dependency can move work orders, which changes the planning everywhere
+  const onDependenciesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ganttKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/workorders`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/dependencies`, {
+        workOrderId: parseInt(workOrderId),
+        dependsOnId: parseInt(dependsOnId),
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setWorkOrderId("");
+      setDependsOnId("");
+      onDependenciesChanged();
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij toevoegen afhankelijkheid",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependency: { workOrderId: number, dependsOnId: number }) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/dependencies/${dependency.workOrderId}/${dependency.dependsOnId}`);
+    },
+    onSuccess: onDependenciesChanged,
+    onError: (error) => {
+      toast({
+        title: "Fout bij verwijderen afhankelijkheid",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !gantt) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { project, tasks, dependencies, criticalPath } = gantt;
+  if (tasks.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Nog geen ingeplande werkbonnen in dit project</p>;
+  }
+
+  // The chart runs from the project start (or the first work order) to the project end (or the last work order)
+  const chartStart = startOfDay(min([new Date(project.startDate), ...tasks.map(task => parseISO(task.start))]));
+  const chartEnd = addDays(startOfDay(max([
+    ...(project.endDate ? [new Date(project.endDate)] : []),
+    ...tasks.map(task => parseISO(task.end)),
+  ])), 1);
+  const totalDays = differenceInCalendarDays(chartEnd, chartStart);
+  const position = (date: string) => ((parseISO(date).getTime() - chartStart.getTime()) / DAY_MS / totalDays) * 100;
+  const dayLabelStep = Math.max(1, Math.ceil(totalDays / 10));
+
+  const getOrderNumber = (id: number) => tasks.find(task => task.id === id)?.orderNumber ?? `#${id}`;
+  const isCritical = (id: number) => criticalPath.includes(id);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <div className="min-w-[560px]">
+          <div className="flex text-xs text-gray-500 border-b pb-1">
+            <div className="w-40 shrink-0" />
+            <div className="relative flex-1 h-4">
+              {Array.from({ length: totalDays }, (_, day) => day)
+                .filter(day => day % dayLabelStep === 0)
+                .map(day => (
+                  <span key={day} className="absolute" style={{ left: `${(day / totalDays) * 100}%` }}>
+                    {format(addDays(chartStart, day), "dd-MM")}
+                  </span>
+                ))}
+            </div>
+          </div>
+
+          {tasks.map(task => {
+            const predecessors = dependencies.filter(dependency => dependency.workOrderId === task.id);
+            return (
+              <div key={task.id} className="flex items-center py-1 border-b border-gray-100 text-sm">
+                <div className="w-40 shrink-0 pr-2">
+                  <div className="font-medium truncate" title={task.title}>{task.orderNumber}</div>
+                  {predecessors.length > 0 && (
+                    <div className="text-xs text-gray-500 truncate">
+                      na {predecessors.map(dependency => getOrderNumber(dependency.dependsOnId)).join(", ")}
+                    </div>
+                  )}
+                </div>
+                <div className="relative flex-1 h-6 bg-gray-50 rounded">
+                  <div
+                    className={`absolute h-full rounded ${isCritical(task.id) ? "bg-red-500" : "bg-primary"} ${task.status === "Voltooid" ? "opacity-50" : ""}`}
+                    style={{
+                      left: `${position(task.start)}%`,
+                      width: `${Math.max(position(task.end) - position(task.start), 0.5)}%`,
+                    }}
+                    title={`${task.title}: ${format(parseISO(task.start), "dd-MM-yyyy HH:mm")} - ${format(parseISO(task.end), "dd-MM-yyyy HH:mm")} (${task.status})`}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-red-500" /> Kritiek pad</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-primary" /> Werkbon</span>
+      </div>
+
+      {editable && (
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-medium text-gray-700">Afhankelijkheden</h4>
+          {dependencies.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nog geen afhankelijkheden</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-40 overflow-y-auto">
+              {dependencies.map(dependency => (
+                <li key={`${dependency.workOrderId}-${dependency.dependsOnId}`} className="flex items-center justify-between py-1 text-sm">
+                  <span>
+                    <span className="font-medium">{getOrderNumber(dependency.workOrderId)}</span>
+                    <span className="text-gray-500"> start na afronding van </span>
+                    <span className="font-medium">{getOrderNumber(dependency.dependsOnId)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Verwijderen"
+                    className="text-red-600 hover:text-red-800"
+                    disabled={removeDependencyMutation.isPending}
+                    onClick={() => removeDependencyMutation.mutate(dependency)}
+                  >
+                    <FaTimes />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Select value={workOrderId} onValueChange={setWorkOrderId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Werkbon" />
+              </SelectTrigger>
+              <SelectContent>
+                {tasks.map(task => (
+                  <SelectItem key={task.id} value={task.id.toString()}>{task.orderNumber} - {task.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="self-center text-sm text-gray-500">na</span>
+            <Select value={dependsOnId} onValueChange={setDependsOnId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Voorganger" />
+              </SelectTrigger>
+              <SelectContent>
+                {tasks.filter(task => task.id.toString() !== workOrderId).map(task => (
+                  <SelectItem key={task.id} value={task.id.toString()}>{task.orderNumber} - {task.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="bg-primary hover:bg-[#003A66]"
+              disabled={!workOrderId || !dependsOnId || addDependencyMutation.isPending}
+              onClick={() => addDependencyMutation.mutate()}
+            >
+              {addDependencyMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FaLink className="mr-2 h-4 w-4" />}
+              Toevoegen
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Een werkbon die te vroeg begint wordt automatisch verschoven naar het einde van zijn voorganger.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
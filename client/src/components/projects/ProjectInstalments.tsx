@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaFileInvoice, FaPlus, FaTimes } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage } from "@/lib/formErrors";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { isCompleteSchedule, type ProjectInstalmentWithAmount } from "@shared/instalments";
+import type { WorkOrder } from "@shared/schema";
+
+// Term that is not invoiced yet, as edited in the form; a term has either a date or a milestone work order
+interface OpenInstalment {
+  id?: number;
+  description: string;
+  percentage: number;
+  dueDate: string; // yyyy-MM-dd, empty for a milestone
+  milestoneWorkOrderId: number | null;
+}
+
+const MILESTONE = "milestone";
+
+function toOpenInstalment(instalment: ProjectInstalmentWithAmount): OpenInstalment {
+  return {
+    id: instalment.id,
+    description: instalment.description,
+    percentage: instalment.percentage,
+    dueDate: instalment.dueDate ? format(new Date(instalment.dueDate), "yyyy-MM-dd") : "",
+    milestoneWorkOrderId: instalment.milestoneWorkOrderId,
+  };
+}
+
+interface ProjectInstalmentsProps {
+  projectId: number;
+  price: number | null;
+  editable?: boolean;
+  canInvoice?: boolean;
+}
+
+// Instalment schedule (termijnen) of a project. Terms are invoiced automatically on their date or when their
+// milestone work order is completed; invoiced terms can no longer be changed.
+export default function ProjectInstalments({ projectId, price, editable = false, canInvoice = false }: ProjectInstalmentsProps) {
+  const { toast } = useToast();
+  const instalmentsKey = [`/api/projects/${projectId}/instalments`];
+  const [openInstalments, setOpenInstalments] = useState<OpenInstalment[]>([]);
+
+  const { data: instalments = [], isLoading } = useQuery<ProjectInstalmentWithAmount[]>({
+    queryKey: instalmentsKey,
+    staleTime: 0,
+    retry: 1,
+  });
+
+  const { data: workOrders = [] } = useQuery<WorkOrder[]>({
+    queryKey: [`/api/projects/${projectId}/workorders`],
+    enabled: editable,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    setOpenInstalments(instalments.filter(instalment => instalment.invoiceId === null).map(toOpenInstalment));
+  }, [instalments]);
+
+  const onInstalmentsChanged = (updated?: ProjectInstalmentWithAmount[]) => {
+    if (updated) queryClient.setQueryData(instalmentsKey, updated);
+    queryClient.invalidateQueries({ queryKey: instalmentsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects/financials'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/projects/${projectId}/instalments`, {
+        instalments: openInstalments.map(({ dueDate, milestoneWorkOrderId, ...instalment }) => ({
+          ...instalment,
+          dueDate: milestoneWorkOrderId ? null : new Date(dueDate).toISOString(),
+          milestoneWorkOrderId,
+        })),
+      });
+      return await response.json();
+    },
+    onSuccess: (updated: ProjectInstalmentWithAmount[]) => {
+      toast({ title: "Termijnen opgeslagen", description: "Het termijnschema van het project is opgeslagen." });
+      onInstalmentsChanged(updated);
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij opslaan termijnen",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (instalmentId: number) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/instalments/${instalmentId}/invoice`);
+      return await response.json();
+    },
+    onSuccess: (invoice: { invoiceNumber: string }) => {
+      toast({ title: "Termijn gefactureerd", description: `Conceptfactuur ${invoice.invoiceNumber} is aangemaakt.` });
+      onInstalmentsChanged();
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij factureren termijn",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const invoiced = instalments.filter(instalment => instalment.invoiceId !== null);
+  const percentages = [...invoiced, ...openInstalments].map(instalment => instalment.percentage);
+  const total = Math.round(percentages.reduce((sum, percentage) => sum + percentage, 0) * 100) / 100;
+  const isValid = percentages.length === 0 || isCompleteSchedule(percentages);
+  const isFilledIn = openInstalments.every(instalment =>
+    instalment.description.trim() && (instalment.milestoneWorkOrderId || instalment.dueDate));
+  const hasChanges = JSON.stringify(openInstalments) !==
+    JSON.stringify(instalments.filter(instalment => instalment.invoiceId === null).map(toOpenInstalment));
+
+  const updateInstalment = (index: number, changes: Partial<OpenInstalment>) =>
+    setOpenInstalments(current => current.map((instalment, i) => i === index ? { ...instalment, ...changes } : instalment));
+
+  const formatAmount = (percentage: number) => price == null ? "-" : formatCurrency(price * percentage / 100);
+
+  return (
+    <div className="space-y-4">
+      {price == null && (
+        <p className="text-sm text-red-600">Vul eerst een aanneemsom in bij het project om termijnen te kunnen factureren.</p>
+      )}
+
+      {invoiced.length > 0 && (
+        <ul className="divide-y divide-gray-200">
+          {invoiced.map(instalment => (
+            <li key={instalment.id} className="flex items-center justify-between py-2 text-sm">
+              <span>
+                <span className="font-medium">Termijn {instalment.sequence}: {instalment.description}</span>
+                <span className="text-gray-500"> ({instalment.percentage}%)</span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span>{instalment.amount !== null && formatCurrency(instalment.amount)}</span>
+                <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                  Gefactureerd {instalment.invoicedAt && format(new Date(instalment.invoicedAt), "dd-MM-yyyy")}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openInstalments.length === 0 && invoiced.length === 0 && (
+        <p className="text-sm text-gray-500 italic">Nog geen termijnen</p>
+      )}
+
+      {openInstalments.map((instalment, index) => (
+        <div key={instalment.id ?? `new-${index}`} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="w-20 text-gray-500">Termijn {invoiced.length + index + 1}</span>
+          <Input
+            className="flex-1 min-w-[140px]"
+            placeholder="Omschrijving, bijv. Start werkzaamheden"
+            value={instalment.description}
+            disabled={!editable}
+            onChange={(e) => updateInstalment(index, { description: e.target.value })}
+          />
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            className="w-20"
+            value={instalment.percentage}
+            disabled={!editable}
+            onChange={(e) => updateInstalment(index, { percentage: parseFloat(e.target.value) || 0 })}
+          />
+          <span className="text-gray-500">%</span>
+          <Select
+            value={instalment.milestoneWorkOrderId ? MILESTONE : "date"}
+            disabled={!editable}
+            onValueChange={(value) => updateInstalment(index, value === MILESTONE
+              ? { milestoneWorkOrderId: workOrders[0]?.id ?? null, dueDate: "" }
+              : { milestoneWorkOrderId: null })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">Op datum</SelectItem>
+              <SelectItem value={MILESTONE} disabled={workOrders.length === 0}>Bij mijlpaal</SelectItem>
+            </SelectContent>
+          </Select>
+          {instalment.milestoneWorkOrderId ? (
+            <Select
+              value={instalment.milestoneWorkOrderId.toString()}
+              disabled={!editable}
+              onValueChange={(value) => updateInstalment(index, { milestoneWorkOrderId: parseInt(value) })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Werkbon" />
+              </SelectTrigger>
+              <SelectContent>
+                {workOrders.map(workOrder => (
+                  <SelectItem key={workOrder.id} value={workOrder.id.toString()}>{workOrder.orderNumber} voltooid</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              type="date"
+              className="w-44"
+              value={instalment.dueDate}
+              disabled={!editable}
+              onChange={(e) => updateInstalment(index, { dueDate: e.target.value })}
+            />
+          )}
+          <span className="w-24 text-right">{formatAmount(instalment.percentage)}</span>
+          {canInvoice && instalment.id !== undefined && price != null && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Nu factureren"
+              className="text-primary hover:text-[#003A66]"
+              disabled={hasChanges || invoiceMutation.isPending}
+              onClick={() => invoiceMutation.mutate(instalment.id!)}
+            >
+              <FaFileInvoice />
+            </Button>
+          )}
+          {editable && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Verwijderen"
+              className="text-red-600 hover:text-red-800"
+              onClick={() => setOpenInstalments(current => current.filter((_, i) => i !== index))}
+            >
+              <FaTimes />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between border-t pt-4 text-sm">
+        <span className={isValid ? "text-gray-500" : "text-red-600 font-medium"}>
+          Totaal {total}% {price != null && `(${formatCurrency(price * total / 100)} van ${formatCurrency(price)})`}
+          {!isValid && " - de termijnen moeten samen 100% zijn"}
+        </span>
+        {editable && (
+          <span className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setOpenInstalments(current => [
+                ...current,
+                { description: "", percentage: Math.max(0, Math.round((100 - total) * 100) / 100), dueDate: format(new Date(), "yyyy-MM-dd"), milestoneWorkOrderId: null },
+              ])}
+            >
+              <FaPlus className="mr-2 h-4 w-4" /> Termijn
+            </Button>
+            <Button
+              className="bg-primary hover:bg-[#003A66]"
+              disabled={!isValid || !isFilledIn || !hasChanges || price == null || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Opslaan
+            </Button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
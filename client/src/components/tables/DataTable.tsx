@@ -1,4 +1,5 @@
 import { ReactNode } from "react";
+import { FaSort, FaSortDown, FaSortUp } from "react-icons/fa";
 import { Card } from "@/components/ui/card";
 import Pagination from "./Pagination";
 
@@ -7,6 +8,7 @@ interface DataTableColumn<T> {
   accessorKey: keyof T | ((row: T) => ReactNode);
   cell?: (row: T) => ReactNode;
   className?: string;
+  sortKey?: string; // Field the server sorts on when the header is clicked; unsortable when left out
 }
 
 interface DataTableProps<T> {
@@ -16,6 +18,8 @@ interface DataTableProps<T> {
   currentPage: number;
   onPageChange: (page: number) => void;
   itemsPerPage: number;
+  sort?: string; // Current sort, e.g. "name" or "-date" for descending
+  onSortChange?: (sort: string) => void;
 }
 
 export default function DataTable<T>({
@@ -25,7 +29,20 @@ export default function DataTable<T>({
   currentPage,
   onPageChange,
   itemsPerPage,
+  sort,
+  onSortChange,
 }: DataTableProps<T>) {
+  // Clicking the sorted column again flips the direction; another column starts ascending
+  const toggleSort = (sortKey: string) => {
+    onSortChange?.(sort === sortKey ? `-${sortKey}` : sortKey);
+  };
+
+  const renderSortIcon = (sortKey: string) => {
+    if (sort === sortKey) return <FaSortUp className="ml-1" />;
+    if (sort === `-${sortKey}`) return <FaSortDown className="ml-1" />;
+    return <FaSort className="ml-1 text-gray-300" />;
+  };
+
   const renderCell = (row: T, column: DataTableColumn<T>) => {
     if (column.cell) {
       return column.cell(row);
@@ -52,7 +69,18 @@ export default function DataTable<T>({
                   scope="col"
                   className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${column.className || ""}`}
                 >
-                  {column.header}
+                  {column.sortKey && onSortChange ? (
+                    <button
+                      type="button"
+                      className="inline-flex items-center uppercase tracking-wider hover:text-gray-700"
+                      onClick={() => toggleSort(column.sortKey!)}
+                    >
+                      {column.header}
+                      {renderSortIcon(column.sortKey)}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
                 </th>
               ))}
             </tr>
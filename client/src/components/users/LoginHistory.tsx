@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { LoginAttempt } from "@shared/schema";
+
+const REASON_LABELS: Record<string, string> = {
+  invalid_credentials: "Onjuist wachtwoord of onbekende gebruiker",
+  invalid_code: "Onjuiste verificatiecode",
+  locked: "Account geblokkeerd",
+  throttled: "Te veel pogingen",
+  inactive: "Account gedeactiveerd",
+};
+
+// Recent login attempts, to spot password guessing
+export default function LoginHistory() {
+  const [resultFilter, setResultFilter] = useState("failed");
+
+  const { data: attempts = [], isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: ['/api/login-history', resultFilter],
+    queryFn: async () => {
+      const query = resultFilter === "all" ? "" : `&success=${resultFilter === "success"}`;
+      const response = await apiRequest("GET", `/api/login-history?limit=200${query}`);
+      return await response.json();
+    },
+    retry: 1,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow rounded-lg p-4">
+        <div className="sm:max-w-xs">
+          <label className="block text-sm font-medium text-gray-700">Resultaat</label>
+          <Select value={resultFilter} onValueChange={setResultFilter}>
+            <SelectTrigger className="w-full mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Alle pogingen</SelectItem>
+              <SelectItem value="failed">Mislukt</SelectItem>
+              <SelectItem value="success">Gelukt</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Card className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tijdstip</TableHead>
+                <TableHead>Gebruikersnaam</TableHead>
+                <TableHead>IP-adres</TableHead>
+                <TableHead>Resultaat</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attempts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-gray-500 italic">
+                    Geen inlogpogingen gevonden
+                  </TableCell>
+                </TableRow>
+              ) : attempts.map(attempt => (
+                <TableRow key={attempt.id}>
+                  <TableCell className="text-sm text-gray-500">
+                    {format(new Date(attempt.createdAt), "dd-MM-yyyy HH:mm:ss")}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">{attempt.username || "-"}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{attempt.ipAddress || "-"}</TableCell>
+                  <TableCell>
+                    {attempt.success ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                        Gelukt
+                      </span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        {REASON_LABELS[attempt.reason || ""] || "Mislukt"}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
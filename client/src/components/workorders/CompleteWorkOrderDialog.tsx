@@ -0,0 +1,237 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FaTrash, FaUpload, FaCamera } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { WorkOrder } from "@shared/schema";
+
+interface CompleteWorkOrderDialogProps {
+  workOrder: WorkOrder | null;
+  customerName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CompleteWorkOrderDialog({
+  workOrder,
+  customerName,
+  open,
+  onOpenChange,
+}: CompleteWorkOrderDialogProps) {
+  const [uploadedPhotos, setUploadedPhotos] = useState<string[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Mutation for completing a work order
+  const completeWorkOrderMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: { photos: string[], notes: string, laborHours: number } }) => {
+      const response = await apiRequest("PUT", `/api/workorders/${id}/complete`, {
+        ...data,
+        status: "Voltooid"
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Werkbon afgemeld",
+        description: "De werkbon is succesvol afgemeld",
+      });
+      handleClose();
+      queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij afmelden werkbon",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setUploadedPhotos([]);
+    onOpenChange(false);
+  };
+
+  // Handle photo upload
+  const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    // Process each file
+    Array.from(files).forEach(file => {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        if (e.target?.result) {
+          setUploadedPhotos(prev => [...prev, e.target!.result as string]);
+        }
+      };
+      reader.readAsDataURL(file);
+    });
+  };
+
+  // Remove photo from uploaded photos
+  const handleRemovePhoto = (index: number) => {
+    setUploadedPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Submit complete work order form
+  const handleCompleteSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!workOrder) return;
+
+    const formData = new FormData(e.currentTarget);
+    const notes = formData.get('notes') as string || '';
+    const laborHours = parseFloat(formData.get('laborHours') as string) || 0;
+
+    completeWorkOrderMutation.mutate({
+      id: workOrder.id,
+      data: {
+        notes,
+        laborHours,
+        photos: uploadedPhotos
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Werkbon afmelden</DialogTitle>
+          <DialogDescription>
+            Vul de details in om de werkbon af te melden als voltooid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCompleteSubmit} className="space-y-4">
+          {workOrder && (
+            <div className="grid grid-cols-2 gap-6 mb-4">
+              <div>
+                <h3 className="text-sm font-medium">Werkbon Nummer</h3>
+                <p className="text-primary font-semibold">{workOrder.orderNumber || `WO-${workOrder.id}`}</p>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium">Klant</h3>
+                <p className="text-gray-500">
+                  {customerName || "Onbekend"}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="laborHours" className="block text-sm font-medium text-gray-700">
+              Gewerkte uren
+            </label>
+            <Input
+              type="number"
+              id="laborHours"
+              name="laborHours"
+              min="0"
+              step="0.5"
+              defaultValue={workOrder?.laborHours || 0}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+              Notities / Opmerkingen
+            </label>
+            <Textarea
+              id="notes"
+              name="notes"
+              placeholder="Voeg hier eventuele notities of opmerkingen toe"
+              className="mt-1 resize-none h-24"
+              defaultValue={workOrder?.notes || ""}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Foto's toevoegen
+            </label>
+            <div className="flex items-center gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={() => photoInputRef.current?.click()}
+              >
+                <FaCamera /> Foto nemen
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={() => photoInputRef.current?.click()}
+              >
+                <FaUpload /> Uploaden
+              </Button>
+              <input
+                type="file"
+                accept="image/*"
+                ref={photoInputRef}
+                onChange={handlePhotoUpload}
+                multiple
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {uploadedPhotos.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-medium mb-2">Geüploade foto's ({uploadedPhotos.length})</h3>
+              <div className="grid grid-cols-3 gap-4">
+                {uploadedPhotos.map((photo, index) => (
+                  <div key={index} className="relative group">
+                    <img
+                      src={photo}
+                      alt={`Uploaded photo ${index + 1}`}
+                      className="w-full h-24 object-cover rounded-md"
+                    />
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      size="sm"
+                      className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={() => handleRemovePhoto(index)}
+                    >
+                      <FaTrash size={12} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button 
+              type="button" 
+              variant="outline" 
+              onClick={handleClose}
+            >
+              Annuleren
+            </Button>
+            <Button 
+              type="submit"
+              className="bg-primary hover:bg-primary/90"
+              disabled={completeWorkOrderMutation.isPending}
+            >
+              {completeWorkOrderMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Werkbon afmelden
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaStar, FaRegStar, FaTimes, FaUserPlus } from "react-icons/fa";
+import { Loader2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { User, WorkOrderAssignment } from "@shared/schema";
+
+interface WorkOrderAssigneesProps {
+  workOrderId: number;
+  editable?: boolean;
+}
+
+export default function WorkOrderAssignees({ workOrderId, editable = false }: WorkOrderAssigneesProps) {
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const { toast } = useToast();
+  const assignmentsKey = [`/api/workorders/${workOrderId}/assignments`];
+
+  const { data: assignments = [], isLoading } = useQuery<WorkOrderAssignment[]>({
+    queryKey: assignmentsKey,
+    retry: 1,
+  });
+
+  // Fetch users to pick monteurs from
+  const { data: users = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: ['/api/users'],
+    retry: 1,
+  });
+
+  const onAssignmentsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: assignmentsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ userId, isLead }: { userId: number, isLead: boolean }) => {
+      const response = await apiRequest("POST", `/api/workorders/${workOrderId}/assignments`, { userId, isLead });
+      return await response.json();
+    },
+    onSuccess: (assignment: WorkOrderAssignment & { warnings?: string[] }) => {
+      setSelectedUserId("");
+      onAssignmentsChanged();
+      if (assignment.warnings && assignment.warnings.length > 0) {
+        toast({
+          title: `${getUserName(assignment.userId)} is niet beschikbaar`,
+          description: assignment.warnings.join("\n"),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij toewijzen monteur",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/workorders/${workOrderId}/assignments/${userId}`);
+    },
+    onSuccess: onAssignmentsChanged,
+    onError: (error) => {
+      toast({
+        title: "Fout bij verwijderen monteur",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignedIds = new Set(assignments.map(a => a.userId));
+  const availableMonteurs = users.filter(u => u.role === "monteur" && !assignedIds.has(u.id));
+  const getUserName = (userId: number) =>
+    users.find(u => u.id === userId)?.fullName || "Onbekend";
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      {assignments.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">Nog geen monteurs toegewezen</p>
+      ) : (
+        <ul className="space-y-1">
+          {assignments.map(assignment => (
+            <li key={assignment.id} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                {getUserName(assignment.userId)}
+                {assignment.isLead && <Badge className="bg-primary text-white">Hoofdmonteur</Badge>}
+              </span>
+              {editable && (
+                <span className="flex items-center">
+                  {!assignment.isLead && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Maak hoofdmonteur"
+                      className="text-primary hover:text-[#003A66]"
+                      disabled={assignMutation.isPending}
+                      onClick={() => assignMutation.mutate({ userId: assignment.userId, isLead: true })}
+                    >
+                      <FaRegStar />
+                    </Button>
+                  )}
+                  {assignment.isLead && (
+                    <span className="px-3 text-primary"><FaStar /></span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Verwijder monteur"
+                    className="text-red-600 hover:text-red-800"
+                    disabled={unassignMutation.isPending}
+                    onClick={() => unassignMutation.mutate(assignment.userId)}
+                  >
+                    <FaTimes />
+                  </Button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editable && (
+        <div className="flex items-center gap-2">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Selecteer een monteur" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableMonteurs.map(monteur => (
+                <SelectItem key={monteur.id} value={monteur.id.toString()}>
+                  {monteur.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!selectedUserId || assignMutation.isPending}
+            onClick={() => assignMutation.mutate({ userId: parseInt(selectedUserId), isLead: false })}
+          >
+            {assignMutation.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <FaUserPlus className="mr-2 h-4 w-4" />}
+            Toewijzen
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { User as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,13 +12,16 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Users with two-factor authentication first get a request for their code instead of a session
+type LoginResult = SelectUser | { twoFactorRequired: true };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -34,47 +37,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refetchInterval: 60000, // Vernieuw elke minuut
   });
 
+  const onLoggedIn = (user: SelectUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    toast({
+      title: "Ingelogd",
+      description: `Welkom ${user.fullName || user.username}`,
+    });
+  };
+
   const loginMutation = useMutation({
-    mutationFn: async (credentials: LoginData) => {
+    mutationFn: async (credentials: LoginData): Promise<LoginResult> => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
-      toast({
-        title: "Ingelogd",
-        description: `Welkom ${user.fullName || user.username}`,
-      });
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) return;
+      onLoggedIn(result);
     },
     onError: (error: Error) => {
       console.error("Login error:", error);
-      toast({
-        title: "Login mislukt",
-        description: error.message,
-        variant: "destructive",
-      });
     },
   });
 
-  const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
-      const res = await apiRequest("POST", "/api/register", credentials);
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string): Promise<SelectUser> => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
-      toast({
-        title: "Account aangemaakt",
-        description: `Welkom ${user.fullName || user.username}`,
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Registratie mislukt",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
+    onSuccess: onLoggedIn,
   });
 
   const logoutMutation = useMutation({
@@ -104,8 +94,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
-        registerMutation,
       }}
     >
       {children}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { useLocation, useSearch } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+
+// Opens the record whose id is in the `open` query parameter (e.g. /klanten?open=12), as linked from the
+// command palette. The record is fetched from `${apiUrl}/${id}` and the parameter is removed from the URL.
+export function useOpenFromUrl<T>(apiUrl: string, onOpen: (item: T) => void) {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  useEffect(() => {
+    const id = new URLSearchParams(search).get("open");
+    if (!id) return;
+
+    setLocation(location, { replace: true });
+    apiRequest("GET", `${apiUrl}/${id}`)
+      .then(res => res.json())
+      .then(item => onOpenRef.current(item))
+      .catch(error => console.error('Error opening record from URL:', error));
+  }, [search]);
+}
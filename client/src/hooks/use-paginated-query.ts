@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { DEFAULT_PAGE_SIZE, type Page } from "@shared/pagination";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface PaginatedQueryParams {
+  page: number;
+  pageSize?: number;
+  sort?: string;
+  q?: string;
+  filters?: Record<string, string | number | undefined>; // Empty and "all" values are left out
+}
+
+// Builds the URL of one page of a list endpoint, e.g. /api/customers?page=2&pageSize=10&sort=name
+export function buildPageUrl(url: string, { page, pageSize = DEFAULT_PAGE_SIZE, sort, q, filters = {} }: PaginatedQueryParams) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (sort) params.set("sort", sort);
+  if (q?.trim()) params.set("q", q.trim());
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "" && value !== "all") params.set(key, String(value));
+  });
+  return `${url}?${params}`;
+}
+
+// One page of a list endpoint. The key starts with the plain URL, so invalidating e.g. ['/api/customers']
+// after a mutation refetches the pages too. The previous page stays visible while the next one loads.
+export function usePaginatedQuery<T>(url: string, params: PaginatedQueryParams) {
+  const pageUrl = buildPageUrl(url, params);
+  return useQuery<Page<T>>({
+    queryKey: [url, pageUrl],
+    queryFn: async () => {
+      const res = await apiRequest("GET", pageUrl);
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+}
+
+// The value, once it has not changed for `delay` ms; keeps a search box from querying on every keystroke
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,8 @@
+import { hasPermission, type Permission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+
+// Whether the logged-in user's role has the given permission
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
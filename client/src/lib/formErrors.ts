@@ -0,0 +1,29 @@
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { ApiError } from "@/lib/queryClient";
+
+// Shows the field errors of a 400 response from the API on the matching inputs of a form.
+// `fieldMap` translates API field names to form field names where they differ (e.g. endDate -> endTime).
+// Returns whether any error was placed on a field, so callers can skip a generic toast.
+export function setServerErrors<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  error: unknown,
+  fieldMap: Record<string, string> = {},
+): boolean {
+  if (!(error instanceof ApiError) || error.status !== 400 || !error.data?.errors) return false;
+
+  const formFields = Object.keys(form.getValues());
+  let applied = false;
+  Object.entries(error.data.errors as Record<string, string>).forEach(([apiField, message]) => {
+    const field = fieldMap[apiField] ?? apiField;
+    if (!formFields.includes(field.split(".")[0])) return;
+    form.setError(field as Path<T>, { type: "server", message }, { shouldFocus: !applied });
+    applied = true;
+  });
+  return applied;
+}
+
+// Readable message of a failed request, without the status code and JSON wrapping of ApiError
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ApiError && typeof error.data?.message === "string") return error.data.message;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,34 @@
+import { WorkOrder } from "@shared/schema";
+import { getWorkOrderInterval } from "@shared/planning";
+
+// Geeft de IDs terug van alle werkbonnen die in tijd overlappen met een andere werkbon
+export function findConflictingWorkOrders(workOrders: WorkOrder[]): Set<number> {
+  const conflicts = new Set<number>();
+  const planned = workOrders
+    .filter(wo => wo.status !== "Geannuleerd")
+    .map(wo => ({ id: wo.id, ...getWorkOrderInterval(wo) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (let i = 0; i < planned.length; i++) {
+    for (let j = i + 1; j < planned.length; j++) {
+      // Gesorteerd op start: zodra j na het einde van i begint, overlapt niets meer
+      if (planned[j].start >= planned[i].end) break;
+      conflicts.add(planned[i].id);
+      conflicts.add(planned[j].id);
+    }
+  }
+
+  return conflicts;
+}
+
+// Verplaatst een werkbon naar een nieuwe dag en behoudt (optioneel) het tijdstip
+export function moveToDay(original: Date, day: Date, hour?: number): Date {
+  const result = new Date(day);
+  result.setHours(
+    hour ?? original.getHours(),
+    hour === undefined ? original.getMinutes() : 0,
+    0,
+    0
+  );
+  return result;
+}
@@ -1,9 +1,23 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error of a failed API request; `data` holds the parsed JSON body, e.g. the field errors of a 400 response
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public data?: any) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = undefined;
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, data);
   }
 }
 
@@ -23,6 +37,17 @@ export async function apiRequest(
   return res;
 }
 
+// Downloads a file from the API, e.g. an export; failures throw an ApiError like apiRequest
+export async function downloadFile(url: string, fileName: string): Promise<void> {
+  const res = await apiRequest("GET", url);
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,5 +1,16 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subMonths,
+} from "date-fns";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -21,6 +32,20 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+// Start and end of a period filter ("week", "month", "last-month", "quarter" or "year") as ISO strings,
+// to send as the from/to parameters of a list endpoint; empty for "all" and unknown periods
+export function getPeriodRange(period: string, now = new Date()): { from?: string; to?: string } {
+  const ranges: Record<string, [Date, Date]> = {
+    "week": [startOfWeek(now, { weekStartsOn: 1 }), endOfWeek(now, { weekStartsOn: 1 })],
+    "month": [startOfMonth(now), endOfMonth(now)],
+    "last-month": [startOfMonth(subMonths(now, 1)), endOfMonth(subMonths(now, 1))],
+    "quarter": [startOfQuarter(now), endOfQuarter(now)],
+    "year": [startOfYear(now), endOfYear(now)],
+  };
+  const range = ranges[period];
+  return range ? { from: range[0].toISOString(), to: range[1].toISOString() } : {};
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + '...';
@@ -38,15 +63,19 @@ export function getStatusColor(status: string): string {
     case 'betaald':
     case 'actief':
     case 'op voorraad':
+    case 'geaccepteerd':
       return 'bg-green-100 text-green-800';
     case 'in uitvoering':
     case 'verzonden':
     case 'bijna op':
+    case 'gepauzeerd':
       return 'bg-yellow-100 text-yellow-800';
     case 'ingepland':
+    case 'gepland':
       return 'bg-blue-100 text-blue-800';
     case 'te laat':
     case 'niet op voorraad':
+    case 'afgewezen':
       return 'bg-red-100 text-red-800';
     case 'geannuleerd':
     case 'inactief':
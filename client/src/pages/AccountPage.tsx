@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import ChangePasswordForm from "@/components/account/ChangePasswordForm";
+import TwoFactorSettings from "@/components/account/TwoFactorSettings";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AccountPage() {
+  const { setActiveView } = useNavigation();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    setActiveView("account");
+  }, [setActiveView]);
+
+  return (
+    <MainLayout title="Mijn account">
+      <div className="max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Gegevens</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-3 gap-y-2 text-sm">
+              <dt className="text-gray-500">Naam</dt>
+              <dd className="col-span-2 text-gray-900">{user?.fullName}</dd>
+              <dt className="text-gray-500">Gebruikersnaam</dt>
+              <dd className="col-span-2 text-gray-900">{user?.username}</dd>
+              <dt className="text-gray-500">E-mailadres</dt>
+              <dd className="col-span-2 text-gray-900">{user?.email || "-"}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Wachtwoord wijzigen</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tweestapsverificatie</CardTitle>
+            <CardDescription>Beveilig uw account met een code uit een authenticator-app.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSettings />
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+}
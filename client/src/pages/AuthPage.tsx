@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,31 +8,38 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from "../lib/queryClient";
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from "../lib/queryClient";
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Gebruikersnaam is verplicht'),
   password: z.string().min(1, 'Wachtwoord is verplicht'),
 });
 
-const registerSchema = z.object({
-  username: z.string().min(1, 'Gebruikersnaam is verplicht'),
-  fullName: z.string().min(1, 'Volledige naam is verplicht'),
-  email: z.string().email('Ongeldig e-mailadres'),
-  password: z.string().min(6, 'Wachtwoord moet minimaal 6 tekens bevatten'),
-  phone: z.string().optional(),
-});
-
 type LoginFormValues = z.infer<typeof loginSchema>;
-type RegisterFormValues = z.infer<typeof registerSchema>;
+
+// Errors of apiRequest start with the status code
+function getLoginErrorMessage(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : "";
+  if (message.startsWith("429")) {
+    const retryAfter = message.match(/"retryAfter":(\d+)/)?.[1];
+    return `Te veel inlogpogingen. Probeer het over ${retryAfter ?? "enkele"} seconden opnieuw.`;
+  }
+  return fallback;
+}
 
 export default function AuthPage() {
   const [, navigate] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation } = useAuth();
   const { toast } = useToast();
+  const [isTwoFactorStep, setIsTwoFactorStep] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [isForgotPassword, setIsForgotPassword] = useState(false);
+  const [forgotUsername, setForgotUsername] = useState('');
 
   // Redirect if already logged in
   useEffect(() => {
@@ -49,20 +56,13 @@ export default function AuthPage() {
     },
   });
 
-  const registerForm = useForm<RegisterFormValues>({
-    resolver: zodResolver(registerSchema),
-    defaultValues: {
-      username: '',
-      fullName: '',
-      email: '',
-      password: '',
-      phone: '',
-    },
-  });
-
   const onLoginSubmit = async (data: LoginFormValues) => {
     try {
       const result = await loginMutation.mutateAsync(data);
+      if ('twoFactorRequired' in result) {
+        setIsTwoFactorStep(true);
+        return;
+      }
       console.log("Login successful, redirecting to dashboard");
       // Force query invalidation to ensure everything is up-to-date
       await queryClient.invalidateQueries({ queryKey: ['/api/user'] });
@@ -74,26 +74,58 @@ export default function AuthPage() {
       console.error('Login failed:', error);
       toast({
         title: "Inloggen mislukt",
-        description: "Ongeldige inloggegevens. Probeer opnieuw.",
+        description: getLoginErrorMessage(error, "Ongeldige inloggegevens. Probeer opnieuw."),
         variant: "destructive",
       });
     }
   };
 
-  const onRegisterSubmit = async (data: RegisterFormValues) => {
+  const onTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
     try {
-      await registerMutation.mutateAsync(data);
-      navigate('/');
+      await verifyTwoFactorMutation.mutateAsync(code);
+      window.location.href = "/";
     } catch (error) {
-      console.error('Registration failed:', error);
+      console.error('Two-factor verification failed:', error);
+      setCode('');
       toast({
-        title: "Registratie mislukt",
-        description: "Er is een fout opgetreden bij het registreren.",
+        title: "Verificatie mislukt",
+        description: getLoginErrorMessage(error, "De code is ongeldig. Probeer opnieuw."),
         variant: "destructive",
       });
     }
   };
 
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (username: string) => {
+      await apiRequest('POST', '/api/forgot-password', { username });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onForgotPasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    forgotPasswordMutation.mutate(forgotUsername);
+  };
+
+  const onCancelForgotPassword = () => {
+    setIsForgotPassword(false);
+    setForgotUsername('');
+    forgotPasswordMutation.reset();
+  };
+
+  const onCancelTwoFactor = () => {
+    setIsTwoFactorStep(false);
+    setUseBackupCode(false);
+    setCode('');
+  };
+
   return (
     <div className="min-h-screen flex">
       {/* Left side - Form */}
@@ -109,152 +141,166 @@ export default function AuthPage() {
             </p>
           </div>
 
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="login">Inloggen</TabsTrigger>
-              <TabsTrigger value="register">Registreren</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-xl">Log in op uw account</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Gebruikersnaam</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Gebruikersnaam" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+          {isTwoFactorStep ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Tweestapsverificatie</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                  {useBackupCode ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="backup-code">Back-upcode</Label>
+                      <Input
+                        id="backup-code"
+                        placeholder="xxxx-xxxx"
+                        autoComplete="off"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
                       />
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-600">
+                        Voer de 6-cijferige code uit uw authenticator-app in.
+                      </p>
+                      <div className="flex justify-center">
+                        <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                          <InputOTPGroup>
+                            {[0, 1, 2, 3, 4, 5].map(index => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    </div>
+                  )}
 
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Wachtwoord</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Wachtwoord" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <Button
-                        type="submit"
-                        className="w-full bg-primary hover:bg-primary/90"
-                        disabled={loginMutation.isPending}
-                      >
-                        {loginMutation.isPending ? 'Bezig met inloggen...' : 'Inloggen'}
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="register">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-xl">Maak een nieuw account</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <Form {...registerForm}>
-                    <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
-                      <FormField
-                        control={registerForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Gebruikersnaam</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Gebruikersnaam" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                  <Button
+                    type="submit"
+                    className="w-full bg-primary hover:bg-primary/90"
+                    disabled={verifyTwoFactorMutation.isPending || (!useBackupCode && code.length < 6) || !code}
+                  >
+                    {verifyTwoFactorMutation.isPending ? 'Bezig met verifiëren...' : 'Verifiëren'}
+                  </Button>
 
-                      <FormField
-                        control={registerForm.control}
-                        name="fullName"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Volledige naam</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Volledige naam" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
+                  <div className="flex justify-between text-sm">
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => { setUseBackupCode(!useBackupCode); setCode(''); }}
+                    >
+                      {useBackupCode ? 'Authenticator-app gebruiken' : 'Back-upcode gebruiken'}
+                    </button>
+                    <button type="button" className="text-gray-500 hover:underline" onClick={onCancelTwoFactor}>
+                      Terug naar inloggen
+                    </button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          ) : isForgotPassword ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Wachtwoord vergeten</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {forgotPasswordMutation.isSuccess ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Als er een account met deze gegevens bestaat, ontvangt u binnen enkele minuten een e-mail
+                      met een link om een nieuw wachtwoord in te stellen.
+                    </p>
+                    <Button variant="outline" className="w-full" onClick={onCancelForgotPassword}>
+                      Terug naar inloggen
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={onForgotPasswordSubmit} className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Voer uw gebruikersnaam of e-mailadres in. U ontvangt een e-mail met een link om uw wachtwoord te herstellen.
+                    </p>
+                    <div className="space-y-2">
+                      <Label htmlFor="forgot-username">Gebruikersnaam of e-mailadres</Label>
+                      <Input
+                        id="forgot-username"
+                        value={forgotUsername}
+                        onChange={(e) => setForgotUsername(e.target.value)}
                       />
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full bg-primary hover:bg-primary/90"
+                      disabled={forgotPasswordMutation.isPending || !forgotUsername.trim()}
+                    >
+                      {forgotPasswordMutation.isPending ? 'Bezig met versturen...' : 'Herstellink versturen'}
+                    </Button>
+                    <button type="button" className="w-full text-sm text-gray-500 hover:underline" onClick={onCancelForgotPassword}>
+                      Terug naar inloggen
+                    </button>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Log in op uw account</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Form {...loginForm}>
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                    <FormField
+                      control={loginForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Gebruikersnaam</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Gebruikersnaam" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                      <FormField
-                        control={registerForm.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>E-mailadres</FormLabel>
-                            <FormControl>
-                              <Input type="email" placeholder="E-mailadres" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={registerForm.control}
-                        name="phone"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Telefoonnummer</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Telefoonnummer" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    <FormField
+                      control={loginForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Wachtwoord</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder="Wachtwoord" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                      <FormField
-                        control={registerForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Wachtwoord</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Wachtwoord" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    <Button
+                      type="submit"
+                      className="w-full bg-primary hover:bg-primary/90"
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending ? 'Bezig met inloggen...' : 'Inloggen'}
+                    </Button>
 
-                      <Button
-                        type="submit"
-                        className="w-full bg-primary hover:bg-primary/90"
-                        disabled={registerMutation.isPending}
-                      >
-                        {registerMutation.isPending ? 'Bezig met registreren...' : 'Registreren'}
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-          </Tabs>
+                    <button
+                      type="button"
+                      className="w-full text-sm text-primary hover:underline"
+                      onClick={() => setIsForgotPassword(true)}
+                    >
+                      Wachtwoord vergeten?
+                    </button>
+                  </form>
+                </Form>
+                <p className="mt-4 text-sm text-gray-500 text-center">
+                  Nog geen account? Vraag een beheerder om een account voor u aan te maken.
+                </p>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
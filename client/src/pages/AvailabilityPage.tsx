@@ -0,0 +1,693 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaCheck, FaPlus, FaTimes, FaTrash } from "react-icons/fa";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermission } from "@/hooks/use-permission";
+import { cn, getStatusColor } from "@/lib/utils";
+import { addDays, format, startOfWeek } from "date-fns";
+import { nl } from "date-fns/locale";
+import { Holiday, LeaveRequest, User, WorkingHours } from "@shared/schema";
+
+const WEEKDAYS = ["Zondag", "Maandag", "Dinsdag", "Woensdag", "Donderdag", "Vrijdag", "Zaterdag"];
+// Maandag eerst in de weergave
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface AvailabilityDay {
+  date: string;
+  workingHours: { startTime: string; endTime: string } | null;
+  absences: { type: string; status: string; description: string }[];
+  available: boolean;
+}
+
+interface UserAvailability {
+  userId: number;
+  fullName: string;
+  days: AvailabilityDay[];
+}
+
+// Schema voor het aanvragen of registreren van verlof
+const leaveRequestSchema = z.object({
+  userId: z.number().int().optional(),
+  type: z.string().min(1, "Type is verplicht"),
+  startDate: z.string().min(1, "Startdatum is verplicht"),
+  endDate: z.string().min(1, "Einddatum is verplicht"),
+  reason: z.string().optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "Einddatum mag niet voor de startdatum liggen",
+  path: ["endDate"],
+});
+
+type LeaveRequestFormValues = z.infer<typeof leaveRequestSchema>;
+
+type WorkingHoursRow = { enabled: boolean; startTime: string; endTime: string };
+
+export default function AvailabilityPage() {
+  const { setActiveView } = useNavigation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = usePermission("availability:manage");
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [leaveDialogOpen, setLeaveDialogOpen] = useState(false);
+  const [hoursUserId, setHoursUserId] = useState<string>("");
+  const [hoursDraft, setHoursDraft] = useState<Record<number, WorkingHoursRow>>({});
+  const [holidayName, setHolidayName] = useState("");
+  const [holidayDate, setHolidayDate] = useState("");
+
+  useEffect(() => {
+    setActiveView("beschikbaarheid");
+  }, [setActiveView]);
+
+  useEffect(() => {
+    if (user && !hoursUserId) setHoursUserId(user.id.toString());
+  }, [user, hoursUserId]);
+
+  const weekEnd = addDays(weekStart, 6);
+  const availabilityUrl = `/api/availability?from=${format(weekStart, "yyyy-MM-dd")}&to=${format(weekEnd, "yyyy-MM-dd")}`;
+
+  const { data: availability = [], isLoading: isAvailabilityLoading } = useQuery<UserAvailability[]>({
+    queryKey: [availabilityUrl],
+    retry: 1,
+  });
+
+  const { data: users = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: ['/api/users'],
+    retry: 1,
+  });
+
+  const { data: leaveRequests = [], isLoading: isLeaveLoading } = useQuery<LeaveRequest[]>({
+    queryKey: ['/api/leave-requests'],
+    retry: 1,
+  });
+
+  const { data: holidays = [] } = useQuery<Holiday[]>({
+    queryKey: ['/api/holidays'],
+    retry: 1,
+  });
+
+  const { data: workingHours } = useQuery<WorkingHours[]>({
+    queryKey: [`/api/users/${hoursUserId}/working-hours`],
+    enabled: !!hoursUserId,
+    retry: 1,
+  });
+
+  // Zonder geregistreerde werktijden geldt maandag t/m vrijdag 08:00 - 17:00
+  useEffect(() => {
+    if (!workingHours) return;
+    const draft: Record<number, WorkingHoursRow> = {};
+    WEEKDAY_ORDER.forEach(weekday => {
+      const hours = workingHours.find(h => h.weekday === weekday);
+      const isDefaultWorkday = workingHours.length === 0 && weekday >= 1 && weekday <= 5;
+      draft[weekday] = {
+        enabled: !!hours || isDefaultWorkday,
+        startTime: hours?.startTime || "08:00",
+        endTime: hours?.endTime || "17:00",
+      };
+    });
+    setHoursDraft(draft);
+  }, [workingHours]);
+
+  const invalidateAvailability = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leave-requests'] });
+    queryClient.invalidateQueries({ queryKey: [availabilityUrl] });
+  };
+
+  const leaveForm = useForm<LeaveRequestFormValues>({
+    resolver: zodResolver(leaveRequestSchema),
+    defaultValues: {
+      type: "Vakantie",
+      startDate: format(new Date(), "yyyy-MM-dd"),
+      endDate: format(new Date(), "yyyy-MM-dd"),
+      reason: "",
+    },
+  });
+
+  const createLeaveMutation = useMutation({
+    mutationFn: async (data: LeaveRequestFormValues) => {
+      const response = await apiRequest("POST", "/api/leave-requests", data);
+      return await response.json();
+    },
+    onSuccess: (leaveRequest: LeaveRequest) => {
+      toast({
+        title: leaveRequest.status === "Goedgekeurd" ? "Afwezigheid geregistreerd" : "Verlof aangevraagd",
+        description: leaveRequest.status === "Goedgekeurd"
+          ? "De afwezigheid is direct verwerkt in de planning."
+          : "De aanvraag wacht op goedkeuring van een beheerder.",
+      });
+      setLeaveDialogOpen(false);
+      leaveForm.reset();
+      invalidateAvailability();
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij aanvragen verlof",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewLeaveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number, status: string }) => {
+      const response = await apiRequest("PATCH", `/api/leave-requests/${id}/status`, { status });
+      return await response.json();
+    },
+    onSuccess: (leaveRequest: LeaveRequest) => {
+      toast({
+        title: `Verlof ${leaveRequest.status.toLowerCase()}`,
+        description: "De verlofaanvraag is bijgewerkt.",
+      });
+      invalidateAvailability();
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij beoordelen verlof",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteLeaveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/leave-requests/${id}`);
+    },
+    onSuccess: invalidateAvailability,
+    onError: (error) => {
+      toast({
+        title: "Fout bij verwijderen verlof",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveHoursMutation = useMutation({
+    mutationFn: async () => {
+      const hours = Object.entries(hoursDraft)
+        .filter(([, row]) => row.enabled)
+        .map(([weekday, row]) => ({ weekday: parseInt(weekday), startTime: row.startTime, endTime: row.endTime }));
+      const response = await apiRequest("PUT", `/api/users/${hoursUserId}/working-hours`, { hours });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Werktijden opgeslagen",
+        description: "De werktijden zijn succesvol bijgewerkt.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${hoursUserId}/working-hours`] });
+      queryClient.invalidateQueries({ queryKey: [availabilityUrl] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij opslaan werktijden",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/holidays", { name: holidayName, date: holidayDate });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setHolidayName("");
+      setHolidayDate("");
+      queryClient.invalidateQueries({ queryKey: ['/api/holidays'] });
+      queryClient.invalidateQueries({ queryKey: [availabilityUrl] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij toevoegen feestdag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/holidays/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/holidays'] });
+      queryClient.invalidateQueries({ queryKey: [availabilityUrl] });
+    },
+  });
+
+  const getUserName = (userId: number) => users.find(u => u.id === userId)?.fullName || "Onbekend";
+
+  const updateHoursRow = (weekday: number, changes: Partial<WorkingHoursRow>) => {
+    setHoursDraft(prev => ({ ...prev, [weekday]: { ...prev[weekday], ...changes } }));
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <MainLayout title="Beschikbaarheid">
+      <div className="flex justify-between items-center mb-6">
+        <div />
+        <Button
+          className="bg-primary hover:bg-[#003A66]"
+          onClick={() => {
+            leaveForm.reset({
+              type: "Vakantie",
+              startDate: format(new Date(), "yyyy-MM-dd"),
+              endDate: format(new Date(), "yyyy-MM-dd"),
+              reason: "",
+            });
+            setLeaveDialogOpen(true);
+          }}
+        >
+          <FaPlus className="mr-2 h-4 w-4" /> {canManage ? "Afwezigheid registreren" : "Verlof aanvragen"}
+        </Button>
+      </div>
+
+      <Tabs defaultValue="overzicht">
+        <TabsList className="mb-4">
+          <TabsTrigger value="overzicht">Overzicht</TabsTrigger>
+          <TabsTrigger value="verlof">Verlof</TabsTrigger>
+          <TabsTrigger value="werktijden">Werktijden</TabsTrigger>
+          <TabsTrigger value="feestdagen">Feestdagen</TabsTrigger>
+        </TabsList>
+
+        {/* Weekoverzicht van alle monteurs */}
+        <TabsContent value="overzicht">
+          <Card className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm font-medium">
+                {format(weekStart, "d MMM", { locale: nl })} - {format(weekEnd, "d MMM yyyy", { locale: nl })}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            {isAvailabilityLoading ? (
+              <div className="flex justify-center items-center h-32">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monteur</th>
+                      {weekDays.map(day => (
+                        <th key={day.toISOString()} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {format(day, "EEE d MMM", { locale: nl })}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {availability.map(row => (
+                      <tr key={row.userId}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">{row.fullName}</td>
+                        {row.days.map(day => (
+                          <td key={day.date} className="px-2 py-2 align-top">
+                            <div className={cn(
+                              "rounded-md px-2 py-1 text-xs",
+                              day.available ? "bg-green-50 text-green-800" : "bg-gray-100 text-gray-500"
+                            )}>
+                              {day.workingHours
+                                ? `${day.workingHours.startTime} - ${day.workingHours.endTime}`
+                                : "Vrij"}
+                              {day.absences.map((absence, idx) => (
+                                <div key={idx} className={cn(
+                                  "mt-1 rounded px-1",
+                                  absence.status === "Goedgekeurd" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                                )}>
+                                  {absence.type}{absence.status !== "Goedgekeurd" && " (aangevraagd)"}
+                                </div>
+                              ))}
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Verlofaanvragen */}
+        <TabsContent value="verlof">
+          <Card className="bg-white shadow overflow-hidden sm:rounded-lg">
+            {isLeaveLoading ? (
+              <div className="flex justify-center items-center h-32">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : leaveRequests.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 italic">Geen verlofaanvragen</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Medewerker</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Periode</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reden</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Acties</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {leaveRequests.map(request => (
+                    <tr key={request.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{getUserName(request.userId)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{request.type}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(request.startDate), "dd-MM-yyyy")} t/m {format(new Date(request.endDate), "dd-MM-yyyy")}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{request.reason}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          request.status === "Goedgekeurd" ? "bg-green-100 text-green-800" :
+                          request.status === "Afgewezen" ? "bg-red-100 text-red-800" :
+                          getStatusColor(request.status)
+                        }`}>
+                          {request.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {canManage && request.status === "Aangevraagd" && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Goedkeuren"
+                              className="text-green-600 hover:text-green-800 mr-2"
+                              disabled={reviewLeaveMutation.isPending}
+                              onClick={() => reviewLeaveMutation.mutate({ id: request.id, status: "Goedgekeurd" })}
+                            >
+                              <FaCheck />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Afwijzen"
+                              className="text-red-600 hover:text-red-800 mr-2"
+                              disabled={reviewLeaveMutation.isPending}
+                              onClick={() => reviewLeaveMutation.mutate({ id: request.id, status: "Afgewezen" })}
+                            >
+                              <FaTimes />
+                            </Button>
+                          </>
+                        )}
+                        {(canManage || (request.userId === user?.id && request.status === "Aangevraagd")) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Verwijderen"
+                            className="text-red-600 hover:text-red-800"
+                            disabled={deleteLeaveMutation.isPending}
+                            onClick={() => deleteLeaveMutation.mutate(request.id)}
+                          >
+                            <FaTrash />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Werktijden per weekdag */}
+        <TabsContent value="werktijden">
+          <Card className="bg-white shadow rounded-lg p-4 space-y-4">
+            {canManage && (
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-gray-700">Medewerker</label>
+                <Select value={hoursUserId} onValueChange={setHoursUserId}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue placeholder="Selecteer een medewerker" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map(u => (
+                      <SelectItem key={u.id} value={u.id.toString()}>{u.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {WEEKDAY_ORDER.map(weekday => {
+                const row = hoursDraft[weekday];
+                if (!row) return null;
+                return (
+                  <div key={weekday} className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 w-40 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={row.enabled}
+                        disabled={!canManage}
+                        onChange={(e) => updateHoursRow(weekday, { enabled: e.target.checked })}
+                      />
+                      {WEEKDAYS[weekday]}
+                    </label>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={row.startTime}
+                      disabled={!canManage || !row.enabled}
+                      onChange={(e) => updateHoursRow(weekday, { startTime: e.target.value })}
+                    />
+                    <span className="text-sm text-gray-500">tot</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={row.endTime}
+                      disabled={!canManage || !row.enabled}
+                      onChange={(e) => updateHoursRow(weekday, { endTime: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {canManage && (
+              <Button
+                className="bg-primary hover:bg-[#003A66]"
+                disabled={saveHoursMutation.isPending}
+                onClick={() => saveHoursMutation.mutate()}
+              >
+                {saveHoursMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Werktijden opslaan
+              </Button>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Feestdagen */}
+        <TabsContent value="feestdagen">
+          <Card className="bg-white shadow rounded-lg p-4 space-y-4">
+            {canManage && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="date"
+                  className="sm:w-48"
+                  value={holidayDate}
+                  onChange={(e) => setHolidayDate(e.target.value)}
+                />
+                <Input
+                  placeholder="Naam, bijv. Koningsdag"
+                  value={holidayName}
+                  onChange={(e) => setHolidayName(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  disabled={!holidayDate || !holidayName || createHolidayMutation.isPending}
+                  onClick={() => createHolidayMutation.mutate()}
+                >
+                  <FaPlus className="mr-2 h-4 w-4" /> Toevoegen
+                </Button>
+              </div>
+            )}
+            {holidays.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Geen feestdagen geregistreerd</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {holidays.map(holiday => (
+                  <li key={holiday.id} className="flex items-center justify-between py-2 text-sm">
+                    <span>
+                      <span className="font-medium">{format(new Date(holiday.date), "EEEE d MMMM yyyy", { locale: nl })}</span>
+                      <span className="text-gray-500"> - {holiday.name}</span>
+                    </span>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                      >
+                        <FaTrash />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Leave Request Dialog */}
+      <Dialog open={leaveDialogOpen} onOpenChange={setLeaveDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{canManage ? "Afwezigheid registreren" : "Verlof aanvragen"}</DialogTitle>
+            <DialogDescription>
+              {canManage
+                ? "Door een beheerder geregistreerde afwezigheid is direct goedgekeurd."
+                : "Vakantie en verlof worden door een beheerder goedgekeurd. Ziekmeldingen gelden direct."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...leaveForm}>
+            <form onSubmit={leaveForm.handleSubmit((data) => createLeaveMutation.mutate(data))} className="space-y-4">
+              {canManage && (
+                <FormField
+                  control={leaveForm.control}
+                  name="userId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Medewerker</FormLabel>
+                      <Select
+                        value={field.value?.toString() || ""}
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Mijzelf" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {users.map(u => (
+                            <SelectItem key={u.id} value={u.id.toString()}>{u.fullName}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={leaveForm.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecteer een type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Vakantie">Vakantie</SelectItem>
+                        <SelectItem value="Verlof">Verlof</SelectItem>
+                        <SelectItem value="Ziek">Ziek</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={leaveForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Van</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={leaveForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tot en met</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={leaveForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Toelichting</FormLabel>
+                    <FormControl>
+                      <Textarea className="resize-none" placeholder="Optioneel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setLeaveDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={createLeaveMutation.isPending}
+                >
+                  {createLeaveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opslaan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -18,17 +18,23 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2 } from "lucide-react";
+import { usePermission } from "@/hooks/use-permission";
+import { useDebouncedValue, usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useOpenFromUrl } from "@/hooks/use-open-from-url";
+import CustomerStatementDialog from "@/components/customers/CustomerStatementDialog";
 import { Customer } from "@shared/schema";
 
 // Schema voor het aanmaken/bewerken van klanten
 const customerSchema = z.object({
   name: z.string().min(1, "Naam is verplicht"),
   street: z.string().min(1, "Straat is verplicht"),
+  postalCode: z.string().min(1, "Postcode is verplicht"),
   city: z.string().min(1, "Plaats is verplicht"),
   email: z.string().email("Ongeldig e-mailadres").min(1, "E-mail is verplicht"),
   phone: z.string().min(1, "Telefoonnummer is verplicht"),
@@ -38,38 +44,45 @@ const customerSchema = z.object({
 
 type CustomerFormValues = z.infer<typeof customerSchema>;
 
+const PAGE_SIZE = 10;
+
 export default function CustomersPage() {
   const { setActiveView } = useNavigation();
   const { toast } = useToast();
+  const canWrite = usePermission("customers:write");
+  const canReadInvoices = usePermission("invoices:read");
   const [currentPage, setCurrentPage] = useState(1);
-  const [sortBy, setSortBy] = useState("name-asc");
+  const [sortBy, setSortBy] = useState("name");
   const [typeFilter, setTypeFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isStatementDialogOpen, setIsStatementDialogOpen] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   
-  // Fetch customers
+  const search = useDebouncedValue(searchTerm);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [sortBy, typeFilter, statusFilter, search]);
+
+  // Fetch the current page of customers; filtering and sorting happen on the server
   const { 
-    data: customers = [], 
+    data: customersPage, 
     isLoading,
     error 
-  } = useQuery<Customer[]>({
-    queryKey: ['/api/customers'],
-    queryFn: async () => {
-      try {
-        const response = await fetch('/api/customers');
-        if (!response.ok) {
-          throw new Error('Fout bij het ophalen van klanten');
-        }
-        return await response.json();
-      } catch (error) {
-        console.error('Error fetching customers:', error);
-        throw error;
-      }
-    }
+  } = usePaginatedQuery<Customer>('/api/customers', {
+    page: currentPage,
+    pageSize: PAGE_SIZE,
+    sort: sortBy,
+    q: search,
+    filters: {
+      type: typeFilter === "private" ? "Particulier" : typeFilter === "business" ? "Zakelijk" : undefined,
+      status: statusFilter === "active" ? "Actief" : statusFilter === "inactive" ? "Inactief" : undefined,
+    },
   });
   
   // Mutations
@@ -87,9 +100,10 @@ export default function CustomersPage() {
       setIsCreateDialogOpen(false);
     },
     onError: (error: Error) => {
+      if (setServerErrors(createForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het aanmaken van de klant: ${error.message}`,
+        description: `Fout bij het aanmaken van de klant: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
@@ -110,9 +124,10 @@ export default function CustomersPage() {
       setSelectedCustomer(null);
     },
     onError: (error: Error) => {
+      if (setServerErrors(editForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het bijwerken van de klant: ${error.message}`,
+        description: `Fout bij het bijwerken van de klant: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
@@ -146,6 +161,7 @@ export default function CustomersPage() {
     defaultValues: {
       name: "",
       street: "",
+      postalCode: "",
       city: "",
       email: "",
       phone: "",
@@ -159,6 +175,7 @@ export default function CustomersPage() {
     defaultValues: {
       name: selectedCustomer?.name || "",
       street: selectedCustomer?.street || "",
+      postalCode: selectedCustomer?.postalCode || "",
       city: selectedCustomer?.city || "",
       email: selectedCustomer?.email || "",
       phone: selectedCustomer?.phone || "",
@@ -173,6 +190,7 @@ export default function CustomersPage() {
       editForm.reset({
         name: selectedCustomer.name || "",
         street: selectedCustomer.street || "",
+        postalCode: selectedCustomer.postalCode || "",
         city: selectedCustomer.city || "",
         email: selectedCustomer.email || "",
         phone: selectedCustomer.phone || "",
@@ -215,11 +233,18 @@ export default function CustomersPage() {
     setSelectedCustomer(customer);
     setIsDeleteDialogOpen(true);
   };
+
+  // A customer selected in the command palette: edited when allowed, otherwise looked up in the list
+  useOpenFromUrl<Customer>('/api/customers', customer => {
+    if (canWrite) handleEdit(customer);
+    else setSearchTerm(customer.customerNumber);
+  });
   
   // Table columns configuration
   const columns = [
     {
       header: "Naam",
+      sortKey: "name",
       accessorKey: (row: Customer) => (
         <div className="flex items-center">
           <div className="flex-shrink-0 h-10 w-10 flex items-center justify-center bg-[#EBF5FF] text-primary rounded-full">
@@ -234,6 +259,7 @@ export default function CustomersPage() {
     },
     {
       header: "Adres",
+      sortKey: "city",
       accessorKey: (row: Customer) => (
         <div>
           <div className="text-sm text-gray-900">{row.street}</div>
@@ -276,81 +302,46 @@ export default function CustomersPage() {
       header: "Acties",
       accessorKey: (row: Customer) => (
         <div className="text-right">
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-primary hover:text-[#003A66] mr-3"
-            onClick={() => handleEdit(row)}
-          >
-            <FaEdit />
-          </Button>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-primary hover:text-[#003A66] mr-3"
-          >
-            <FaFileAlt />
-          </Button>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-red-600 hover:text-red-800"
-            onClick={() => handleDelete(row)}
-          >
-            <FaTrash />
-          </Button>
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleEdit(row)}
+            >
+              <FaEdit />
+            </Button>
+          )}
+          {canReadInvoices && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              title="Openstaande posten"
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => {
+                setSelectedCustomer(row);
+                setIsStatementDialogOpen(true);
+              }}
+            >
+              <FaFileAlt />
+            </Button>
+          )}
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-red-600 hover:text-red-800"
+              onClick={() => handleDelete(row)}
+            >
+              <FaTrash />
+            </Button>
+          )}
         </div>
       ),
       className: "text-right",
     },
   ];
   
-  // Filter logic
-  const filteredData = customers ? customers.filter((customer: Customer) => {
-    // Type filter
-    if (typeFilter !== "all") {
-      const filterType = typeFilter === "private" ? "Particulier" : "Zakelijk";
-      if (customer.type !== filterType) return false;
-    }
-    
-    // Status filter
-    if (statusFilter !== "all") {
-      const filterStatus = statusFilter === "active" ? "Actief" : "Inactief";
-      if (customer.status !== filterStatus) return false;
-    }
-    
-    // Search filter
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      return (
-        customer.name.toLowerCase().includes(search) ||
-        customer.street.toLowerCase().includes(search) ||
-        customer.city.toLowerCase().includes(search) ||
-        customer.email.toLowerCase().includes(search) ||
-        customer.phone.toLowerCase().includes(search)
-      );
-    }
-    
-    return true;
-  }) : [];
-  
-  // Sort logic
-  const sortedData = [...filteredData].sort((a, b) => {
-    switch (sortBy) {
-      case "name-asc":
-        return a.name.localeCompare(b.name);
-      case "name-desc":
-        return b.name.localeCompare(a.name);
-      case "recent":
-        // Assuming createdAt is available
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      case "oldest":
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      default:
-        return 0;
-    }
-  });
-  
   if (error) {
     return (
       <MainLayout title="Klanten">
@@ -368,23 +359,25 @@ export default function CustomersPage() {
     <MainLayout title="Klanten">
       <div className="flex justify-between items-center mb-6">
         <div /> {/* Empty div for flex spacing */}
-        <Button 
-          className="bg-primary hover:bg-[#003A66]"
-          onClick={() => {
-            createForm.reset({
-              name: "",
-              street: "",
-              city: "",
-              email: "",
-              phone: "",
-              type: "Particulier",
-              status: "Actief",
-            });
-            setIsCreateDialogOpen(true);
-          }}
-        >
-          <FaPlus className="mr-2 h-4 w-4" /> Nieuwe klant
-        </Button>
+        {canWrite && (
+          <Button 
+            className="bg-primary hover:bg-[#003A66]"
+            onClick={() => {
+              createForm.reset({
+                name: "",
+                street: "",
+                city: "",
+                email: "",
+                phone: "",
+                type: "Particulier",
+                status: "Actief",
+              });
+              setIsCreateDialogOpen(true);
+            }}
+          >
+            <FaPlus className="mr-2 h-4 w-4" /> Nieuwe klant
+          </Button>
+        )}
       </div>
       
       {/* Filters */}
@@ -402,10 +395,12 @@ export default function CustomersPage() {
                 <SelectValue placeholder="Naam (A-Z)" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="name-asc">Naam (A-Z)</SelectItem>
-                <SelectItem value="name-desc">Naam (Z-A)</SelectItem>
-                <SelectItem value="recent">Meest recente</SelectItem>
-                <SelectItem value="oldest">Eerste toegevoegd</SelectItem>
+                <SelectItem value="name">Naam (A-Z)</SelectItem>
+                <SelectItem value="-name">Naam (Z-A)</SelectItem>
+                <SelectItem value="customerNumber">Klantnummer</SelectItem>
+                <SelectItem value="city">Plaats</SelectItem>
+                <SelectItem value="-createdAt">Meest recente</SelectItem>
+                <SelectItem value="createdAt">Eerste toegevoegd</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -472,12 +467,14 @@ export default function CustomersPage() {
       ) : (
         /* Customers Table */
         <DataTable
-          data={sortedData}
+          data={customersPage?.items ?? []}
           columns={columns}
-          totalItems={filteredData.length}
+          totalItems={customersPage?.total ?? 0}
           currentPage={currentPage}
           onPageChange={handlePageChange}
-          itemsPerPage={10}
+          itemsPerPage={PAGE_SIZE}
+          sort={sortBy}
+          onSortChange={setSortBy}
         />
       )}
       
@@ -521,19 +518,35 @@ export default function CustomersPage() {
                 )}
               />
               
-              <FormField
-                control={createForm.control}
-                name="city"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Plaats</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Postcode en plaats" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={createForm.control}
+                  name="postalCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Postcode</FormLabel>
+                      <FormControl>
+                        <Input placeholder="1234 AB" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={createForm.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Plaats</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Plaats" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               
               <FormField
                 control={createForm.control}
@@ -681,19 +694,35 @@ export default function CustomersPage() {
                 )}
               />
               
-              <FormField
-                control={editForm.control}
-                name="city"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Plaats</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Postcode en plaats" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="postalCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Postcode</FormLabel>
+                      <FormControl>
+                        <Input placeholder="1234 AB" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={editForm.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Plaats</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Plaats" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               
               <FormField
                 control={editForm.control}
@@ -804,6 +833,12 @@ export default function CustomersPage() {
         </DialogContent>
       </Dialog>
       
+      <CustomerStatementDialog
+        customer={selectedCustomer}
+        open={isStatementDialogOpen}
+        onOpenChange={setIsStatementDialogOpen}
+      />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -15,6 +15,7 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
   PieChart,
   Pie,
@@ -72,18 +73,18 @@ export default function DashboardPage() {
           recentInvoices: invoices.sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5),
           lowStockMaterials: materials.filter((m: any) => m.stock && m.minStock && m.stock <= m.minStock).slice(0, 5),
           monthlyRevenue: [
-            { month: 'Jan', amount: calculateMonthlyRevenue(invoices, 0) },
-            { month: 'Feb', amount: calculateMonthlyRevenue(invoices, 1) },
-            { month: 'Mrt', amount: calculateMonthlyRevenue(invoices, 2) },
-            { month: 'Apr', amount: calculateMonthlyRevenue(invoices, 3) },
-            { month: 'Mei', amount: calculateMonthlyRevenue(invoices, 4) },
-            { month: 'Jun', amount: calculateMonthlyRevenue(invoices, 5) },
-            { month: 'Jul', amount: calculateMonthlyRevenue(invoices, 6) },
-            { month: 'Aug', amount: calculateMonthlyRevenue(invoices, 7) },
-            { month: 'Sep', amount: calculateMonthlyRevenue(invoices, 8) },
-            { month: 'Okt', amount: calculateMonthlyRevenue(invoices, 9) },
-            { month: 'Nov', amount: calculateMonthlyRevenue(invoices, 10) },
-            { month: 'Dec', amount: calculateMonthlyRevenue(invoices, 11) },
+            { month: 'Jan', invoiced: calculateMonthlyRevenue(invoices, 0) },
+            { month: 'Feb', invoiced: calculateMonthlyRevenue(invoices, 1) },
+            { month: 'Mrt', invoiced: calculateMonthlyRevenue(invoices, 2) },
+            { month: 'Apr', invoiced: calculateMonthlyRevenue(invoices, 3) },
+            { month: 'Mei', invoiced: calculateMonthlyRevenue(invoices, 4) },
+            { month: 'Jun', invoiced: calculateMonthlyRevenue(invoices, 5) },
+            { month: 'Jul', invoiced: calculateMonthlyRevenue(invoices, 6) },
+            { month: 'Aug', invoiced: calculateMonthlyRevenue(invoices, 7) },
+            { month: 'Sep', invoiced: calculateMonthlyRevenue(invoices, 8) },
+            { month: 'Okt', invoiced: calculateMonthlyRevenue(invoices, 9) },
+            { month: 'Nov', invoiced: calculateMonthlyRevenue(invoices, 10) },
+            { month: 'Dec', invoiced: calculateMonthlyRevenue(invoices, 11) },
           ]
         };
       }
@@ -191,6 +192,9 @@ export default function DashboardPage() {
                 <p className="text-xs text-muted-foreground">
                   {stats?.invoicesByStatus?.verzonden || 0} verzonden, {stats?.invoicesByStatus?.teLaat || 0} te laat
                 </p>
+                {stats?.openReceivables !== undefined && (
+                  <p className="text-xs text-muted-foreground">{formatCurrency(stats.openReceivables)} openstaand</p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -201,7 +205,7 @@ export default function DashboardPage() {
             <Card className="col-span-1">
               <CardHeader>
                 <CardTitle>Maandelijkse Omzet</CardTitle>
-                <CardDescription>Overzicht van de omzet per maand</CardDescription>
+                <CardDescription>Gefactureerd en ontvangen per maand</CardDescription>
               </CardHeader>
               <CardContent className="h-[300px]">
                 <ResponsiveContainer width="100%" height="100%">
@@ -220,7 +224,9 @@ export default function DashboardPage() {
                     <XAxis dataKey="month" />
                     <YAxis />
                     <Tooltip formatter={(value) => formatCurrency(Number(value))} />
-                    <Bar dataKey="amount" fill="#008037" />
+                    <Legend />
+                    <Bar dataKey="invoiced" name="Gefactureerd" fill="#008037" />
+                    <Bar dataKey="received" name="Ontvangen" fill="#0088FE" />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -12,14 +12,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { FaEye, FaPrint, FaEnvelope, FaPlus, FaTrash, FaEdit } from "react-icons/fa";
+import { FaEye, FaPrint, FaEnvelope, FaPlus, FaTrash, FaEdit, FaTimes, FaFileArchive, FaCog, FaBell } from "react-icons/fa";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm, type UseFormReturn } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, downloadFile, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
@@ -28,7 +29,25 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
-import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import { cn, formatCurrency, formatDate, getPeriodRange } from "@/lib/utils";
+import { useDebouncedValue, usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useOpenFromUrl } from "@/hooks/use-open-from-url";
+import AuditHistory from "@/components/audit/AuditHistory";
+import SendInvoiceDialog from "@/components/invoices/SendInvoiceDialog";
+import MailTemplatesEditor from "@/components/invoices/MailTemplatesEditor";
+import InvoiceReminders from "@/components/invoices/InvoiceReminders";
+import InvoicePayments from "@/components/invoices/InvoicePayments";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DEFAULT_VAT_RATE,
+  getInvoiceLines,
+  getInvoiceLineTotal,
+  getInvoiceTotals,
+  REVERSE_CHARGE_NOTICE,
+  VAT_RATE_LABELS,
+  VAT_RATES,
+  type InvoiceTotals,
+} from "@shared/invoices";
 
 // Schema voor het aanmaken/bewerken van facturen
 const invoiceSchema = z.object({
@@ -36,17 +55,191 @@ const invoiceSchema = z.object({
   workOrderId: z.number().int().optional().nullable(),
   date: z.date(),
   dueDate: z.date(),
-  amount: z.number().min(0, "Bedrag moet 0 of hoger zijn"),
   status: z.string().min(1, "Status is verplicht"),
+  // Het bedrag wordt op de server uit de regels berekend
   items: z.array(z.object({
-    description: z.string(),
+    description: z.string().min(1, "Omschrijving is verplicht"),
     quantity: z.number(),
     price: z.number(),
-  })).optional().nullable(),
+    vatRate: z.enum(VAT_RATES),
+  })).min(1, "Voeg minimaal één factuurregel toe"),
 });
 
 type InvoiceFormValues = z.infer<typeof invoiceSchema>;
 
+const emptyLine: InvoiceFormValues["items"][number] = { description: "", quantity: 1, price: 0, vatRate: DEFAULT_VAT_RATE };
+
+// Veldnamen zoals ze in de geschiedenis getoond worden
+const INVOICE_FIELD_LABELS: Record<string, string> = {
+  invoiceNumber: "Factuurnummer",
+  customerId: "Klant",
+  workOrderId: "Werkbon",
+  date: "Factuurdatum",
+  dueDate: "Vervaldatum",
+  amount: "Bedrag",
+  status: "Status",
+  items: "Factuurregels",
+  type: "Soort e-mail",
+  recipient: "Verstuurd aan",
+  subject: "Onderwerp",
+  step: "Aanmaning",
+  collectionCosts: "Incassokosten",
+  paymentDate: "Betaaldatum",
+  paymentAmount: "Betaald bedrag",
+  paymentMethod: "Betaalwijze",
+  paymentReference: "Kenmerk",
+};
+
+const PAGE_SIZE = 10;
+
+// Waarden van het statusfilter naar de status zoals die in de database staat
+const STATUS_FILTERS: Record<string, string | undefined> = {
+  draft: "Concept",
+  sent: "Verzonden",
+  paid: "Betaald",
+  overdue: "Te laat",
+};
+
+// Subtotal, VAT per rate and total incl. VAT, with the notice that is mandatory when VAT is reverse-charged
+function InvoiceTotalsSummary({ totals }: { totals: InvoiceTotals }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex justify-between">
+        <span className="text-gray-500">Subtotaal (excl. BTW)</span>
+        <span>{formatCurrency(totals.subtotal)}</span>
+      </div>
+      {totals.vat.map(summary => (
+        <div key={summary.vatRate} className="flex justify-between">
+          <span className="text-gray-500">
+            {summary.vatRate === "verlegd" || summary.vatRate === "vrijgesteld"
+              ? `${VAT_RATE_LABELS[summary.vatRate]} over ${formatCurrency(summary.base)}`
+              : `BTW ${VAT_RATE_LABELS[summary.vatRate]} over ${formatCurrency(summary.base)}`}
+          </span>
+          <span>{formatCurrency(summary.vat)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-1 font-medium text-gray-900">
+        <span>Totaal (incl. BTW)</span>
+        <span>{formatCurrency(totals.total)}</span>
+      </div>
+      {totals.reverseCharge && (
+        <p className="pt-2 font-medium text-gray-900">{REVERSE_CHARGE_NOTICE}</p>
+      )}
+    </div>
+  );
+}
+
+interface InvoiceLinesEditorProps {
+  form: UseFormReturn<InvoiceFormValues>;
+  isBusinessCustomer: boolean;
+}
+
+// Invoice lines with their VAT rate; BTW verlegd is only possible for business customers
+function InvoiceLinesEditor({ form, isBusinessCustomer }: InvoiceLinesEditorProps) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const lines = form.watch("items") ?? [];
+
+  return (
+    <div className="border-t pt-4 space-y-2">
+      <h4 className="text-sm font-medium text-gray-900">Factuurregels</h4>
+      {fields.map((lineField, index) => (
+        <div key={lineField.id} className="flex flex-wrap items-start gap-2 text-sm">
+          <FormField
+            control={form.control}
+            name={`items.${index}.description`}
+            render={({ field }) => (
+              <FormItem className="flex-1 min-w-[160px]">
+                <FormControl>
+                  <Input placeholder="Omschrijving" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`items.${index}.quantity`}
+            render={({ field }) => (
+              <FormItem className="w-20">
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    title="Aantal"
+                    value={field.value}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`items.${index}.price`}
+            render={({ field }) => (
+              <FormItem className="w-24">
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    title="Prijs (excl. BTW)"
+                    value={field.value}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`items.${index}.vatRate`}
+            render={({ field }) => (
+              <FormItem className="w-36">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VAT_RATES.map(vatRate => (
+                      <SelectItem key={vatRate} value={vatRate} disabled={vatRate === "verlegd" && !isBusinessCustomer}>
+                        {VAT_RATE_LABELS[vatRate]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <span className="w-24 pt-2 text-right">{formatCurrency(getInvoiceLineTotal(lines[index] ?? emptyLine))}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            title="Verwijderen"
+            className="text-red-600 hover:text-red-800"
+            disabled={fields.length === 1}
+            onClick={() => remove(index)}
+          >
+            <FaTimes />
+          </Button>
+        </div>
+      ))}
+      {form.formState.errors.items?.root?.message && (
+        <p className="text-sm font-medium text-destructive">{form.formState.errors.items.root.message}</p>
+      )}
+      {!isBusinessCustomer && lines.some(line => line.vatRate === "verlegd") && (
+        <p className="text-sm font-medium text-destructive">BTW verlegd kan alleen bij zakelijke klanten.</p>
+      )}
+      <Button type="button" variant="outline" onClick={() => append(emptyLine)}>
+        <FaPlus className="mr-2 h-4 w-4" /> Regel
+      </Button>
+      <InvoiceTotalsSummary totals={getInvoiceTotals(lines)} />
+    </div>
+  );
+}
+
 export default function InvoicesPage() {
   const { setActiveView } = useNavigation();
   const { toast } = useToast();
@@ -55,31 +248,38 @@ export default function InvoicesPage() {
   const [periodFilter, setPeriodFilter] = useState("month");
   const [customerFilter, setCustomerFilter] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState("-date");
+  const [exportMonth, setExportMonth] = useState(format(new Date(), "yyyy-MM"));
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [isSendDialogOpen, setIsSendDialogOpen] = useState(false);
+  const [isMailTemplatesOpen, setIsMailTemplatesOpen] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   
-  // Fetch invoices
+  const search = useDebouncedValue(searchTerm);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [sort, statusFilter, periodFilter, customerFilter, search]);
+
+  // Fetch the current page of invoices; filtering and sorting happen on the server
   const { 
-    data: invoices = [], 
+    data: invoicesPage, 
     isLoading,
     error 
-  } = useQuery<Invoice[]>({
-    queryKey: ['/api/invoices'],
-    queryFn: async () => {
-      try {
-        const response = await fetch('/api/invoices');
-        if (!response.ok) {
-          throw new Error('Fout bij het ophalen van facturen');
-        }
-        return await response.json();
-      } catch (error) {
-        console.error('Error fetching invoices:', error);
-        throw error;
-      }
-    }
+  } = usePaginatedQuery<Invoice>('/api/invoices', {
+    page: currentPage,
+    pageSize: PAGE_SIZE,
+    sort,
+    q: search,
+    filters: {
+      status: STATUS_FILTERS[statusFilter],
+      customerId: customerFilter,
+      ...getPeriodRange(periodFilter),
+    },
   });
   
   // Fetch customers for the dropdown
@@ -109,16 +309,17 @@ export default function InvoicesPage() {
       setIsCreateDialogOpen(false);
     },
     onError: (error: Error) => {
+      if (setServerErrors(createForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het aanmaken van de factuur: ${error.message}`,
+        description: `Fout bij het aanmaken van de factuur: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
   });
   
   const updateInvoiceMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: Partial<InvoiceFormValues> }) => {
+    mutationFn: async ({ id, data }: { id: number, data: Omit<InvoiceFormValues, "status"> }) => {
       const response = await apiRequest('PUT', `/api/invoices/${id}`, data);
       return await response.json();
     },
@@ -132,9 +333,10 @@ export default function InvoicesPage() {
       setSelectedInvoice(null);
     },
     onError: (error: Error) => {
+      if (setServerErrors(editForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het bijwerken van de factuur: ${error.message}`,
+        description: `Fout bij het bijwerken van de factuur: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
@@ -170,9 +372,8 @@ export default function InvoicesPage() {
       workOrderId: null,
       date: new Date(),
       dueDate: new Date(new Date().setDate(new Date().getDate() + 30)),
-      amount: 0,
       status: "Concept",
-      items: [],
+      items: [emptyLine],
     },
   });
   
@@ -183,9 +384,8 @@ export default function InvoicesPage() {
       workOrderId: selectedInvoice?.workOrderId || null,
       date: selectedInvoice?.date ? new Date(selectedInvoice.date) : new Date(),
       dueDate: selectedInvoice?.dueDate ? new Date(selectedInvoice.dueDate) : new Date(new Date().setDate(new Date().getDate() + 30)),
-      amount: selectedInvoice?.amount || 0,
       status: selectedInvoice?.status || "Concept",
-      items: selectedInvoice?.items || [],
+      items: getInvoiceLines(selectedInvoice?.items),
     },
   });
   
@@ -197,9 +397,8 @@ export default function InvoicesPage() {
         workOrderId: selectedInvoice.workOrderId || null,
         date: new Date(selectedInvoice.date),
         dueDate: new Date(selectedInvoice.dueDate),
-        amount: selectedInvoice.amount,
         status: selectedInvoice.status,
-        items: selectedInvoice.items || [],
+        items: getInvoiceLines(selectedInvoice.items),
       });
     }
   }, [selectedInvoice, editForm]);
@@ -218,7 +417,9 @@ export default function InvoicesPage() {
   
   const handleEditSubmit = (data: InvoiceFormValues) => {
     if (selectedInvoice) {
-      updateInvoiceMutation.mutate({ id: selectedInvoice.id, data });
+      // De status volgt uit verzenden, herinneringen en betalingen
+      const { status, ...changes } = data;
+      updateInvoiceMutation.mutate({ id: selectedInvoice.id, data: changes });
     }
   };
   
@@ -238,6 +439,58 @@ export default function InvoicesPage() {
     setIsViewDialogOpen(true);
   };
   
+  const selectedLines = getInvoiceLines(selectedInvoice?.items);
+
+  const isBusinessCustomer = (customerId: number) =>
+    customers.find(c => c.id === customerId)?.type === "Zakelijk";
+
+  // An invoice selected in the command palette
+  useOpenFromUrl<Invoice>('/api/invoices', handleView);
+  
+  // The PDF opens in a new tab, where it can be printed or saved
+  const handlePrint = (invoice: Invoice) => {
+    window.open(`/api/invoices/${invoice.id}/pdf`, "_blank");
+  };
+  
+  const handleSend = (invoice: Invoice) => {
+    setSelectedInvoice(invoice);
+    setIsSendDialogOpen(true);
+  };
+  
+  const exportMonthMutation = useMutation({
+    mutationFn: (month: string) => downloadFile(`/api/invoices/export?month=${month}`, `Facturen-${month}.zip`),
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het exporteren van de facturen: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+  
+  const dunningMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/invoices/dunning');
+      return res.json() as Promise<unknown[]>;
+    },
+    onSuccess: (reminders) => {
+      toast({
+        title: "Aanmaningen verwerkt",
+        description: reminders.length > 0
+          ? `Er zijn ${reminders.length} herinnering(en) of aanmaning(en) verstuurd.`
+          : "Er waren geen herinneringen of aanmaningen te versturen.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het verwerken van de aanmaningen: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+  
   const handleDelete = (invoice: Invoice) => {
     setSelectedInvoice(invoice);
     setIsDeleteDialogOpen(true);
@@ -247,6 +500,7 @@ export default function InvoicesPage() {
   const columns = [
     {
       header: "Factuurnr.",
+      sortKey: "invoiceNumber",
       accessorKey: "invoiceNumber",
       cell: (row: Invoice) => (
         <span className="text-sm font-medium text-primary">{row.invoiceNumber}</span>
@@ -264,6 +518,7 @@ export default function InvoicesPage() {
     },
     {
       header: "Datum",
+      sortKey: "date",
       accessorKey: "date",
       cell: (row: Invoice) => (
         <span className="text-sm text-gray-500">{format(new Date(row.date), 'dd-MM-yyyy')}</span>
@@ -271,6 +526,7 @@ export default function InvoicesPage() {
     },
     {
       header: "Bedrag",
+      sortKey: "amount",
       accessorKey: "amount",
       cell: (row: Invoice) => (
         <span className="text-sm text-gray-500">{formatCurrency(row.amount)}</span>
@@ -278,6 +534,7 @@ export default function InvoicesPage() {
     },
     {
       header: "Status",
+      sortKey: "status",
       accessorKey: "status",
       cell: (row: Invoice) => {
         let statusClass = "";
@@ -328,14 +585,18 @@ export default function InvoicesPage() {
           <Button 
             variant="ghost" 
             size="sm" 
+            title="Afdrukken"
             className="text-primary hover:text-[#003A66] mr-2"
+            onClick={() => handlePrint(row)}
           >
             <FaPrint />
           </Button>
           <Button 
             variant="ghost" 
             size="sm" 
+            title="Versturen"
             className="text-primary hover:text-[#003A66] mr-2"
+            onClick={() => handleSend(row)}
           >
             <FaEnvelope />
           </Button>
@@ -353,81 +614,6 @@ export default function InvoicesPage() {
     },
   ];
   
-  // Filter logic
-  const filteredData = invoices ? invoices.filter((invoice: Invoice) => {
-    // Status filter
-    if (statusFilter !== "all") {
-      const statusMap: Record<string, string> = {
-        "draft": "Concept",
-        "sent": "Verzonden",
-        "paid": "Betaald",
-        "overdue": "Te laat"
-      };
-      if (invoice.status !== statusMap[statusFilter]) {
-        return false;
-      }
-    }
-    
-    // Period filter - simplified for now
-    if (periodFilter !== "all") {
-      const invoiceDate = new Date(invoice.date);
-      const now = new Date();
-      const thisMonth = now.getMonth();
-      const thisYear = now.getFullYear();
-      
-      switch (periodFilter) {
-        case "month":
-          if (invoiceDate.getMonth() !== thisMonth || invoiceDate.getFullYear() !== thisYear) {
-            return false;
-          }
-          break;
-        case "last-month":
-          const lastMonth = thisMonth === 0 ? 11 : thisMonth - 1;
-          const lastMonthYear = thisMonth === 0 ? thisYear - 1 : thisYear;
-          if (invoiceDate.getMonth() !== lastMonth || invoiceDate.getFullYear() !== lastMonthYear) {
-            return false;
-          }
-          break;
-        case "quarter":
-          const quarterStart = Math.floor(thisMonth / 3) * 3;
-          if (
-            invoiceDate.getFullYear() !== thisYear ||
-            invoiceDate.getMonth() < quarterStart ||
-            invoiceDate.getMonth() >= quarterStart + 3
-          ) {
-            return false;
-          }
-          break;
-        case "year":
-          if (invoiceDate.getFullYear() !== thisYear) {
-            return false;
-          }
-          break;
-      }
-    }
-    
-    // Customer filter
-    if (customerFilter !== "all" && invoice.customerId !== parseInt(customerFilter)) {
-      return false;
-    }
-    
-    // Search filter
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      return (
-        invoice.invoiceNumber.toLowerCase().includes(search) ||
-        customers?.find(c => c.id === invoice.customerId)?.name.toLowerCase().includes(search)
-      );
-    }
-    
-    return true;
-  }) : [];
-  
-  // Sort logic
-  const sortedData = [...filteredData].sort((a, b) => {
-    // Sort by date (most recent first by default)
-    return new Date(b.date).getTime() - new Date(a.date).getTime();
-  });
   
   if (error) {
     return (
@@ -445,7 +631,49 @@ export default function InvoicesPage() {
   return (
     <MainLayout title="Facturen">
       <div className="flex justify-between items-center mb-6">
-        <div /> {/* Empty div for flex spacing */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="month"
+            className="w-44"
+            title="Maand om te exporteren"
+            value={exportMonth}
+            onChange={(e) => setExportMonth(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            className="text-primary hover:text-primary/90"
+            disabled={!exportMonth || exportMonthMutation.isPending}
+            onClick={() => exportMonthMutation.mutate(exportMonth)}
+          >
+            {exportMonthMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FaFileArchive className="mr-2 h-4 w-4" />
+            )}
+            Exporteer PDF's (ZIP)
+          </Button>
+          <Button
+            variant="outline"
+            className="text-primary hover:text-primary/90"
+            onClick={() => setIsMailTemplatesOpen(true)}
+          >
+            <FaCog className="mr-2 h-4 w-4" /> E-mailsjablonen
+          </Button>
+          <Button
+            variant="outline"
+            className="text-primary hover:text-primary/90"
+            title="Markeer verlopen facturen als te laat en verstuur de herinneringen die aan de beurt zijn"
+            disabled={dunningMutation.isPending}
+            onClick={() => dunningMutation.mutate()}
+          >
+            {dunningMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FaBell className="mr-2 h-4 w-4" />
+            )}
+            Aanmaningen verwerken
+          </Button>
+        </div>
         <Button 
           className="bg-primary hover:bg-[#003A66]"
           onClick={() => {
@@ -454,9 +682,8 @@ export default function InvoicesPage() {
               workOrderId: null,
               date: new Date(),
               dueDate: new Date(new Date().setDate(new Date().getDate() + 30)),
-              amount: 0,
               status: "Concept",
-              items: [],
+              items: [emptyLine],
             });
             setIsCreateDialogOpen(true);
           }}
@@ -556,18 +783,20 @@ export default function InvoicesPage() {
       ) : (
         /* Invoices Table */
         <DataTable
-          data={sortedData}
+          data={invoicesPage?.items ?? []}
           columns={columns}
-          totalItems={filteredData.length}
+          totalItems={invoicesPage?.total ?? 0}
           currentPage={currentPage}
           onPageChange={handlePageChange}
-          itemsPerPage={10}
+          itemsPerPage={PAGE_SIZE}
+          sort={sort}
+          onSortChange={setSort}
         />
       )}
       
       {/* Create Invoice Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-        <DialogContent className="sm:max-w-[550px]">
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Nieuwe factuur toevoegen</DialogTitle>
             <DialogDescription>
@@ -717,25 +946,7 @@ export default function InvoicesPage() {
                 />
               </div>
               
-              <FormField
-                control={createForm.control}
-                name="amount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Bedrag (€)</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="number"
-                        step="0.01"
-                        placeholder="0.00" 
-                        {...field} 
-                        onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <InvoiceLinesEditor form={createForm} isBusinessCustomer={isBusinessCustomer(createForm.watch("customerId"))} />
               
               <FormField
                 control={createForm.control}
@@ -794,7 +1005,7 @@ export default function InvoicesPage() {
       
       {/* Edit Invoice Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="sm:max-w-[550px]">
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Factuur bewerken</DialogTitle>
             <DialogDescription>
@@ -944,52 +1155,7 @@ export default function InvoicesPage() {
                 />
               </div>
               
-              <FormField
-                control={editForm.control}
-                name="amount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Bedrag (€)</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="number"
-                        step="0.01"
-                        placeholder="0.00" 
-                        {...field} 
-                        onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={editForm.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Selecteer status" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="Concept">Concept</SelectItem>
-                        <SelectItem value="Verzonden">Verzonden</SelectItem>
-                        <SelectItem value="Betaald">Betaald</SelectItem>
-                        <SelectItem value="Te laat">Te laat</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <InvoiceLinesEditor form={editForm} isBusinessCustomer={isBusinessCustomer(editForm.watch("customerId"))} />
               
               <DialogFooter>
                 <Button
@@ -1030,108 +1196,126 @@ export default function InvoicesPage() {
           </DialogHeader>
           
           {selectedInvoice && (
-            <div className="space-y-4">
-              <div className="flex justify-between items-start border-b pb-4">
-                <div>
-                  <h3 className="text-xl font-bold text-primary">{selectedInvoice.invoiceNumber}</h3>
-                  <p className="text-gray-500">
-                    Status: <span className={`inline-flex px-2 text-xs leading-5 font-semibold rounded-full ${
-                      selectedInvoice.status === "Betaald" ? "bg-green-100 text-green-800" :
-                      selectedInvoice.status === "Verzonden" ? "bg-blue-100 text-blue-800" :
-                      selectedInvoice.status === "Te laat" ? "bg-yellow-100 text-yellow-800" :
-                      "bg-gray-100 text-gray-800"
-                    }`}>{selectedInvoice.status}</span>
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p className="text-sm text-gray-500">Factuurdatum: {format(new Date(selectedInvoice.date), 'dd-MM-yyyy')}</p>
-                  <p className="text-sm text-gray-500">Vervaldatum: {format(new Date(selectedInvoice.dueDate), 'dd-MM-yyyy')}</p>
+            <Tabs defaultValue="details">
+              <TabsList className="mb-4">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="betalingen">Betalingen</TabsTrigger>
+                <TabsTrigger value="aanmaningen">Aanmaningen</TabsTrigger>
+                <TabsTrigger value="geschiedenis">Geschiedenis</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4">
+                <div className="flex justify-between items-start border-b pb-4">
+                  <div>
+                    <h3 className="text-xl font-bold text-primary">{selectedInvoice.invoiceNumber}</h3>
+                    <p className="text-gray-500">
+                      Status: <span className={`inline-flex px-2 text-xs leading-5 font-semibold rounded-full ${
+                        selectedInvoice.status === "Betaald" ? "bg-green-100 text-green-800" :
+                        selectedInvoice.status === "Verzonden" ? "bg-blue-100 text-blue-800" :
+                        selectedInvoice.status === "Te laat" ? "bg-yellow-100 text-yellow-800" :
+                        "bg-gray-100 text-gray-800"
+                      }`}>{selectedInvoice.status}</span>
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-500">Factuurdatum: {format(new Date(selectedInvoice.date), 'dd-MM-yyyy')}</p>
+                    <p className="text-sm text-gray-500">Vervaldatum: {format(new Date(selectedInvoice.dueDate), 'dd-MM-yyyy')}</p>
+                  </div>
                 </div>
-              </div>
               
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500">Factuur voor</h3>
-                  <p className="font-semibold">
-                    {customers?.find(c => c.id === selectedInvoice.customerId)?.name || "Onbekend"}
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    {customers?.find(c => c.id === selectedInvoice.customerId)?.street || ""}
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    {customers?.find(c => c.id === selectedInvoice.customerId)?.city || ""}
-                  </p>
-                </div>
-                
-                {selectedInvoice.workOrderId && (
+                <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Werkbon</h3>
+                    <h3 className="text-sm font-medium text-gray-500">Factuur voor</h3>
                     <p className="font-semibold">
-                      {workOrders?.find(w => w.id === selectedInvoice.workOrderId)?.orderNumber || ""}
+                      {customers?.find(c => c.id === selectedInvoice.customerId)?.name || "Onbekend"}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {customers?.find(c => c.id === selectedInvoice.customerId)?.street || ""}
                     </p>
                     <p className="text-sm text-gray-500">
-                      {workOrders?.find(w => w.id === selectedInvoice.workOrderId)?.title || ""}
+                      {customers?.find(c => c.id === selectedInvoice.customerId)?.city || ""}
                     </p>
                   </div>
-                )}
-              </div>
+                
+                  {selectedInvoice.workOrderId && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-500">Werkbon</h3>
+                      <p className="font-semibold">
+                        {workOrders?.find(w => w.id === selectedInvoice.workOrderId)?.orderNumber || ""}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {workOrders?.find(w => w.id === selectedInvoice.workOrderId)?.title || ""}
+                      </p>
+                    </div>
+                  )}
+                </div>
               
-              <div className="mt-6">
-                <h3 className="text-sm font-medium text-gray-500 mb-2">Factuurregels</h3>
-                {selectedInvoice.items && selectedInvoice.items.length > 0 ? (
-                  <div className="border rounded-md overflow-hidden">
-                    <table className="min-w-full divide-y divide-gray-200">
-                      <thead className="bg-gray-50">
-                        <tr>
-                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Omschrijving
-                          </th>
-                          <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Aantal
-                          </th>
-                          <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Prijs
-                          </th>
-                          <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Bedrag
-                          </th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white divide-y divide-gray-200">
-                        {selectedInvoice.items.map((item, index) => (
-                          <tr key={index}>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              {item.description}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                              {item.quantity}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                              {formatCurrency(item.price)}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                              {formatCurrency(item.quantity * item.price)}
-                            </td>
+                <div className="mt-6">
+                  <h3 className="text-sm font-medium text-gray-500 mb-2">Factuurregels</h3>
+                  {selectedLines.length > 0 ? (
+                    <div className="border rounded-md overflow-hidden">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Omschrijving
+                            </th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Aantal
+                            </th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Prijs
+                            </th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              BTW
+                            </th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Bedrag
+                            </th>
                           </tr>
-                        ))}
-                      </tbody>
-                      <tfoot>
-                        <tr>
-                          <td colSpan={3} className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
-                            Totaal:
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
-                            {formatCurrency(selectedInvoice.amount)}
-                          </td>
-                        </tr>
-                      </tfoot>
-                    </table>
-                  </div>
-                ) : (
-                  <p className="text-sm text-gray-500 italic">Geen factuurregels beschikbaar</p>
-                )}
-              </div>
-            </div>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {selectedLines.map((item, index) => (
+                            <tr key={index}>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {item.description}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                                {item.quantity}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                                {formatCurrency(item.price)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                                {VAT_RATE_LABELS[item.vatRate]}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                                {formatCurrency(getInvoiceLineTotal(item))}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="flex justify-end border-t px-6 py-4">
+                        <div className="w-72">
+                          <InvoiceTotalsSummary totals={getInvoiceTotals(selectedLines)} />
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">Geen factuurregels beschikbaar</p>
+                  )}
+                </div>
+              </TabsContent>
+              <TabsContent value="betalingen">
+                <InvoicePayments invoice={selectedInvoice} onInvoiceChanged={setSelectedInvoice} />
+              </TabsContent>
+              <TabsContent value="aanmaningen">
+                <InvoiceReminders invoiceId={selectedInvoice.id} />
+              </TabsContent>
+              <TabsContent value="geschiedenis">
+                <AuditHistory entity="invoice" entityId={selectedInvoice.id} fieldLabels={INVOICE_FIELD_LABELS} />
+              </TabsContent>
+            </Tabs>
           )}
           
           <DialogFooter className="space-x-2">
@@ -1144,12 +1328,14 @@ export default function InvoicesPage() {
             <Button
               variant="outline"
               className="text-primary hover:text-primary/90"
+              onClick={() => selectedInvoice && handlePrint(selectedInvoice)}
             >
               <FaPrint className="mr-2 h-4 w-4" /> Afdrukken
             </Button>
             <Button
               variant="outline"
               className="text-primary hover:text-primary/90"
+              onClick={() => setIsSendDialogOpen(true)}
             >
               <FaEnvelope className="mr-2 h-4 w-4" /> Versturen
             </Button>
@@ -1166,6 +1352,15 @@ export default function InvoicesPage() {
         </DialogContent>
       </Dialog>
       
+      <SendInvoiceDialog
+        invoice={selectedInvoice}
+        open={isSendDialogOpen}
+        onOpenChange={setIsSendDialogOpen}
+        onSent={setSelectedInvoice}
+      />
+      
+      <MailTemplatesEditor open={isMailTemplatesOpen} onOpenChange={setIsMailTemplatesOpen} />
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -0,0 +1,754 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import DataTable from "@/components/tables/DataTable";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { FaEdit, FaList, FaTrash, FaPlus, FaSync } from "react-icons/fa";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency, getStatusColor } from "@/lib/utils";
+import { Customer, MaintenanceContract, User, WorkOrder } from "@shared/schema";
+import { CONTRACT_INTERVALS, CONTRACT_STATUSES, getIntervalLabel } from "@shared/maintenance";
+
+type MaintenanceContractRow = MaintenanceContract & { nextDate: string | null };
+
+// Schema voor het aanmaken/bewerken van onderhoudscontracten
+const contractSchema = z.object({
+  customerId: z.number({ required_error: "Klant is verplicht" }).int().positive("Klant is verplicht"),
+  title: z.string().min(1, "Omschrijving is verplicht"),
+  description: z.string().optional(),
+  status: z.enum(["Actief", "Gepauzeerd", "Beëindigd"]),
+  intervalMonths: z.number().int().min(1),
+  startDate: z.string().min(1, "Startdatum is verplicht"),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Ongeldige tijd"),
+  endDate: z.string().optional(),
+  price: z.number().min(0, "Prijs mag niet negatief zijn"),
+  workOrderTitle: z.string().min(1, "Titel werkbon is verplicht"),
+  workOrderDescription: z.string().optional(),
+  estimatedHours: z.number().min(0).optional(),
+  defaultAssigneeId: z.number().int().nullable().optional(),
+}).refine(data => !data.endDate || data.endDate > data.startDate, {
+  message: "Einddatum moet na de startdatum liggen",
+  path: ["endDate"],
+});
+
+type ContractFormValues = z.infer<typeof contractSchema>;
+
+const emptyContract: ContractFormValues = {
+  customerId: 0,
+  title: "",
+  description: "",
+  status: "Actief",
+  intervalMonths: 12,
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  startTime: "08:00",
+  endDate: "",
+  price: 0,
+  workOrderTitle: "",
+  workOrderDescription: "",
+  estimatedHours: 1,
+  defaultAssigneeId: null,
+};
+
+function toContractPayload({ startDate, startTime, endDate, ...data }: ContractFormValues) {
+  return {
+    ...data,
+    startDate: new Date(`${startDate}T${startTime}`).toISOString(),
+    endDate: endDate ? new Date(`${endDate}T23:59`).toISOString() : null,
+  };
+}
+
+export default function MaintenanceContractsPage() {
+  const { setActiveView } = useNavigation();
+  const { toast } = useToast();
+  const canWrite = usePermission("contracts:write");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isWorkOrdersDialogOpen, setIsWorkOrdersDialogOpen] = useState(false);
+  const [selectedContract, setSelectedContract] = useState<MaintenanceContractRow | null>(null);
+
+  const { data: contracts = [], isLoading } = useQuery<MaintenanceContractRow[]>({
+    queryKey: ['/api/maintenance-contracts'],
+    retry: 1,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    retry: 1,
+  });
+
+  const { data: users = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: ['/api/users'],
+    retry: 1,
+  });
+
+  const { data: contractWorkOrders = [], isLoading: isWorkOrdersLoading } = useQuery<WorkOrder[]>({
+    queryKey: [`/api/maintenance-contracts/${selectedContract?.id}/workorders`],
+    enabled: isWorkOrdersDialogOpen && !!selectedContract,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    setActiveView("onderhoudscontracten");
+  }, [setActiveView]);
+
+  const form = useForm<ContractFormValues>({
+    resolver: zodResolver(contractSchema),
+    defaultValues: emptyContract,
+  });
+
+  const onContractsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance-contracts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+  };
+
+  const saveContractMutation = useMutation({
+    mutationFn: async (data: ContractFormValues) => {
+      const payload = toContractPayload(data);
+      const response = selectedContract
+        ? await apiRequest('PUT', `/api/maintenance-contracts/${selectedContract.id}`, payload)
+        : await apiRequest('POST', '/api/maintenance-contracts', payload);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedContract ? "Contract bijgewerkt" : "Contract aangemaakt",
+        description: selectedContract
+          ? "Het onderhoudscontract is succesvol bijgewerkt."
+          : "Het onderhoudscontract is aangemaakt en de eerste werkbonnen zijn ingepland.",
+      });
+      onContractsChanged();
+      setIsFormDialogOpen(false);
+      setSelectedContract(null);
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(form, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het opslaan van het contract: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteContractMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/maintenance-contracts/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Contract verwijderd",
+        description: "Het onderhoudscontract is verwijderd. Reeds aangemaakte werkbonnen blijven bestaan.",
+      });
+      onContractsChanged();
+      setIsDeleteDialogOpen(false);
+      setSelectedContract(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het verwijderen van het contract: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/maintenance-contracts/generate');
+      return await response.json();
+    },
+    onSuccess: (workOrders: WorkOrder[]) => {
+      toast({
+        title: "Werkbonnen gegenereerd",
+        description: workOrders.length === 0
+          ? "Alle onderhoudsbeurten zijn al ingepland."
+          : `Er zijn ${workOrders.length} nieuwe werkbon(nen) aangemaakt.`,
+      });
+      onContractsChanged();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het genereren van werkbonnen: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getCustomerName = (customerId: number) =>
+    customers.find(c => c.id === customerId)?.name || "Onbekende klant";
+
+  const handleCreate = () => {
+    setSelectedContract(null);
+    form.reset(emptyContract);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEdit = (contract: MaintenanceContractRow) => {
+    setSelectedContract(contract);
+    const start = new Date(contract.startDate);
+    form.reset({
+      customerId: contract.customerId,
+      title: contract.title,
+      description: contract.description || "",
+      status: contract.status as ContractFormValues["status"],
+      intervalMonths: contract.intervalMonths,
+      startDate: format(start, "yyyy-MM-dd"),
+      startTime: format(start, "HH:mm"),
+      endDate: contract.endDate ? format(new Date(contract.endDate), "yyyy-MM-dd") : "",
+      price: contract.price,
+      workOrderTitle: contract.workOrderTitle,
+      workOrderDescription: contract.workOrderDescription || "",
+      estimatedHours: contract.estimatedHours ?? undefined,
+      defaultAssigneeId: contract.defaultAssigneeId,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleDelete = (contract: MaintenanceContractRow) => {
+    setSelectedContract(contract);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const handleShowWorkOrders = (contract: MaintenanceContractRow) => {
+    setSelectedContract(contract);
+    setIsWorkOrdersDialogOpen(true);
+  };
+
+  // Table columns configuration
+  const columns = [
+    {
+      header: "Contract",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <div>
+          <div className="text-sm font-medium text-gray-900">{row.title}</div>
+          <div className="text-sm text-gray-500">{row.contractNumber}</div>
+        </div>
+      ),
+    },
+    {
+      header: "Klant",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <span className="text-sm text-gray-900">{getCustomerName(row.customerId)}</span>
+      ),
+    },
+    {
+      header: "Frequentie",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <span className="text-sm text-gray-500">{getIntervalLabel(row.intervalMonths)}</span>
+      ),
+    },
+    {
+      header: "Volgende beurt",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <span className="text-sm text-gray-500">
+          {row.nextDate ? format(new Date(row.nextDate), "dd-MM-yyyy HH:mm") : "-"}
+        </span>
+      ),
+    },
+    {
+      header: "Prijs per jaar",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <span className="text-sm text-gray-900">{formatCurrency(row.price)}</span>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status" as const,
+      cell: (row: MaintenanceContractRow) => {
+        const statusClass = row.status === "Actief"
+          ? "bg-green-100 text-green-800"
+          : row.status === "Gepauzeerd"
+            ? "bg-yellow-100 text-yellow-800"
+            : "bg-gray-100 text-gray-800";
+
+        return (
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClass}`}>
+            {row.status}
+          </span>
+        );
+      },
+    },
+    {
+      header: "Acties",
+      accessorKey: (row: MaintenanceContractRow) => (
+        <div className="text-right">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Werkbonnen"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleShowWorkOrders(row)}
+          >
+            <FaList />
+          </Button>
+          {canWrite && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-primary hover:text-[#003A66] mr-3"
+                onClick={() => handleEdit(row)}
+              >
+                <FaEdit />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-800"
+                onClick={() => handleDelete(row)}
+              >
+                <FaTrash />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  // Filter logic
+  const filteredData = contracts.filter(contract => {
+    if (statusFilter !== "all" && contract.status !== statusFilter) return false;
+
+    if (searchTerm) {
+      const search = searchTerm.toLowerCase();
+      return (
+        contract.title.toLowerCase().includes(search) ||
+        contract.contractNumber.toLowerCase().includes(search) ||
+        getCustomerName(contract.customerId).toLowerCase().includes(search)
+      );
+    }
+
+    return true;
+  });
+
+  const itemsPerPage = 10;
+  const paginatedData = filteredData.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  return (
+    <MainLayout title="Onderhoudscontracten">
+      <div className="flex justify-between items-center mb-6">
+        <div /> {/* Empty div for flex spacing */}
+        {canWrite && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={generateMutation.isPending}
+              onClick={() => generateMutation.mutate()}
+            >
+              {generateMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <FaSync className="mr-2 h-4 w-4" />}
+              Werkbonnen genereren
+            </Button>
+            <Button className="bg-primary hover:bg-[#003A66]" onClick={handleCreate}>
+              <FaPlus className="mr-2 h-4 w-4" /> Nieuw contract
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4">
+          <div className="flex-1">
+            <label htmlFor="status-contracten" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue placeholder="Alle statussen" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle statussen</SelectItem>
+                {CONTRACT_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1">
+            <label htmlFor="search-contracten" className="block text-sm font-medium text-gray-700">
+              Zoeken
+            </label>
+            <Input
+              id="search-contracten"
+              className="mt-1"
+              placeholder="Zoek op contract of klant..."
+              value={searchTerm}
+              onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable
+          data={paginatedData}
+          columns={columns}
+          totalItems={filteredData.length}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+        />
+      )}
+
+      {/* Create / Edit Contract Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedContract ? "Contract bewerken" : "Nieuw onderhoudscontract"}</DialogTitle>
+            <DialogDescription>
+              Werkbonnen voor de komende onderhoudsbeurten worden automatisch aangemaakt op basis van dit contract.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveContractMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="customerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Klant</FormLabel>
+                    <Select
+                      value={field.value ? field.value.toString() : ""}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecteer een klant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {customers.map(customer => (
+                          <SelectItem key={customer.id} value={customer.id.toString()}>{customer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Omschrijving contract</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Bijv. Jaarlijks onderhoud cv-ketel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="intervalMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frequentie</FormLabel>
+                      <Select
+                        value={field.value.toString()}
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CONTRACT_INTERVALS.map(interval => (
+                            <SelectItem key={interval.months} value={interval.months.toString()}>
+                              {interval.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CONTRACT_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{status}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Eerste beurt</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tijd</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Einddatum</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contractprijs per jaar (excl. BTW)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="border-t pt-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Standaard werkbon</h4>
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="workOrderTitle"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Titel werkbon</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Bijv. Onderhoud cv-ketel" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="workOrderDescription"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Werkzaamheden</FormLabel>
+                        <FormControl>
+                          <Textarea className="resize-none" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="estimatedHours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Geschatte duur (uren)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.25"
+                              min="0"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="defaultAssigneeId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Vaste monteur</FormLabel>
+                          <Select
+                            value={field.value ? field.value.toString() : "none"}
+                            onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Geen</SelectItem>
+                              {users.filter(u => u.role === "monteur").map(monteur => (
+                                <SelectItem key={monteur.id} value={monteur.id.toString()}>{monteur.fullName}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={saveContractMutation.isPending}
+                >
+                  {saveContractMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opslaan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Generated Work Orders Dialog */}
+      <Dialog open={isWorkOrdersDialogOpen} onOpenChange={setIsWorkOrdersDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Werkbonnen {selectedContract?.contractNumber}</DialogTitle>
+            <DialogDescription>
+              Werkbonnen die uit dit onderhoudscontract zijn aangemaakt.
+            </DialogDescription>
+          </DialogHeader>
+          {isWorkOrdersLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : contractWorkOrders.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nog geen werkbonnen aangemaakt</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+              {contractWorkOrders.map(workOrder => (
+                <li key={workOrder.id} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{workOrder.orderNumber}</span>
+                    <span className="text-gray-500"> - {format(new Date(workOrder.date), "dd-MM-yyyy HH:mm")}</span>
+                  </span>
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(workOrder.status)}`}>
+                    {workOrder.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Contract Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Contract verwijderen</DialogTitle>
+            <DialogDescription>
+              Weet u zeker dat u contract {selectedContract?.contractNumber} wilt verwijderen?
+              Er worden geen nieuwe werkbonnen meer aangemaakt; bestaande werkbonnen blijven bewaard.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Annuleren
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteContractMutation.isPending}
+              onClick={() => selectedContract && deleteContractMutation.mutate(selectedContract.id)}
+            >
+              {deleteContractMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verwijderen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -20,9 +20,13 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { usePermission } from "@/hooks/use-permission";
+import { useDebouncedValue, usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useOpenFromUrl } from "@/hooks/use-open-from-url";
 import { Material } from "@shared/schema";
 
 // Schema voor het aanmaken/bewerken van materialen
@@ -38,38 +42,57 @@ const materialSchema = z.object({
 
 type MaterialFormValues = z.infer<typeof materialSchema>;
 
+const PAGE_SIZE = 10;
+
+// Waarden van het categoriefilter naar de categorie zoals die in de database staat
+const CATEGORY_FILTERS: Record<string, string | undefined> = {
+  electric: "Elektra",
+  heating: "Verwarming",
+  sanitary: "Sanitair",
+  install: "Installatiemateriaal",
+};
+
 export default function MaterialsPage() {
   const { setActiveView } = useNavigation();
   const { toast } = useToast();
+  const canWrite = usePermission("materials:write");
   const [currentPage, setCurrentPage] = useState(1);
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [stockFilter, setStockFilter] = useState("all");
   const [supplierFilter, setSupplierFilter] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState("name");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedMaterial, setSelectedMaterial] = useState<Material | null>(null);
   
-  // Fetch materials
+  const search = useDebouncedValue(searchTerm);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [sort, categoryFilter, stockFilter, supplierFilter, search]);
+
+  // Fetch the current page of materials; filtering and sorting happen on the server
   const { 
-    data: materials = [], 
+    data: materialsPage, 
     isLoading,
     error 
-  } = useQuery<Material[]>({
-    queryKey: ['/api/materials'],
-    queryFn: async () => {
-      try {
-        const response = await fetch('/api/materials');
-        if (!response.ok) {
-          throw new Error('Fout bij het ophalen van materialen');
-        }
-        return await response.json();
-      } catch (error) {
-        console.error('Error fetching materials:', error);
-        throw error;
-      }
-    }
+  } = usePaginatedQuery<Material>('/api/materials', {
+    page: currentPage,
+    pageSize: PAGE_SIZE,
+    sort,
+    q: search,
+    filters: {
+      category: CATEGORY_FILTERS[categoryFilter],
+      stock: stockFilter,
+      supplier: supplierFilter,
+    },
+  });
+
+  const { data: suppliers = [] } = useQuery<string[]>({
+    queryKey: ['/api/materials/suppliers'],
   });
   
   // Mutations
@@ -84,12 +107,14 @@ export default function MaterialsPage() {
         description: "Het materiaal is succesvol aangemaakt.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/materials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/materials/suppliers'] });
       setIsCreateDialogOpen(false);
     },
     onError: (error: Error) => {
+      if (setServerErrors(createForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het aanmaken van het materiaal: ${error.message}`,
+        description: `Fout bij het aanmaken van het materiaal: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
@@ -106,13 +131,15 @@ export default function MaterialsPage() {
         description: "Het materiaal is succesvol bijgewerkt.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/materials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/materials/suppliers'] });
       setIsEditDialogOpen(false);
       setSelectedMaterial(null);
     },
     onError: (error: Error) => {
+      if (setServerErrors(editForm, error)) return;
       toast({
         title: "Fout",
-        description: `Fout bij het bijwerken van het materiaal: ${error.message}`,
+        description: `Fout bij het bijwerken van het materiaal: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
@@ -128,6 +155,7 @@ export default function MaterialsPage() {
         description: "Het materiaal is succesvol verwijderd.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/materials'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/materials/suppliers'] });
       setIsDeleteDialogOpen(false);
       setSelectedMaterial(null);
     },
@@ -215,6 +243,12 @@ export default function MaterialsPage() {
     setSelectedMaterial(material);
     setIsDeleteDialogOpen(true);
   };
+
+  // A material selected in the command palette: edited when allowed, otherwise looked up in the list
+  useOpenFromUrl<Material>('/api/materials', material => {
+    if (canWrite) handleEdit(material);
+    else setSearchTerm(material.articleNumber);
+  });
   
   const getIconForMaterial = (category: string) => {
     switch (category.toLowerCase()) {
@@ -244,6 +278,7 @@ export default function MaterialsPage() {
   const columns = [
     {
       header: "Artikelnr.",
+      sortKey: "articleNumber",
       accessorKey: "articleNumber",
       cell: (row: Material) => (
         <span className="text-sm font-medium text-primary">{row.articleNumber}</span>
@@ -251,6 +286,7 @@ export default function MaterialsPage() {
     },
     {
       header: "Naam",
+      sortKey: "name",
       accessorKey: (row: Material) => (
         <div className="flex items-center">
           <div className="flex-shrink-0 h-10 w-10 bg-gray-100 rounded-md flex items-center justify-center">
@@ -265,6 +301,7 @@ export default function MaterialsPage() {
     },
     {
       header: "Categorie",
+      sortKey: "category",
       accessorKey: "category",
       cell: (row: Material) => (
         <span className="text-sm text-gray-500">{row.category}</span>
@@ -272,6 +309,7 @@ export default function MaterialsPage() {
     },
     {
       header: "Prijs",
+      sortKey: "price",
       accessorKey: "price",
       cell: (row: Material) => (
         <span className="text-sm text-gray-500">{formatCurrency(row.price)}</span>
@@ -279,6 +317,7 @@ export default function MaterialsPage() {
     },
     {
       header: "Voorraad",
+      sortKey: "stock",
       accessorKey: "stock",
       cell: (row: Material) => {
         const stockStatus = getStockStatus(row);
@@ -308,14 +347,16 @@ export default function MaterialsPage() {
       header: "Acties",
       accessorKey: (row: Material) => (
         <div className="text-right">
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-primary hover:text-[#003A66] mr-3"
-            onClick={() => handleEdit(row)}
-          >
-            <FaEdit />
-          </Button>
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleEdit(row)}
+            >
+              <FaEdit />
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="sm" 
@@ -323,70 +364,22 @@ export default function MaterialsPage() {
           >
             <FaBox />
           </Button>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-red-600 hover:text-red-800"
-            onClick={() => handleDelete(row)}
-          >
-            <FaTrash />
-          </Button>
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-red-600 hover:text-red-800"
+              onClick={() => handleDelete(row)}
+            >
+              <FaTrash />
+            </Button>
+          )}
         </div>
       ),
       className: "text-right",
     },
   ];
   
-  // Filter logic
-  const filteredData = materials ? materials.filter((material: Material) => {
-    // Category filter
-    if (categoryFilter !== "all") {
-      const categoryMap: Record<string, string> = {
-        "electric": "Elektra",
-        "heating": "Verwarming",
-        "sanitary": "Sanitair",
-        "install": "Installatiemateriaal"
-      };
-      if (material.category !== categoryMap[categoryFilter]) {
-        return false;
-      }
-    }
-    
-    // Stock filter
-    if (stockFilter !== "all") {
-      const stockStatus = getStockStatus(material);
-      const statusMap: Record<string, string> = {
-        "in-stock": "Op voorraad",
-        "low-stock": "Bijna op",
-        "out-of-stock": "Niet op voorraad"
-      };
-      if (stockStatus !== statusMap[stockFilter]) {
-        return false;
-      }
-    }
-    
-    // Supplier filter
-    if (supplierFilter !== "all" && material.supplier !== supplierFilter) {
-      return false;
-    }
-    
-    // Search filter
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      return (
-        material.name.toLowerCase().includes(search) ||
-        material.articleNumber.toLowerCase().includes(search) ||
-        material.brand?.toLowerCase().includes(search) ||
-        material.category.toLowerCase().includes(search)
-      );
-    }
-    
-    return true;
-  }) : [];
-  
-  // Sort logic
-  const sortedData = [...filteredData];
-  
   if (error) {
     return (
       <MainLayout title="Materialen">
@@ -404,23 +397,25 @@ export default function MaterialsPage() {
     <MainLayout title="Materialen">
       <div className="flex justify-between items-center mb-6">
         <div /> {/* Empty div for flex spacing */}
-        <Button 
-          className="bg-primary hover:bg-[#003A66]"
-          onClick={() => {
-            createForm.reset({
-              name: "",
-              brand: "",
-              category: "Elektra",
-              price: 0,
-              stock: 0,
-              minStock: 0,
-              supplier: "",
-            });
-            setIsCreateDialogOpen(true);
-          }}
-        >
-          <FaPlus className="mr-2 h-4 w-4" /> Nieuw materiaal
-        </Button>
+        {canWrite && (
+          <Button 
+            className="bg-primary hover:bg-[#003A66]"
+            onClick={() => {
+              createForm.reset({
+                name: "",
+                brand: "",
+                category: "Elektra",
+                price: 0,
+                stock: 0,
+                minStock: 0,
+                supplier: "",
+              });
+              setIsCreateDialogOpen(true);
+            }}
+          >
+            <FaPlus className="mr-2 h-4 w-4" /> Nieuw materiaal
+          </Button>
+        )}
       </div>
       
       {/* Filters */}
@@ -480,13 +475,11 @@ export default function MaterialsPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Alle leveranciers</SelectItem>
-                {Array.from(new Set(materials.map(m => m.supplier))).filter(Boolean).map(
-                  (supplier) => supplier && (
-                    <SelectItem key={supplier} value={supplier}>
-                      {supplier}
-                    </SelectItem>
-                  )
-                )}
+                {suppliers.map(supplier => (
+                  <SelectItem key={supplier} value={supplier}>
+                    {supplier}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -515,12 +508,14 @@ export default function MaterialsPage() {
       ) : (
         /* Materials Table */
         <DataTable
-          data={sortedData}
+          data={materialsPage?.items ?? []}
           columns={columns}
-          totalItems={filteredData.length}
+          totalItems={materialsPage?.total ?? 0}
           currentPage={currentPage}
           onPageChange={handlePageChange}
-          itemsPerPage={10}
+          itemsPerPage={PAGE_SIZE}
+          sort={sort}
+          onSortChange={setSort}
         />
       )}
       
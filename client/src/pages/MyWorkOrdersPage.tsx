@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import DataTable from "@/components/tables/DataTable";
+import CompleteWorkOrderDialog from "@/components/workorders/CompleteWorkOrderDialog";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FaCheck, FaRoute } from "react-icons/fa";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { getStatusColor } from "@/lib/utils";
+import { format, startOfDay } from "date-fns";
+import { WorkOrder } from "@shared/schema";
+
+export default function MyWorkOrdersPage() {
+  const { setActiveView } = useNavigation();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [workOrderToComplete, setWorkOrderToComplete] = useState<WorkOrder | null>(null);
+
+  useEffect(() => {
+    setActiveView("mijn-werkbonnen");
+  }, [setActiveView]);
+
+  // Fetch the work orders assigned to the logged-in monteur
+  const { data: workOrders = [], isLoading } = useQuery<WorkOrder[]>({
+    queryKey: ['/api/workorders', 'assignee', 'me'],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/workorders?assignee=me");
+      return await response.json();
+    },
+    retry: 1,
+  });
+
+  // Fetch customers for name and location
+  const { data: customers = [] } = useQuery<any[]>({
+    queryKey: ['/api/customers'],
+    retry: 1,
+  });
+
+  const getCustomer = (customerId: number) => customers.find(c => c.id === customerId);
+
+  const filteredData = workOrders
+    .filter(wo => {
+      if (statusFilter === "open") {
+        return wo.status !== "Voltooid" && wo.status !== "Geannuleerd";
+      }
+      if (statusFilter === "completed") {
+        return wo.status === "Voltooid";
+      }
+      return true;
+    })
+    // Per dag in de volgorde van de geoptimaliseerde route, daarna op tijdstip
+    .sort((a, b) =>
+      startOfDay(new Date(a.date)).getTime() - startOfDay(new Date(b.date)).getTime() ||
+      (a.routeSequence ?? Infinity) - (b.routeSequence ?? Infinity) ||
+      new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+
+  const columns = [
+    {
+      header: "Werkbon nr.",
+      accessorKey: "orderNumber" as const,
+      cell: (row: WorkOrder) => (
+        <span className="text-sm font-medium text-primary">{row.orderNumber}</span>
+      ),
+    },
+    {
+      header: "Datum",
+      accessorKey: "date" as const,
+      cell: (row: WorkOrder) => (
+        <div className="text-sm text-gray-500">
+          <div>{format(new Date(row.date), 'dd-MM-yyyy HH:mm')}</div>
+          {row.routeSequence && <div className="text-xs">Stop {row.routeSequence}</div>}
+        </div>
+      ),
+    },
+    {
+      header: "Klant",
+      accessorKey: "customerId" as const,
+      cell: (row: WorkOrder) => {
+        const customer = getCustomer(row.customerId);
+        return (
+          <div className="text-sm">
+            <div className="text-gray-900">{customer?.name || "Onbekend"}</div>
+            {customer && (
+              <div className="text-gray-500">{customer.street}, {customer.city}</div>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      header: "Omschrijving",
+      accessorKey: "title" as const,
+      cell: (row: WorkOrder) => (
+        <span className="text-sm text-gray-500 max-w-xs truncate">{row.title}</span>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status" as const,
+      cell: (row: WorkOrder) => (
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(row.status)}`}>
+          {row.status}
+        </span>
+      ),
+    },
+    {
+      header: "Acties",
+      accessorKey: (row: WorkOrder) => (
+        <div className="text-right">
+          {row.status !== "Voltooid" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-green-600 hover:text-green-800"
+              onClick={() => {
+                setWorkOrderToComplete(row);
+                setCompleteDialogOpen(true);
+              }}
+            >
+              <FaCheck className="mr-2" /> Afmelden
+            </Button>
+          )}
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  return (
+    <MainLayout title="Mijn werkbonnen">
+      {/* Filters */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4">
+          <div className="flex-1 sm:max-w-xs">
+            <label htmlFor="status-mijn-werkbonnen" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue placeholder="Openstaand" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Openstaand</SelectItem>
+                <SelectItem value="completed">Voltooid</SelectItem>
+                <SelectItem value="all">Alle werkbonnen</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex-1 flex sm:justify-end sm:items-end">
+            <Link href="/route">
+              <Button variant="outline">
+                <FaRoute className="mr-2 h-4 w-4" /> Route van vandaag
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable
+          data={filteredData.slice((currentPage - 1) * 10, currentPage * 10)}
+          columns={columns}
+          totalItems={filteredData.length}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          itemsPerPage={10}
+        />
+      )}
+
+      <CompleteWorkOrderDialog
+        workOrder={workOrderToComplete}
+        customerName={workOrderToComplete ? getCustomer(workOrderToComplete.customerId)?.name : undefined}
+        open={completeDialogOpen}
+        onOpenChange={(open) => {
+          setCompleteDialogOpen(open);
+          if (!open) setWorkOrderToComplete(null);
+        }}
+      />
+    </MainLayout>
+  );
+}
@@ -0,0 +1,382 @@
+import { useEffect, useMemo, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { WorkOrder } from "@shared/schema";
+import { AlertTriangle, CalendarIcon, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { nl } from "date-fns/locale";
+import { cn, getStatusColor } from "@/lib/utils";
+import { findConflictingWorkOrders, moveToDay } from "@/lib/planning";
+import { getWorkOrderInterval } from "@shared/planning";
+
+type ViewMode = "day" | "week" | "month";
+
+// Werkdag van 07:00 tot en met 18:00
+const FIRST_HOUR = 7;
+const LAST_HOUR = 18;
+const HOURS = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+
+export default function PlanningPage() {
+  const { setActiveView } = useNavigation();
+  const { toast } = useToast();
+  const [viewMode, setViewMode] = useState<ViewMode>("week");
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Alleen een beheerder mag werkbonnen verslepen
+  const canReschedule = usePermission("workorders:write");
+
+  useEffect(() => {
+    setActiveView("planning");
+  }, [setActiveView]);
+
+  // Fetch work orders from API
+  const { data: workOrders = [], isLoading } = useQuery<WorkOrder[]>({
+    queryKey: ['/api/workorders'],
+    retry: 1,
+  });
+
+  // Fetch customers for the block labels
+  const { data: customers = [] } = useQuery<any[]>({
+    queryKey: ['/api/customers'],
+    retry: 1,
+  });
+
+  // Mutation for moving a work order to another day or time slot
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ id, date, endDate }: { id: number, date: Date, endDate?: Date }) => {
+      const response = await apiRequest("PUT", `/api/workorders/${id}`, { date, endDate });
+      return await response.json();
+    },
+    onSuccess: (workOrder: WorkOrder) => {
+      toast({
+        title: "Werkbon verplaatst",
+        description: `${workOrder.orderNumber} is ingepland op ${format(new Date(workOrder.date), "EEEE d MMMM HH:mm", { locale: nl })}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij verplaatsen werkbon",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleDays = useMemo(() => {
+    if (viewMode === "day") {
+      return [currentDate];
+    }
+    if (viewMode === "week") {
+      return eachDayOfInterval({
+        start: startOfWeek(currentDate, { weekStartsOn: 1 }),
+        end: endOfWeek(currentDate, { weekStartsOn: 1 }),
+      });
+    }
+    return eachDayOfInterval({
+      start: startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 }),
+      end: endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 }),
+    });
+  }, [viewMode, currentDate]);
+
+  const conflicts = useMemo(() => findConflictingWorkOrders(workOrders), [workOrders]);
+
+  const visibleConflicts = workOrders.filter(wo =>
+    conflicts.has(wo.id) && visibleDays.some(day => isSameDay(day, new Date(wo.date)))
+  );
+
+  const getCustomerName = (customerId: number) =>
+    customers.find(c => c.id === customerId)?.name || "Onbekend";
+
+  // Werkbonnen buiten de werkdag worden in het eerste of laatste uurvak getoond
+  const getSlotHour = (workOrder: WorkOrder) =>
+    Math.min(LAST_HOUR, Math.max(FIRST_HOUR, new Date(workOrder.date).getHours()));
+
+  const getWorkOrdersForDay = (day: Date) =>
+    workOrders
+      .filter(wo => isSameDay(new Date(wo.date), day))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const handlePrevious = () => {
+    if (viewMode === "day") setCurrentDate(addDays(currentDate, -1));
+    else if (viewMode === "week") setCurrentDate(addWeeks(currentDate, -1));
+    else setCurrentDate(addMonths(currentDate, -1));
+  };
+
+  const handleNext = () => {
+    if (viewMode === "day") setCurrentDate(addDays(currentDate, 1));
+    else if (viewMode === "week") setCurrentDate(addWeeks(currentDate, 1));
+    else setCurrentDate(addMonths(currentDate, 1));
+  };
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>, workOrder: WorkOrder) => {
+    event.dataTransfer.setData("text/plain", workOrder.id.toString());
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>, target: string) => {
+    if (!canReschedule) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTarget(target);
+  };
+
+  // Drop on a day (month view) keeps the time, drop on a time slot sets the hour
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, day: Date, hour?: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+    if (!canReschedule) return;
+
+    const id = parseInt(event.dataTransfer.getData("text/plain"));
+    const workOrder = workOrders.find(wo => wo.id === id);
+    if (!workOrder) return;
+
+    const original = new Date(workOrder.date);
+    const date = moveToDay(original, day, hour);
+    if (date.getTime() === original.getTime()) return;
+
+    // Een vaste eindtijd schuift mee zodat de duur gelijk blijft
+    const endDate = workOrder.endDate
+      ? new Date(new Date(workOrder.endDate).getTime() + date.getTime() - original.getTime())
+      : undefined;
+
+    rescheduleMutation.mutate({ id, date, endDate });
+  };
+
+  const periodLabel = viewMode === "day"
+    ? format(currentDate, "EEEE d MMMM yyyy", { locale: nl })
+    : viewMode === "week"
+      ? `Week ${format(currentDate, "I", { locale: nl })}, ${format(visibleDays[0], "d MMM", { locale: nl })} - ${format(visibleDays[visibleDays.length - 1], "d MMM yyyy", { locale: nl })}`
+      : format(currentDate, "MMMM yyyy", { locale: nl });
+
+  const renderWorkOrderBlock = (workOrder: WorkOrder, compact = false) => {
+    const { start, end } = getWorkOrderInterval(workOrder);
+    const hasConflict = conflicts.has(workOrder.id);
+    return (
+      <div
+        key={workOrder.id}
+        draggable={canReschedule}
+        onDragStart={(e) => handleDragStart(e, workOrder)}
+        title={`${workOrder.orderNumber} - ${workOrder.title}\n${getCustomerName(workOrder.customerId)}\n${format(start, "HH:mm")} - ${format(end, "HH:mm")}`}
+        className={cn(
+          "rounded-md border px-2 py-1 text-xs mb-1 bg-white shadow-sm",
+          canReschedule && "cursor-move",
+          hasConflict ? "border-red-500 bg-red-50" : "border-primary/40"
+        )}
+      >
+        <div className="flex items-center justify-between gap-1">
+          <span className="font-semibold text-primary truncate">{workOrder.orderNumber}</span>
+          {hasConflict && <AlertTriangle className="h-3 w-3 text-red-600 shrink-0" />}
+        </div>
+        {!compact && (
+          <>
+            <div className="truncate">{workOrder.title}</div>
+            <div className="truncate text-gray-500">{getCustomerName(workOrder.customerId)}</div>
+          </>
+        )}
+        <div className="flex items-center justify-between gap-1 text-gray-500">
+          <span>{format(start, "HH:mm")} - {format(end, "HH:mm")}</span>
+          {!compact && (
+            <span className={`px-1 rounded-full ${getStatusColor(workOrder.status)}`}>{workOrder.status}</span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTimeGrid = () => (
+    <div className="overflow-x-auto">
+      <div
+        className="grid min-w-[700px]"
+        style={{ gridTemplateColumns: `4rem repeat(${visibleDays.length}, minmax(0, 1fr))` }}
+      >
+        <div className="border-b border-gray-200" />
+        {visibleDays.map(day => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              "border-b border-l border-gray-200 px-2 py-2 text-sm font-medium text-center",
+              isSameDay(day, new Date()) && "bg-primary/10"
+            )}
+          >
+            {format(day, "EEE d MMM", { locale: nl })}
+          </div>
+        ))}
+
+        {HOURS.map(hour => (
+          <div key={hour} className="contents">
+            <div className="border-b border-gray-200 px-2 py-1 text-xs text-gray-500 text-right">
+              {`${hour.toString().padStart(2, "0")}:00`}
+            </div>
+            {visibleDays.map(day => {
+              const target = `${day.toDateString()}-${hour}`;
+              return (
+                <div
+                  key={target}
+                  onDragOver={(e) => handleDragOver(e, target)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, day, hour)}
+                  className={cn(
+                    "border-b border-l border-gray-200 min-h-[3.5rem] p-1",
+                    dropTarget === target && "bg-primary/10"
+                  )}
+                >
+                  {getWorkOrdersForDay(day)
+                    .filter(wo => getSlotHour(wo) === hour)
+                    .map(wo => renderWorkOrderBlock(wo, viewMode === "week"))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderMonthGrid = () => (
+    <div className="grid grid-cols-7">
+      {visibleDays.slice(0, 7).map(day => (
+        <div key={day.toISOString()} className="border-b border-gray-200 px-2 py-2 text-sm font-medium text-center">
+          {format(day, "EEEE", { locale: nl })}
+        </div>
+      ))}
+      {visibleDays.map(day => {
+        const target = day.toDateString();
+        const dayWorkOrders = getWorkOrdersForDay(day);
+        return (
+          <div
+            key={target}
+            onDragOver={(e) => handleDragOver(e, target)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, day)}
+            className={cn(
+              "border-b border-l border-gray-200 min-h-[7rem] p-1",
+              !isSameMonth(day, currentDate) && "bg-gray-50 text-gray-400",
+              dropTarget === target && "bg-primary/10"
+            )}
+          >
+            <button
+              type="button"
+              className={cn(
+                "text-xs font-medium mb-1 px-1 rounded",
+                isSameDay(day, new Date()) && "bg-primary text-white"
+              )}
+              onClick={() => {
+                setCurrentDate(day);
+                setViewMode("day");
+              }}
+            >
+              {format(day, "d")}
+            </button>
+            {dayWorkOrders.map(wo => renderWorkOrderBlock(wo, true))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <MainLayout title="Planning">
+      {/* Toolbar */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handlePrevious}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              Vandaag
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleNext}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4 opacity-50" />
+                  <span className="capitalize">{periodLabel}</span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={currentDate}
+                  onSelect={(date) => date && setCurrentDate(date)}
+                  locale={nl}
+                  weekStartsOn={1}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {([
+              ["day", "Dag"],
+              ["week", "Week"],
+              ["month", "Maand"],
+            ] as [ViewMode, string][]).map(([mode, label]) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={viewMode === mode ? "default" : "outline"}
+                className={viewMode === mode ? "bg-primary hover:bg-[#003A66]" : ""}
+                onClick={() => setViewMode(mode)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </Card>
+
+      {visibleConflicts.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Overlappende werkbonnen</AlertTitle>
+          <AlertDescription>
+            {visibleConflicts.length} werkbonnen in deze periode overlappen in tijd:{" "}
+            {visibleConflicts.map(wo => wo.orderNumber).join(", ")}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Card className="bg-white shadow overflow-hidden sm:rounded-lg relative">
+          {rescheduleMutation.isPending && (
+            <div className="absolute inset-0 bg-white/50 flex items-center justify-center z-10">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          )}
+          {viewMode === "month" ? renderMonthGrid() : renderTimeGrid()}
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
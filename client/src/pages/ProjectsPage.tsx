@@ -0,0 +1,848 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import DataTable from "@/components/tables/DataTable";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { FaEdit, FaEuroSign, FaExclamationTriangle, FaFileInvoiceDollar, FaList, FaStream, FaTrash, FaPlus, FaUnlink } from "react-icons/fa";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { Textarea } from "@/components/ui/textarea";
+import ProjectGantt from "@/components/projects/ProjectGantt";
+import ProjectFinancialsOverview from "@/components/projects/ProjectFinancialsOverview";
+import ProjectInstalments from "@/components/projects/ProjectInstalments";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { getStatusColor } from "@/lib/utils";
+import { Customer, WorkOrder } from "@shared/schema";
+import { PROJECT_STATUSES, type ProjectFinancials, type ProjectWithProgress } from "@shared/projects";
+
+// Schema voor het aanmaken/bewerken van projecten
+const projectSchema = z.object({
+  title: z.string().min(1, "Titel is verplicht"),
+  description: z.string().optional(),
+  customerId: z.number({ required_error: "Klant is verplicht" }).int().positive("Klant is verplicht"),
+  status: z.enum(PROJECT_STATUSES),
+  startDate: z.string().min(1, "Startdatum is verplicht"),
+  endDate: z.string().optional(),
+  // Aanneemsom en budget (excl. BTW)
+  price: z.number().min(0, "Aanneemsom mag niet negatief zijn").nullable(),
+  budgetLaborHours: z.number().min(0, "Uren mogen niet negatief zijn"),
+  laborCostRate: z.number().min(0, "Kostprijs mag niet negatief zijn"),
+  budgetMaterials: z.number().min(0, "Budget mag niet negatief zijn"),
+  budgetSubcontracting: z.number().min(0, "Budget mag niet negatief zijn"),
+  subcontractingCosts: z.number().min(0, "Kosten mogen niet negatief zijn"),
+}).refine(data => !data.endDate || data.endDate > data.startDate, {
+  message: "Einddatum moet na de startdatum liggen",
+  path: ["endDate"],
+});
+
+type ProjectFormValues = z.infer<typeof projectSchema>;
+
+const emptyProject: ProjectFormValues = {
+  title: "",
+  description: "",
+  customerId: 0,
+  status: "Gepland",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  price: null,
+  budgetLaborHours: 0,
+  laborCostRate: 0,
+  budgetMaterials: 0,
+  budgetSubcontracting: 0,
+  subcontractingCosts: 0,
+};
+
+const FINANCIAL_FIELDS = ["price", "budgetLaborHours", "laborCostRate", "budgetMaterials", "budgetSubcontracting", "subcontractingCosts"] as const;
+
+const BUDGET_FIELDS: { name: Exclude<typeof FINANCIAL_FIELDS[number], "price">; label: string; step: string }[] = [
+  { name: "budgetLaborHours", label: "Budget arbeid (uren)", step: "0.5" },
+  { name: "laborCostRate", label: "Kostprijs per uur", step: "0.01" },
+  { name: "budgetMaterials", label: "Budget materialen", step: "0.01" },
+  { name: "budgetSubcontracting", label: "Budget onderaanneming", step: "0.01" },
+  { name: "subcontractingCosts", label: "Werkelijke kosten onderaanneming", step: "0.01" },
+];
+
+// Users without projects:financial do not see the budget, so it is left out of what they save
+function toProjectPayload({ startDate, endDate, ...data }: ProjectFormValues, includeFinancials: boolean) {
+  if (!includeFinancials) FINANCIAL_FIELDS.forEach(field => delete data[field]);
+  return {
+    ...data,
+    startDate: new Date(startDate).toISOString(),
+    endDate: endDate ? new Date(endDate).toISOString() : null,
+  };
+}
+
+export default function ProjectsPage() {
+  const { setActiveView } = useNavigation();
+  const { toast } = useToast();
+  const canWrite = usePermission("projects:write");
+  const canViewFinancials = usePermission("projects:financial");
+  const canInvoice = usePermission("invoices:write");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isWorkOrdersDialogOpen, setIsWorkOrdersDialogOpen] = useState(false);
+  const [isGanttDialogOpen, setIsGanttDialogOpen] = useState(false);
+  const [isFinancialsDialogOpen, setIsFinancialsDialogOpen] = useState(false);
+  const [isInstalmentsDialogOpen, setIsInstalmentsDialogOpen] = useState(false);
+  const [selectedProject, setSelectedProject] = useState<ProjectWithProgress | null>(null);
+  const [workOrderToLink, setWorkOrderToLink] = useState("");
+
+  const { data: projects = [], isLoading } = useQuery<ProjectWithProgress[]>({
+    queryKey: ['/api/projects'],
+    retry: 1,
+  });
+
+  // Budget usage of all projects, to flag the ones that exceed their budget
+  const { data: financials = [] } = useQuery<ProjectFinancials[]>({
+    queryKey: ['/api/projects/financials'],
+    enabled: canViewFinancials,
+    staleTime: 0,
+    retry: 1,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    retry: 1,
+  });
+
+  const projectWorkOrdersKey = `/api/projects/${selectedProject?.id}/workorders`;
+  const { data: projectWorkOrders = [], isLoading: isWorkOrdersLoading } = useQuery<WorkOrder[]>({
+    queryKey: [projectWorkOrdersKey],
+    enabled: isWorkOrdersDialogOpen && !!selectedProject,
+    retry: 1,
+  });
+
+  // All work orders, to pick the ones to link; only needed by users that may change projects
+  const { data: workOrders = [] } = useQuery<WorkOrder[]>({
+    queryKey: ['/api/workorders'],
+    enabled: canWrite && isWorkOrdersDialogOpen,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    setActiveView("projecten");
+  }, [setActiveView]);
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectSchema),
+    defaultValues: emptyProject,
+  });
+
+  const onProjectsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects/financials'] });
+    queryClient.invalidateQueries({ queryKey: [projectWorkOrdersKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${selectedProject?.id}/gantt`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+  };
+
+  const saveProjectMutation = useMutation({
+    mutationFn: async (data: ProjectFormValues) => {
+      const payload = toProjectPayload(data, canViewFinancials);
+      const response = selectedProject
+        ? await apiRequest('PUT', `/api/projects/${selectedProject.id}`, payload)
+        : await apiRequest('POST', '/api/projects', payload);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedProject ? "Project bijgewerkt" : "Project aangemaakt",
+        description: selectedProject
+          ? "Het project is succesvol bijgewerkt."
+          : "Het project is aangemaakt. Koppel er werkbonnen aan om de voortgang te volgen.",
+      });
+      onProjectsChanged();
+      setIsFormDialogOpen(false);
+      setSelectedProject(null);
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(form, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het opslaan van het project: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteProjectMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/projects/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Project verwijderd",
+        description: "Het project is verwijderd. De gekoppelde werkbonnen blijven bestaan.",
+      });
+      onProjectsChanged();
+      setIsDeleteDialogOpen(false);
+      setSelectedProject(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het verwijderen van het project: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const linkWorkOrderMutation = useMutation({
+    mutationFn: async ({ workOrderId, link }: { workOrderId: number; link: boolean }) => {
+      await apiRequest(link ? 'PUT' : 'DELETE', `/api/projects/${selectedProject!.id}/workorders/${workOrderId}`);
+    },
+    onSuccess: (_data, { link }) => {
+      toast({
+        title: link ? "Werkbon gekoppeld" : "Werkbon ontkoppeld",
+        description: link
+          ? "De werkbon is aan het project gekoppeld."
+          : "De werkbon is niet langer onderdeel van het project.",
+      });
+      onProjectsChanged();
+      setWorkOrderToLink("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het wijzigen van de werkbonnen: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Keep the project in the work orders dialog in sync with its recalculated progress
+  useEffect(() => {
+    if (!selectedProject) return;
+    const project = projects.find(p => p.id === selectedProject.id);
+    if (project && project !== selectedProject) setSelectedProject(project);
+  }, [projects]);
+
+  const getCustomerName = (customerId: number) =>
+    customers.find(c => c.id === customerId)?.name || "Onbekende klant";
+
+  const handleCreate = () => {
+    setSelectedProject(null);
+    form.reset(emptyProject);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEdit = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    form.reset({
+      title: project.title,
+      description: project.description || "",
+      customerId: project.customerId,
+      status: project.status as ProjectFormValues["status"],
+      startDate: format(new Date(project.startDate), "yyyy-MM-dd"),
+      endDate: project.endDate ? format(new Date(project.endDate), "yyyy-MM-dd") : "",
+      price: project.price ?? null,
+      budgetLaborHours: project.budgetLaborHours ?? 0,
+      laborCostRate: project.laborCostRate ?? 0,
+      budgetMaterials: project.budgetMaterials ?? 0,
+      budgetSubcontracting: project.budgetSubcontracting ?? 0,
+      subcontractingCosts: project.subcontractingCosts ?? 0,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleDelete = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const handleShowWorkOrders = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    setWorkOrderToLink("");
+    setIsWorkOrdersDialogOpen(true);
+  };
+
+  const handleShowFinancials = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    setIsFinancialsDialogOpen(true);
+  };
+
+  const handleShowInstalments = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    setIsInstalmentsDialogOpen(true);
+  };
+
+  const handleShowGantt = (project: ProjectWithProgress) => {
+    setSelectedProject(project);
+    setIsGanttDialogOpen(true);
+  };
+
+  // Work orders that can still be linked: the ones of the project's customer that are not part of this project
+  const linkableWorkOrders = selectedProject
+    ? workOrders.filter(wo => wo.customerId === selectedProject.customerId && wo.projectId !== selectedProject.id)
+    : [];
+
+  // Table columns configuration
+  const columns = [
+    {
+      header: "Project",
+      accessorKey: (row: ProjectWithProgress) => (
+        <div>
+          <div className="text-sm font-medium text-gray-900">{row.title}</div>
+          {row.description && <div className="text-sm text-gray-500 max-w-xs truncate">{row.description}</div>}
+        </div>
+      ),
+    },
+    {
+      header: "Klant",
+      accessorKey: (row: ProjectWithProgress) => (
+        <span className="text-sm text-gray-900">{getCustomerName(row.customerId)}</span>
+      ),
+    },
+    {
+      header: "Periode",
+      accessorKey: (row: ProjectWithProgress) => (
+        <span className="text-sm text-gray-500">
+          {format(new Date(row.startDate), "dd-MM-yyyy")}
+          {row.endDate && ` t/m ${format(new Date(row.endDate), "dd-MM-yyyy")}`}
+        </span>
+      ),
+    },
+    {
+      header: "Voortgang",
+      accessorKey: (row: ProjectWithProgress) => (
+        <div className="w-40">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>{row.completedWorkOrderCount} van {row.workOrderCount} werkbonnen</span>
+            <span className="font-medium text-gray-900">{row.progress}%</span>
+          </div>
+          <Progress value={row.progress} className="h-2" />
+        </div>
+      ),
+    },
+    ...(canViewFinancials ? [{
+      header: "Budget",
+      accessorKey: (row: ProjectWithProgress) => {
+        const projectFinancials = financials.find(f => f.projectId === row.id);
+        if (!projectFinancials || projectFinancials.budgetUsed === null) {
+          return <span className="text-sm text-gray-500">-</span>;
+        }
+        return (
+          <span
+            className={`inline-flex items-center gap-1 text-sm ${projectFinancials.overBudget ? "text-red-600 font-medium" : "text-gray-900"}`}
+            title={projectFinancials.overBudget ? `Meer dan ${projectFinancials.warningPercentage}% van het budget verbruikt` : undefined}
+          >
+            {projectFinancials.overBudget && <FaExclamationTriangle />}
+            {projectFinancials.budgetUsed}% verbruikt
+          </span>
+        );
+      },
+    }] : []),
+    {
+      header: "Status",
+      accessorKey: "status" as const,
+      cell: (row: ProjectWithProgress) => (
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(row.status)}`}>
+          {row.status}
+        </span>
+      ),
+    },
+    {
+      header: "Acties",
+      accessorKey: (row: ProjectWithProgress) => (
+        <div className="text-right">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Werkbonnen"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleShowWorkOrders(row)}
+          >
+            <FaList />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Planning"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleShowGantt(row)}
+          >
+            <FaStream />
+          </Button>
+          {canViewFinancials && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Financieel overzicht"
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleShowFinancials(row)}
+            >
+              <FaEuroSign />
+            </Button>
+          )}
+          {canViewFinancials && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Termijnen"
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleShowInstalments(row)}
+            >
+              <FaFileInvoiceDollar />
+            </Button>
+          )}
+          {canWrite && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-primary hover:text-[#003A66] mr-3"
+                onClick={() => handleEdit(row)}
+              >
+                <FaEdit />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-800"
+                onClick={() => handleDelete(row)}
+              >
+                <FaTrash />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  // Filter logic
+  const filteredData = projects.filter(project => {
+    if (statusFilter !== "all" && project.status !== statusFilter) return false;
+
+    if (searchTerm) {
+      const search = searchTerm.toLowerCase();
+      return (
+        project.title.toLowerCase().includes(search) ||
+        getCustomerName(project.customerId).toLowerCase().includes(search)
+      );
+    }
+
+    return true;
+  });
+
+  const itemsPerPage = 10;
+  const paginatedData = filteredData.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  return (
+    <MainLayout title="Projecten">
+      <div className="flex justify-between items-center mb-6">
+        <div /> {/* Empty div for flex spacing */}
+        {canWrite && (
+          <Button className="bg-primary hover:bg-[#003A66]" onClick={handleCreate}>
+            <FaPlus className="mr-2 h-4 w-4" /> Nieuw project
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4">
+          <div className="flex-1">
+            <label htmlFor="status-projecten" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue placeholder="Alle statussen" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle statussen</SelectItem>
+                {PROJECT_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1">
+            <label htmlFor="search-projecten" className="block text-sm font-medium text-gray-700">
+              Zoeken
+            </label>
+            <Input
+              id="search-projecten"
+              className="mt-1"
+              placeholder="Zoek op project of klant..."
+              value={searchTerm}
+              onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable
+          data={paginatedData}
+          columns={columns}
+          totalItems={filteredData.length}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+        />
+      )}
+
+      {/* Create / Edit Project Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedProject ? "Project bewerken" : "Nieuw project"}</DialogTitle>
+            <DialogDescription>
+              De voortgang wordt automatisch berekend uit de voltooide werkbonnen van het project.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveProjectMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Titel</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Bijv. Renovatie badkamer" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="customerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Klant</FormLabel>
+                    <Select
+                      value={field.value ? field.value.toString() : ""}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecteer een klant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {customers.map(customer => (
+                          <SelectItem key={customer.id} value={customer.id.toString()}>{customer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Omschrijving</FormLabel>
+                    <FormControl>
+                      <Textarea className="resize-none" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PROJECT_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{status}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Startdatum</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Einddatum</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {canViewFinancials && (
+                <div className="border-t pt-4">
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">Aanneemsom en budget (excl. BTW)</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="price"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Aanneemsom</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {BUDGET_FIELDS.map(({ name, label, step }) => (
+                      <FormField
+                        key={name}
+                        control={form.control}
+                        name={name}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{label}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step={step}
+                                min="0"
+                                value={field.value}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={saveProjectMutation.isPending}
+                >
+                  {saveProjectMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opslaan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Project Work Orders Dialog */}
+      <Dialog open={isWorkOrdersDialogOpen} onOpenChange={setIsWorkOrdersDialogOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Werkbonnen {selectedProject?.title}</DialogTitle>
+            <DialogDescription>
+              {selectedProject && `${selectedProject.completedWorkOrderCount} van ${selectedProject.workOrderCount} werkbonnen voltooid (${selectedProject.progress}%)`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedProject && <Progress value={selectedProject.progress} className="h-2" />}
+
+          {isWorkOrdersLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : projectWorkOrders.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Nog geen werkbonnen gekoppeld</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+              {projectWorkOrders.map(workOrder => (
+                <li key={workOrder.id} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{workOrder.orderNumber}</span>
+                    <span className="text-gray-500"> - {workOrder.title} ({format(new Date(workOrder.date), "dd-MM-yyyy")})</span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(workOrder.status)}`}>
+                      {workOrder.status}
+                    </span>
+                    {canWrite && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Ontkoppelen"
+                        className="text-red-600 hover:text-red-800"
+                        disabled={linkWorkOrderMutation.isPending}
+                        onClick={() => linkWorkOrderMutation.mutate({ workOrderId: workOrder.id, link: false })}
+                      >
+                        <FaUnlink />
+                      </Button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canWrite && (
+            <div className="flex gap-2 border-t pt-4">
+              <Select value={workOrderToLink} onValueChange={setWorkOrderToLink}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Selecteer een werkbon van deze klant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkableWorkOrders.map(workOrder => (
+                    <SelectItem key={workOrder.id} value={workOrder.id.toString()}>
+                      {workOrder.orderNumber} - {workOrder.title}
+                      {workOrder.projectId && " (in ander project)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="bg-primary hover:bg-[#003A66]"
+                disabled={!workOrderToLink || linkWorkOrderMutation.isPending}
+                onClick={() => linkWorkOrderMutation.mutate({ workOrderId: parseInt(workOrderToLink), link: true })}
+              >
+                {linkWorkOrderMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Koppelen
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Project Planning (Gantt) Dialog */}
+      <Dialog open={isGanttDialogOpen} onOpenChange={setIsGanttDialogOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Planning {selectedProject?.title}</DialogTitle>
+            <DialogDescription>
+              Werkbonnen van het project in de tijd; rood gemarkeerde werkbonnen liggen op het kritieke pad.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedProject && <ProjectGantt projectId={selectedProject.id} editable={canWrite} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Project Financials Dialog */}
+      <Dialog open={isFinancialsDialogOpen} onOpenChange={setIsFinancialsDialogOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Financieel overzicht {selectedProject?.title}</DialogTitle>
+            <DialogDescription>
+              Werkelijke kosten uit de uren en materialen van de werkbonnen, gefactureerd uit de termijnfacturen van het project en de facturen van de werkbonnen.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedProject && <ProjectFinancialsOverview projectId={selectedProject.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Project Instalments Dialog */}
+      <Dialog open={isInstalmentsDialogOpen} onOpenChange={setIsInstalmentsDialogOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Termijnen {selectedProject?.title}</DialogTitle>
+            <DialogDescription>
+              De aanneemsom wordt in termijnen gefactureerd: op een datum of zodra de werkbon van de mijlpaal is voltooid.
+              Er wordt dan een conceptfactuur aangemaakt.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedProject && (
+            <ProjectInstalments
+              projectId={selectedProject.id}
+              price={selectedProject.price}
+              editable={canViewFinancials}
+              canInvoice={canInvoice}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Project Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Project verwijderen</DialogTitle>
+            <DialogDescription>
+              Weet u zeker dat u project {selectedProject?.title} wilt verwijderen?
+              De gekoppelde werkbonnen blijven bestaan.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Annuleren
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteProjectMutation.isPending}
+              onClick={() => selectedProject && deleteProjectMutation.mutate(selectedProject.id)}
+            >
+              {deleteProjectMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verwijderen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
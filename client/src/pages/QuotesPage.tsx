@@ -0,0 +1,874 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import DataTable from "@/components/tables/DataTable";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { FaEdit, FaEye, FaExchangeAlt, FaTimes, FaTrash, FaPlus } from "react-icons/fa";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { formatCurrency, getStatusColor } from "@/lib/utils";
+import { Customer, Material, Quote } from "@shared/schema";
+import {
+  getQuoteLineTotal,
+  getQuoteTotal,
+  QUOTE_LINE_TYPES,
+  QUOTE_STATUSES,
+  QUOTE_VALIDITY_DAYS,
+  type QuoteConversionTarget,
+  type QuoteLine,
+} from "@shared/quotes";
+
+// Schema voor een offerteregel; een materiaalregel verwijst naar een artikel uit de materialenlijst
+const quoteLineFormSchema = z.object({
+  type: z.enum(QUOTE_LINE_TYPES),
+  description: z.string().min(1, "Omschrijving is verplicht"),
+  quantity: z.number().min(0, "Aantal mag niet negatief zijn"),
+  price: z.number().min(0, "Prijs mag niet negatief zijn"),
+  materialId: z.number().int().nullable(),
+}).refine(line => line.type !== "Materiaal" || !!line.materialId, {
+  message: "Kies een materiaal",
+  path: ["materialId"],
+});
+
+// Schema voor het aanmaken/bewerken van offertes
+const quoteSchema = z.object({
+  title: z.string().min(1, "Titel is verplicht"),
+  description: z.string().optional(),
+  customerId: z.number({ required_error: "Klant is verplicht" }).int().positive("Klant is verplicht"),
+  status: z.enum(QUOTE_STATUSES),
+  date: z.string().min(1, "Offertedatum is verplicht"),
+  validUntil: z.string().min(1, "Geldig tot is verplicht"),
+  items: z.array(quoteLineFormSchema).min(1, "Voeg minimaal één regel toe"),
+}).refine(data => data.validUntil >= data.date, {
+  message: "Geldig tot mag niet voor de offertedatum liggen",
+  path: ["validUntil"],
+});
+
+type QuoteFormValues = z.infer<typeof quoteSchema>;
+
+const emptyLine: QuoteFormValues["items"][number] = { type: "Arbeid", description: "", quantity: 1, price: 0, materialId: null };
+
+function getEmptyQuote(): QuoteFormValues {
+  const today = new Date();
+  return {
+    title: "",
+    description: "",
+    customerId: 0,
+    status: "Concept",
+    date: format(today, "yyyy-MM-dd"),
+    validUntil: format(addDays(today, QUOTE_VALIDITY_DAYS), "yyyy-MM-dd"),
+    items: [emptyLine],
+  };
+}
+
+function toQuotePayload({ date, validUntil, ...data }: QuoteFormValues) {
+  return {
+    ...data,
+    date: new Date(date).toISOString(),
+    validUntil: new Date(validUntil).toISOString(),
+  };
+}
+
+const getLines = (quote: Quote): QuoteLine[] => Array.isArray(quote.items) ? quote.items as QuoteLine[] : [];
+
+const isConverted = (quote: Quote) => quote.invoiceId !== null;
+
+const CONVERSION_TARGETS: Record<QuoteConversionTarget, string> = {
+  workorder: "Werkbon",
+  project: "Project",
+};
+
+interface QuoteConversion {
+  workOrder?: { orderNumber: string };
+  project?: { title: string };
+  invoice: { invoiceNumber: string };
+}
+
+export default function QuotesPage() {
+  const { setActiveView } = useNavigation();
+  const { toast } = useToast();
+  const canWrite = usePermission("quotes:write");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isConvertDialogOpen, setIsConvertDialogOpen] = useState(false);
+  const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
+  const [conversionTarget, setConversionTarget] = useState<QuoteConversionTarget>("workorder");
+  const [conversionDate, setConversionDate] = useState("");
+
+  const { data: quotes = [], isLoading } = useQuery<Quote[]>({
+    queryKey: ['/api/quotes'],
+    retry: 1,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    retry: 1,
+  });
+
+  // Catalogue for the material lines; only needed when editing
+  const { data: materials = [] } = useQuery<Material[]>({
+    queryKey: ['/api/materials'],
+    enabled: canWrite,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    setActiveView("offertes");
+  }, [setActiveView]);
+
+  const form = useForm<QuoteFormValues>({
+    resolver: zodResolver(quoteSchema),
+    defaultValues: getEmptyQuote(),
+  });
+
+  const { fields: lineFields, append: appendLine, remove: removeLine } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+
+  const lines = form.watch("items");
+
+  const saveQuoteMutation = useMutation({
+    mutationFn: async (data: QuoteFormValues) => {
+      const payload = toQuotePayload(data);
+      const response = selectedQuote
+        ? await apiRequest('PUT', `/api/quotes/${selectedQuote.id}`, payload)
+        : await apiRequest('POST', '/api/quotes', payload);
+      return await response.json();
+    },
+    onSuccess: (quote: Quote) => {
+      toast({
+        title: selectedQuote ? "Offerte bijgewerkt" : "Offerte aangemaakt",
+        description: selectedQuote
+          ? "De offerte is succesvol bijgewerkt."
+          : `Offerte ${quote.quoteNumber} is aangemaakt.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      setIsFormDialogOpen(false);
+      setSelectedQuote(null);
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(form, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het opslaan van de offerte: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteQuoteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/quotes/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Offerte verwijderd",
+        description: "De offerte is verwijderd.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      setIsDeleteDialogOpen(false);
+      setSelectedQuote(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het verwijderen van de offerte: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const convertQuoteMutation = useMutation({
+    mutationFn: async ({ id, target, date }: { id: number; target: QuoteConversionTarget; date: string }) => {
+      const response = await apiRequest('POST', `/api/quotes/${id}/convert`, {
+        target,
+        date: new Date(date).toISOString(),
+      });
+      return await response.json();
+    },
+    onSuccess: (conversion: QuoteConversion) => {
+      const created = conversion.workOrder
+        ? `Werkbon ${conversion.workOrder.orderNumber}`
+        : `Project ${conversion.project?.title}`;
+      toast({
+        title: "Offerte omgezet",
+        description: `${created} en conceptfactuur ${conversion.invoice.invoiceNumber} zijn aangemaakt.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      setIsConvertDialogOpen(false);
+      setSelectedQuote(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het omzetten van de offerte: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getCustomerName = (customerId: number) =>
+    customers.find(c => c.id === customerId)?.name || "Onbekende klant";
+
+  const handleCreate = () => {
+    setSelectedQuote(null);
+    form.reset(getEmptyQuote());
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEdit = (quote: Quote) => {
+    setSelectedQuote(quote);
+    form.reset({
+      title: quote.title,
+      description: quote.description || "",
+      customerId: quote.customerId,
+      status: quote.status as QuoteFormValues["status"],
+      date: format(new Date(quote.date), "yyyy-MM-dd"),
+      validUntil: format(new Date(quote.validUntil), "yyyy-MM-dd"),
+      items: getLines(quote).map(line => ({ ...line, materialId: line.materialId ?? null })),
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleView = (quote: Quote) => {
+    setSelectedQuote(quote);
+    setIsViewDialogOpen(true);
+  };
+
+  const handleDelete = (quote: Quote) => {
+    setSelectedQuote(quote);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const handleConvert = (quote: Quote) => {
+    setSelectedQuote(quote);
+    setConversionTarget("workorder");
+    setConversionDate(format(new Date(), "yyyy-MM-dd"));
+    setIsConvertDialogOpen(true);
+  };
+
+  // Picking a material fills in its name and current price
+  const handleMaterialChange = (index: number, materialId: number) => {
+    const material = materials.find(m => m.id === materialId);
+    form.setValue(`items.${index}.materialId`, materialId, { shouldValidate: true });
+    if (material) {
+      form.setValue(`items.${index}.description`, material.name, { shouldValidate: true });
+      form.setValue(`items.${index}.price`, material.price);
+    }
+  };
+
+  // Table columns configuration
+  const columns = [
+    {
+      header: "Offertenummer",
+      accessorKey: "quoteNumber" as const,
+      cell: (row: Quote) => (
+        <span className="text-sm font-medium text-gray-900">{row.quoteNumber}</span>
+      ),
+    },
+    {
+      header: "Klant",
+      accessorKey: (row: Quote) => (
+        <span className="text-sm text-gray-900">{getCustomerName(row.customerId)}</span>
+      ),
+    },
+    {
+      header: "Titel",
+      accessorKey: (row: Quote) => (
+        <span className="text-sm text-gray-900">{row.title}</span>
+      ),
+    },
+    {
+      header: "Datum",
+      accessorKey: (row: Quote) => (
+        <span className="text-sm text-gray-500">{format(new Date(row.date), "dd-MM-yyyy")}</span>
+      ),
+    },
+    {
+      header: "Geldig tot",
+      accessorKey: (row: Quote) => (
+        <span className="text-sm text-gray-500">{format(new Date(row.validUntil), "dd-MM-yyyy")}</span>
+      ),
+    },
+    {
+      header: "Bedrag",
+      accessorKey: (row: Quote) => (
+        <span className="text-sm text-gray-900">{formatCurrency(row.amount)}</span>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "status" as const,
+      cell: (row: Quote) => (
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(row.status)}`}>
+          {row.status}
+          {isConverted(row) && " (omgezet)"}
+        </span>
+      ),
+    },
+    {
+      header: "Acties",
+      accessorKey: (row: Quote) => (
+        <div className="text-right">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Bekijken"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleView(row)}
+          >
+            <FaEye />
+          </Button>
+          {canWrite && row.status === "Geaccepteerd" && !isConverted(row) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Omzetten naar werkbon of project"
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleConvert(row)}
+            >
+              <FaExchangeAlt />
+            </Button>
+          )}
+          {canWrite && !isConverted(row) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-primary hover:text-[#003A66] mr-3"
+              onClick={() => handleEdit(row)}
+            >
+              <FaEdit />
+            </Button>
+          )}
+          {canWrite && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:text-red-800"
+              onClick={() => handleDelete(row)}
+            >
+              <FaTrash />
+            </Button>
+          )}
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  // Filter logic
+  const filteredData = quotes.filter(quote => {
+    if (statusFilter !== "all" && quote.status !== statusFilter) return false;
+
+    if (searchTerm) {
+      const search = searchTerm.toLowerCase();
+      return (
+        quote.quoteNumber.toLowerCase().includes(search) ||
+        quote.title.toLowerCase().includes(search) ||
+        getCustomerName(quote.customerId).toLowerCase().includes(search)
+      );
+    }
+
+    return true;
+  });
+
+  const itemsPerPage = 10;
+  const paginatedData = filteredData.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  return (
+    <MainLayout title="Offertes">
+      <div className="flex justify-between items-center mb-6">
+        <div /> {/* Empty div for flex spacing */}
+        {canWrite && (
+          <Button className="bg-primary hover:bg-[#003A66]" onClick={handleCreate}>
+            <FaPlus className="mr-2 h-4 w-4" /> Nieuwe offerte
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4">
+          <div className="flex-1">
+            <label htmlFor="status-offertes" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+              <SelectTrigger className="w-full mt-1">
+                <SelectValue placeholder="Alle statussen" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle statussen</SelectItem>
+                {QUOTE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex-1">
+            <label htmlFor="search-offertes" className="block text-sm font-medium text-gray-700">
+              Zoeken
+            </label>
+            <Input
+              id="search-offertes"
+              className="mt-1"
+              placeholder="Zoek op offertenummer, titel of klant..."
+              value={searchTerm}
+              onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <DataTable
+          data={paginatedData}
+          columns={columns}
+          totalItems={filteredData.length}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+        />
+      )}
+
+      {/* Create / Edit Quote Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedQuote ? `Offerte ${selectedQuote.quoteNumber} bewerken` : "Nieuwe offerte"}</DialogTitle>
+            <DialogDescription>
+              Bedragen zijn exclusief BTW. Een geaccepteerde offerte kan worden omgezet naar een werkbon of project met een conceptfactuur.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveQuoteMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Titel</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Bijv. Vervangen cv-ketel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="customerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Klant</FormLabel>
+                      <Select
+                        value={field.value ? field.value.toString() : ""}
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecteer een klant" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {customers.map(customer => (
+                            <SelectItem key={customer.id} value={customer.id.toString()}>{customer.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Omschrijving</FormLabel>
+                    <FormControl>
+                      <Textarea className="resize-none" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {QUOTE_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{status}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Offertedatum</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="validUntil"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Geldig tot</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="border-t pt-4 space-y-2">
+                <h4 className="text-sm font-medium text-gray-900">Regels</h4>
+                {lineFields.map((lineField, index) => {
+                  const line = lines[index] ?? emptyLine;
+                  const isText = line.type === "Tekst";
+                  return (
+                    <div key={lineField.id} className="flex flex-wrap items-start gap-2 text-sm">
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.type`}
+                        render={({ field }) => (
+                          <FormItem className="w-32">
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                if (value !== "Materiaal") form.setValue(`items.${index}.materialId`, null);
+                              }}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {QUOTE_LINE_TYPES.map(type => (
+                                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      {line.type === "Materiaal" && (
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.materialId`}
+                          render={({ field }) => (
+                            <FormItem className="w-48">
+                              <Select
+                                value={field.value ? field.value.toString() : ""}
+                                onValueChange={(value) => handleMaterialChange(index, parseInt(value))}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Kies een materiaal" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {materials.map(material => (
+                                    <SelectItem key={material.id} value={material.id.toString()}>
+                                      {material.articleNumber} - {material.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.description`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1 min-w-[160px]">
+                            <FormControl>
+                              <Input placeholder={isText ? "Tekst" : "Omschrijving"} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {!isText && (
+                        <>
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.quantity`}
+                            render={({ field }) => (
+                              <FormItem className="w-20">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step={line.type === "Arbeid" ? "0.25" : "1"}
+                                    min="0"
+                                    title={line.type === "Arbeid" ? "Uren" : "Aantal"}
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.price`}
+                            render={({ field }) => (
+                              <FormItem className="w-24">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    title={line.type === "Arbeid" ? "Uurtarief" : "Prijs per stuk"}
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </>
+                      )}
+                      <span className="w-24 pt-2 text-right">{isText ? "" : formatCurrency(getQuoteLineTotal(line))}</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        title="Verwijderen"
+                        className="text-red-600 hover:text-red-800"
+                        disabled={lineFields.length === 1}
+                        onClick={() => removeLine(index)}
+                      >
+                        <FaTimes />
+                      </Button>
+                    </div>
+                  );
+                })}
+                {form.formState.errors.items?.root?.message && (
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.items.root.message}</p>
+                )}
+                <div className="flex items-center justify-between pt-2">
+                  <Button type="button" variant="outline" onClick={() => appendLine(emptyLine)}>
+                    <FaPlus className="mr-2 h-4 w-4" /> Regel
+                  </Button>
+                  <span className="text-sm font-medium text-gray-900">Totaal {formatCurrency(getQuoteTotal(lines))}</span>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-primary hover:bg-primary/90"
+                  disabled={saveQuoteMutation.isPending}
+                >
+                  {saveQuoteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opslaan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* View Quote Dialog */}
+      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Offerte {selectedQuote?.quoteNumber}</DialogTitle>
+            <DialogDescription>
+              {selectedQuote && `${selectedQuote.title} voor ${getCustomerName(selectedQuote.customerId)}, geldig tot ${format(new Date(selectedQuote.validUntil), "dd-MM-yyyy")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedQuote && (
+            <div className="space-y-4 text-sm">
+              {selectedQuote.description && <p className="text-gray-700 whitespace-pre-line">{selectedQuote.description}</p>}
+              <ul className="divide-y divide-gray-200">
+                {getLines(selectedQuote).map((line, index) => (
+                  <li key={index} className="flex justify-between py-2">
+                    <span>
+                      {line.type === "Tekst" ? (
+                        <span className="italic text-gray-700">{line.description}</span>
+                      ) : (
+                        <>
+                          <span className="font-medium">{line.description}</span>
+                          <span className="text-gray-500">
+                            {" "}({line.quantity} {line.type === "Arbeid" ? "uur" : "st."} x {formatCurrency(line.price)})
+                          </span>
+                        </>
+                      )}
+                    </span>
+                    <span>{line.type !== "Tekst" && formatCurrency(getQuoteLineTotal(line))}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-between border-t pt-2 font-medium">
+                <span>Totaal (excl. BTW)</span>
+                <span>{formatCurrency(selectedQuote.amount)}</span>
+              </div>
+              {isConverted(selectedQuote) && (
+                <p className="text-gray-500">
+                  Omgezet naar {selectedQuote.workOrderId !== null ? "een werkbon" : "een project"} met een conceptfactuur;
+                  de offerte kan niet meer worden gewijzigd.
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Convert Quote Dialog */}
+      <Dialog open={isConvertDialogOpen} onOpenChange={setIsConvertDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Offerte {selectedQuote?.quoteNumber} omzetten</DialogTitle>
+            <DialogDescription>
+              Er wordt een werkbon of project aangemaakt en een conceptfactuur met de regels van de offerte.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Omzetten naar</label>
+              <Select value={conversionTarget} onValueChange={(value) => setConversionTarget(value as QuoteConversionTarget)}>
+                <SelectTrigger className="w-full mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONVERSION_TARGETS).map(([target, label]) => (
+                    <SelectItem key={target} value={target}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label htmlFor="conversion-date" className="block text-sm font-medium text-gray-700">
+                {conversionTarget === "workorder" ? "Datum werkbon" : "Startdatum project"}
+              </label>
+              <Input
+                id="conversion-date"
+                type="date"
+                className="mt-1"
+                value={conversionDate}
+                onChange={(e) => setConversionDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConvertDialogOpen(false)}>
+              Annuleren
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!conversionDate || convertQuoteMutation.isPending}
+              onClick={() => selectedQuote && convertQuoteMutation.mutate({
+                id: selectedQuote.id,
+                target: conversionTarget,
+                date: conversionDate,
+              })}
+            >
+              {convertQuoteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Omzetten
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Quote Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Offerte verwijderen</DialogTitle>
+            <DialogDescription>
+              Weet u zeker dat u offerte {selectedQuote?.quoteNumber} wilt verwijderen?
+              {selectedQuote && isConverted(selectedQuote) && " De werkbon of het project en de factuur blijven bestaan."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Annuleren
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteQuoteMutation.isPending}
+              onClick={() => selectedQuote && deleteQuoteMutation.mutate(selectedQuote.id)}
+            >
+              {deleteQuoteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verwijderen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Wachtwoord moet minimaal 6 tekens bevatten"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Wachtwoorden komen niet overeen",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+// Opened through the link in the forgot password e-mail
+export default function ResetPasswordPage() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordFormValues) => {
+      await apiRequest("POST", "/api/reset-password", { token, password });
+    },
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <div className="flex justify-center mb-4">
+            <img src="/Logo.jpg" alt="Spar-Tec Logo" className="h-16" />
+          </div>
+          <CardTitle>Nieuw wachtwoord instellen</CardTitle>
+          <CardDescription>Kies een nieuw wachtwoord voor uw account.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {resetPasswordMutation.isSuccess ? (
+            <>
+              <p className="text-sm text-gray-600">Uw wachtwoord is gewijzigd. U kunt nu inloggen met uw nieuwe wachtwoord.</p>
+              <Link href="/auth">
+                <Button className="w-full bg-primary hover:bg-[#003A66]">Naar inloggen</Button>
+              </Link>
+            </>
+          ) : !token ? (
+            <Alert variant="destructive">
+              <AlertDescription>Deze link is ongeldig. Vraag een nieuwe herstellink aan via het inlogscherm.</AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              {resetPasswordMutation.isError && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Deze link is ongeldig of verlopen. Vraag een nieuwe herstellink aan via het inlogscherm.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(data => resetPasswordMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nieuw wachtwoord</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Wachtwoord bevestigen</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full bg-primary hover:bg-[#003A66]" disabled={resetPasswordMutation.isPending}>
+                    {resetPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Wachtwoord opslaan
+                  </Button>
+                </form>
+              </Form>
+            </>
+          )}
+
+          <div className="text-center">
+            <Link href="/auth" className="text-sm text-gray-500 hover:underline">Terug naar inloggen</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FaRoute } from "react-icons/fa";
+import { Loader2, MapPin } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermission } from "@/hooks/use-permission";
+import { getStatusColor } from "@/lib/utils";
+import { format } from "date-fns";
+import { Customer, User, WorkOrder } from "@shared/schema";
+
+interface RouteStop {
+  sequence: number;
+  workOrder: WorkOrder;
+  customer: Customer | null;
+  coordinates: { lat: number; lon: number } | null;
+  distanceKm: number | null;
+}
+
+interface DayRoute {
+  userId: number;
+  date: string;
+  start: { lat: number; lon: number } | null;
+  stops: RouteStop[];
+  totalDistanceKm: number;
+}
+
+export default function RoutePage() {
+  const { setActiveView } = useNavigation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canViewOthers = usePermission("workorders:read-all");
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [userId, setUserId] = useState<string>("");
+
+  useEffect(() => {
+    setActiveView("route");
+  }, [setActiveView]);
+
+  useEffect(() => {
+    if (user && !userId) setUserId(user.id.toString());
+  }, [user, userId]);
+
+  const routeKey = ['/api/route', userId, date];
+
+  const { data: route, isLoading } = useQuery<DayRoute>({
+    queryKey: routeKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/route?userId=${userId}&date=${date}`);
+      return await response.json();
+    },
+    enabled: !!userId,
+    retry: 1,
+  });
+
+  const { data: users = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: ['/api/users'],
+    enabled: canViewOthers,
+    retry: 1,
+  });
+
+  const optimiseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/route/optimise", { userId: parseInt(userId), date });
+      return await response.json();
+    },
+    onSuccess: (optimised: DayRoute) => {
+      queryClient.setQueryData(routeKey, optimised);
+      queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
+      toast({
+        title: "Route geoptimaliseerd",
+        description: `De volgorde van ${optimised.stops.length} adressen is opgeslagen (${optimised.totalDistanceKm} km).`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fout bij optimaliseren route",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlocatedCount = route?.stops.filter(stop => !stop.coordinates).length ?? 0;
+
+  return (
+    <MainLayout title="Route">
+      {/* Filters */}
+      <Card className="bg-white shadow rounded-lg mb-6 p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end space-y-3 sm:space-y-0 sm:space-x-4">
+          <div className="flex-1 sm:max-w-xs">
+            <label htmlFor="route-date" className="block text-sm font-medium text-gray-700">
+              Datum
+            </label>
+            <Input
+              id="route-date"
+              type="date"
+              className="mt-1"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+
+          {canViewOthers && (
+            <div className="flex-1 sm:max-w-xs">
+              <label className="block text-sm font-medium text-gray-700">Monteur</label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger className="w-full mt-1">
+                  <SelectValue placeholder="Selecteer een monteur" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map(u => (
+                    <SelectItem key={u.id} value={u.id.toString()}>{u.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex-1 flex sm:justify-end">
+            <Button
+              className="bg-primary hover:bg-[#003A66]"
+              disabled={!route || route.stops.length < 2 || optimiseMutation.isPending}
+              onClick={() => optimiseMutation.mutate()}
+            >
+              {optimiseMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <FaRoute className="mr-2 h-4 w-4" />}
+              Route optimaliseren
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {unlocatedCount > 0 && (
+        <Alert className="mb-6">
+          <AlertDescription>
+            Van {unlocatedCount} adres(sen) is de postcode onbekend. Deze worden achteraan de route geplaatst.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !route || route.stops.length === 0 ? (
+        <Card className="bg-white shadow rounded-lg p-6">
+          <p className="text-sm text-gray-500 italic">Geen werkbonnen op deze dag</p>
+        </Card>
+      ) : (
+        <Card className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <ol className="divide-y divide-gray-200">
+            {route.stops.map(stop => (
+              <li key={stop.workOrder.id} className="flex items-start gap-4 p-4">
+                <div className="flex-shrink-0 h-8 w-8 flex items-center justify-center rounded-full bg-primary text-white text-sm font-medium">
+                  {stop.sequence}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">
+                      {stop.customer?.name || "Onbekende klant"}
+                    </span>
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(stop.workOrder.status)}`}>
+                      {stop.workOrder.status}
+                    </span>
+                  </div>
+                  {stop.customer && (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {stop.customer.street}, {stop.customer.postalCode} {stop.customer.city}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-500">
+                    {format(new Date(stop.workOrder.date), "HH:mm")} - {stop.workOrder.orderNumber} {stop.workOrder.title}
+                  </div>
+                </div>
+                <div className="text-sm text-gray-500 whitespace-nowrap">
+                  {stop.distanceKm !== null ? `${stop.distanceKm.toFixed(1)} km` : "-"}
+                </div>
+              </li>
+            ))}
+          </ol>
+          <div className="flex justify-end p-4 border-t border-gray-200 text-sm font-medium">
+            Totale afstand: {route.totalDistanceKm} km (hemelsbreed)
+          </div>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
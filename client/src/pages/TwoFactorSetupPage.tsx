@@ -0,0 +1,38 @@
+import TwoFactorSettings from "@/components/account/TwoFactorSettings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shown instead of the application to users whose role requires two-factor authentication
+// until they have enrolled; the API refuses their requests in the meantime
+export default function TwoFactorSetupPage() {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-lg mx-4">
+        <CardHeader>
+          <div className="flex justify-center mb-4">
+            <img src="/Logo.jpg" alt="Spar-Tec Logo" className="h-16" />
+          </div>
+          <CardTitle>Tweestapsverificatie instellen</CardTitle>
+          <CardDescription>
+            Omdat u als beheerder toegang heeft tot alle financiële gegevens, is tweestapsverificatie verplicht.
+            Stel deze in om verder te gaan.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <TwoFactorSettings />
+          <Button
+            variant="ghost"
+            className="text-gray-500"
+            disabled={logoutMutation.isPending}
+            onClick={() => logoutMutation.mutate()}
+          >
+            Uitloggen
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
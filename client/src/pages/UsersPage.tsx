@@ -0,0 +1,636 @@
+import { useEffect, useState } from "react";
+import MainLayout from "@/components/layout/MainLayout";
+import DataTable from "@/components/tables/DataTable";
+import { useNavigation } from "@/contexts/NavigationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LoginHistory from "@/components/users/LoginHistory";
+import { FaEdit, FaKey, FaPlus, FaShieldAlt, FaUnlock, FaUserCheck, FaUserSlash } from "react-icons/fa";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { User } from "@shared/schema";
+import { ROLES } from "@shared/permissions";
+
+type UserRow = Omit<User, "password">;
+
+const isLocked = (user: UserRow) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+const ROLE_LABELS: Record<string, string> = {
+  monteur: "Monteur",
+  beheerder: "Beheerder",
+};
+
+// Schema voor het aanmaken en bewerken van gebruikers; het wachtwoord is alleen verplicht bij aanmaken
+const userSchema = z.object({
+  username: z.string().trim().min(1, "Gebruikersnaam is verplicht"),
+  fullName: z.string().trim().min(1, "Volledige naam is verplicht"),
+  email: z.string().email("Ongeldig e-mailadres").or(z.literal("")),
+  phone: z.string().optional(),
+  role: z.enum(ROLES),
+  password: z.string(),
+});
+
+const passwordSchema = z.object({
+  password: z.string().min(6, "Wachtwoord moet minimaal 6 tekens bevatten"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Wachtwoorden komen niet overeen",
+  path: ["confirmPassword"],
+});
+
+type UserFormValues = z.infer<typeof userSchema>;
+type PasswordFormValues = z.infer<typeof passwordSchema>;
+
+const emptyUser: UserFormValues = {
+  username: "",
+  fullName: "",
+  email: "",
+  phone: "",
+  role: "monteur",
+  password: "",
+};
+
+export default function UsersPage() {
+  const { setActiveView } = useNavigation();
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("active");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<UserRow | null>(null);
+
+  const { data: users = [], isLoading } = useQuery<UserRow[]>({
+    queryKey: ['/api/users?includeInactive=true'],
+    retry: 1,
+  });
+
+  useEffect(() => {
+    setActiveView("gebruikers");
+  }, [setActiveView]);
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userSchema.refine(data => !!selectedUser || data.password.length >= 6, {
+      message: "Wachtwoord moet minimaal 6 tekens bevatten",
+      path: ["password"],
+    })),
+    defaultValues: emptyUser,
+  });
+
+  const passwordForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onUsersChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/users?includeInactive=true'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+  };
+
+  const saveUserMutation = useMutation({
+    mutationFn: async ({ username, password, ...data }: UserFormValues) => {
+      const response = selectedUser
+        ? await apiRequest('PATCH', `/api/users/${selectedUser.id}`, data)
+        : await apiRequest('POST', '/api/register', { ...data, username, password });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedUser ? "Gebruiker bijgewerkt" : "Gebruiker aangemaakt",
+        description: selectedUser
+          ? "De gebruiker is succesvol bijgewerkt."
+          : "De gebruiker is aangemaakt en kan nu inloggen.",
+      });
+      onUsersChanged();
+      setIsFormDialogOpen(false);
+      setSelectedUser(null);
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(form, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het opslaan van de gebruiker: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (user: UserRow) => {
+      const response = await apiRequest('PATCH', `/api/users/${user.id}`, { active: !user.active });
+      return await response.json();
+    },
+    onSuccess: (user: UserRow) => {
+      toast({
+        title: user.active ? "Gebruiker geactiveerd" : "Gebruiker gedeactiveerd",
+        description: user.active
+          ? `${user.fullName} kan weer inloggen.`
+          : `${user.fullName} kan niet meer inloggen.`,
+      });
+      onUsersChanged();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het wijzigen van de gebruiker: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: PasswordFormValues) => {
+      await apiRequest('POST', `/api/users/${selectedUser!.id}/reset-password`, { password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Wachtwoord gewijzigd",
+        description: `Het wachtwoord van ${selectedUser?.fullName} is opnieuw ingesteld.`,
+      });
+      setIsPasswordDialogOpen(false);
+      setSelectedUser(null);
+    },
+    onError: (error: Error) => {
+      if (setServerErrors(passwordForm, error)) return;
+      toast({
+        title: "Fout",
+        description: `Fout bij het instellen van het wachtwoord: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: UserRow) => {
+      const response = await apiRequest('POST', `/api/users/${user.id}/reset-2fa`);
+      return await response.json();
+    },
+    onSuccess: (user: UserRow) => {
+      toast({
+        title: "Tweestapsverificatie gereset",
+        description: `${user.fullName} kan tweestapsverificatie opnieuw instellen.`,
+      });
+      onUsersChanged();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het resetten van tweestapsverificatie: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (user: UserRow) => {
+      const response = await apiRequest('POST', `/api/users/${user.id}/unlock`);
+      return await response.json();
+    },
+    onSuccess: (user: UserRow) => {
+      toast({
+        title: "Gebruiker gedeblokkeerd",
+        description: `${user.fullName} kan weer inloggen.`,
+      });
+      onUsersChanged();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: `Fout bij het deblokkeren van de gebruiker: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleCreate = () => {
+    setSelectedUser(null);
+    form.reset(emptyUser);
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEdit = (user: UserRow) => {
+    setSelectedUser(user);
+    form.reset({
+      username: user.username,
+      fullName: user.fullName,
+      email: user.email || "",
+      phone: user.phone || "",
+      role: user.role as UserFormValues["role"],
+      password: "",
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleResetPassword = (user: UserRow) => {
+    setSelectedUser(user);
+    passwordForm.reset({ password: "", confirmPassword: "" });
+    setIsPasswordDialogOpen(true);
+  };
+
+  // Table columns configuration
+  const columns = [
+    {
+      header: "Naam",
+      accessorKey: (row: UserRow) => (
+        <div>
+          <div className="text-sm font-medium text-gray-900">{row.fullName}</div>
+          <div className="text-sm text-gray-500">{row.username}</div>
+        </div>
+      ),
+    },
+    {
+      header: "Contact",
+      accessorKey: (row: UserRow) => (
+        <div>
+          <div className="text-sm text-gray-900">{row.email || "-"}</div>
+          <div className="text-sm text-gray-500">{row.phone || ""}</div>
+        </div>
+      ),
+    },
+    {
+      header: "Rol",
+      accessorKey: (row: UserRow) => (
+        <span className="text-sm text-gray-900">{ROLE_LABELS[row.role] || row.role}</span>
+      ),
+    },
+    {
+      header: "Status",
+      accessorKey: "active" as const,
+      cell: (row: UserRow) => (
+        <div className="flex flex-col items-start gap-1">
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            row.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+          }`}>
+            {row.active ? "Actief" : "Gedeactiveerd"}
+          </span>
+          {isLocked(row) && (
+            <span
+              className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+              title={`Geblokkeerd tot ${format(new Date(row.lockedUntil!), "dd-MM-yyyy HH:mm")}`}
+            >
+              Geblokkeerd
+            </span>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Acties",
+      accessorKey: (row: UserRow) => (
+        <div className="text-right">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Bewerken"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleEdit(row)}
+          >
+            <FaEdit />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Wachtwoord opnieuw instellen"
+            className="text-primary hover:text-[#003A66] mr-3"
+            onClick={() => handleResetPassword(row)}
+          >
+            <FaKey />
+          </Button>
+          {isLocked(row) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Deblokkeren"
+              className="text-primary hover:text-[#003A66] mr-3"
+              disabled={unlockMutation.isPending}
+              onClick={() => unlockMutation.mutate(row)}
+            >
+              <FaUnlock />
+            </Button>
+          )}
+          {row.twoFactorEnabled && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Tweestapsverificatie resetten"
+              className="text-primary hover:text-[#003A66] mr-3"
+              disabled={resetTwoFactorMutation.isPending}
+              onClick={() => resetTwoFactorMutation.mutate(row)}
+            >
+              <FaShieldAlt />
+            </Button>
+          )}
+          {row.id !== currentUser?.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title={row.active ? "Deactiveren" : "Activeren"}
+              className={row.active ? "text-red-600 hover:text-red-800" : "text-green-600 hover:text-green-800"}
+              disabled={toggleActiveMutation.isPending}
+              onClick={() => toggleActiveMutation.mutate(row)}
+            >
+              {row.active ? <FaUserSlash /> : <FaUserCheck />}
+            </Button>
+          )}
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  // Filter logic
+  const filteredData = users.filter(user => {
+    if (statusFilter === "active" && !user.active) return false;
+    if (statusFilter === "inactive" && user.active) return false;
+
+    if (searchTerm) {
+      const search = searchTerm.toLowerCase();
+      return (
+        user.fullName.toLowerCase().includes(search) ||
+        user.username.toLowerCase().includes(search) ||
+        (user.email || "").toLowerCase().includes(search)
+      );
+    }
+
+    return true;
+  });
+
+  const itemsPerPage = 10;
+  const paginatedData = filteredData.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  return (
+    <MainLayout title="Gebruikers">
+      <Tabs defaultValue="gebruikers">
+        <TabsList className="mb-4">
+          <TabsTrigger value="gebruikers">Gebruikers</TabsTrigger>
+          <TabsTrigger value="inloggeschiedenis">Inloggeschiedenis</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="gebruikers">
+          <div className="flex justify-between items-center mb-6">
+            <div /> {/* Empty div for flex spacing */}
+            <Button className="bg-primary hover:bg-[#003A66]" onClick={handleCreate}>
+              <FaPlus className="mr-2 h-4 w-4" /> Nieuwe gebruiker
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <Card className="bg-white shadow rounded-lg mb-6 p-4">
+            <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4">
+              <div className="flex-1">
+                <label htmlFor="status-gebruikers" className="block text-sm font-medium text-gray-700">
+                  Status
+                </label>
+                <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setCurrentPage(1); }}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue placeholder="Alle gebruikers" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Alle gebruikers</SelectItem>
+                    <SelectItem value="active">Actief</SelectItem>
+                    <SelectItem value="inactive">Gedeactiveerd</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex-1">
+                <label htmlFor="search-gebruikers" className="block text-sm font-medium text-gray-700">
+                  Zoeken
+                </label>
+                <Input
+                  id="search-gebruikers"
+                  className="mt-1"
+                  placeholder="Zoek op naam, gebruikersnaam of e-mail..."
+                  value={searchTerm}
+                  onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+                />
+              </div>
+            </div>
+          </Card>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-64">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <DataTable
+              data={paginatedData}
+              columns={columns}
+              totalItems={filteredData.length}
+              currentPage={currentPage}
+              onPageChange={setCurrentPage}
+              itemsPerPage={itemsPerPage}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="inloggeschiedenis">
+          <LoginHistory />
+        </TabsContent>
+      </Tabs>
+
+      {/* Gebruiker aanmaken/bewerken */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{selectedUser ? "Gebruiker bewerken" : "Nieuwe gebruiker"}</DialogTitle>
+            <DialogDescription>
+              {selectedUser
+                ? "Wijzig de gegevens en de rol van de gebruiker."
+                : "Maak een account aan voor een nieuwe medewerker."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => saveUserMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gebruikersnaam</FormLabel>
+                    <FormControl>
+                      <Input {...field} disabled={!!selectedUser} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Volledige naam</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>E-mailadres</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Telefoonnummer</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rol</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={selectedUser?.id === currentUser?.id}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecteer een rol" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {!selectedUser && (
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Wachtwoord</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-[#003A66]" disabled={saveUserMutation.isPending}>
+                  {saveUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Opslaan
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Wachtwoord opnieuw instellen */}
+      <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Wachtwoord opnieuw instellen</DialogTitle>
+            <DialogDescription>
+              Stel een nieuw wachtwoord in voor {selectedUser?.fullName}. Deel het wachtwoord op een veilige manier.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...passwordForm}>
+            <form onSubmit={passwordForm.handleSubmit(data => resetPasswordMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={passwordForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nieuw wachtwoord</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={passwordForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Wachtwoord bevestigen</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsPasswordDialogOpen(false)}>
+                  Annuleren
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-[#003A66]" disabled={resetPasswordMutation.isPending}>
+                  {resetPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Wachtwoord instellen
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useState } from "react";
 import MainLayout from "@/components/layout/MainLayout";
 import DataTable from "@/components/tables/DataTable";
 import { useNavigation } from "@/contexts/NavigationContext";
@@ -12,9 +12,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { FaEdit, FaFileAlt, FaTrash, FaPlus, FaCheck, FaUpload, FaCamera } from "react-icons/fa";
+import { FaEdit, FaFileAlt, FaTrash, FaPlus, FaCheck } from "react-icons/fa";
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { formatDate } from "@/lib/utils";
+import { formatDate, getPeriodRange } from "@/lib/utils";
+import { usePermission } from "@/hooks/use-permission";
+import { useDebouncedValue, usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useOpenFromUrl } from "@/hooks/use-open-from-url";
 import { WorkOrder } from "@shared/schema";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -22,13 +25,18 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getErrorMessage, setServerErrors } from "@/lib/formErrors";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
-import { CalendarIcon, Loader2, Image as ImageIcon } from "lucide-react";
+import { CalendarIcon, Loader2 } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
+import CompleteWorkOrderDialog from "@/components/workorders/CompleteWorkOrderDialog";
+import WorkOrderAssignees from "@/components/workorders/WorkOrderAssignees";
+import AuditHistory from "@/components/audit/AuditHistory";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // Schema voor het aanmaken/bewerken van werkbonnen
 const workOrderSchema = z.object({
@@ -37,6 +45,9 @@ const workOrderSchema = z.object({
   customerId: z.number().int().min(1, "Klant is verplicht"),
   status: z.string().min(1, "Status is verplicht"),
   date: z.date(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Starttijd is verplicht"),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, "Ongeldige eindtijd").or(z.literal("")),
+  estimatedHours: z.number().min(0).optional().nullable(),
   notes: z.string().optional().nullable(),
   laborHours: z.number().min(0).optional().nullable(),
   materials: z.array(z.object({
@@ -45,17 +56,74 @@ const workOrderSchema = z.object({
     name: z.string(),
     price: z.number()
   })).optional().nullable(),
+}).refine(data => !data.endTime || data.endTime > data.startTime, {
+  message: "Eindtijd moet na de starttijd liggen",
+  path: ["endTime"],
 });
 
 type WorkOrderFormValues = z.infer<typeof workOrderSchema>;
 
+// Veldnamen zoals ze in de geschiedenis getoond worden
+const WORK_ORDER_FIELD_LABELS: Record<string, string> = {
+  orderNumber: "Werkbonnummer",
+  title: "Titel",
+  description: "Omschrijving",
+  customerId: "Klant",
+  date: "Start",
+  endDate: "Einde",
+  estimatedHours: "Geschatte duur",
+  status: "Status",
+  laborHours: "Gewerkte uren",
+  notes: "Notities",
+  materials: "Materialen",
+  photos: "Foto's",
+  contractId: "Onderhoudscontract",
+  routeSequence: "Volgorde in route",
+  projectId: "Project",
+};
+
+// Combineert de gekozen dag met een tijdstip (HH:mm)
+function combineDateAndTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+// Zet de formulierwaarden om naar de velden die de API verwacht
+function toWorkOrderPayload({ startTime, endTime, ...data }: WorkOrderFormValues) {
+  return {
+    ...data,
+    date: combineDateAndTime(data.date, startTime),
+    endDate: endTime ? combineDateAndTime(data.date, endTime) : null,
+  };
+}
+
+type WorkOrderPayload = ReturnType<typeof toWorkOrderPayload>;
+
+const PAGE_SIZE = 10;
+
+// Waarden van het statusfilter naar de status zoals die in de database staat
+const STATUS_FILTERS: Record<string, string | undefined> = {
+  "open": "Ingepland",
+  "in-progress": "In uitvoering",
+  "completed": "Voltooid",
+  "cancelled": "Geannuleerd",
+};
+
+// API velden die in het formulier anders heten
+const WORK_ORDER_FORM_FIELDS: Record<string, string> = {
+  endDate: "endTime",
+};
+
 export default function WorkOrdersPage() {
   const { setActiveView } = useNavigation();
   const [currentPage, setCurrentPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState("all");
-  const [dateFilter, setDateFilter] = useState("week");
+  const [dateFilter, setDateFilter] = useState("all");
   const [customerFilter, setCustomerFilter] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState("-date");
   const [workOrderDialogOpen, setWorkOrderDialogOpen] = useState(false);
   const [editingWorkOrder, setEditingWorkOrder] = useState<WorkOrder | null>(null);
   const [viewDetailsDialogOpen, setViewDetailsDialogOpen] = useState(false);
@@ -64,14 +132,27 @@ export default function WorkOrdersPage() {
   const [workOrderToDelete, setWorkOrderToDelete] = useState<number | null>(null);
   const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
   const [workOrderToComplete, setWorkOrderToComplete] = useState<WorkOrder | null>(null);
-  const [uploadedPhotos, setUploadedPhotos] = useState<string[]>([]);
-  const photoInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const canWrite = usePermission("workorders:write");
 
-  // Fetch work orders from API
-  const { data: workOrders, isLoading, refetch } = useQuery<WorkOrder[]>({
-    queryKey: ['/api/workorders'],
-    retry: 1,
+  const search = useDebouncedValue(searchTerm);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [sort, statusFilter, dateFilter, customerFilter, search]);
+
+  // Fetch the current page of work orders; filtering and sorting happen on the server
+  const { data: workOrdersPage, isLoading } = usePaginatedQuery<WorkOrder>('/api/workorders', {
+    page: currentPage,
+    pageSize: PAGE_SIZE,
+    sort,
+    q: search,
+    filters: {
+      status: STATUS_FILTERS[statusFilter],
+      customerId: customerFilter,
+      ...getPeriodRange(dateFilter),
+    },
   });
 
   // Fetch customers for the dropdown
@@ -89,6 +170,9 @@ export default function WorkOrdersPage() {
       customerId: 0,
       status: "Ingepland",
       date: new Date(),
+      startTime: "08:00",
+      endTime: "",
+      estimatedHours: null,
       notes: "",
       laborHours: 0,
       materials: [],
@@ -97,7 +181,7 @@ export default function WorkOrdersPage() {
 
   // Mutation for creating a work order
   const createWorkOrderMutation = useMutation({
-    mutationFn: async (data: WorkOrderFormValues) => {
+    mutationFn: async (data: WorkOrderPayload) => {
       const response = await apiRequest("POST", "/api/workorders", data);
       return await response.json();
     },
@@ -111,9 +195,10 @@ export default function WorkOrdersPage() {
       queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
     },
     onError: (error) => {
+      if (setServerErrors(form, error, WORK_ORDER_FORM_FIELDS)) return;
       toast({
         title: "Fout bij aanmaken werkbon",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -121,7 +206,7 @@ export default function WorkOrdersPage() {
 
   // Mutation for updating a work order
   const updateWorkOrderMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: Partial<WorkOrderFormValues> }) => {
+    mutationFn: async ({ id, data }: { id: number, data: Partial<WorkOrderPayload> }) => {
       const response = await apiRequest("PUT", `/api/workorders/${id}`, data);
       return await response.json();
     },
@@ -136,9 +221,10 @@ export default function WorkOrdersPage() {
       queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
     },
     onError: (error) => {
+      if (setServerErrors(form, error, WORK_ORDER_FORM_FIELDS)) return;
       toast({
         title: "Fout bij bijwerken werkbon",
-        description: error.message,
+        description: getErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -167,40 +253,13 @@ export default function WorkOrdersPage() {
     },
   });
   
-  // Mutation for completing a work order
-  const completeWorkOrderMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: { photos: string[], notes: string, laborHours: number } }) => {
-      const response = await apiRequest("PUT", `/api/workorders/${id}/complete`, {
-        ...data,
-        status: "Voltooid"
-      });
-      return await response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Werkbon afgemeld",
-        description: "De werkbon is succesvol afgemeld",
-      });
-      setCompleteDialogOpen(false);
-      setWorkOrderToComplete(null);
-      setUploadedPhotos([]);
-      queryClient.invalidateQueries({ queryKey: ['/api/workorders'] });
-    },
-    onError: (error) => {
-      toast({
-        title: "Fout bij afmelden werkbon",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   // Handle form submission
   const onSubmit = (data: WorkOrderFormValues) => {
+    const payload = toWorkOrderPayload(data);
     if (editingWorkOrder) {
-      updateWorkOrderMutation.mutate({ id: editingWorkOrder.id as number, data });
+      updateWorkOrderMutation.mutate({ id: editingWorkOrder.id as number, data: payload });
     } else {
-      createWorkOrderMutation.mutate(data);
+      createWorkOrderMutation.mutate(payload);
     }
   };
 
@@ -213,6 +272,9 @@ export default function WorkOrdersPage() {
       customerId: workOrder.customerId,
       status: workOrder.status,
       date: new Date(workOrder.date),
+      startTime: format(new Date(workOrder.date), "HH:mm"),
+      endTime: workOrder.endDate ? format(new Date(workOrder.endDate), "HH:mm") : "",
+      estimatedHours: workOrder.estimatedHours,
       notes: workOrder.notes,
       laborHours: workOrder.laborHours,
       materials: workOrder.materials as any[] || [],
@@ -226,6 +288,9 @@ export default function WorkOrdersPage() {
     setViewDetailsDialogOpen(true);
   };
 
+  // A work order selected in the command palette
+  useOpenFromUrl<WorkOrder>('/api/workorders', handleViewDetails);
+
   // Handle delete button click
   const handleDelete = (id: number) => {
     setWorkOrderToDelete(id);
@@ -235,51 +300,9 @@ export default function WorkOrdersPage() {
   // Handle complete work order button click
   const handleCompleteWorkOrder = (workOrder: WorkOrder) => {
     setWorkOrderToComplete(workOrder);
-    setUploadedPhotos([]);
     setCompleteDialogOpen(true);
   };
 
-  // Handle photo upload
-  const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    // Process each file
-    Array.from(files).forEach(file => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          setUploadedPhotos(prev => [...prev, e.target!.result as string]);
-        }
-      };
-      reader.readAsDataURL(file);
-    });
-  };
-
-  // Remove photo from uploaded photos
-  const handleRemovePhoto = (index: number) => {
-    setUploadedPhotos(prev => prev.filter((_, i) => i !== index));
-  };
-
-  // Submit complete work order form
-  const handleCompleteSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!workOrderToComplete) return;
-
-    const formData = new FormData(e.currentTarget);
-    const notes = formData.get('notes') as string || '';
-    const laborHours = parseFloat(formData.get('laborHours') as string) || 0;
-
-    completeWorkOrderMutation.mutate({
-      id: workOrderToComplete.id as number,
-      data: {
-        notes,
-        laborHours,
-        photos: uploadedPhotos
-      }
-    });
-  };
-
   // Reset form when dialog is closed
   const handleDialogClose = () => {
     form.reset();
@@ -296,6 +319,9 @@ export default function WorkOrdersPage() {
       customerId: 0,
       status: "Ingepland",
       date: new Date(),
+      startTime: "08:00",
+      endTime: "",
+      estimatedHours: null,
       notes: "",
       laborHours: 0,
       materials: [],
@@ -315,6 +341,7 @@ export default function WorkOrdersPage() {
   const columns = [
     {
       header: "Werkbon nr.",
+      sortKey: "orderNumber",
       accessorKey: "orderNumber",
       cell: (row: WorkOrder) => (
         <span className="text-sm font-medium text-primary">{row.orderNumber || `WO-${row.id}`}</span>
@@ -339,15 +366,18 @@ export default function WorkOrdersPage() {
     },
     {
       header: "Datum",
+      sortKey: "date",
       accessorKey: "date",
       cell: (row: WorkOrder) => (
         <span className="text-sm text-gray-500">
-          {row.date ? format(new Date(row.date), 'dd-MM-yyyy') : 'Onbekend'}
+          {row.date ? format(new Date(row.date), 'dd-MM-yyyy HH:mm') : 'Onbekend'}
+          {row.endDate && ` - ${format(new Date(row.endDate), 'HH:mm')}`}
         </span>
       ),
     },
     {
       header: "Status",
+      sortKey: "status",
       accessorKey: "status",
       cell: (row: WorkOrder) => {
         let statusClass = "";
@@ -380,17 +410,19 @@ export default function WorkOrdersPage() {
       header: "Acties",
       accessorKey: (row: WorkOrder) => (
         <div className="text-right">
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-primary hover:text-[#003A66] mr-2"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleEdit(row);
-            }}
-          >
-            <FaEdit />
-          </Button>
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-primary hover:text-[#003A66] mr-2"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleEdit(row);
+              }}
+            >
+              <FaEdit />
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="sm" 
@@ -413,67 +445,37 @@ export default function WorkOrdersPage() {
           >
             <FaCheck />
           </Button>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-red-600 hover:text-red-800"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleDelete(row.id as number);
-            }}
-          >
-            <FaTrash />
-          </Button>
+          {canWrite && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-red-600 hover:text-red-800"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(row.id as number);
+              }}
+            >
+              <FaTrash />
+            </Button>
+          )}
         </div>
       ),
       className: "text-right",
     },
   ];
 
-  // Filter work orders based on filters
-  const filteredData = workOrders ? workOrders.filter((workOrder: WorkOrder) => {
-    // Filter by status
-    if (statusFilter !== "all") {
-      const statusMap = {
-        "open": "Ingepland",
-        "in-progress": "In uitvoering",
-        "completed": "Voltooid",
-        "cancelled": "Geannuleerd"
-      };
-      if (workOrder.status !== statusMap[statusFilter as keyof typeof statusMap]) {
-        return false;
-      }
-    }
-
-    // Filter by customer
-    if (customerFilter !== "all" && workOrder.customerId !== parseInt(customerFilter)) {
-      return false;
-    }
-
-    // Search filter
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase();
-      const orderNumberLower = (workOrder.orderNumber || `WO-${workOrder.id}`).toLowerCase();
-      const descriptionLower = workOrder.description?.toLowerCase() || '';
-      
-      if (!orderNumberLower.includes(searchLower) && !descriptionLower.includes(searchLower)) {
-        return false;
-      }
-    }
-
-    return true;
-  }) : [];
-
   return (
     <MainLayout title="Werkbonnen">
       <div className="flex justify-between items-center mb-6">
         <div /> {/* Empty div for flex spacing */}
-        <Button 
-          className="bg-primary hover:bg-[#003A66]"
-          onClick={handleNewWorkOrder}
-        >
-          <FaPlus className="mr-2 h-4 w-4" /> Nieuwe werkbon
-        </Button>
+        {canWrite && (
+          <Button 
+            className="bg-primary hover:bg-[#003A66]"
+            onClick={handleNewWorkOrder}
+          >
+            <FaPlus className="mr-2 h-4 w-4" /> Nieuwe werkbon
+          </Button>
+        )}
       </div>
 
       {/* Filters */}
@@ -509,14 +511,14 @@ export default function WorkOrdersPage() {
               onValueChange={setDateFilter}
             >
               <SelectTrigger className="w-full mt-1">
-                <SelectValue placeholder="Deze week" />
+                <SelectValue placeholder="Alle perioden" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="all">Alle perioden</SelectItem>
                 <SelectItem value="week">Deze week</SelectItem>
                 <SelectItem value="month">Deze maand</SelectItem>
                 <SelectItem value="last-month">Afgelopen maand</SelectItem>
                 <SelectItem value="year">Dit jaar</SelectItem>
-                <SelectItem value="custom">Aangepaste periode</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -566,12 +568,14 @@ export default function WorkOrdersPage() {
         </div>
       ) : (
         <DataTable
-          data={filteredData || []}
+          data={workOrdersPage?.items ?? []}
           columns={columns}
-          totalItems={filteredData?.length || 0}
+          totalItems={workOrdersPage?.total ?? 0}
           currentPage={currentPage}
           onPageChange={handlePageChange}
-          itemsPerPage={10}
+          itemsPerPage={PAGE_SIZE}
+          sort={sort}
+          onSortChange={setSort}
         />
       )}
       
@@ -726,6 +730,59 @@ export default function WorkOrdersPage() {
                 />
               </div>
               
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starttijd</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Eindtijd</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="estimatedHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Geschatte duur (uren)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                          onBlur={field.onBlur}
+                          ref={field.ref}
+                          name={field.name}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
               <FormField
                 control={form.control}
                 name="laborHours"
@@ -802,46 +859,69 @@ export default function WorkOrdersPage() {
             <DialogTitle>Werkbon Details</DialogTitle>
           </DialogHeader>
           {selectedWorkOrder && (
-            <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <h3 className="text-sm font-medium">Werkbon Nummer</h3>
-                  <p className="text-primary font-semibold">{selectedWorkOrder.orderNumber || `WO-${selectedWorkOrder.id}`}</p>
+            <Tabs defaultValue="details">
+              <TabsList className="mb-4">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="geschiedenis">Geschiedenis</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="text-sm font-medium">Werkbon Nummer</h3>
+                    <p className="text-primary font-semibold">{selectedWorkOrder.orderNumber || `WO-${selectedWorkOrder.id}`}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium">Gepland</h3>
+                    <p>
+                      {format(new Date(selectedWorkOrder.date), 'dd-MM-yyyy HH:mm')}
+                      {selectedWorkOrder.endDate && ` - ${format(new Date(selectedWorkOrder.endDate), 'HH:mm')}`}
+                    </p>
+                    {selectedWorkOrder.estimatedHours != null && (
+                      <p className="text-sm text-gray-500">Geschatte duur: {selectedWorkOrder.estimatedHours} uur</p>
+                    )}
+                  </div>
                 </div>
+              
                 <div>
-                  <h3 className="text-sm font-medium">Datum</h3>
-                  <p>{format(new Date(selectedWorkOrder.date), 'dd-MM-yyyy')}</p>
+                  <h3 className="text-sm font-medium">Klant</h3>
+                  <p>{customers?.find(c => c.id === selectedWorkOrder.customerId)?.name || "Onbekend"}</p>
                 </div>
-              </div>
-              
-              <div>
-                <h3 className="text-sm font-medium">Klant</h3>
-                <p>{customers?.find(c => c.id === selectedWorkOrder.customerId)?.name || "Onbekend"}</p>
-              </div>
-              
-              <div>
-                <h3 className="text-sm font-medium">Omschrijving</h3>
-                <p>{selectedWorkOrder.description}</p>
-              </div>
               
-              <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <h3 className="text-sm font-medium">Status</h3>
-                  <p>{selectedWorkOrder.status}</p>
+                  <h3 className="text-sm font-medium">Omschrijving</h3>
+                  <p>{selectedWorkOrder.description}</p>
                 </div>
+              
                 <div>
-                  <h3 className="text-sm font-medium">Gewerkte uren</h3>
-                  <p>{selectedWorkOrder.laborHours || 0} uren</p>
+                  <h3 className="text-sm font-medium mb-1">Monteurs</h3>
+                  <WorkOrderAssignees
+                    workOrderId={selectedWorkOrder.id}
+                    editable={canWrite}
+                  />
                 </div>
-              </div>
               
-              {selectedWorkOrder.notes && (
-                <div>
-                  <h3 className="text-sm font-medium">Notities</h3>
-                  <p>{selectedWorkOrder.notes}</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="text-sm font-medium">Status</h3>
+                    <p>{selectedWorkOrder.status}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium">Gewerkte uren</h3>
+                    <p>{selectedWorkOrder.laborHours || 0} uren</p>
+                  </div>
                 </div>
-              )}
-            </div>
+              
+                {selectedWorkOrder.notes && (
+                  <div>
+                    <h3 className="text-sm font-medium">Notities</h3>
+                    <p>{selectedWorkOrder.notes}</p>
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="geschiedenis">
+                <AuditHistory entity="workorder" entityId={selectedWorkOrder.id} fieldLabels={WORK_ORDER_FIELD_LABELS} />
+              </TabsContent>
+            </Tabs>
           )}
           <DialogFooter>
             <Button 
@@ -850,17 +930,19 @@ export default function WorkOrdersPage() {
             >
               Sluiten
             </Button>
-            <Button
-              className="bg-primary hover:bg-primary/90"
-              onClick={() => {
-                if (selectedWorkOrder) {
-                  setViewDetailsDialogOpen(false);
-                  handleEdit(selectedWorkOrder);
-                }
-              }}
-            >
-              <FaEdit className="mr-2 h-4 w-4" /> Bewerken
-            </Button>
+            {canWrite && (
+              <Button
+                className="bg-primary hover:bg-primary/90"
+                onClick={() => {
+                  if (selectedWorkOrder) {
+                    setViewDetailsDialogOpen(false);
+                    handleEdit(selectedWorkOrder);
+                  }
+                }}
+              >
+                <FaEdit className="mr-2 h-4 w-4" /> Bewerken
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -900,142 +982,15 @@ export default function WorkOrdersPage() {
       </Dialog>
 
       {/* Complete Work Order Dialog */}
-      <Dialog open={completeDialogOpen} onOpenChange={setCompleteDialogOpen}>
-        <DialogContent className="sm:max-w-[600px]">
-          <DialogHeader>
-            <DialogTitle>Werkbon afmelden</DialogTitle>
-            <DialogDescription>
-              Vul de details in om de werkbon af te melden als voltooid.
-            </DialogDescription>
-          </DialogHeader>
-
-          <form onSubmit={handleCompleteSubmit} className="space-y-4">
-            {workOrderToComplete && (
-              <div className="grid grid-cols-2 gap-6 mb-4">
-                <div>
-                  <h3 className="text-sm font-medium">Werkbon Nummer</h3>
-                  <p className="text-primary font-semibold">{workOrderToComplete.orderNumber || `WO-${workOrderToComplete.id}`}</p>
-                </div>
-                <div>
-                  <h3 className="text-sm font-medium">Klant</h3>
-                  <p className="text-gray-500">
-                    {customers?.find(c => c.id === workOrderToComplete.customerId)?.name || "Onbekend"}
-                  </p>
-                </div>
-              </div>
-            )}
-
-            <div>
-              <label htmlFor="laborHours" className="block text-sm font-medium text-gray-700">
-                Gewerkte uren
-              </label>
-              <Input
-                type="number"
-                id="laborHours"
-                name="laborHours"
-                min="0"
-                step="0.5"
-                defaultValue={workOrderToComplete?.laborHours || 0}
-                className="mt-1"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
-                Notities / Opmerkingen
-              </label>
-              <Textarea
-                id="notes"
-                name="notes"
-                placeholder="Voeg hier eventuele notities of opmerkingen toe"
-                className="mt-1 resize-none h-24"
-                defaultValue={workOrderToComplete?.notes || ""}
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Foto's toevoegen
-              </label>
-              <div className="flex items-center gap-4">
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="flex items-center gap-2"
-                  onClick={() => photoInputRef.current?.click()}
-                >
-                  <FaCamera /> Foto nemen
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="flex items-center gap-2"
-                  onClick={() => photoInputRef.current?.click()}
-                >
-                  <FaUpload /> Uploaden
-                </Button>
-                <input
-                  type="file"
-                  accept="image/*"
-                  ref={photoInputRef}
-                  onChange={handlePhotoUpload}
-                  multiple
-                  className="hidden"
-                />
-              </div>
-            </div>
-
-            {uploadedPhotos.length > 0 && (
-              <div className="mt-4">
-                <h3 className="text-sm font-medium mb-2">Geüploade foto's ({uploadedPhotos.length})</h3>
-                <div className="grid grid-cols-3 gap-4">
-                  {uploadedPhotos.map((photo, index) => (
-                    <div key={index} className="relative group">
-                      <img
-                        src={photo}
-                        alt={`Uploaded photo ${index + 1}`}
-                        className="w-full h-24 object-cover rounded-md"
-                      />
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="sm"
-                        className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={() => handleRemovePhoto(index)}
-                      >
-                        <FaTrash size={12} />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            <DialogFooter>
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={() => {
-                  setCompleteDialogOpen(false);
-                  setUploadedPhotos([]);
-                }}
-              >
-                Annuleren
-              </Button>
-              <Button 
-                type="submit"
-                className="bg-primary hover:bg-primary/90"
-                disabled={completeWorkOrderMutation.isPending}
-              >
-                {completeWorkOrderMutation.isPending && (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                )}
-                Werkbon afmelden
-              </Button>
-            </DialogFooter>
-          </form>
-        </DialogContent>
-      </Dialog>
+      <CompleteWorkOrderDialog
+        workOrder={workOrderToComplete}
+        customerName={customers?.find(c => c.id === workOrderToComplete?.customerId)?.name}
+        open={completeDialogOpen}
+        onOpenChange={(open) => {
+          setCompleteDialogOpen(open);
+          if (!open) setWorkOrderToComplete(null);
+        }}
+      />
     </MainLayout>
   );
 }
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { withAuditTrail } from "./audit";
+import { MemStorage } from "./storage";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+describe("withAuditTrail", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = withAuditTrail(new MemStorage());
+  });
+
+  it("records the working hours of a user as one field", async () => {
+    const hours = { weekday: 1, startTime: "08:00", endTime: "16:30" };
+    await storage.setWorkingHours(1, [{ ...hours, userId: 1 }]);
+    await storage.setWorkingHours(1, [{ ...hours, userId: 1 }]); // Unchanged, so not recorded again
+    await storage.setWorkingHours(1, []);
+
+    const entries = await storage.getAuditLogs("user", 1);
+    expect(entries.map(entry => entry.changes)).toEqual([
+      { workingHours: { before: [{ ...hours, userId: 1 }], after: [] } },
+      { workingHours: { before: [], after: [{ ...hours, userId: 1 }] } },
+    ]);
+  });
+
+  it("records added and removed dependencies on the work order that depends", async () => {
+    await storage.createWorkOrderDependency({ workOrderId: 2, dependsOnId: 1 });
+    await storage.createWorkOrderDependency({ workOrderId: 3, dependsOnId: 2 });
+    await storage.deleteAllWorkOrderDependencies(2);
+
+    const actions = async (workOrderId: number) => (await storage.getAuditLogs("workorder", workOrderId))
+      .map(entry => [entry.action, entry.changes.dependsOnId]);
+    expect(await actions(2)).toEqual([["unlink", { before: 1 }], ["link", { after: 1 }]]);
+    expect(await actions(3)).toEqual([["unlink", { before: 2 }], ["link", { after: 2 }]]);
+  });
+
+  it("records mail template changes", async () => {
+    const template = await storage.upsertMailTemplate({ key: "invoice", subject: "Factuur", body: "Tekst" });
+    await storage.upsertMailTemplate({ key: "invoice", subject: "Uw factuur", body: "Tekst" });
+
+    const [entry] = await storage.getAuditLogs("mailtemplate", template.id);
+    expect(entry.changes.subject).toEqual({ before: "Factuur", after: "Uw factuur" });
+  });
+});
@@ -0,0 +1,250 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import type { AuditChanges, InvoiceMail, InvoiceReminder, Payment, WorkOrderDependency } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Audit trail of the storage layer. withAuditTrail wraps a storage so that every create, update and
+// delete is recorded together with the user of the request that caused it (null for system jobs).
+
+type StorageMethod = { [K in keyof IStorage]: IStorage[K] extends (...args: any) => any ? K : never }[keyof IStorage];
+
+interface AuditedMethod<K extends StorageMethod = StorageMethod> {
+  entity: string;
+  action: "create" | "update" | "delete" | "assign" | "unassign" | "send" | "remind" | "pay" | "unpay" | "link" | "unlink";
+  getter?: StorageMethod; // Looks up the record by the first argument before an update or delete, to diff against
+  // Looks up the state before the change when that is not the record with the id of the first argument
+  before?: (storage: IStorage, ...args: Parameters<IStorage[K]>) => Promise<unknown>;
+  field?: string; // Records a list (e.g. the working hours of a user) as this single field of the entity
+}
+
+// Identifies the record a change belongs to
+type StoredRecord = { id: number } & Record<string, unknown>;
+
+// Login bookkeeping (lockouts, login attempts, reset tokens) is left out; the login history covers it
+const AUDITED_METHODS: { [K in StorageMethod]?: AuditedMethod<K> } = {
+  createUser: { entity: "user", action: "create" },
+  updateUser: { entity: "user", action: "update", getter: "getUser" },
+  updateUserTwoFactor: { entity: "user", action: "update", getter: "getUser" },
+  createCustomer: { entity: "customer", action: "create" },
+  updateCustomer: { entity: "customer", action: "update", getter: "getCustomer" },
+  deleteCustomer: { entity: "customer", action: "delete", getter: "getCustomer" },
+  createMaterial: { entity: "material", action: "create" },
+  updateMaterial: { entity: "material", action: "update", getter: "getMaterial" },
+  deleteMaterial: { entity: "material", action: "delete", getter: "getMaterial" },
+  createWorkOrder: { entity: "workorder", action: "create" },
+  updateWorkOrder: { entity: "workorder", action: "update", getter: "getWorkOrder" },
+  deleteWorkOrder: { entity: "workorder", action: "delete", getter: "getWorkOrder" },
+  assignWorkOrder: { entity: "workorder", action: "assign" },
+  unassignWorkOrder: { entity: "workorder", action: "unassign" },
+  createWorkOrderDependency: { entity: "workorder", action: "link" },
+  deleteWorkOrderDependency: {
+    entity: "workorder",
+    action: "unlink",
+    before: async (storage, workOrderId, dependsOnId) => (await storage.getWorkOrderDependencies([workOrderId]))
+      .filter(dependency => dependency.workOrderId === workOrderId && dependency.dependsOnId === dependsOnId),
+  },
+  deleteAllWorkOrderDependencies: {
+    entity: "workorder",
+    action: "unlink",
+    before: (storage, workOrderId) => storage.getWorkOrderDependencies([workOrderId]),
+  },
+  setWorkingHours: { entity: "user", action: "update", getter: "getWorkingHours", field: "workingHours" },
+  createLeaveRequest: { entity: "leaverequest", action: "create" },
+  updateLeaveRequest: { entity: "leaverequest", action: "update", getter: "getLeaveRequest" },
+  deleteLeaveRequest: { entity: "leaverequest", action: "delete", getter: "getLeaveRequest" },
+  createHoliday: { entity: "holiday", action: "create" },
+  deleteHoliday: { entity: "holiday", action: "delete" },
+  createMaintenanceContract: { entity: "contract", action: "create" },
+  updateMaintenanceContract: { entity: "contract", action: "update", getter: "getMaintenanceContract" },
+  deleteMaintenanceContract: { entity: "contract", action: "delete", getter: "getMaintenanceContract" },
+  createInvoice: { entity: "invoice", action: "create" },
+  updateInvoice: { entity: "invoice", action: "update", getter: "getInvoice" },
+  deleteInvoice: { entity: "invoice", action: "delete", getter: "getInvoice" },
+  createInvoiceMail: { entity: "invoice", action: "send" },
+  createInvoiceReminder: { entity: "invoice", action: "remind" },
+  createPayment: { entity: "invoice", action: "pay" },
+  deletePayment: { entity: "invoice", action: "unpay", getter: "getPayment" },
+  createQuote: { entity: "quote", action: "create" },
+  updateQuote: { entity: "quote", action: "update", getter: "getQuote" },
+  deleteQuote: { entity: "quote", action: "delete", getter: "getQuote" },
+  createProject: { entity: "project", action: "create" },
+  updateProject: { entity: "project", action: "update", getter: "getProject" },
+  deleteProject: { entity: "project", action: "delete", getter: "getProject" },
+  createProjectInstalment: { entity: "instalment", action: "create" },
+  updateProjectInstalment: { entity: "instalment", action: "update", getter: "getProjectInstalment" },
+  deleteProjectInstalment: { entity: "instalment", action: "delete", getter: "getProjectInstalment" },
+  upsertMailTemplate: {
+    entity: "mailtemplate",
+    action: "update",
+    before: async (storage, template) => (await storage.getMailTemplates()).find(t => t.key === template.key),
+  },
+};
+
+// Fields whose values are never written to the audit log; only the fact that they changed is
+const REDACTED_FIELDS = ["password", "twoFactorSecret", "twoFactorBackupCodes"];
+const IGNORED_FIELDS = ["id", "createdAt"];
+// Fields with bulky content (base64 photos) of which only the number of items is kept
+const COUNTED_FIELDS = ["photos"];
+
+const context = new AsyncLocalStorage<{ userId: number | null }>();
+
+// Express middleware that makes the logged-in user known to the audit trail for the rest of the request
+export function auditContext(req: Request, _res: Response, next: NextFunction) {
+  context.run({ userId: req.user?.id ?? null }, () => next());
+}
+
+function normalise(field: string, value: unknown): unknown {
+  if (COUNTED_FIELDS.includes(field) && Array.isArray(value)) return value.length;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Field by field differences between two versions of a record
+export function diffRecords(before?: Record<string, unknown> | null, after?: Record<string, unknown> | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const oldValue = normalise(field, before?.[field]) ?? null;
+    const newValue = normalise(field, after?.[field]) ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+    const redacted = REDACTED_FIELDS.includes(field);
+    changes[field] = {};
+    if (before) changes[field].before = redacted ? "[verborgen]" : oldValue;
+    if (after) changes[field].after = redacted ? "[verborgen]" : newValue;
+  });
+  return changes;
+}
+
+// Records a list as one field; the ids of its items are left out, as lists are often replaced as a whole
+function listChanges(field: string, before: unknown, after: unknown): AuditChanges {
+  const withoutIds = (items: unknown) => (items as StoredRecord[]).map(({ id, ...item }) => item);
+  return diffRecords({ [field]: withoutIds(before) }, { [field]: withoutIds(after) });
+}
+
+// Payments are recorded in the history of their invoice, under names that do not clash with its own fields
+function paymentChanges(payment: Payment): Record<string, unknown> {
+  return {
+    paymentDate: payment.date,
+    paymentAmount: payment.amount,
+    paymentMethod: payment.method,
+    paymentReference: payment.reference,
+  };
+}
+
+async function recordChange(
+  storage: IStorage,
+  method: AuditedMethod,
+  args: unknown[],
+  before: unknown,
+  result: unknown,
+) {
+  let entityId: number | undefined;
+  let changes: AuditChanges;
+
+  switch (method.action) {
+    case "create":
+      entityId = (result as StoredRecord | undefined)?.id;
+      changes = diffRecords(null, result as StoredRecord | undefined);
+      break;
+    case "update":
+      if (!result) return;
+      if (method.field) {
+        entityId = args[0] as number;
+        changes = listChanges(method.field, before, result);
+      } else {
+        entityId = (result as StoredRecord).id;
+        changes = diffRecords(before as StoredRecord | undefined, result as StoredRecord);
+      }
+      if (Object.keys(changes).length === 0) return;
+      break;
+    case "delete":
+      if (!result) return;
+      entityId = args[0] as number;
+      changes = diffRecords((before as StoredRecord | undefined) ?? { id: entityId }, null);
+      break;
+    case "assign":
+      entityId = args[0] as number;
+      changes = { userId: { after: args[1] }, isLead: { after: Boolean(args[2]) } };
+      break;
+    case "unassign":
+      if (!result) return;
+      entityId = args[0] as number;
+      changes = { userId: { before: args[1] } };
+      break;
+    case "send": {
+      const mail = result as InvoiceMail;
+      entityId = mail.invoiceId;
+      changes = { type: { after: mail.type }, recipient: { after: mail.recipient }, subject: { after: mail.subject } };
+      break;
+    }
+    case "remind": {
+      const reminder = result as InvoiceReminder;
+      entityId = reminder.invoiceId;
+      changes = { step: { after: reminder.step }, collectionCosts: { after: reminder.collectionCosts }, recipient: { after: reminder.recipient } };
+      break;
+    }
+    case "pay": {
+      const payment = result as Payment;
+      entityId = payment.invoiceId;
+      changes = diffRecords(null, paymentChanges(payment));
+      break;
+    }
+    case "unpay": {
+      if (!result || !before) return;
+      const payment = before as Payment;
+      entityId = payment.invoiceId;
+      changes = diffRecords(paymentChanges(payment), null);
+      break;
+    }
+    case "link": {
+      const dependency = result as WorkOrderDependency;
+      entityId = dependency.workOrderId;
+      changes = { dependsOnId: { after: dependency.dependsOnId } };
+      break;
+    }
+    case "unlink":
+      // Removing the dependencies of a work order also removes those of its successors on it
+      for (const dependency of before as WorkOrderDependency[]) {
+        await writeAuditLog(storage, method, dependency.workOrderId, { dependsOnId: { before: dependency.dependsOnId } });
+      }
+      return;
+  }
+
+  if (entityId === undefined) return;
+  await writeAuditLog(storage, method, entityId, changes);
+}
+
+async function writeAuditLog(storage: IStorage, method: AuditedMethod, entityId: number, changes: AuditChanges) {
+  await storage.createAuditLog({
+    userId: context.getStore()?.userId ?? null,
+    entity: method.entity,
+    entityId,
+    action: method.action,
+    changes,
+  });
+}
+
+// Wraps a storage so that the audited methods write an audit log entry after they succeed.
+// A failure to write the entry is logged but does not undo or fail the change itself.
+export function withAuditTrail<T extends IStorage>(storage: T): T {
+  return new Proxy(storage, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      const method = AUDITED_METHODS[property as StorageMethod] as AuditedMethod | undefined;
+      if (!method || typeof value !== "function") return value;
+
+      return async (...args: unknown[]) => {
+        const before = method.before
+          ? await (method.before as (storage: IStorage, ...args: unknown[]) => Promise<unknown>)(target, ...args)
+          : method.getter ? await (target[method.getter] as Function).call(target, args[0]) : undefined;
+        const result = await value.apply(target, args);
+        try {
+          await recordChange(target, method, args, before, result);
+        } catch (error) {
+          console.error('Error writing audit log:', error);
+        }
+        return result;
+      };
+    },
+  });
+}
@@ -0,0 +1,126 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { hashPassword } from "./auth";
+import { storage } from "./storage";
+import { generateTotpSecret, getTotpCode, hashBackupCode } from "./totp";
+import { setMailTransport, type MailMessage } from "./mail";
+import { createTestApp } from "./testing";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+describe("two-factor login", () => {
+  const secret = generateTotpSecret();
+  let app: Express;
+  let userId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    const user = await storage.createUser({
+      username: "beheerder",
+      fullName: "Beheerder",
+      password: await hashPassword("test-password"),
+      role: "beheerder",
+    });
+    userId = user.id;
+    await storage.updateUserTwoFactor(user.id, { twoFactorSecret: secret, twoFactorEnabled: true, twoFactorBackupCodes: [] });
+  });
+
+  const loginWithCode = async (code: string) => {
+    const agent = request.agent(app);
+    await agent.post("/api/login").send({ username: "beheerder", password: "test-password" })
+      .expect(200, { twoFactorRequired: true });
+    return agent.post("/api/login/2fa").send({ code });
+  };
+
+  it("does not accept the same code twice", async () => {
+    const code = getTotpCode(secret);
+    expect((await loginWithCode(code)).status).toBe(200);
+    expect((await loginWithCode(code)).status).toBe(401);
+  });
+
+  it("accepts a backup code only once, also when it is used twice at the same time", async () => {
+    await storage.updateUserTwoFactor(userId, {
+      twoFactorSecret: secret, twoFactorEnabled: true, twoFactorBackupCodes: [hashBackupCode("abcd-1234")],
+    });
+
+    const responses = await Promise.all([loginWithCode("abcd-1234"), loginWithCode("abcd-1234")]);
+    expect(responses.map(response => response.status).sort()).toEqual([200, 401]);
+    expect((await storage.getUser(userId))?.twoFactorBackupCodes).toEqual([]);
+  });
+
+  it("removes a backup code in a single conditional update", async () => {
+    const codeHash = hashBackupCode("abcd-5678");
+    await storage.updateUserTwoFactor(userId, { twoFactorSecret: secret, twoFactorEnabled: true, twoFactorBackupCodes: [codeHash] });
+
+    const results = await Promise.all([
+      storage.consumeTwoFactorBackupCode(userId, codeHash),
+      storage.consumeTwoFactorBackupCode(userId, codeHash),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+  });
+});
+
+describe("password reset", () => {
+  const mails: MailMessage[] = [];
+  let app: Express;
+  let userId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    setMailTransport({ send: async message => { mails.push(message); } });
+    const user = await storage.createUser({
+      username: "monteur",
+      fullName: "Monteur",
+      email: "Monteur@Example.nl",
+      password: await hashPassword("test-password"),
+      role: "monteur",
+    });
+    userId = user.id;
+  });
+
+  it("finds the account by its e-mail address and unlocks it on reset", async () => {
+    await storage.updateUserLockout(userId, { failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60 * 60 * 1000) });
+
+    await request(app).post("/api/forgot-password").send({ username: "monteur@example.nl" }).expect(200);
+    expect(mails.map(mail => mail.to)).toEqual(["Monteur@Example.nl"]);
+    const token = mails[0].text.match(/token=([0-9a-f]+)/)?.[1];
+
+    await request(app).post("/api/reset-password").send({ token, password: "new-password" }).expect(204);
+    expect(await storage.getUser(userId)).toMatchObject({ failedLoginAttempts: 0, lockedUntil: null });
+    await request(app).post("/api/login").send({ username: "monteur", password: "new-password" }).expect(200);
+  });
+});
+
+describe("account lockout", () => {
+  let app: Express;
+  let userId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    const user = await storage.createUser({
+      username: "monteur-2",
+      fullName: "Monteur 2",
+      password: await hashPassword("test-password"),
+      role: "monteur",
+    });
+    userId = user.id;
+  });
+
+  it("counts concurrent failed logins in the database", async () => {
+    await storage.updateUserLockout(userId, { failedLoginAttempts: 0, lockedUntil: null });
+
+    const counts = await Promise.all([1, 2, 3].map(() => storage.incrementFailedLoginAttempts(userId)));
+    expect(counts.sort()).toEqual([1, 2, 3]);
+    expect((await storage.getUser(userId))?.failedLoginAttempts).toBe(3);
+  });
+
+  it("answers a locked account like a wrong password", async () => {
+    await storage.updateUserLockout(userId, { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + 60 * 60 * 1000) });
+
+    await request(app).post("/api/login").send({ username: "monteur-2", password: "test-password" })
+      .expect(401, { error: "Authentication failed" });
+    await request(app).post("/api/login").send({ username: "onbekend", password: "test-password" })
+      .expect(401, { error: "Authentication failed" });
+  });
+});
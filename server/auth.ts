@@ -1,11 +1,21 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, NextFunction, Request, Response } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { createHash, scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import QRCode from "qrcode";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { getAppUrl, sendMail } from "./mail";
+import { auditContext } from "./audit";
+import { formatValidationError } from "./validation";
+import {
+  clearThrottle, getLockoutMinutes, getLockoutThreshold, getRetryAfterSeconds, ipKey, registerFailure, usernameKey,
+} from "./loginThrottle";
+import { generateBackupCodes, generateTotpSecret, getOtpAuthUrl, hashBackupCode, verifyTotp } from "./totp";
+import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { ROLES, hasPermission, isTwoFactorRequired, type Permission } from "@shared/permissions";
+import { z } from "zod";
 
 declare global {
   namespace Express {
@@ -13,6 +23,12 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    twoFactorUserId?: number; // User that passed the password check and still has to enter a code
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -21,6 +37,95 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// Strips the password hash and two-factor secrets before a user is sent to the client
+export function sanitizeUser({ password, twoFactorSecret, twoFactorBackupCodes, ...user }: SelectUser) {
+  return user;
+}
+
+// Beheerders have to enrol in two-factor authentication before they can use the API
+function needsTwoFactorSetup(user: SelectUser) {
+  return isTwoFactorRequired(user.role) && !user.twoFactorEnabled;
+}
+
+const PASSWORD_RESET_TOKEN_HOURS = 1;
+
+const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+const forgotPasswordSchema = z.object({
+  username: z.string().trim().min(1, "Username or e-mail address is required"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+function hashResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+export const userAccountSchema = insertUserSchema.extend({
+  username: z.string().trim().min(1, "Username is required"),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  password: passwordSchema,
+  role: z.enum(ROLES),
+});
+
+// Creates the first beheerder from INITIAL_ADMIN_USERNAME and INITIAL_ADMIN_PASSWORD when there are no
+// users yet, so a fresh installation can be set up without default credentials
+async function createInitialAdmin() {
+  const username = process.env.INITIAL_ADMIN_USERNAME;
+  const password = process.env.INITIAL_ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  try {
+    const users = await storage.getAllUsers();
+    if (users.length > 0) return;
+
+    await storage.createUser({
+      username,
+      fullName: username,
+      password: await hashPassword(password),
+      role: "beheerder",
+    });
+    console.log(`Initial admin user "${username}" created`);
+  } catch (error) {
+    console.error('Error creating initial admin user:', error);
+  }
+}
+
+// Rejects anonymous requests with a 401 and users that still have to set up two-factor authentication with a 403
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  if (needsTwoFactorSetup(req.user)) {
+    return res.status(403).json({ message: "Two-factor authentication setup required" });
+  }
+  next();
+}
+
+// Rejects anonymous requests with a 401 and users whose role lacks the permission with a 403
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (needsTwoFactorSetup(req.user)) {
+      return res.status(403).json({ message: "Two-factor authentication setup required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
 async function comparePasswords(supplied: string, stored: string) {
   try {
     if (!stored || !stored.includes('.')) {
@@ -34,21 +139,83 @@ async function comparePasswords(supplied: string, stored: string) {
       return false;
     }
     
-    console.log(`Comparing passwords with salt: ${salt.substring(0, 4)}...`);
-    
     const hashedBuf = Buffer.from(hashed, "hex");
     const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
     
-    const result = timingSafeEqual(hashedBuf, suppliedBuf);
-    console.log(`Password comparison result: ${result}`);
-    
-    return result;
+    return timingSafeEqual(hashedBuf, suppliedBuf);
   } catch (error) {
     console.error('Error comparing passwords:', error);
     return false;
   }
 }
 
+type LoginFailureReason = "invalid_credentials" | "invalid_code" | "locked" | "throttled" | "inactive";
+
+function getThrottleKeys(req: Request, username: string) {
+  return [usernameKey(username), ipKey(req.ip)];
+}
+
+// Records a failed attempt in the login history; wrong passwords and codes also count towards the
+// throttling and, for existing users, towards the temporary lockout of the account
+async function registerLoginFailure(req: Request, username: string, reason: LoginFailureReason, user?: SelectUser) {
+  const knownUser = user ?? await storage.getUserByUsername(username);
+  await storage.createLoginAttempt({
+    username,
+    userId: knownUser?.id ?? null,
+    ipAddress: req.ip ?? null,
+    success: false,
+    reason,
+  });
+
+  if (reason !== "invalid_credentials" && reason !== "invalid_code") return;
+
+  registerFailure(getThrottleKeys(req, username));
+  if (!knownUser) return;
+  const failedLoginAttempts = await storage.incrementFailedLoginAttempts(knownUser.id);
+  if (failedLoginAttempts !== undefined && failedLoginAttempts >= getLockoutThreshold()) {
+    await storage.updateUserLockout(knownUser.id, {
+      failedLoginAttempts: 0,
+      lockedUntil: new Date(Date.now() + getLockoutMinutes() * 60 * 1000),
+    });
+    console.warn(`Account "${knownUser.username}" locked after ${failedLoginAttempts} failed login attempts`);
+  }
+}
+
+async function registerLoginSuccess(req: Request, user: SelectUser) {
+  await storage.createLoginAttempt({
+    username: user.username,
+    userId: user.id,
+    ipAddress: req.ip ?? null,
+    success: true,
+  });
+  clearThrottle(getThrottleKeys(req, user.username));
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await storage.updateUserLockout(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+  }
+}
+
+// Checks a code from the authenticator app; a code that was accepted before is rejected, so it cannot be replayed
+async function acceptTotp(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+  const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastStep);
+  return step !== null && await storage.consumeTwoFactorStep(user.id, step);
+}
+
+function isLocked(user: SelectUser) {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+}
+
+// Answers with a 429 when the username or IP address has to wait before the next attempt
+async function rejectThrottled(req: Request, res: Response, username: string) {
+  const retryAfter = getRetryAfterSeconds(getThrottleKeys(req, username));
+  if (retryAfter === 0) return false;
+
+  await storage.createLoginAttempt({ username, userId: null, ipAddress: req.ip ?? null, success: false, reason: "throttled" });
+  res.set("Retry-After", retryAfter.toString());
+  res.status(429).json({ message: `Too many login attempts, try again in ${retryAfter} seconds`, retryAfter });
+  return true;
+}
+
 export function setupAuth(app: Express) {
   // Configure more robust session settings for production
   const isProduction = process.env.NODE_ENV === 'production';
@@ -69,63 +236,96 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(auditContext);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       const user = await storage.getUserByUsername(username);
+      // A locked account is refused without checking the password
+      if (user && isLocked(user)) {
+        return done(null, false, { message: "locked" });
+      }
       if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
-        return done(null, user);
+        return done(null, false, { message: "invalid_credentials" });
       }
+      if (!user.active) {
+        return done(null, false, { message: "inactive" });
+      }
+      return done(null, user);
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // A deactivated user loses their session on the next request
+    done(null, user?.active ? user : false);
   });
 
-  app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
-    }
+  createInitialAdmin();
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+  // Accounts are created by a beheerder from user management; there is no self-registration
+  app.post("/api/register", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const result = userAccountSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
 
-    req.login(user, (err) => {
-      if (err) return next(err);
-      res.status(201).json(user);
-    });
+      const existingUser = await storage.getUserByUsername(result.data.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...result.data,
+        password: await hashPassword(result.data.password),
+      });
+      res.status(201).json(sanitizeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Error creating user" });
+    }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    console.log("Login attempt for user:", req.body.username);
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body.username === "string" ? req.body.username : "";
+    try {
+      if (await rejectThrottled(req, res, username)) return;
+    } catch (error) {
+      return next(error);
+    }
     
-    passport.authenticate("local", (err, user, info) => {
-      if (err) {
-        console.error("Authentication error:", err);
-        return next(err);
-      }
-      
-      if (!user) {
-        console.log("Authentication failed:", info);
-        return res.status(401).json({ error: "Authentication failed" });
-      }
-      
-      req.login(user, (err) => {
+    passport.authenticate("local", async (err: any, user: SelectUser | false, info?: { message?: LoginFailureReason }) => {
+      try {
         if (err) {
-          console.error("Session login error:", err);
+          console.error("Authentication error:", err);
           return next(err);
         }
-        console.log("User logged in successfully:", user.username);
-        return res.status(200).json(user);
-      });
+        
+        if (!user) {
+          const reason = info?.message ?? "invalid_credentials";
+          await registerLoginFailure(req, username, reason);
+          // A locked account gets the same answer as a wrong password, so it does not reveal that the account exists
+          return res.status(401).json({ error: "Authentication failed" });
+        }
+        
+        // The session is only established once the second factor has been verified as well
+        if (user.twoFactorEnabled) {
+          req.session.twoFactorUserId = user.id;
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+        
+        await registerLoginSuccess(req, user);
+        req.login(user, (err) => {
+          if (err) {
+            console.error("Session login error:", err);
+            return next(err);
+          }
+          return res.status(200).json(sanitizeUser(user));
+        });
+      } catch (error) {
+        next(error);
+      }
     })(req, res, next);
   });
 
@@ -138,6 +338,240 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(sanitizeUser(req.user));
+  });
+
+  app.post("/api/change-password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const result = changePasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(result.data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(result.data.newPassword) });
+      await storage.markPasswordResetTokensUsed(user.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error changing password" });
+    }
+  });
+
+  // Always answers the same, so the response does not reveal which accounts exist
+  app.post("/api/forgot-password", async (req, res) => {
+    try {
+      const result = forgotPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const identifier = result.data.username.toLowerCase();
+      const user = await storage.getUserByUsername(identifier) ?? await storage.getUserByEmail(identifier);
+
+      if (user?.active && user.email) {
+        const token = randomBytes(32).toString("hex");
+        await storage.createPasswordResetToken({
+          userId: user.id,
+          tokenHash: hashResetToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_HOURS * 60 * 60 * 1000),
+        });
+
+        const link = `${getAppUrl(req.get("host"), req.protocol)}/wachtwoord-herstellen?token=${token}`;
+        await sendMail({
+          to: user.email,
+          subject: "Wachtwoord herstellen",
+          text: [
+            `Beste ${user.fullName},`,
+            "",
+            "Er is gevraagd om het wachtwoord van uw PlanningSync-account te herstellen.",
+            `Via de volgende link kunt u binnen ${PASSWORD_RESET_TOKEN_HOURS} uur een nieuw wachtwoord instellen:`,
+            "",
+            link,
+            "",
+            "Heeft u dit niet zelf aangevraagd? Dan kunt u deze e-mail negeren.",
+          ].join("\n"),
+        });
+      }
+
+      res.json({ message: "If the account exists, an e-mail with instructions has been sent" });
+    } catch (error) {
+      console.error('Error handling forgot password request:', error);
+      res.status(500).json({ message: "Error requesting password reset" });
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res) => {
+    try {
+      const result = resetPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const token = await storage.getPasswordResetToken(hashResetToken(result.data.token));
+      const user = token ? await storage.getUser(token.userId) : undefined;
+      if (!token || token.usedAt || token.expiresAt < new Date() || !user?.active) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(result.data.password) });
+      // Whoever locked the account out by guessing no longer knows the password
+      await storage.updateUserLockout(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+      // Also invalidates any other outstanding links of the user
+      await storage.markPasswordResetTokensUsed(user.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error resetting password" });
+    }
+  });
+
+  // Second login step: a code from the authenticator app or one of the backup codes
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const userId = req.session.twoFactorUserId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.active || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(401).json({ message: "Log in with your username and password first" });
+      }
+      if (await rejectThrottled(req, res, user.username)) return;
+      if (isLocked(user)) {
+        await registerLoginFailure(req, user.username, "locked", user);
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const { code } = result.data;
+      // Backup codes can be used once
+      if (!await acceptTotp(user, code) && !await storage.consumeTwoFactorBackupCode(user.id, hashBackupCode(code))) {
+        await registerLoginFailure(req, user.username, "invalid_code", user);
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      delete req.session.twoFactorUserId;
+      await registerLoginSuccess(req, user);
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(sanitizeUser(user));
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error verifying code" });
+    }
+  });
+
+  // Two-factor enrolment: a new secret is stored but only takes effect once a code has been confirmed
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (req.user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(req.user.id, {
+        twoFactorSecret: secret,
+        twoFactorEnabled: false,
+        twoFactorBackupCodes: null,
+      });
+
+      const otpAuthUrl = getOtpAuthUrl(secret, req.user.username);
+      res.json({ secret, otpAuthUrl, qrCode: await QRCode.toDataURL(otpAuthUrl) });
+    } catch (error) {
+      res.status(500).json({ message: "Error setting up two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user?.twoFactorSecret || user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Start the two-factor setup first" });
+      }
+      if (!await acceptTotp(user, result.data.code)) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const backupCodes = generateBackupCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorSecret: user.twoFactorSecret,
+        twoFactorEnabled: true,
+        twoFactorBackupCodes: backupCodes.map(hashBackupCode),
+      });
+      res.json({ backupCodes });
+    } catch (error) {
+      res.status(500).json({ message: "Error enabling two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/backup-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const user = req.user;
+      if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!await acceptTotp(user, result.data.code)) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const backupCodes = generateBackupCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorSecret: user.twoFactorSecret,
+        twoFactorEnabled: true,
+        twoFactorBackupCodes: backupCodes.map(hashBackupCode),
+      });
+      res.json({ backupCodes });
+    } catch (error) {
+      res.status(500).json({ message: "Error generating backup codes" });
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (isTwoFactorRequired(req.user.role)) {
+        return res.status(400).json({ message: "Two-factor authentication is mandatory for your role" });
+      }
+
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const user = req.user;
+      if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!await acceptTotp(user, result.data.code)) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        twoFactorSecret: null,
+        twoFactorEnabled: false,
+        twoFactorBackupCodes: null,
+      });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error disabling two-factor authentication" });
+    }
   });
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { hashPassword } from "./auth";
+import { storage } from "./storage";
+import { createTestApp, loginAs } from "./testing";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+describe("availability of colleagues", () => {
+  const day = new Date("2026-03-02T00:00:00.000Z");
+  let monteur: Awaited<ReturnType<typeof loginAs>>;
+
+  beforeAll(async () => {
+    monteur = await loginAs(await createTestApp(), { username: "monteur", role: "monteur" });
+    const colleague = await storage.createUser({
+      username: "collega", fullName: "Collega", password: await hashPassword("test-password"), role: "monteur",
+    });
+    await storage.createLeaveRequest({
+      userId: colleague.id, type: "Ziek", startDate: day, endDate: day, reason: "Griep", status: "Goedgekeurd",
+    });
+  });
+
+  it("shows monteurs that a colleague is absent, but not why", async () => {
+    const { body } = await monteur.get("/api/availability?from=2026-03-02&to=2026-03-02").expect(200);
+    const colleague = body.find((row: { fullName: string }) => row.fullName === "Collega");
+    expect(colleague.days[0]).toMatchObject({
+      available: false,
+      absences: [{ type: "Afwezig", status: "Goedgekeurd", description: "Afwezig" }],
+    });
+  });
+});
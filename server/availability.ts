@@ -0,0 +1,128 @@
+import { eachDayOfInterval, endOfDay, format, isSameDay, startOfDay } from "date-fns";
+import { nl } from "date-fns/locale";
+import type { Holiday, LeaveRequest, WorkingHours } from "@shared/schema";
+import { storage } from "./storage";
+
+// Used for technicians that have no working hours registered: Monday to Friday, 08:00 - 17:00
+export const DEFAULT_WORKING_HOURS = [1, 2, 3, 4, 5].map(weekday => ({
+  weekday,
+  startTime: "08:00",
+  endTime: "17:00",
+}));
+
+export interface AvailabilityAbsence {
+  type: string; // Vakantie, Verlof, Ziek or Feestdag
+  status: string;
+  description: string;
+  leaveRequestId?: number;
+  holidayId?: number;
+}
+
+export interface AvailabilityDay {
+  date: string; // yyyy-MM-dd
+  workingHours: { startTime: string; endTime: string } | null;
+  absences: AvailabilityAbsence[];
+  available: boolean;
+}
+
+function toTime(date: Date): string {
+  return format(date, "HH:mm");
+}
+
+function leaveCoversDay(leave: LeaveRequest, day: Date): boolean {
+  return startOfDay(new Date(leave.startDate)) <= day && endOfDay(new Date(leave.endDate)) >= day;
+}
+
+async function loadAvailabilityData(userId: number) {
+  const [hours, leave, allHolidays] = await Promise.all([
+    storage.getWorkingHours(userId),
+    storage.getLeaveRequests({ userId }),
+    storage.getAllHolidays(),
+  ]);
+
+  const schedule: Pick<WorkingHours, "weekday" | "startTime" | "endTime">[] =
+    hours.length > 0 ? hours : DEFAULT_WORKING_HOURS;
+  // Rejected requests never make someone unavailable
+  const relevantLeave = leave.filter(request => request.status !== "Afgewezen");
+
+  return { schedule, leave: relevantLeave, holidays: allHolidays };
+}
+
+function buildDay(
+  day: Date,
+  data: Awaited<ReturnType<typeof loadAvailabilityData>>,
+): AvailabilityDay {
+  const hours = data.schedule.find(h => h.weekday === day.getDay());
+  const absences: AvailabilityAbsence[] = [
+    ...data.holidays
+      .filter((holiday: Holiday) => isSameDay(new Date(holiday.date), day))
+      .map(holiday => ({
+        type: "Feestdag",
+        status: "Goedgekeurd",
+        description: holiday.name,
+        holidayId: holiday.id,
+      })),
+    ...data.leave
+      .filter(request => leaveCoversDay(request, day))
+      .map(request => ({
+        type: request.type,
+        status: request.status,
+        description: request.reason || request.type,
+        leaveRequestId: request.id,
+      })),
+  ];
+
+  return {
+    date: format(day, "yyyy-MM-dd"),
+    workingHours: hours ? { startTime: hours.startTime, endTime: hours.endTime } : null,
+    absences,
+    available: !!hours && !absences.some(absence => absence.status === "Goedgekeurd"),
+  };
+}
+
+export async function getAvailability(userId: number, from: Date, to: Date): Promise<AvailabilityDay[]> {
+  const data = await loadAvailabilityData(userId);
+  return eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) })
+    .map(day => buildDay(day, data));
+}
+
+// Availability of a colleague: that someone is absent, but not why (the type and reason can be health data)
+export function withoutLeaveDetails(days: AvailabilityDay[]): AvailabilityDay[] {
+  return days.map(day => ({
+    ...day,
+    absences: day.absences.map(absence => absence.leaveRequestId === undefined
+      ? absence
+      : { ...absence, type: "Afwezig", description: "Afwezig" }),
+  }));
+}
+
+// Returns human readable (Dutch) warnings when the user is not available during the whole interval
+export async function checkAvailability(userId: number, start: Date, end: Date): Promise<string[]> {
+  const data = await loadAvailabilityData(userId);
+  const warnings: string[] = [];
+
+  for (const day of eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) })) {
+    const availability = buildDay(day, data);
+    const dayLabel = format(day, "EEEE d MMMM", { locale: nl });
+
+    for (const absence of availability.absences) {
+      warnings.push(absence.status === "Goedgekeurd"
+        ? `${absence.type} op ${dayLabel}: ${absence.description}`
+        : `Openstaande ${absence.type.toLowerCase()}aanvraag op ${dayLabel}`);
+    }
+
+    if (!availability.workingHours) {
+      warnings.push(`Werkt niet op ${dayLabel}`);
+      continue;
+    }
+
+    const { startTime, endTime } = availability.workingHours;
+    const plannedStart = isSameDay(start, day) ? toTime(start) : "00:00";
+    const plannedEnd = isSameDay(end, day) ? toTime(end) : "23:59";
+    if (plannedStart < startTime || plannedEnd > endTime) {
+      warnings.push(`Buiten werktijden (${startTime} - ${endTime}) op ${dayLabel}`);
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,126 @@
+import { startOfDay } from "date-fns";
+import type { Customer, Invoice, InvoiceReminder } from "@shared/schema";
+import { DEFAULT_DUNNING_DAYS, DUNNING_STEPS, getCollectionCosts, getDunningTemplateKey, getNextDunningStep } from "@shared/dunning";
+import { MAIL_TEMPLATE_LABELS } from "@shared/mailTemplates";
+import { getInvoiceBalance } from "@shared/payments";
+import { renderInvoiceMail } from "./invoiceMail";
+import {
+  getInvoicePdfFileName,
+  getReminderLetterFileName,
+  loadInvoiceTemplate,
+  renderInvoicePdf,
+  renderReminderLetterPdf,
+} from "./invoicePdf";
+import { sendMail } from "./mail";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+let isRunning = false;
+
+// Days after the due date for the first reminder, second reminder and final notice
+// (DUNNING_DAYS, e.g. "7,21,35"; must be ascending)
+export function getDunningDays(): number[] {
+  const days = (process.env.DUNNING_DAYS || "").split(",").map(day => parseInt(day.trim()));
+  const isValid = days.length === DUNNING_STEPS.length &&
+    days.every((day, index) => !isNaN(day) && day >= 0 && (index === 0 || day > days[index - 1]));
+  return isValid ? days : DEFAULT_DUNNING_DAYS;
+}
+
+export async function renderReminderLetter(invoice: Invoice, customer: Customer | undefined, reminder: InvoiceReminder): Promise<Buffer> {
+  const [template, payments] = await Promise.all([loadInvoiceTemplate(), storage.getPayments(invoice.id)]);
+  return renderReminderLetterPdf(invoice, customer, template, {
+    title: MAIL_TEMPLATE_LABELS[getDunningTemplateKey(reminder.step)],
+    reminder,
+    balance: getInvoiceBalance(invoice, payments),
+  });
+}
+
+// Sent invoices past their due date become overdue
+export async function markOverdueInvoices(now = new Date()): Promise<Invoice[]> {
+  const overdue = (await storage.getAllInvoices())
+    .filter(invoice => invoice.status === "Verzonden" && new Date(invoice.dueDate) < startOfDay(now));
+  const marked: Invoice[] = [];
+  for (const invoice of overdue) {
+    const updated = await storage.updateInvoice(invoice.id, { status: "Te laat" });
+    if (updated) marked.push(updated);
+  }
+  return marked;
+}
+
+// Records a dunning step and e-mails its letter with the invoice to the customer. Without an e-mail address the
+// step is only recorded, and the letter has to be printed and posted.
+export async function sendDunningStep(invoice: Invoice, step: number): Promise<InvoiceReminder> {
+  const customer = await storage.getCustomer(invoice.customerId);
+  const key = getDunningTemplateKey(step);
+  const content = await renderInvoiceMail(invoice, customer, key);
+  const reminder = {
+    invoiceId: invoice.id,
+    step,
+    subject: content.subject,
+    body: content.text,
+    collectionCosts: key === "finalNotice" ? getCollectionCosts(content.openBalance) : null,
+    recipient: content.recipient,
+  };
+
+  if (content.recipient) {
+    const template = await loadInvoiceTemplate();
+    const [letter, pdf] = await Promise.all([
+      // The letter is dated today, like the reminder that is recorded below
+      renderReminderLetter(invoice, customer, { ...reminder, id: 0, createdAt: new Date() }),
+      renderInvoicePdf(invoice, customer, template),
+    ]);
+    await sendMail({
+      to: content.recipient,
+      subject: content.subject,
+      text: content.text,
+      attachments: [
+        { filename: getReminderLetterFileName(invoice, reminder), content: letter, contentType: "application/pdf" },
+        { filename: getInvoicePdfFileName(invoice), content: pdf, contentType: "application/pdf" },
+      ],
+    });
+  }
+
+  return storage.createInvoiceReminder(reminder);
+}
+
+// Marks overdue invoices and sends the dunning steps that are due; a failure is logged and retried on the next run
+export async function runDunning(now = new Date()): Promise<InvoiceReminder[]> {
+  if (isRunning) return [];
+  isRunning = true;
+
+  try {
+    const marked = await markOverdueInvoices(now);
+    const overdue = (await storage.getAllInvoices()).filter(invoice => invoice.status === "Te laat");
+    const dunningDays = getDunningDays();
+    const sent: InvoiceReminder[] = [];
+
+    for (const invoice of overdue) {
+      try {
+        const step = getNextDunningStep(invoice.dueDate, await storage.getInvoiceReminders(invoice.id), dunningDays, now);
+        if (step !== null) {
+          sent.push(await sendDunningStep(invoice, step));
+        }
+      } catch (error) {
+        console.error(`Error sending reminder for invoice ${invoice.id}:`, error);
+      }
+    }
+
+    if (marked.length > 0 || sent.length > 0) {
+      log(`marked ${marked.length} invoice(s) as overdue, sent ${sent.length} reminder(s)`, "dunning");
+    }
+    return sent;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startDunningScheduler() {
+  const run = () => runDunning().catch(error => {
+    console.error('Error running dunning scheduler:', error);
+  });
+
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
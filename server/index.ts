@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startMaintenanceScheduler } from "./maintenance";
+import { startInstalmentScheduler } from "./instalments";
+import { startDunningScheduler } from "./dunning";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +69,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Generate upcoming work orders from maintenance contracts
+    startMaintenanceScheduler();
+    // Invoice the project instalments that are due
+    startInstalmentScheduler();
+    // Mark overdue invoices and send their payment reminders
+    startDunningScheduler();
   });
 })();
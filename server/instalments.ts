@@ -0,0 +1,91 @@
+import { addDays } from "date-fns";
+import type { Invoice, ProjectInstalment, WorkOrder } from "@shared/schema";
+import { getInstalmentAmounts, INVOICE_PAYMENT_DAYS, isInstalmentDue } from "@shared/instalments";
+import { DEFAULT_VAT_RATE, getInvoiceTotals, type InvoiceLine } from "@shared/invoices";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Generation that is running or queued; runs are chained so a term is never invoiced twice at the same time
+let generation: Promise<unknown> = Promise.resolve();
+
+// Creates the (concept) invoice of a term and marks the term as invoiced
+export async function invoiceInstalment(instalment: ProjectInstalment): Promise<Invoice> {
+  const project = await storage.getProject(instalment.projectId);
+  if (!project || project.price == null) {
+    throw new Error(`Project ${instalment.projectId} has no quoted price`);
+  }
+
+  const instalments = getInstalmentAmounts(project.price, await storage.getProjectInstalments(project.id));
+  const amount = instalments.find(i => i.id === instalment.id)!.amount!;
+  // The quoted price is excl. VAT
+  const items: InvoiceLine[] = [{
+    description: `${project.title}: termijn ${instalment.sequence} van ${instalments.length}, ${instalment.description} (${instalment.percentage}% van ${project.price.toFixed(2)})`,
+    quantity: 1,
+    price: amount,
+    vatRate: DEFAULT_VAT_RATE,
+  }];
+  const now = new Date();
+  const invoice = await storage.createInvoice({
+    customerId: project.customerId,
+    projectId: project.id,
+    date: now,
+    dueDate: addDays(now, INVOICE_PAYMENT_DAYS),
+    amount: getInvoiceTotals(items).total,
+    status: "Concept",
+    items,
+  });
+
+  await storage.updateProjectInstalment(instalment.id, { invoiceId: invoice.id, invoicedAt: now });
+  return invoice;
+}
+
+// Invoices the open terms whose date has passed or whose milestone work order is completed, once the
+// generation that is already running has finished
+export function generateDueInstalmentInvoices(projectId?: number): Promise<Invoice[]> {
+  const run = generation.then(() => invoiceDueInstalments(projectId));
+  generation = run.catch(() => undefined);
+  return run;
+}
+
+async function invoiceDueInstalments(projectId?: number): Promise<Invoice[]> {
+  const instalments = (await storage.getOpenProjectInstalments())
+    .filter(instalment => projectId === undefined || instalment.projectId === projectId);
+  const created: Invoice[] = [];
+
+  for (const instalment of instalments) {
+    try {
+      const milestone = instalment.milestoneWorkOrderId !== null
+        ? await storage.getWorkOrder(instalment.milestoneWorkOrderId)
+        : undefined;
+      if (isInstalmentDue(instalment, milestone)) {
+        created.push(await invoiceInstalment(instalment));
+      }
+    } catch (error) {
+      console.error(`Error invoicing project instalment ${instalment.id}:`, error);
+    }
+  }
+
+  if (created.length > 0) {
+    log(`generated ${created.length} instalment invoice(s)`, "instalments");
+  }
+  return created;
+}
+
+// A completed work order can be the milestone of a term of its project
+export function invoiceReachedMilestones(workOrder: WorkOrder) {
+  if (workOrder.status !== "Voltooid" || workOrder.projectId === null) return;
+  generateDueInstalmentInvoices(workOrder.projectId).catch(error => {
+    console.error('Error invoicing reached milestones:', error);
+  });
+}
+
+export function startInstalmentScheduler() {
+  const run = () => generateDueInstalmentInvoices().catch(error => {
+    console.error('Error running instalment scheduler:', error);
+  });
+
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
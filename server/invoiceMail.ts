@@ -0,0 +1,92 @@
+import type { Customer, Invoice, InvoiceMail } from "@shared/schema";
+import {
+  DEFAULT_MAIL_TEMPLATES,
+  MAIL_TEMPLATE_KEYS,
+  renderMailTemplate,
+  type MailPlaceholderValues,
+  type MailTemplateContent,
+  type MailTemplateKey,
+} from "@shared/mailTemplates";
+import { getCollectionCosts } from "@shared/dunning";
+import { getInvoiceBalance } from "@shared/payments";
+import { formatAmount, formatDate, getInvoicePdfFileName, loadInvoiceTemplate, renderInvoicePdf } from "./invoicePdf";
+import { sendMail } from "./mail";
+import { storage } from "./storage";
+
+export interface MailTemplateWithDefault extends MailTemplateContent {
+  key: MailTemplateKey;
+  isDefault: boolean; // Not edited yet
+}
+
+export interface InvoiceMailContent {
+  recipient: string | null; // E-mail address of the customer, if known
+  subject: string;
+  text: string;
+  openBalance: number;
+}
+
+export async function getMailTemplates(): Promise<MailTemplateWithDefault[]> {
+  const stored = await storage.getMailTemplates();
+  return MAIL_TEMPLATE_KEYS.map(key => {
+    const template = stored.find(t => t.key === key);
+    return template
+      ? { key, subject: template.subject, body: template.body, isDefault: false }
+      : { key, ...DEFAULT_MAIL_TEMPLATES[key], isDefault: true };
+  });
+}
+
+// The e-mail for an invoice or a reminder of it, rendered from its template
+export async function renderInvoiceMail(invoice: Invoice, customer: Customer | undefined, type: MailTemplateKey): Promise<InvoiceMailContent> {
+  const [invoiceTemplate, mailTemplates, payments] = await Promise.all([
+    loadInvoiceTemplate(),
+    getMailTemplates(),
+    storage.getPayments(invoice.id),
+  ]);
+  const template = mailTemplates.find(t => t.key === type)!;
+  const { openBalance } = getInvoiceBalance(invoice, payments);
+  const values: MailPlaceholderValues = {
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: formatDate(invoice.date),
+    dueDate: formatDate(invoice.dueDate),
+    amount: formatAmount(invoice.amount),
+    openBalance: formatAmount(openBalance),
+    customerName: customer?.name ?? "",
+    companyName: invoiceTemplate.companyName,
+    collectionCosts: formatAmount(getCollectionCosts(openBalance)),
+  };
+  return {
+    recipient: customer?.email || null,
+    subject: renderMailTemplate(template.subject, values),
+    text: renderMailTemplate(template.body, values),
+    openBalance,
+  };
+}
+
+export interface SentInvoiceMail {
+  invoice: Invoice;
+  mail: InvoiceMail;
+}
+
+// Sends the invoice as PDF attachment and records the send on the invoice. Sending a concept invoice marks it as sent.
+export async function sendInvoiceMail(
+  invoice: Invoice,
+  customer: Customer | undefined,
+  recipient: string,
+  type: MailTemplateKey,
+): Promise<SentInvoiceMail> {
+  const [content, invoiceTemplate] = await Promise.all([renderInvoiceMail(invoice, customer, type), loadInvoiceTemplate()]);
+  const pdf = await renderInvoicePdf(invoice, customer, invoiceTemplate);
+
+  await sendMail({
+    to: recipient,
+    subject: content.subject,
+    text: content.text,
+    attachments: [{ filename: getInvoicePdfFileName(invoice), content: pdf, contentType: "application/pdf" }],
+  });
+
+  const mail = await storage.createInvoiceMail({ invoiceId: invoice.id, type, recipient, subject: content.subject });
+  const updated = type === "invoice" && invoice.status === "Concept"
+    ? await storage.updateInvoice(invoice.id, { status: "Verzonden" })
+    : undefined;
+  return { invoice: updated ?? invoice, mail };
+}
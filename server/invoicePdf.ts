@@ -0,0 +1,364 @@
+import { promises as fs } from "fs";
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { z } from "zod";
+import type { Customer, Invoice, InvoiceReminder } from "@shared/schema";
+import type { InvoiceBalance } from "@shared/payments";
+import { getInvoiceLines, getInvoiceLineTotal, getInvoiceTotals, REVERSE_CHARGE_NOTICE, VAT_RATE_LABELS } from "@shared/invoices";
+
+// Invoices are rendered with the company details and branding of a template: a JSON file at INVOICE_TEMPLATE_PATH
+// (default ./invoice-template.json). Every field is optional and falls back to the defaults below, e.g.
+// { "companyName": "Installatiebedrijf B.V.", "kvkNumber": "12345678", "vatNumber": "NL001234567B01",
+//   "iban": "NL91ABNA0417164300", "logoPath": "branding/logo.png", "primaryColor": "#008037" }
+
+const invoiceTemplateSchema = z.object({
+  companyName: z.string(),
+  addressLines: z.array(z.string()), // Street and postal code + city
+  phone: z.string(),
+  email: z.string(),
+  website: z.string(),
+  kvkNumber: z.string(),
+  vatNumber: z.string(),
+  iban: z.string(),
+  bic: z.string(),
+  logoPath: z.string().nullable(), // PNG or JPEG
+  primaryColor: z.string().regex(/^#[0-9a-f]{6}$/i),
+  footerText: z.string(),
+});
+
+export type InvoiceTemplate = z.infer<typeof invoiceTemplateSchema>;
+
+const DEFAULT_TEMPLATE: InvoiceTemplate = {
+  companyName: "PlanningSync",
+  addressLines: [],
+  phone: "",
+  email: "",
+  website: "",
+  kvkNumber: "",
+  vatNumber: "",
+  iban: "",
+  bic: "",
+  logoPath: null,
+  primaryColor: "#008037",
+  footerText: "Op al onze leveringen en diensten zijn onze algemene voorwaarden van toepassing.",
+};
+
+// Read on every render, so changes to the template apply without a restart
+export async function loadInvoiceTemplate(): Promise<InvoiceTemplate> {
+  const templatePath = process.env.INVOICE_TEMPLATE_PATH || "invoice-template.json";
+  try {
+    const template = invoiceTemplateSchema.partial().parse(JSON.parse(await fs.readFile(templatePath, "utf8")));
+    return { ...DEFAULT_TEMPLATE, ...template };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error loading invoice template ${templatePath}:`, error);
+    }
+    return DEFAULT_TEMPLATE;
+  }
+}
+
+export function getInvoicePdfFileName(invoice: Pick<Invoice, "invoiceNumber">): string {
+  return `Factuur-${invoice.invoiceNumber}.pdf`;
+}
+
+export function getReminderLetterFileName(invoice: Pick<Invoice, "invoiceNumber">, reminder: Pick<InvoiceReminder, "step">): string {
+  return `Aanmaning-${invoice.invoiceNumber}-${reminder.step}.pdf`;
+}
+
+const currency = new Intl.NumberFormat("nl-NL", { style: "currency", currency: "EUR" });
+export const formatAmount = (amount: number) => currency.format(amount);
+export const formatDate = (date: Date | string) => format(new Date(date), "dd-MM-yyyy");
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 50;
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#6b7280";
+
+// Columns of the lines table: x offset from the left margin, width and alignment
+const COLUMNS = [
+  { header: "Omschrijving", x: 0, width: 235, align: "left" },
+  { header: "Aantal", x: 240, width: 50, align: "right" },
+  { header: "Prijs", x: 295, width: 70, align: "right" },
+  { header: "BTW", x: 370, width: 60, align: "right" },
+  { header: "Bedrag", x: 435, width: 60, align: "right" },
+] as const;
+
+async function readLogo(logoPath: string | null): Promise<Buffer | null> {
+  if (!logoPath) return null;
+  try {
+    return await fs.readFile(logoPath);
+  } catch (error) {
+    console.error(`Error reading invoice logo ${logoPath}:`, error);
+    return null;
+  }
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, template: InvoiceTemplate, logo: Buffer | null) {
+  const right = doc.page.width - PAGE_MARGIN;
+  if (logo) {
+    doc.image(logo, PAGE_MARGIN, PAGE_MARGIN, { fit: [160, 60] });
+  } else {
+    doc.font("Helvetica-Bold").fontSize(18).fillColor(template.primaryColor)
+      .text(template.companyName, PAGE_MARGIN, PAGE_MARGIN, { width: 250 });
+  }
+
+  const details = [
+    ...template.addressLines,
+    template.phone && `Tel: ${template.phone}`,
+    template.email,
+    template.website,
+    template.kvkNumber && `KvK: ${template.kvkNumber}`,
+    template.vatNumber && `BTW: ${template.vatNumber}`,
+    template.iban && `IBAN: ${template.iban}`,
+    template.bic && `BIC: ${template.bic}`,
+  ].filter(Boolean);
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT_COLOR)
+    .text(template.companyName, right - 200, PAGE_MARGIN, { width: 200, align: "right" });
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR)
+    .text(details.join("\n"), { width: 200, align: "right" });
+}
+
+// Customer address on the left, details (label and value) on the right and the title of the document below
+function drawAddressAndDetails(
+  doc: PDFKit.PDFDocument,
+  customer: Customer | undefined,
+  details: [string, string][],
+  title: string,
+  template: InvoiceTemplate,
+) {
+  const top = Math.max(doc.y, PAGE_MARGIN + 70) + 30;
+
+  doc.font("Helvetica").fontSize(10).fillColor(TEXT_COLOR);
+  if (customer) {
+    doc.text([customer.name, customer.street, `${customer.postalCode} ${customer.city}`].join("\n"), PAGE_MARGIN, top, { width: 250 });
+  } else {
+    doc.text("Onbekende klant", PAGE_MARGIN, top, { width: 250 });
+  }
+
+  const labelX = doc.page.width - PAGE_MARGIN - 220;
+  details.forEach(([label, value], index) => {
+    const y = top + index * 14;
+    doc.fillColor(MUTED_COLOR).text(label, labelX, y, { width: 100 });
+    doc.fillColor(TEXT_COLOR).text(value, labelX + 100, y, { width: 120, align: "right" });
+  });
+
+  doc.font("Helvetica-Bold").fontSize(20).fillColor(template.primaryColor)
+    .text(title, PAGE_MARGIN, top + Math.max(details.length * 14, 50) + 20);
+  doc.moveDown(0.5);
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, template: InvoiceTemplate) {
+  const y = doc.y;
+  const width = doc.page.width - 2 * PAGE_MARGIN;
+  doc.rect(PAGE_MARGIN, y, width, 20).fill(template.primaryColor);
+  doc.font("Helvetica-Bold").fontSize(9).fillColor("#ffffff");
+  COLUMNS.forEach(column => {
+    doc.text(column.header, PAGE_MARGIN + column.x + 5, y + 6, { width: column.width - 10, align: column.align });
+  });
+  doc.y = y + 26;
+}
+
+// Moves to a new page when the next block does not fit above the footer
+function ensureSpace(doc: PDFKit.PDFDocument, height: number, onNewPage?: () => void) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+    onNewPage?.();
+  }
+}
+
+function drawLines(doc: PDFKit.PDFDocument, invoice: Invoice, template: InvoiceTemplate) {
+  drawTableHeader(doc, template);
+  doc.font("Helvetica").fontSize(9).fillColor(TEXT_COLOR);
+
+  for (const line of getInvoiceLines(invoice.items)) {
+    const descriptionHeight = doc.heightOfString(line.description, { width: COLUMNS[0].width - 10 });
+    ensureSpace(doc, descriptionHeight + 8, () => {
+      drawTableHeader(doc, template);
+      doc.font("Helvetica").fontSize(9).fillColor(TEXT_COLOR);
+    });
+
+    const y = doc.y;
+    // Free text lines (without quantity and price) only have a description
+    const isText = line.quantity === 0 && line.price === 0;
+    const values = isText
+      ? [line.description, "", "", "", ""]
+      : [
+          line.description,
+          line.quantity.toLocaleString("nl-NL"),
+          formatAmount(line.price),
+          VAT_RATE_LABELS[line.vatRate],
+          formatAmount(getInvoiceLineTotal(line)),
+        ];
+    COLUMNS.forEach((column, index) => {
+      doc.text(values[index], PAGE_MARGIN + column.x + 5, y, { width: column.width - 10, align: column.align });
+    });
+    doc.y = y + descriptionHeight + 6;
+  }
+
+  doc.moveTo(PAGE_MARGIN, doc.y).lineTo(doc.page.width - PAGE_MARGIN, doc.y).strokeColor("#e5e7eb").stroke();
+  doc.y += 8;
+}
+
+// Invoices from before the lines were recorded only have their total
+function drawTotals(doc: PDFKit.PDFDocument, invoice: Invoice) {
+  const lines = getInvoiceLines(invoice.items);
+  const totals = getInvoiceTotals(lines);
+  const rows: [string, string][] = lines.length === 0 ? [] : [
+    ["Subtotaal (excl. BTW)", formatAmount(totals.subtotal)],
+    ...totals.vat.map(summary => [
+      summary.vatRate === "verlegd" || summary.vatRate === "vrijgesteld"
+        ? `${VAT_RATE_LABELS[summary.vatRate]} over ${formatAmount(summary.base)}`
+        : `BTW ${VAT_RATE_LABELS[summary.vatRate]} over ${formatAmount(summary.base)}`,
+      formatAmount(summary.vat),
+    ] as [string, string]),
+  ];
+  ensureSpace(doc, (rows.length + 1) * 14 + 10);
+
+  const labelX = doc.page.width - PAGE_MARGIN - 280;
+  doc.font("Helvetica").fontSize(9).fillColor(TEXT_COLOR);
+  rows.forEach(([label, value]) => {
+    const y = doc.y;
+    doc.text(label, labelX, y, { width: 190 });
+    doc.text(value, labelX + 190, y, { width: 90, align: "right" });
+    doc.y = y + 14;
+  });
+
+  const y = doc.y + 4;
+  doc.font("Helvetica-Bold").fontSize(10);
+  doc.text("Totaal (incl. BTW)", labelX, y, { width: 190 });
+  doc.text(formatAmount(invoice.amount), labelX + 190, y, { width: 90, align: "right" });
+  doc.y = y + 24;
+
+  if (totals.reverseCharge) {
+    doc.font("Helvetica-Bold").fontSize(9).text(REVERSE_CHARGE_NOTICE, PAGE_MARGIN, doc.y);
+    doc.moveDown();
+  }
+}
+
+function drawPaymentTerms(doc: PDFKit.PDFDocument, invoice: Invoice, template: InvoiceTemplate) {
+  const account = [template.iban && `IBAN ${template.iban}`, `t.n.v. ${template.companyName}`].filter(Boolean).join(" ");
+  const text = `Wij verzoeken u het totaalbedrag van ${formatAmount(invoice.amount)} vóór ${formatDate(invoice.dueDate)} ` +
+    `over te maken op ${account}, onder vermelding van factuurnummer ${invoice.invoiceNumber}.`;
+  ensureSpace(doc, 40);
+  doc.font("Helvetica").fontSize(9).fillColor(TEXT_COLOR)
+    .text(text, PAGE_MARGIN, doc.y, { width: doc.page.width - 2 * PAGE_MARGIN });
+}
+
+// Footer text and page number on every page; the pages are buffered so the page count is known
+function drawFooters(doc: PDFKit.PDFDocument, template: InvoiceTemplate) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0; // Writing below the bottom margin would otherwise add a page
+    const y = doc.page.height - PAGE_MARGIN - 20;
+    const width = doc.page.width - 2 * PAGE_MARGIN;
+    doc.moveTo(PAGE_MARGIN, y - 6).lineTo(doc.page.width - PAGE_MARGIN, y - 6).strokeColor(template.primaryColor).stroke();
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED_COLOR);
+    doc.text(template.footerText, PAGE_MARGIN, y, { width: width - 80, lineBreak: false, ellipsis: true });
+    doc.text(`Pagina ${i - range.start + 1} van ${range.count}`, doc.page.width - PAGE_MARGIN - 80, y, { width: 80, align: "right" });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+// A4 document with the company header and footers; draw adds the content in between
+async function renderDocument(
+  title: string,
+  template: InvoiceTemplate,
+  draw: (doc: PDFKit.PDFDocument) => void,
+): Promise<Buffer> {
+  const logo = await readLogo(template.logoPath);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: title, Author: template.companyName },
+  });
+
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  drawHeader(doc, template, logo);
+  draw(doc);
+  drawFooters(doc, template);
+  doc.end();
+
+  return rendered;
+}
+
+function getCustomerDetails(customer: Customer | undefined): [string, string][] {
+  return customer ? [["Klantnummer", customer.customerNumber]] : [];
+}
+
+// Renders a complete Dutch invoice: company and customer details, lines, VAT per rate and payment terms
+export function renderInvoicePdf(invoice: Invoice, customer: Customer | undefined, template: InvoiceTemplate): Promise<Buffer> {
+  return renderDocument(`Factuur ${invoice.invoiceNumber}`, template, doc => {
+    drawAddressAndDetails(doc, customer, [
+      ["Factuurnummer", invoice.invoiceNumber],
+      ["Factuurdatum", formatDate(invoice.date)],
+      ["Vervaldatum", formatDate(invoice.dueDate)],
+      ...getCustomerDetails(customer),
+    ], "Factuur", template);
+    drawLines(doc, invoice, template);
+    drawTotals(doc, invoice);
+    drawPaymentTerms(doc, invoice, template);
+  });
+}
+
+export interface ReminderLetter {
+  title: string;
+  reminder: InvoiceReminder;
+  balance: InvoiceBalance;
+}
+
+// The letter of a dunning step: the text of the reminder with an overview of the amount due
+export function renderReminderLetterPdf(
+  invoice: Invoice,
+  customer: Customer | undefined,
+  template: InvoiceTemplate,
+  { title, reminder, balance }: ReminderLetter,
+): Promise<Buffer> {
+  return renderDocument(`${title} ${invoice.invoiceNumber}`, template, doc => {
+    const width = doc.page.width - 2 * PAGE_MARGIN;
+    drawAddressAndDetails(doc, customer, [
+      ["Datum", formatDate(reminder.createdAt)],
+      ["Factuurnummer", invoice.invoiceNumber],
+      ["Vervaldatum", formatDate(invoice.dueDate)],
+      ...getCustomerDetails(customer),
+    ], title, template);
+
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(TEXT_COLOR)
+      .text(`Betreft: ${reminder.subject}`, PAGE_MARGIN, doc.y, { width });
+    doc.moveDown();
+    doc.font("Helvetica").text(reminder.body, { width });
+    doc.moveDown();
+
+    const rows: [string, string][] = [
+      [`Bedrag factuur ${invoice.invoiceNumber}`, formatAmount(invoice.amount)],
+      ...(balance.paid > 0 ? [["Reeds ontvangen", formatAmount(-balance.paid)] as [string, string]] : []),
+      ["Openstaand bedrag", formatAmount(balance.openBalance)],
+      ...(reminder.collectionCosts
+        ? [["Incassokosten (WIK) bij uitblijven van betaling", formatAmount(reminder.collectionCosts)] as [string, string]]
+        : []),
+    ];
+    ensureSpace(doc, rows.length * 14 + 50);
+    const labelX = doc.page.width - PAGE_MARGIN - 330;
+    doc.fontSize(9);
+    rows.forEach(([label, value]) => {
+      const y = doc.y;
+      doc.text(label, labelX, y, { width: 240 });
+      doc.text(value, labelX + 240, y, { width: 90, align: "right" });
+      doc.y = y + 14;
+    });
+    doc.moveDown();
+
+    if (template.iban) {
+      doc.text(`Betalen kan op IBAN ${template.iban} t.n.v. ${template.companyName}, onder vermelding van factuurnummer ${invoice.invoiceNumber}.`,
+        PAGE_MARGIN, doc.y, { width });
+    }
+  });
+}
@@ -0,0 +1,60 @@
+// In-memory throttling of login attempts per username and per IP address. After a few free
+// attempts every failure doubles the wait before the next attempt is accepted. The persistent
+// account lockout (LOGIN_LOCKOUT_THRESHOLD failures) is kept on the user in the database.
+
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 15 * 60;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000; // Failures older than a day are forgotten
+
+interface ThrottleState {
+  failures: number;
+  blockedUntil: number;
+  lastFailure: number;
+}
+
+const states = new Map<string, ThrottleState>();
+
+export function getLockoutThreshold(): number {
+  const threshold = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || "");
+  return isNaN(threshold) || threshold < 1 ? 5 : threshold;
+}
+
+export function getLockoutMinutes(): number {
+  const minutes = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "");
+  return isNaN(minutes) || minutes < 1 ? 15 : minutes;
+}
+
+function pruneStates(now: number) {
+  Array.from(states.entries()).forEach(([key, state]) => {
+    if (now - state.lastFailure > FORGET_AFTER_MS) states.delete(key);
+  });
+}
+
+// Seconds until the next attempt for any of the keys is accepted; 0 when none is blocked
+export function getRetryAfterSeconds(keys: string[], now = Date.now()): number {
+  const blockedUntil = Math.max(0, ...keys.map(key => states.get(key)?.blockedUntil ?? 0));
+  return Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+}
+
+export function registerFailure(keys: string[], now = Date.now()) {
+  pruneStates(now);
+  keys.forEach(key => {
+    const failures = (states.get(key)?.failures ?? 0) + 1;
+    const delaySeconds = failures > FREE_ATTEMPTS
+      ? Math.min(MAX_DELAY_SECONDS, 2 ** (failures - FREE_ATTEMPTS))
+      : 0;
+    states.set(key, { failures, blockedUntil: now + delaySeconds * 1000, lastFailure: now });
+  });
+}
+
+export function clearThrottle(keys: string[]) {
+  keys.forEach(key => states.delete(key));
+}
+
+export function usernameKey(username: string) {
+  return `user:${username.toLowerCase()}`;
+}
+
+export function ipKey(ipAddress: string | undefined) {
+  return `ip:${ipAddress || "unknown"}`;
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import MailComposer from "nodemailer/lib/mail-composer";
+
+// Outgoing e-mail goes through a pluggable transport, chosen with MAIL_TRANSPORT:
+// - "smtp": sends through the server configured with SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASSWORD
+// - "file": writes every message with its attachments as .eml file to MAIL_OUTBOX_DIR (default ./mail-outbox), for testing
+// - "console" (default): logs every message, for development
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function getSender(): string {
+  return process.env.MAIL_FROM || "PlanningSync <noreply@spar-tec.nl>";
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    const attachments = (message.attachments ?? []).map(attachment => `\n[mail] Attachment: ${attachment.filename}`).join("");
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}${attachments}\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@.-]/gi, "_")}.eml`;
+    const content = await new MailComposer({ from: getSender(), ...message }).compile().build();
+    await fs.writeFile(path.join(this.directory, fileName), content);
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_PORT === "465",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: getSender(), ...message });
+  }
+}
+
+function createTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return new SmtpMailTransport();
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Replaces the transport, e.g. with a stand-in that collects the messages in tests
+export function setMailTransport(replacement: MailTransport) {
+  transport = replacement;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) transport = createTransport();
+  await transport.send(message);
+}
+
+// Base URL used for links in e-mails; APP_URL when configured, otherwise the host of the request
+export function getAppUrl(requestHost?: string, protocol = "http"): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, "");
+  return `${protocol}://${requestHost || "localhost:5000"}`;
+}
@@ -0,0 +1,87 @@
+import { addWeeks, startOfDay } from "date-fns";
+import type { MaintenanceContract, WorkOrder } from "@shared/schema";
+import { getContractOccurrences } from "@shared/maintenance";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const DEFAULT_LOOKAHEAD_WEEKS = 8;
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+let isGenerating = false;
+
+// Number of weeks ahead for which work orders are generated (MAINTENANCE_LOOKAHEAD_WEEKS, default 8)
+export function getLookaheadWeeks(): number {
+  const weeks = parseInt(process.env.MAINTENANCE_LOOKAHEAD_WEEKS || "");
+  return isNaN(weeks) || weeks < 0 ? DEFAULT_LOOKAHEAD_WEEKS : weeks;
+}
+
+async function generateForContract(contract: MaintenanceContract, until: Date): Promise<WorkOrder[]> {
+  // Visits in the past are never generated, e.g. for a backdated or resumed contract
+  const yesterday = new Date(startOfDay(new Date()).getTime() - 1);
+  const after = contract.generatedUntil && new Date(contract.generatedUntil) > yesterday
+    ? new Date(contract.generatedUntil)
+    : yesterday;
+  const created: WorkOrder[] = [];
+
+  for (const date of getContractOccurrences(contract, after, until)) {
+    const workOrder = await storage.createWorkOrder({
+      title: contract.workOrderTitle,
+      description: contract.workOrderDescription,
+      customerId: contract.customerId,
+      date,
+      endDate: contract.estimatedHours
+        ? new Date(date.getTime() + contract.estimatedHours * 60 * 60 * 1000)
+        : null,
+      estimatedHours: contract.estimatedHours,
+      status: "Ingepland",
+      notes: `Gegenereerd uit onderhoudscontract ${contract.contractNumber}`,
+      contractId: contract.id,
+    });
+
+    if (contract.defaultAssigneeId) {
+      await storage.assignWorkOrder(workOrder.id, contract.defaultAssigneeId, true);
+    }
+
+    // Record progress per visit so a failure halfway never leads to duplicate work orders
+    await storage.updateMaintenanceContract(contract.id, { generatedUntil: date });
+    created.push(workOrder);
+  }
+
+  return created;
+}
+
+// Generates the work orders of all active contracts for the visits within the lookahead window
+export async function generateMaintenanceWorkOrders(weeksAhead = getLookaheadWeeks()): Promise<WorkOrder[]> {
+  if (isGenerating) return [];
+  isGenerating = true;
+
+  try {
+    const until = addWeeks(new Date(), weeksAhead);
+    const contracts = await storage.getAllMaintenanceContracts();
+    const created: WorkOrder[] = [];
+
+    for (const contract of contracts.filter(c => c.status === "Actief")) {
+      try {
+        created.push(...await generateForContract(contract, until));
+      } catch (error) {
+        console.error(`Error generating work orders for maintenance contract ${contract.id}:`, error);
+      }
+    }
+
+    if (created.length > 0) {
+      log(`generated ${created.length} work order(s) from maintenance contracts`, "maintenance");
+    }
+    return created;
+  } finally {
+    isGenerating = false;
+  }
+}
+
+export function startMaintenanceScheduler() {
+  const run = () => generateMaintenanceWorkOrders().catch(error => {
+    console.error('Error running maintenance scheduler:', error);
+  });
+
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
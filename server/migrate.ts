@@ -0,0 +1,9 @@
+import { pool } from "./db";
+import { runDataMigrations } from "./migrations";
+
+runDataMigrations()
+  .then(() => pool.end())
+  .catch(error => {
+    console.error('Error running data migrations:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,33 @@
+import { pool } from "./db";
+
+// Data migrations that have to run before `drizzle-kit push` changes the tables, as push drops the columns they
+// read from. They run as part of `npm run db:push` and do nothing once their column is gone.
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const result = await pool.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2",
+    [table, column],
+  );
+  return result.rows.length > 0;
+}
+
+// Projects used to list the ids of their work orders in projects.work_orders (a JSON array); work orders now
+// refer to their project in work_orders.project_id
+export async function migrateProjectWorkOrders() {
+  if (!await hasColumn("projects", "work_orders")) return;
+
+  await pool.query("ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS project_id integer");
+  const result = await pool.query(`
+    UPDATE work_orders SET project_id = projects.id
+    FROM projects
+    WHERE work_orders.project_id IS NULL
+      AND jsonb_typeof(projects.work_orders) = 'array'
+      AND (projects.work_orders @> to_jsonb(work_orders.id) OR projects.work_orders @> to_jsonb(work_orders.id::text))
+    RETURNING work_orders.id
+  `);
+  console.log(`Linked ${result.rows.length} work order(s) to their project`);
+}
+
+export async function runDataMigrations() {
+  await migrateProjectWorkOrders();
+}
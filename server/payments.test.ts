@@ -0,0 +1,57 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Customer } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, loginAs } from "./testing";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+describe("payments of an invoice", () => {
+  let beheerder: Awaited<ReturnType<typeof loginAs>>;
+  let customer: Customer;
+
+  beforeAll(async () => {
+    beheerder = await loginAs(await createTestApp(), { username: "beheerder", role: "beheerder" });
+    customer = await storage.createCustomer({
+      customerNumber: "K-0001", name: "Jansen", type: "Particulier", street: "Dorpsstraat 1", postalCode: "1234 AB", city: "Utrecht",
+    });
+  });
+
+  const createInvoice = (dueDate: Date) => storage.createInvoice({
+    customerId: customer.id,
+    date: new Date(),
+    dueDate,
+    amount: 121,
+    status: "Verzonden",
+    items: [{ description: "Werkzaamheden", quantity: 1, price: 100, vatRate: "21" }],
+  });
+  const pay = (invoiceId: number, amount: number) => beheerder.post(`/api/invoices/${invoiceId}/payments`)
+    .send({ date: new Date().toISOString(), amount, method: "bank" })
+    .expect(201);
+
+  it("marks the invoice as paid once the payments cover its amount", async () => {
+    const invoice = await createInvoice(new Date(Date.now() + 14 * 24 * 60 * 60 * 1000));
+
+    expect((await pay(invoice.id, 100)).body.invoice.status).toBe("Verzonden");
+    expect((await pay(invoice.id, 21)).body.invoice.status).toBe("Betaald");
+    expect((await storage.getInvoice(invoice.id))?.status).toBe("Betaald");
+  });
+
+  it("reopens the invoice when a payment is deleted", async () => {
+    const invoice = await createInvoice(new Date("2026-01-01"));
+    const { body } = await pay(invoice.id, 121);
+    expect(body.invoice.status).toBe("Betaald");
+
+    const reopened = await beheerder.delete(`/api/invoices/${invoice.id}/payments/${body.payment.id}`).expect(200);
+    expect(reopened.body.status).toBe("Te laat");
+    expect((await storage.getInvoice(invoice.id))?.status).toBe("Te laat");
+  });
+
+  it("does not change the status when an invoice is edited", async () => {
+    const invoice = await createInvoice(new Date(Date.now() + 14 * 24 * 60 * 60 * 1000));
+
+    const { body } = await beheerder.put(`/api/invoices/${invoice.id}`)
+      .send({ status: "Betaald", dueDate: "2026-12-31" })
+      .expect(200);
+    expect(body).toMatchObject({ status: "Verzonden", dueDate: new Date("2026-12-31").toISOString() });
+  });
+});
@@ -0,0 +1,10 @@
+import type { Invoice } from "@shared/schema";
+import { getPaymentStatus } from "@shared/payments";
+import { storage } from "./storage";
+
+// Sets the status that follows from the payments of an invoice, after a payment was added or removed
+export async function syncPaymentStatus(invoice: Invoice): Promise<Invoice> {
+  const status = getPaymentStatus(invoice, await storage.getPayments(invoice.id));
+  if (status === invoice.status) return invoice;
+  return (await storage.updateInvoice(invoice.id, { status })) ?? invoice;
+}
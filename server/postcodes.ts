@@ -0,0 +1,126 @@
+// Offline postcode-to-coordinate table used for route planning, so no external maps API is needed.
+// Keys are postcode prefixes: the lookup tries the 4 digit area first, then 3 and 2 digits.
+// The bundled rows cover every 2 digit region of the Netherlands with its approximate centre;
+// more specific 3 or 4 digit rows can be added for a finer distance calculation.
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+const POSTCODE_COORDINATES: Record<string, [number, number]> = {
+  "10": [52.370, 4.895], // Amsterdam
+  "11": [52.310, 4.920], // Amsterdam-Zuidoost, Diemen, Amstelveen
+  "12": [52.225, 5.175], // Hilversum, Gooi
+  "13": [52.370, 5.215], // Almere
+  "14": [52.500, 4.955], // Purmerend, Waterland
+  "15": [52.445, 4.815], // Zaandam, Wormerveer
+  "16": [52.645, 5.060], // Hoorn, Enkhuizen
+  "17": [52.790, 4.850], // Heerhugowaard, Den Helder
+  "18": [52.630, 4.750], // Alkmaar
+  "19": [52.490, 4.660], // Beverwijk, Heemskerk
+  "20": [52.380, 4.640], // Haarlem
+  "21": [52.305, 4.660], // Heemstede, Hoofddorp
+  "22": [52.220, 4.450], // Katwijk, Noordwijk, Lisse
+  "23": [52.160, 4.490], // Leiden
+  "24": [52.130, 4.660], // Alphen aan den Rijn
+  "25": [52.075, 4.300], // Den Haag
+  "26": [52.010, 4.360], // Delft
+  "27": [52.060, 4.495], // Zoetermeer
+  "28": [52.015, 4.710], // Gouda
+  "29": [51.900, 4.590], // Capelle, Krimpen, Ridderkerk
+  "30": [51.920, 4.480], // Rotterdam
+  "31": [51.910, 4.350], // Schiedam, Vlaardingen
+  "32": [51.845, 4.300], // Spijkenisse, Voorne-Putten
+  "33": [51.810, 4.670], // Dordrecht
+  "34": [52.050, 4.950], // IJsselstein, Woerden
+  "35": [52.090, 5.120], // Utrecht
+  "36": [52.140, 5.030], // Maarssen, Breukelen
+  "37": [52.120, 5.250], // Zeist, Bilthoven, Soest
+  "38": [52.155, 5.390], // Amersfoort
+  "39": [52.030, 5.560], // Veenendaal, Rhenen
+  "40": [51.890, 5.400], // Tiel, Culemborg
+  "41": [51.930, 5.150], // Vianen, Leerdam
+  "42": [51.830, 4.975], // Gorinchem
+  "43": [51.500, 3.610], // Middelburg, Vlissingen
+  "44": [51.500, 3.890], // Goes
+  "45": [51.330, 3.820], // Terneuzen, Zeeuws-Vlaanderen
+  "46": [51.495, 4.290], // Bergen op Zoom
+  "47": [51.530, 4.460], // Roosendaal
+  "48": [51.590, 4.780], // Breda
+  "49": [51.640, 4.860], // Oosterhout
+  "50": [51.560, 5.090], // Tilburg
+  "51": [51.660, 5.050], // Waalwijk, Dongen
+  "52": [51.690, 5.300], // 's-Hertogenbosch
+  "53": [51.770, 5.450], // Zaltbommel, Oss
+  "54": [51.630, 5.580], // Uden, Veghel
+  "55": [51.400, 5.420], // Veldhoven, Valkenswaard
+  "56": [51.440, 5.480], // Eindhoven
+  "57": [51.480, 5.660], // Helmond
+  "58": [51.550, 5.950], // Venray, Boxmeer
+  "59": [51.370, 6.170], // Venlo
+  "60": [51.220, 5.850], // Weert, Roermond
+  "61": [51.000, 5.870], // Sittard-Geleen
+  "62": [50.850, 5.690], // Maastricht
+  "63": [50.880, 5.900], // Valkenburg, Heerlen
+  "64": [50.880, 6.020], // Heerlen, Kerkrade
+  "65": [51.840, 5.860], // Nijmegen
+  "66": [51.860, 5.700], // Wijchen, Druten
+  "67": [52.010, 5.700], // Ede, Wageningen
+  "68": [51.980, 5.910], // Arnhem
+  "69": [51.930, 6.070], // Zevenaar, Duiven
+  "70": [51.960, 6.290], // Doetinchem
+  "71": [51.970, 6.660], // Winterswijk, Aalten
+  "72": [52.140, 6.200], // Zutphen
+  "73": [52.210, 5.970], // Apeldoorn
+  "74": [52.250, 6.160], // Deventer
+  "75": [52.220, 6.890], // Enschede, Hengelo
+  "76": [52.355, 6.660], // Almelo
+  "77": [52.570, 6.600], // Hardenberg, Ommen
+  "78": [52.785, 6.900], // Emmen
+  "79": [52.720, 6.480], // Hoogeveen, Meppel
+  "80": [52.510, 6.090], // Zwolle
+  "81": [52.400, 6.270], // Raalte
+  "82": [52.520, 5.600], // Lelystad, Kampen
+  "83": [52.710, 5.750], // Emmeloord
+  "84": [52.960, 5.920], // Heerenveen
+  "85": [52.970, 5.790], // Joure
+  "86": [53.030, 5.660], // Sneek
+  "87": [53.060, 5.530], // Bolsward
+  "88": [53.170, 5.420], // Harlingen, Franeker
+  "89": [53.200, 5.800], // Leeuwarden
+  "90": [53.270, 5.950], // Burgum
+  "91": [53.330, 6.000], // Dokkum
+  "92": [53.110, 6.100], // Drachten
+  "93": [53.140, 6.430], // Roden, Leek
+  "94": [52.990, 6.560], // Assen
+  "95": [53.000, 6.950], // Stadskanaal
+  "96": [53.150, 6.800], // Veendam, Hoogezand
+  "97": [53.220, 6.570], // Groningen
+  "98": [53.300, 6.450], // Zuidhorn
+  "99": [53.320, 6.850], // Delfzijl, Appingedam
+};
+
+export function lookupPostcode(postalCode: string | null | undefined): Coordinates | null {
+  const digits = (postalCode || "").replace(/\s/g, "").match(/^\d{4}/)?.[0];
+  if (!digits) return null;
+
+  for (const length of [4, 3, 2]) {
+    const coordinates = POSTCODE_COORDINATES[digits.substring(0, length)];
+    if (coordinates) {
+      return { lat: coordinates[0], lon: coordinates[1] };
+    }
+  }
+
+  return null;
+}
+
+// Great-circle distance in kilometres
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,38 @@
+import type { Project } from "@shared/schema";
+import { getProjectFinancials, type ProjectFinancials } from "@shared/projects";
+import { storage } from "./storage";
+
+// Percentage of its budget above which a project is flagged, configured with PROJECT_BUDGET_WARNING_PERCENTAGE
+export function getBudgetWarningPercentage(): number {
+  const percentage = parseInt(process.env.PROJECT_BUDGET_WARNING_PERCENTAGE || "");
+  return isNaN(percentage) || percentage < 1 ? 90 : percentage;
+}
+
+async function getMaterialPrices(): Promise<Map<number, number>> {
+  return new Map((await storage.getAllMaterials()).map(material => [material.id, material.price]));
+}
+
+export async function getFinancials(projects: Project[]): Promise<ProjectFinancials[]> {
+  const projectIds = new Set(projects.map(project => project.id));
+  const workOrders = (await storage.getProjectWorkOrderCosts()).filter(workOrder => projectIds.has(workOrder.projectId));
+  const [materialPrices, invoices] = await Promise.all([
+    getMaterialPrices(),
+    storage.getProjectInvoices(Array.from(projectIds), workOrders.map(workOrder => workOrder.id)),
+  ]);
+  const warningPercentage = getBudgetWarningPercentage();
+
+  return projects.map(project => {
+    const projectWorkOrders = workOrders.filter(workOrder => workOrder.projectId === project.id);
+    const workOrderIds = new Set(projectWorkOrders.map(workOrder => workOrder.id));
+    const projectInvoices = invoices.filter(invoice =>
+      invoice.projectId === project.id || (invoice.workOrderId !== null && workOrderIds.has(invoice.workOrderId)));
+    return getProjectFinancials(project, projectWorkOrders, materialPrices, projectInvoices, warningPercentage);
+  });
+}
+
+// Projects are visible to technicians as well; the price and budget are only for users with projects:financial
+export function withoutFinancials<T extends Project>({
+  price, budgetLaborHours, budgetMaterials, budgetSubcontracting, laborCostRate, subcontractingCosts, ...project
+}: T) {
+  return project;
+}
@@ -0,0 +1,51 @@
+import { isSameDay } from "date-fns";
+import type { Project, WorkOrder } from "@shared/schema";
+import { getProjectProgress } from "@shared/projects";
+import { getCriticalPath, getScheduleChanges, type GanttData } from "@shared/gantt";
+import { getWorkOrderInterval } from "@shared/planning";
+import { storage } from "./storage";
+
+// Moves the work orders of a project that would start before a predecessor has finished, e.g. after a
+// predecessor slipped or a dependency was added. Returns the moved work orders.
+export async function shiftDependentWorkOrders(projectId: number): Promise<WorkOrder[]> {
+  const workOrders = await storage.getWorkOrdersByProject(projectId);
+  const dependencies = await storage.getWorkOrderDependencies(workOrders.map(workOrder => workOrder.id));
+  const byId = new Map(workOrders.map(workOrder => [workOrder.id, workOrder]));
+
+  const moved: WorkOrder[] = [];
+  for (const change of getScheduleChanges(workOrders, dependencies)) {
+    // A work order moved to another day is no longer part of the optimised route of its old day
+    const routeUpdate = isSameDay(change.date, new Date(byId.get(change.id)!.date)) ? {} : { routeSequence: null };
+    const workOrder = await storage.updateWorkOrder(change.id, { date: change.date, endDate: change.endDate, ...routeUpdate });
+    if (workOrder) moved.push(workOrder);
+  }
+  return moved;
+}
+
+export async function getProjectGantt(project: Project): Promise<GanttData> {
+  const workOrders = await storage.getWorkOrdersByProject(project.id);
+  const dependencies = (await storage.getWorkOrderDependencies(workOrders.map(workOrder => workOrder.id)))
+    .map(({ workOrderId, dependsOnId }) => ({ workOrderId, dependsOnId }));
+
+  const tasks = workOrders
+    .filter(workOrder => workOrder.status !== "Geannuleerd")
+    .map(workOrder => {
+      const { start, end } = getWorkOrderInterval(workOrder);
+      return {
+        id: workOrder.id,
+        orderNumber: workOrder.orderNumber,
+        title: workOrder.title,
+        status: workOrder.status,
+        start: start.toISOString(),
+        end: end.toISOString(),
+      };
+    })
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  return {
+    project: { ...project, ...getProjectProgress(workOrders) },
+    tasks,
+    dependencies,
+    criticalPath: getCriticalPath(workOrders, dependencies),
+  };
+}
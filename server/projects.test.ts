@@ -0,0 +1,133 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Customer } from "@shared/schema";
+import { pool } from "./db";
+import { generateDueInstalmentInvoices } from "./instalments";
+import { migrateProjectWorkOrders } from "./migrations";
+import { storage } from "./storage";
+import { createTestApp, loginAs } from "./testing";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+describe("work orders of a project", () => {
+  let beheerder: Awaited<ReturnType<typeof loginAs>>;
+  let customer: Customer;
+
+  beforeAll(async () => {
+    beheerder = await loginAs(await createTestApp(), { username: "beheerder", role: "beheerder" });
+    customer = await storage.createCustomer({
+      customerNumber: "K-0001", name: "Jansen", type: "Particulier", street: "Dorpsstraat 1", postalCode: "1234 AB", city: "Utrecht",
+    });
+  });
+
+  const createProject = () => storage.createProject({ title: "Badkamer", customerId: customer.id, startDate: new Date() });
+  const createWorkOrder = (projectId: number | null = null) =>
+    storage.createWorkOrder({ title: "Tegelwerk", customerId: customer.id, date: new Date(), projectId });
+
+  it("stores the project of a work order", async () => {
+    const project = await createProject();
+    const workOrder = await createWorkOrder(project.id);
+    expect(workOrder.projectId).toBe(project.id);
+
+    const updated = await storage.updateWorkOrder(workOrder.id, { projectId: null, title: "Tegelwerk vloer" });
+    expect(updated).toMatchObject({ projectId: null, title: "Tegelwerk vloer", orderNumber: workOrder.orderNumber });
+  });
+
+  it("links and unlinks a work order", async () => {
+    const project = await createProject();
+    const workOrder = await createWorkOrder();
+
+    await beheerder.put(`/api/projects/${project.id}/workorders/${workOrder.id}`).expect(200);
+    expect((await storage.getWorkOrdersByProject(project.id)).map(wo => wo.id)).toEqual([workOrder.id]);
+    expect((await beheerder.get(`/api/projects/${project.id}/workorders`).expect(200)).body).toHaveLength(1);
+
+    await beheerder.delete(`/api/projects/${project.id}/workorders/${workOrder.id}`).expect(204);
+    expect(await storage.getWorkOrdersByProject(project.id)).toEqual([]);
+  });
+
+  it("migrates the work order ids of projects.work_orders to work_orders.project_id", async () => {
+    const project = await createProject();
+    const first = await createWorkOrder();
+    const second = await createWorkOrder();
+    const other = await createWorkOrder();
+    await pool.query("ALTER TABLE projects ADD COLUMN work_orders jsonb");
+    await pool.query("UPDATE projects SET work_orders = $1 WHERE id = $2", [JSON.stringify([first.id, String(second.id)]), project.id]);
+
+    await migrateProjectWorkOrders();
+    await pool.query("ALTER TABLE projects DROP COLUMN work_orders");
+
+    expect((await storage.getWorkOrdersByProject(project.id)).map(wo => wo.id).sort()).toEqual([first.id, second.id].sort());
+    expect((await storage.getWorkOrder(other.id))?.projectId).toBeNull();
+  });
+
+  it.each([
+    ["a later end", { endDate: "2026-03-02T11:00:00.000Z" }],
+    ["a longer estimate", { estimatedHours: 3 }],
+  ])("moves the successors of a work order that got %s", async (_, update) => {
+    const project = await createProject();
+    const first = await storage.createWorkOrder({
+      title: "Sloopwerk", customerId: customer.id, projectId: project.id, date: new Date("2026-03-02T08:00:00.000Z"),
+    });
+    const second = await storage.createWorkOrder({
+      title: "Tegelwerk", customerId: customer.id, projectId: project.id,
+      date: new Date("2026-03-02T10:00:00.000Z"), endDate: new Date("2026-03-02T12:00:00.000Z"),
+    });
+    await beheerder.post(`/api/projects/${project.id}/dependencies`)
+      .send({ workOrderId: second.id, dependsOnId: first.id })
+      .expect(201);
+
+    await beheerder.put(`/api/workorders/${first.id}`).send(update).expect(200);
+
+    expect(await storage.getWorkOrder(second.id)).toMatchObject({
+      date: new Date("2026-03-02T11:00:00.000Z"),
+      endDate: new Date("2026-03-02T13:00:00.000Z"),
+    });
+  });
+
+  it("counts the labour and materials of linked work orders in the financials", async () => {
+    const project = await storage.createProject({ title: "Keuken", customerId: customer.id, startDate: new Date(), laborCostRate: 50 });
+    const material = await storage.createMaterial({ articleNumber: "T-100", name: "Tegellijm", category: "Lijm", price: 12.5 });
+    const workOrder = await createWorkOrder();
+    await beheerder.put(`/api/projects/${project.id}/workorders/${workOrder.id}`).expect(200);
+    await beheerder.put(`/api/workorders/${workOrder.id}`)
+      .send({ laborHours: 4, materials: [{ id: material.id, name: material.name, quantity: 2, price: material.price }] })
+      .expect(200);
+
+    const { body } = await beheerder.get(`/api/projects/${project.id}/financials`).expect(200);
+    expect(body.actual).toMatchObject({ laborHours: 4, labor: 200, materials: 25, total: 225 });
+  });
+
+  it("invoices the term of a milestone once its work order is completed", async () => {
+    const project = await storage.createProject({ title: "Aanbouw", customerId: customer.id, startDate: new Date(), price: 1000 });
+    const workOrder = await createWorkOrder(project.id);
+    await storage.createProjectInstalment({
+      projectId: project.id, sequence: 1, description: "Oplevering", percentage: 100, milestoneWorkOrderId: workOrder.id,
+    });
+
+    await beheerder.put(`/api/workorders/${workOrder.id}`).send({ status: "Voltooid" }).expect(200);
+
+    await vi.waitFor(async () => {
+      const [invoice] = await storage.getProjectInvoices([project.id], []);
+      expect(invoice).toMatchObject({ projectId: project.id, status: "Concept" });
+      expect(invoice.items).toHaveLength(1);
+    });
+  });
+
+  it("invoices the terms of a project while another generation is running", async () => {
+    const [first, second] = [
+      await storage.createProject({ title: "Dakkapel", customerId: customer.id, startDate: new Date(), price: 1000 }),
+      await storage.createProject({ title: "Schuur", customerId: customer.id, startDate: new Date(), price: 2000 }),
+    ];
+    for (const project of [first, second]) {
+      await storage.createProjectInstalment({
+        projectId: project.id, sequence: 1, description: "Aanbetaling", percentage: 100, dueDate: new Date("2026-01-01"),
+      });
+    }
+
+    const [firstInvoices, secondInvoices] = await Promise.all([
+      generateDueInstalmentInvoices(first.id),
+      generateDueInstalmentInvoices(second.id),
+    ]);
+    expect(firstInvoices.map(invoice => invoice.projectId)).toEqual([first.id]);
+    expect(secondInvoices.map(invoice => invoice.projectId)).toEqual([second.id]);
+  });
+});
@@ -0,0 +1,95 @@
+import { addDays } from "date-fns";
+import type { Invoice, Project, Quote, WorkOrder } from "@shared/schema";
+import { INVOICE_PAYMENT_DAYS } from "@shared/instalments";
+import { DEFAULT_VAT_RATE, getInvoiceTotals, type InvoiceLine } from "@shared/invoices";
+import { getQuoteLineTotal, type QuoteConversionTarget, type QuoteLine } from "@shared/quotes";
+import { storage } from "./storage";
+
+export interface QuoteConversion {
+  quote: Quote;
+  workOrder?: WorkOrder;
+  project?: Project;
+  invoice: Invoice;
+}
+
+function getLines(quote: Quote): QuoteLine[] {
+  return Array.isArray(quote.items) ? quote.items as QuoteLine[] : [];
+}
+
+function getLaborHours(lines: QuoteLine[]): number {
+  return lines.filter(line => line.type === "Arbeid").reduce((sum, line) => sum + line.quantity, 0);
+}
+
+// Quote description followed by the free text lines
+function getDescription(quote: Quote, lines: QuoteLine[]): string | null {
+  const parts = [quote.description, ...lines.filter(line => line.type === "Tekst").map(line => line.description)];
+  return parts.filter(Boolean).join("\n") || null;
+}
+
+async function createWorkOrder(quote: Quote, lines: QuoteLine[], date: Date): Promise<WorkOrder> {
+  const laborHours = getLaborHours(lines);
+  return storage.createWorkOrder({
+    title: quote.title,
+    description: getDescription(quote, lines),
+    customerId: quote.customerId,
+    date,
+    endDate: laborHours > 0 ? new Date(date.getTime() + laborHours * 60 * 60 * 1000) : null,
+    estimatedHours: laborHours || null,
+    status: "Ingepland",
+    // Catalogue materials of the quote, in the format of the materials used on the work order
+    materials: lines
+      .filter(line => line.type === "Materiaal" && line.materialId)
+      .map(line => ({ id: line.materialId, quantity: line.quantity, name: line.description, price: line.price })),
+    notes: `Aangemaakt uit offerte ${quote.quoteNumber}`,
+  });
+}
+
+async function createProject(quote: Quote, lines: QuoteLine[], date: Date): Promise<Project> {
+  return storage.createProject({
+    title: quote.title,
+    description: getDescription(quote, lines),
+    customerId: quote.customerId,
+    startDate: date,
+    status: "Gepland",
+    // The quote is the quoted price; its labour and materials are the budget
+    price: quote.amount,
+    budgetLaborHours: getLaborHours(lines),
+    budgetMaterials: lines
+      .filter(line => line.type === "Materiaal")
+      .reduce((sum, line) => sum + getQuoteLineTotal(line), 0),
+  });
+}
+
+// Converts an accepted quote into a work order or a project plus a concept invoice with the lines of the quote
+export async function convertQuote(quote: Quote, target: QuoteConversionTarget, date: Date): Promise<QuoteConversion> {
+  const lines = getLines(quote);
+  const workOrder = target === "workorder" ? await createWorkOrder(quote, lines, date) : undefined;
+  const project = target === "project" ? await createProject(quote, lines, date) : undefined;
+
+  // Quotes are excl. VAT; the concept invoice charges the default rate, which can be changed per line before sending
+  const items: InvoiceLine[] = lines.map(line => ({
+    description: line.description,
+    quantity: line.type === "Tekst" ? 0 : line.quantity,
+    price: line.type === "Tekst" ? 0 : line.price,
+    vatRate: DEFAULT_VAT_RATE,
+  }));
+  const now = new Date();
+  const invoice = await storage.createInvoice({
+    customerId: quote.customerId,
+    workOrderId: workOrder?.id ?? null,
+    projectId: project?.id ?? null,
+    date: now,
+    dueDate: addDays(now, INVOICE_PAYMENT_DAYS),
+    amount: getInvoiceTotals(items).total,
+    status: "Concept",
+    items,
+  });
+
+  const updatedQuote = await storage.updateQuote(quote.id, {
+    workOrderId: workOrder?.id ?? null,
+    projectId: project?.id ?? null,
+    invoiceId: invoice.id,
+  });
+
+  return { quote: updatedQuote ?? quote, workOrder, project, invoice };
+}
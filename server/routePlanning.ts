@@ -0,0 +1,136 @@
+import { isSameDay } from "date-fns";
+import type { Customer, WorkOrder } from "@shared/schema";
+import { storage } from "./storage";
+import { Coordinates, distanceKm, lookupPostcode } from "./postcodes";
+
+export interface RouteStop {
+  sequence: number;
+  workOrder: WorkOrder;
+  customer: Customer | null;
+  coordinates: Coordinates | null;
+  distanceKm: number | null; // Distance from the previous stop (or the start address)
+}
+
+export interface DayRoute {
+  userId: number;
+  date: string;
+  start: Coordinates | null;
+  stops: RouteStop[];
+  totalDistanceKm: number;
+}
+
+// Optional start address of every route (e.g. the company premises), configured with ROUTE_START_POSTCODE
+function getRouteStart(): Coordinates | null {
+  return lookupPostcode(process.env.ROUTE_START_POSTCODE);
+}
+
+async function getDayStops(userId: number, day: Date) {
+  const workOrders = (await storage.getWorkOrdersByAssignee(userId))
+    .filter(wo => wo.status !== "Geannuleerd" && isSameDay(new Date(wo.date), day));
+
+  return Promise.all(workOrders.map(async workOrder => {
+    const customer = await storage.getCustomer(workOrder.customerId) ?? null;
+    return { workOrder, customer, coordinates: lookupPostcode(customer?.postalCode) };
+  }));
+}
+
+function pathLength(path: Coordinates[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += distanceKm(path[i - 1], path[i]);
+  }
+  return total;
+}
+
+// Orders the points with nearest neighbour followed by 2-opt improvement. The route is open (no
+// return to the start); when a start is given it stays in front, otherwise the first point is the start.
+export function optimiseOrder(points: Coordinates[], start: Coordinates | null): number[] {
+  if (points.length <= 1) return points.map((_, i) => i);
+
+  const remaining = points.map((_, i) => i);
+  const order: number[] = [];
+  let current = start ?? points[remaining.shift()!];
+  if (!start) order.push(0);
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distanceKm(current, points[remaining[i]]) < distanceKm(current, points[remaining[nearest]])) {
+        nearest = i;
+      }
+    }
+    const [next] = remaining.splice(nearest, 1);
+    order.push(next);
+    current = points[next];
+  }
+
+  // 2-opt: reverse segments as long as that shortens the route; the start never moves
+  const firstMovable = start ? 0 : 1;
+  const toPath = (indices: number[]) => [...(start ? [start] : []), ...indices.map(i => points[i])];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = firstMovable; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        if (pathLength(toPath(candidate)) + 1e-9 < pathLength(toPath(order))) {
+          order.splice(0, order.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+function toDayRoute(userId: number, day: Date, stops: Awaited<ReturnType<typeof getDayStops>>): DayRoute {
+  const start = getRouteStart();
+  let previous = start;
+  let totalDistanceKm = 0;
+
+  const routeStops = stops.map((stop, index) => {
+    const distance = previous && stop.coordinates ? distanceKm(previous, stop.coordinates) : null;
+    if (distance !== null) totalDistanceKm += distance;
+    if (stop.coordinates) previous = stop.coordinates;
+    return { ...stop, sequence: index + 1, distanceKm: distance };
+  });
+
+  return {
+    userId,
+    date: day.toISOString(),
+    start,
+    stops: routeStops,
+    totalDistanceKm: Math.round(totalDistanceKm * 10) / 10,
+  };
+}
+
+// The stops of the day in the saved route order; stops without a sequence follow in order of planned time
+export async function getDayRoute(userId: number, day: Date): Promise<DayRoute> {
+  const stops = await getDayStops(userId, day);
+  stops.sort((a, b) =>
+    (a.workOrder.routeSequence ?? Infinity) - (b.workOrder.routeSequence ?? Infinity) ||
+    new Date(a.workOrder.date).getTime() - new Date(b.workOrder.date).getTime()
+  );
+  return toDayRoute(userId, day, stops);
+}
+
+// Calculates the shortest order of the day's stops and saves it as route sequence on the work orders.
+// Stops whose postcode is unknown cannot be placed and are added at the end in order of planned time.
+export async function optimiseDayRoute(userId: number, day: Date): Promise<DayRoute> {
+  const stops = (await getDayStops(userId, day))
+    .sort((a, b) => new Date(a.workOrder.date).getTime() - new Date(b.workOrder.date).getTime());
+  const located = stops.filter(stop => stop.coordinates);
+  const unlocated = stops.filter(stop => !stop.coordinates);
+
+  const order = optimiseOrder(located.map(stop => stop.coordinates!), getRouteStart());
+  const ordered = [...order.map(i => located[i]), ...unlocated];
+
+  for (let index = 0; index < ordered.length; index++) {
+    const stop = ordered[index];
+    await storage.updateWorkOrder(stop.workOrder.id, { routeSequence: index + 1 });
+    stop.workOrder = { ...stop.workOrder, routeSequence: index + 1 };
+  }
+
+  return toDayRoute(userId, day, ordered);
+}
@@ -0,0 +1,148 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { Permission } from "@shared/permissions";
+import { createTestApp, loginAs } from "./testing";
+
+vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+// Routes that need a permission monteurs do not have
+const BEHEERDER_ROUTES: [Method, string, Permission][] = [
+  ["get", "/api/customers/:id/statement", "invoices:read"],
+  ["post", "/api/customers", "customers:write"],
+  ["put", "/api/customers/:id", "customers:write"],
+  ["delete", "/api/customers/:id", "customers:write"],
+  ["patch", "/api/users/:id", "users:manage"],
+  ["post", "/api/users/:id/reset-password", "users:manage"],
+  ["post", "/api/users/:id/reset-2fa", "users:manage"],
+  ["post", "/api/users/:id/unlock", "users:manage"],
+  ["get", "/api/login-history", "users:manage"],
+  ["put", "/api/users/:id/working-hours", "availability:manage"],
+  ["patch", "/api/leave-requests/:id/status", "availability:manage"],
+  ["post", "/api/holidays", "availability:manage"],
+  ["delete", "/api/holidays/:id", "availability:manage"],
+  ["get", "/api/maintenance-contracts", "contracts:read"],
+  ["get", "/api/maintenance-contracts/:id", "contracts:read"],
+  ["get", "/api/maintenance-contracts/:id/workorders", "contracts:read"],
+  ["post", "/api/maintenance-contracts", "contracts:write"],
+  ["put", "/api/maintenance-contracts/:id", "contracts:write"],
+  ["delete", "/api/maintenance-contracts/:id", "contracts:write"],
+  ["post", "/api/maintenance-contracts/generate", "contracts:write"],
+  ["post", "/api/workorders", "workorders:write"],
+  ["put", "/api/workorders/:id", "workorders:write"],
+  ["delete", "/api/workorders/:id", "workorders:write"],
+  ["post", "/api/workorders/:id/assignments", "workorders:write"],
+  ["delete", "/api/workorders/:id/assignments/:userId", "workorders:write"],
+  ["post", "/api/materials", "materials:write"],
+  ["put", "/api/materials/:id", "materials:write"],
+  ["delete", "/api/materials/:id", "materials:write"],
+  ["get", "/api/invoices", "invoices:read"],
+  ["get", "/api/invoices/export", "invoices:read"],
+  ["get", "/api/invoices/:id", "invoices:read"],
+  ["get", "/api/invoices/:id/pdf", "invoices:read"],
+  ["get", "/api/invoices/:id/mail-preview", "invoices:read"],
+  ["get", "/api/invoices/:id/mails", "invoices:read"],
+  ["post", "/api/invoices/:id/send", "invoices:write"],
+  ["get", "/api/invoices/:id/reminders", "invoices:read"],
+  ["get", "/api/invoices/:id/reminders/:reminderId/pdf", "invoices:read"],
+  ["get", "/api/invoices/:id/payments", "invoices:read"],
+  ["post", "/api/invoices/:id/payments", "invoices:write"],
+  ["delete", "/api/invoices/:id/payments/:paymentId", "invoices:write"],
+  ["post", "/api/invoices/dunning", "invoices:write"],
+  ["post", "/api/invoices", "invoices:write"],
+  ["put", "/api/invoices/:id", "invoices:write"],
+  ["delete", "/api/invoices/:id", "invoices:write"],
+  ["get", "/api/mail-templates", "invoices:read"],
+  ["put", "/api/mail-templates/:key", "invoices:write"],
+  ["get", "/api/quotes", "quotes:read"],
+  ["get", "/api/quotes/:id", "quotes:read"],
+  ["post", "/api/quotes", "quotes:write"],
+  ["put", "/api/quotes/:id", "quotes:write"],
+  ["delete", "/api/quotes/:id", "quotes:write"],
+  ["post", "/api/quotes/:id/convert", "quotes:write"],
+  ["get", "/api/projects/financials", "projects:financial"],
+  ["get", "/api/projects/:id/financials", "projects:financial"],
+  ["post", "/api/projects", "projects:write"],
+  ["put", "/api/projects/:id", "projects:write"],
+  ["delete", "/api/projects/:id", "projects:write"],
+  ["put", "/api/projects/:id/workorders/:workOrderId", "projects:write"],
+  ["delete", "/api/projects/:id/workorders/:workOrderId", "projects:write"],
+  ["get", "/api/projects/:id/instalments", "projects:financial"],
+  ["put", "/api/projects/:id/instalments", "projects:financial"],
+  ["post", "/api/projects/:id/instalments/:instalmentId/invoice", "invoices:write"],
+  ["post", "/api/projects/:id/dependencies", "projects:write"],
+  ["delete", "/api/projects/:id/dependencies/:workOrderId/:dependsOnId", "projects:write"],
+  ["post", "/api/register", "users:manage"],
+];
+
+// Routes about one user that need a permission monteurs do not have when it is about a colleague; the
+// monteur of the tests is the first user, so user 2 is a colleague
+const OTHER_USER_ROUTES: [Method, string, string][] = [
+  ["get", "/api/availability?userId=2", "/api/availability?userId=1"],
+  ["get", "/api/users/2/working-hours", "/api/users/1/working-hours"],
+];
+
+// Routes that can be used without logging in
+const PUBLIC_ROUTES = ["/api/login", "/api/login/2fa", "/api/logout", "/api/forgot-password", "/api/reset-password"];
+
+// Fills in the route parameters, e.g. /api/invoices/:id/pdf becomes /api/invoices/1/pdf
+const toUrl = (path: string) => path.replace(/:[a-zA-Z]+/g, "1");
+
+describe("route permissions", () => {
+  let app: Express;
+  let monteur: Awaited<ReturnType<typeof loginAs>>;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    monteur = await loginAs(app, { username: "monteur", role: "monteur" });
+  });
+
+  it("rejects anonymous requests on every API route", async () => {
+    const routes = (app._router.stack as { route?: { path: string; methods: Record<Method, boolean> } }[])
+      .flatMap(layer => layer.route ? [layer.route] : [])
+      .filter(route => route.path.startsWith("/api") && !PUBLIC_ROUTES.includes(route.path));
+    expect(routes.length).toBeGreaterThan(BEHEERDER_ROUTES.length);
+
+    for (const route of routes) {
+      for (const method of Object.keys(route.methods) as Method[]) {
+        const response = await request(app)[method](toUrl(route.path));
+        expect(response.status, `${method.toUpperCase()} ${route.path}`).toBe(401);
+      }
+    }
+  });
+
+  it.each(BEHEERDER_ROUTES)("%s %s requires %s", async (method, path) => {
+    expect((await request(app)[method](toUrl(path))).status).toBe(401);
+    const response = await monteur[method](toUrl(path));
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ message: "Insufficient permissions" });
+  });
+
+  it.each(OTHER_USER_ROUTES)("%s %s requires a permission for colleagues", async (method, colleagueUrl, ownUrl) => {
+    expect((await request(app)[method](colleagueUrl)).status).toBe(401);
+    expect((await monteur[method](colleagueUrl)).status).toBe(403);
+    expect((await monteur[method](ownUrl)).status).toBe(200);
+  });
+
+  it("only lists the planning details of users to monteurs", async () => {
+    const response = await monteur.get("/api/users?includeInactive=true").expect(200);
+    expect(response.body).toEqual([{ id: expect.any(Number), fullName: "monteur", role: "monteur", active: true }]);
+  });
+});
+
+describe("validation errors", () => {
+  it("answers invalid query parameters with the message and the invalid fields", async () => {
+    const beheerder = await loginAs(await createTestApp(), { username: "beheerder", role: "beheerder" });
+    const response = await beheerder.get("/api/invoices/1/mail-preview?type=unknown").expect(400);
+    expect(response.body).toEqual({ message: expect.any(String), errors: { type: expect.any(String) } });
+  });
+});
+
+describe("audit trail", () => {
+  it.each(["instalment", "mailtemplate"])("shows the history of a %s to a beheerder", async entity => {
+    const beheerder = await loginAs(await createTestApp(), { username: `beheerder-${entity}`, role: "beheerder" });
+    await beheerder.get(`/api/audit?entity=${entity}&id=1`).expect(200, []);
+  });
+});
@@ -1,42 +1,329 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
+import { ZipArchive } from "archiver";
+import { hashPassword, requireAuth, requirePermission, sanitizeUser, setupAuth, userAccountSchema } from "./auth";
 import { storage } from "./storage";
 import { pool } from "./db";
+import { checkAvailability, getAvailability, withoutLeaveDetails } from "./availability";
+import { generateMaintenanceWorkOrders } from "./maintenance";
+import { getDayRoute, optimiseDayRoute } from "./routePlanning";
+import { getProjectGantt, shiftDependentWorkOrders } from "./projectSchedule";
+import { getFinancials, withoutFinancials } from "./projectFinancials";
+import { generateDueInstalmentInvoices, invoiceInstalment, invoiceReachedMilestones } from "./instalments";
+import { convertQuote } from "./quotes";
+import { getInvoicePdfFileName, getReminderLetterFileName, loadInvoiceTemplate, renderInvoicePdf } from "./invoicePdf";
+import { getMailTemplates, renderInvoiceMail, sendInvoiceMail } from "./invoiceMail";
+import { renderReminderLetter, runDunning } from "./dunning";
+import { syncPaymentStatus } from "./payments";
+import { clearThrottle, usernameKey } from "./loginThrottle";
+import { formatValidationError, listQuerySchema, validateBody } from "./validation";
+import {
+  insertCustomerSchema,
+  insertHolidaySchema,
+  insertInvoiceSchema,
+  insertLeaveRequestSchema,
+  insertMailTemplateSchema,
+  insertMaintenanceContractSchema,
+  insertMaterialSchema,
+  insertPaymentSchema,
+  insertProjectInstalmentSchema,
+  insertProjectSchema,
+  insertQuoteSchema,
+  insertWorkingHoursSchema,
+  insertWorkOrderAssignmentSchema,
+  insertWorkOrderSchema,
+  type InsertWorkOrder,
+  type User,
+  type WorkOrder,
+} from "@shared/schema";
+import { getWorkOrderInterval } from "@shared/planning";
+import { CONTRACT_STATUSES, getNextContractOccurrence } from "@shared/maintenance";
+import { hasPermission, type Permission } from "@shared/permissions";
+import {
+  CUSTOMER_SORT_FIELDS,
+  INVOICE_SORT_FIELDS,
+  MATERIAL_SORT_FIELDS,
+  STOCK_STATUSES,
+  WORK_ORDER_SORT_FIELDS,
+} from "@shared/pagination";
+import { getProjectProgress, PROJECT_STATUSES, type ProjectWithProgress } from "@shared/projects";
+import { createsCycle } from "@shared/gantt";
+import { getInstalmentAmounts, isCompleteSchedule } from "@shared/instalments";
+import { getInvoiceLines, getInvoiceTotals, invoiceLineSchema, type InvoiceLine } from "@shared/invoices";
+import { MAIL_TEMPLATE_KEYS, type MailTemplateKey } from "@shared/mailTemplates";
+import { getCustomerStatement, getInvoiceBalance, PAYMENT_METHODS } from "@shared/payments";
+import { getQuoteTotal, QUOTE_CONVERSION_TARGETS, QUOTE_STATUSES, quoteLineSchema } from "@shared/quotes";
+import { SEARCH_LIMIT_PER_TYPE, SEARCH_MIN_LENGTH, SEARCH_TYPES, type SearchType } from "@shared/search";
+import { addDays, addMonths, isSameDay, isValid, parseISO } from "date-fns";
+import { z } from "zod";
+
+const LEAVE_TYPES = ["Vakantie", "Verlof", "Ziek"] as const;
+const LEAVE_STATUSES = ["Aangevraagd", "Goedgekeurd", "Afgewezen"] as const;
+
+function isBeheerder(req: Request): boolean {
+  return req.isAuthenticated() && req.user.role === "beheerder";
+}
+
+// What everyone may know about a colleague, to plan and assign work
+function toPlannerUser({ id, fullName, role, active }: User) {
+  return { id, fullName, role, active };
+}
+
+function canViewProjectFinancials(req: Request): boolean {
+  return hasPermission(req.user?.role, "projects:financial");
+}
+
+// Reverse-charged VAT is only allowed on invoices to business customers
+async function getReverseChargeError(customerId: number, lines: InvoiceLine[]): Promise<string | null> {
+  if (!lines.some(line => line.vatRate === "verlegd")) return null;
+  const customer = await storage.getCustomer(customerId);
+  return customer?.type === "Zakelijk" ? null : "Reverse-charged VAT is only possible for business customers";
+}
+
+// Users that may not see all work orders only have access to the ones they are assigned to
+async function canAccessWorkOrder(req: Request, workOrderId: number): Promise<boolean> {
+  if (hasPermission(req.user?.role, "workorders:read-all")) return true;
+  const assignments = await storage.getWorkOrderAssignments(workOrderId);
+  return assignments.some(assignment => assignment.userId === req.user?.id);
+}
+
+// Request bodies of the write endpoints; the insert schemas from @shared/schema with the rules of the API on top.
+// Update schemas are partial: only the fields that are sent are changed.
+const maintenanceContractFields = insertMaintenanceContractSchema.omit({ generatedUntil: true }).extend({
+  status: z.enum(CONTRACT_STATUSES).optional(),
+  intervalMonths: z.number().int().min(1, "Interval must be a whole number of months"),
+  price: z.number().min(0, "Price must be 0 or more").optional(),
+});
+
+function endsAfterStart(data: { startDate?: Date; endDate?: Date | null }) {
+  return !data.startDate || !data.endDate || data.endDate > data.startDate;
+}
+
+const endDateError = { message: "End date must be after start date", path: ["endDate"] };
+
+const createMaintenanceContractSchema = maintenanceContractFields.refine(endsAfterStart, endDateError);
+const updateMaintenanceContractSchema = maintenanceContractFields.partial().refine(endsAfterStart, endDateError);
+
+const workOrderStatusSchema = insertWorkOrderSchema.pick({ status: true }).required();
+
+const completeWorkOrderSchema = insertWorkOrderSchema.pick({ notes: true, photos: true }).extend({
+  laborHours: z.number({ required_error: "Labor hours are required" }).min(0),
+});
+
+const assignmentSchema = insertWorkOrderAssignmentSchema.pick({ userId: true, isLead: true });
+
+const timePattern = /^\d{2}:\d{2}$/;
+
+const workingHoursSchema = z.object({
+  hours: z.array(
+    insertWorkingHoursSchema.omit({ userId: true }).extend({
+      weekday: z.number().int().min(0).max(6),
+      startTime: z.string().regex(timePattern, "Time must be formatted as HH:mm"),
+      endTime: z.string().regex(timePattern, "Time must be formatted as HH:mm"),
+    }).refine(hours => hours.endTime > hours.startTime, {
+      message: "End time must be after start time",
+      path: ["endTime"],
+    })
+  ),
+});
+
+const leaveRequestSchema = insertLeaveRequestSchema.pick({ startDate: true, endDate: true, reason: true }).extend({
+  type: z.enum(LEAVE_TYPES),
+  userId: z.number().int().optional(), // Only used when a beheerder registers leave for someone else
+}).refine(data => data.endDate >= data.startDate, {
+  message: "End date must not be before start date",
+  path: ["endDate"],
+});
+
+const leaveStatusSchema = z.object({ status: z.enum(LEAVE_STATUSES) });
+
+const projectFields = insertProjectSchema.extend({
+  status: z.enum(PROJECT_STATUSES).optional(),
+});
+
+const createProjectSchema = projectFields.refine(endsAfterStart, endDateError);
+const updateProjectSchema = projectFields.partial().refine(endsAfterStart, endDateError);
+
+// The amount of an invoice is its total incl. VAT, calculated from its lines
+const invoiceFields = insertInvoiceSchema.omit({ amount: true }).extend({
+  items: z.array(invoiceLineSchema).min(1, "An invoice needs at least one line"),
+});
+
+// The status of an existing invoice follows from sending it, its reminders and its payments
+const updateInvoiceSchema = invoiceFields.omit({ status: true }).partial();
+
+const paymentFields = insertPaymentSchema.omit({ invoiceId: true }).extend({
+  method: z.enum(PAYMENT_METHODS),
+});
+
+// The amount of a quote is the total of its lines; the links to what it was converted into are set by the conversion
+const quoteFields = insertQuoteSchema.omit({ amount: true, workOrderId: true, projectId: true, invoiceId: true }).extend({
+  status: z.enum(QUOTE_STATUSES).optional(),
+  items: z.array(quoteLineSchema).min(1, "A quote needs at least one line"),
+});
+
+function validAfterDate(data: { date?: Date; validUntil?: Date }) {
+  return !data.date || !data.validUntil || data.validUntil >= data.date;
+}
+
+const validUntilError = { message: "Valid until must not be before the quote date", path: ["validUntil"] };
+
+const createQuoteSchema = quoteFields.refine(validAfterDate, validUntilError);
+const updateQuoteSchema = quoteFields.partial().refine(validAfterDate, validUntilError);
+
+const convertQuoteSchema = z.object({
+  target: z.enum(QUOTE_CONVERSION_TARGETS),
+  date: z.coerce.date().optional(), // Planned start of the work order or project, default now
+});
+
+// A term is invoiced either on its date or when its milestone work order is completed
+const instalmentSchema = insertProjectInstalmentSchema
+  .pick({ description: true, percentage: true, dueDate: true, milestoneWorkOrderId: true })
+  .extend({ id: z.number().int().positive().optional() })
+  .refine(data => !data.dueDate !== !data.milestoneWorkOrderId, {
+    message: "Either a date or a milestone is required",
+    path: ["dueDate"],
+  });
+
+const instalmentScheduleSchema = z.object({
+  instalments: z.array(instalmentSchema),
+});
+
+const dependencySchema = z.object({
+  workOrderId: z.number().int().positive(),
+  dependsOnId: z.number().int().positive(),
+});
+
+// Query parameters of the paged list endpoints
+const dateRangeFilters = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+const customerListSchema = listQuerySchema(CUSTOMER_SORT_FIELDS).extend({
+  status: z.string().optional(),
+  type: z.string().optional(),
+});
+
+const materialListSchema = listQuerySchema(MATERIAL_SORT_FIELDS).extend({
+  category: z.string().optional(),
+  supplier: z.string().optional(),
+  stock: z.enum(STOCK_STATUSES).optional(),
+});
+
+const workOrderListSchema = listQuerySchema(WORK_ORDER_SORT_FIELDS).extend({
+  status: z.string().optional(),
+  customerId: z.coerce.number().int().optional(),
+  ...dateRangeFilters,
+});
+
+const invoiceListSchema = listQuerySchema(INVOICE_SORT_FIELDS).extend({
+  status: z.string().optional(),
+  customerId: z.coerce.number().int().optional(),
+  ...dateRangeFilters,
+});
+
+const invoiceExportSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in the format yyyy-MM"),
+});
+
+const invoiceMailSchema = z.object({
+  type: z.enum(MAIL_TEMPLATE_KEYS).default("invoice"),
+});
+
+const sendInvoiceSchema = invoiceMailSchema.extend({
+  recipient: z.string().email().optional(), // Defaults to the e-mail address of the customer
+});
+
+const mailTemplateFields = insertMailTemplateSchema.omit({ key: true });
+
+const searchSchema = z.object({
+  q: z.string().trim().min(SEARCH_MIN_LENGTH, `Search text must be at least ${SEARCH_MIN_LENGTH} characters`),
+});
+
+interface WorkOrderSchedule {
+  date?: Date;
+  endDate?: Date | null;
+  error?: string;
+}
+
+// Checks that the end of a work order lies after its start. Without an explicit end, the end is derived from
+// the estimated duration. The body has already been parsed by (the partial) insertWorkOrderSchema.
+function resolveWorkOrderSchedule(body: Partial<InsertWorkOrder>, existing?: WorkOrder): WorkOrderSchedule {
+  const schedule: WorkOrderSchedule = {};
+  if (body.date !== undefined) schedule.date = body.date;
+  if (body.endDate !== undefined) schedule.endDate = body.endDate;
+
+  const start = schedule.date ?? (existing ? new Date(existing.date) : undefined);
+  const estimatedHours = body.estimatedHours ?? existing?.estimatedHours;
+  let end = schedule.endDate !== undefined
+    ? schedule.endDate
+    : existing?.endDate ? new Date(existing.endDate) : null;
+
+  if (!end && start && estimatedHours) {
+    end = new Date(start.getTime() + estimatedHours * 60 * 60 * 1000);
+    schedule.endDate = end;
+  }
+
+  if (start && end && end.getTime() <= start.getTime()) {
+    return { error: "End time must be after start time" };
+  }
+
+  return schedule;
+}
+
+// Whether the planned start or the (derived) end of a work order changed
+function isRescheduled(before: WorkOrder, after: WorkOrder): boolean {
+  const [oldInterval, newInterval] = [getWorkOrderInterval(before), getWorkOrderInterval(after)];
+  return oldInterval.start.getTime() !== newInterval.start.getTime() || oldInterval.end.getTime() !== newInterval.end.getTime();
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
   
+  // Every API route below requires a logged-in user; permissions are checked per route
+  app.use("/api", requireAuth);
+  
   // Dashboard statistics
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
       // Fetch all the necessary data for the dashboard
-      const [workOrders, customers, materials, invoices] = await Promise.all([
-        storage.getAllWorkOrders(),
+      // Monteurs only get figures about their own work orders and no financial data
+      const canSeeAll = hasPermission(req.user!.role, "dashboard:financial");
+      const [workOrders, customers, materials, invoices, payments] = await Promise.all([
+        canSeeAll ? storage.getAllWorkOrders() : storage.getWorkOrdersByAssignee(req.user!.id),
         storage.getAllCustomers(),
         storage.getAllMaterials(),
-        storage.getAllInvoices(),
+        canSeeAll ? storage.getAllInvoices() : Promise.resolve([]),
+        canSeeAll ? storage.getAllPayments() : Promise.resolve([]),
       ]);
       
-      // Calculate month-by-month revenue for the current year
+      // Calculate month-by-month revenue for the current year: invoiced by invoice date, received by payment date
       const currentYear = new Date().getFullYear();
+      const isInMonth = (date: Date, month: number) =>
+        new Date(date).getMonth() === month && new Date(date).getFullYear() === currentYear;
       const monthlyRevenue = Array(12).fill(0).map((_, month) => {
-        const amount = invoices
-          .filter(inv => {
-            const invDate = new Date(inv.date);
-            return invDate.getMonth() === month && 
-                   invDate.getFullYear() === currentYear && 
-                   inv.status !== 'Concept';
-          })
+        const invoiced = invoices
+          .filter(inv => isInMonth(inv.date, month) && inv.status !== 'Concept')
           .reduce((sum, inv) => sum + (inv.amount || 0), 0);
+        const received = payments
+          .filter(payment => isInMonth(payment.date, month))
+          .reduce((sum, payment) => sum + payment.amount, 0);
           
         return { 
           month: ['Jan', 'Feb', 'Mrt', 'Apr', 'Mei', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dec'][month], 
-          amount 
+          invoiced,
+          received,
         };
       });
       
+      // Still to be received on sent invoices; overpayments are not offset against other invoices
+      const openReceivables = invoices
+        .filter(inv => inv.status !== 'Concept')
+        .map(inv => getInvoiceBalance(inv, payments.filter(payment => payment.invoiceId === inv.id)).openBalance)
+        .reduce((sum, openBalance) => sum + Math.max(0, openBalance), 0);
+      
       // Calculate work order status counts
       const workOrdersByStatus = {
         nieuw: workOrders.filter(wo => wo.status === 'Nieuw').length,
@@ -72,7 +359,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         invoicesByStatus,
         recentInvoices,
         lowStockMaterials,
-        monthlyRevenue
+        monthlyRevenue,
+        openReceivables
       });
     } catch (error) {
       console.error("Error generating dashboard stats:", error);
@@ -81,8 +369,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customers API endpoints
-  app.get("/api/customers", async (req, res) => {
+  app.get("/api/customers", requirePermission("customers:read"), async (req, res) => {
     try {
+      if (req.query.page !== undefined) {
+        const result = customerListSchema.safeParse(req.query);
+        if (!result.success) {
+          return res.status(400).json(formatValidationError(result.error));
+        }
+        return res.json(await storage.getCustomersPage(result.data));
+      }
+
       const customers = await storage.getAllCustomers();
       res.json(customers);
     } catch (error) {
@@ -90,7 +386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/:id", async (req, res) => {
+  app.get("/api/customers/:id", requirePermission("customers:read"), async (req, res) => {
     try {
       const customer = await storage.getCustomer(parseInt(req.params.id));
       if (!customer) {
@@ -102,7 +398,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers", async (req, res) => {
+  // Open items of a customer: sent invoices that are not fully paid, or paid too much
+  app.get("/api/customers/:id/statement", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(parseInt(req.params.id));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const [invoices, payments] = await Promise.all([storage.getAllInvoices(), storage.getAllPayments()]);
+      res.json(getCustomerStatement(customer.id, invoices, payments));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching customer statement" });
+    }
+  });
+
+  app.post("/api/customers", requirePermission("customers:write"), validateBody(insertCustomerSchema), async (req, res) => {
     try {
       const newCustomer = await storage.createCustomer(req.body);
       res.status(201).json(newCustomer);
@@ -111,7 +421,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/customers/:id", async (req, res) => {
+  app.put("/api/customers/:id", requirePermission("customers:write"), validateBody(insertCustomerSchema.partial()), async (req, res) => {
     try {
       const updatedCustomer = await storage.updateCustomer(parseInt(req.params.id), req.body);
       if (!updatedCustomer) {
@@ -123,7 +433,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/customers/:id", async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission("customers:write"), async (req, res) => {
     try {
       const success = await storage.deleteCustomer(parseInt(req.params.id));
       if (!success) {
@@ -135,295 +445,1482 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Work Orders API endpoints
-  app.get("/api/workorders", async (req, res) => {
+  // Users API endpoints
+  app.get("/api/users", async (req, res) => {
     try {
-      const workOrders = await storage.getAllWorkOrders();
-      res.json(workOrders);
+      const users = await storage.getAllUsers();
+      const role = req.query.role as string | undefined;
+      // Deactivated users and account details are only listed for user management
+      const canManage = hasPermission(req.user!.role, "users:manage");
+      const includeInactive = req.query.includeInactive === "true" && canManage;
+      res.json(
+        users
+          .filter(user => !role || user.role === role)
+          .filter(user => includeInactive || user.active)
+          .map(user => canManage ? sanitizeUser(user) : toPlannerUser(user))
+      );
     } catch (error) {
-      res.status(500).json({ message: "Error fetching work orders" });
+      res.status(500).json({ message: "Error fetching users" });
     }
   });
 
-  app.get("/api/workorders/:id", async (req, res) => {
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
-      const workOrder = await storage.getWorkOrder(parseInt(req.params.id));
-      if (!workOrder) {
-        return res.status(404).json({ message: "Work order not found" });
+      const id = parseInt(req.params.id);
+      const result = userAccountSchema
+        .pick({ fullName: true, email: true, phone: true, role: true, active: true })
+        .partial()
+        .safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
       }
-      res.json(workOrder);
+
+      // Prevent beheerders from locking themselves out
+      if (id === req.user!.id && (result.data.active === false || (result.data.role && result.data.role !== req.user!.role))) {
+        return res.status(400).json({ message: "You cannot deactivate or change the role of your own account" });
+      }
+
+      const updatedUser = await storage.updateUser(id, result.data);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(sanitizeUser(updatedUser));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching work order" });
+      res.status(500).json({ message: "Error updating user" });
     }
   });
 
-  app.post("/api/workorders", async (req, res) => {
+  app.post("/api/users/:id/reset-password", requirePermission("users:manage"), async (req, res) => {
     try {
-      console.log('Creating work order, data:', req.body);
-      const workOrder = await storage.createWorkOrder(req.body);
-      console.log('Work order created:', workOrder);
-      res.status(201).json(workOrder);
+      const result = userAccountSchema.pick({ password: true }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
+      }
+
+      const updatedUser = await storage.updateUser(parseInt(req.params.id), {
+        password: await hashPassword(result.data.password),
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.markPasswordResetTokensUsed(updatedUser.id);
+      res.status(204).end();
     } catch (error) {
-      console.error('Error creating work order:', error);
-      res.status(500).json({ message: "Error creating work order" });
+      res.status(500).json({ message: "Error resetting password" });
     }
   });
 
-  app.put("/api/workorders/:id", async (req, res) => {
+  // For users who lost their authenticator app; they have to enrol again on their next login if their role requires it
+  app.post("/api/users/:id/reset-2fa", requirePermission("users:manage"), async (req, res) => {
     try {
-      console.log('Updating work order with id:', req.params.id, 'data:', req.body);
-      const workOrderId = parseInt(req.params.id);
-      
-      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, req.body);
-      
-      if (!updatedWorkOrder) {
-        return res.status(404).json({ message: "Work order not found" });
+      const updatedUser = await storage.updateUserTwoFactor(parseInt(req.params.id), {
+        twoFactorSecret: null,
+        twoFactorEnabled: false,
+        twoFactorBackupCodes: null,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      console.log('Updated work order:', updatedWorkOrder);
-      res.json(updatedWorkOrder);
+      res.json(sanitizeUser(updatedUser));
     } catch (error) {
-      console.error('Error updating work order:', error);
-      res.status(500).json({ message: "Error updating work order" });
+      res.status(500).json({ message: "Error resetting two-factor authentication" });
     }
   });
 
-  app.delete("/api/workorders/:id", async (req, res) => {
+  app.post("/api/users/:id/unlock", requirePermission("users:manage"), async (req, res) => {
     try {
-      const workOrderId = parseInt(req.params.id);
-      
-      const success = await storage.deleteWorkOrder(workOrderId);
-      
-      if (!success) {
-        return res.status(404).json({ message: "Work order not found" });
+      const updatedUser = await storage.updateUserLockout(parseInt(req.params.id), {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.status(204).end();
+      clearThrottle([usernameKey(updatedUser.username)]);
+      res.json(sanitizeUser(updatedUser));
     } catch (error) {
-      console.error('Error deleting work order:', error);
-      res.status(500).json({ message: "Error deleting work order" });
+      res.status(500).json({ message: "Error unlocking user" });
     }
   });
 
-  // Special endpoints voor werkbon status updates
-  app.patch("/api/workorders/:id/status", async (req, res) => {
+  app.get("/api/login-history", requirePermission("users:manage"), async (req, res) => {
     try {
-      console.log('Updating work order status with id:', req.params.id, 'data:', req.body);
-      
-      const { status } = req.body;
-      if (!status) {
-        return res.status(400).json({ message: "Status is required" });
+      const attempts = await storage.getLoginAttempts({
+        userId: req.query.userId ? parseInt(req.query.userId as string) : undefined,
+        success: req.query.success === undefined ? undefined : req.query.success === "true",
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 1000),
+      });
+      res.json(attempts);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching login history" });
+    }
+  });
+
+  // Audit trail of a single record; readable by whoever may read the record itself
+  const AUDIT_READ_PERMISSIONS: Record<string, Permission> = {
+    customer: "customers:read",
+    material: "materials:read",
+    invoice: "invoices:read",
+    quote: "quotes:read",
+    project: "projects:read",
+    instalment: "projects:financial",
+    contract: "contracts:read",
+    leaverequest: "availability:manage",
+    holiday: "availability:manage",
+    user: "users:manage",
+    mailtemplate: "invoices:write",
+  };
+
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const entity = req.query.entity as string;
+      const entityId = parseInt(req.query.id as string);
+      if (!entity || isNaN(entityId)) {
+        return res.status(400).json({ message: "Entity and id are required" });
       }
-      
-      const workOrderId = parseInt(req.params.id);
-      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, { status });
-      
-      if (!updatedWorkOrder) {
-        return res.status(404).json({ message: "Work order not found" });
+
+      const allowed = entity === "workorder"
+        ? await canAccessWorkOrder(req, entityId)
+        : entity in AUDIT_READ_PERMISSIONS && hasPermission(req.user!.role, AUDIT_READ_PERMISSIONS[entity]);
+      if (!allowed) {
+        return res.status(403).json({ message: "Insufficient permissions" });
       }
-      
-      console.log('Updated work order after status update:', updatedWorkOrder);
-      res.json(updatedWorkOrder);
+
+      res.json(await storage.getAuditLogs(entity, entityId));
     } catch (error) {
-      console.error('Error updating work order status:', error);
-      res.status(500).json({ message: "Error updating work order status" });
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({ message: "Error fetching audit log" });
     }
   });
-  
-  // Complete work order with photos
-  app.put("/api/workorders/:id/complete", async (req, res) => {
+
+  // Global search of the command palette; only the types the user may read are searched. Work orders
+  // are always searched, but users without workorders:read-all only find the ones assigned to them.
+  const SEARCH_READ_PERMISSIONS: Partial<Record<SearchType, Permission>> = {
+    customer: "customers:read",
+    invoice: "invoices:read",
+    material: "materials:read",
+  };
+
+  app.get("/api/search", async (req, res) => {
     try {
-      console.log('Completing work order with id:', req.params.id, 'data:', req.body);
-      
-      const { notes, laborHours, photos } = req.body;
-      
-      // Validate input
-      if (laborHours === undefined) {
-        return res.status(400).json({ message: "Labor hours are required" });
+      const result = searchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json(formatValidationError(result.error));
       }
-      
-      const workOrderId = parseInt(req.params.id);
-      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, { 
-        status: "Voltooid",
-        notes,
-        laborHours,
-        photos
+
+      const role = req.user!.role;
+      const types = SEARCH_TYPES.filter(type => {
+        const permission = SEARCH_READ_PERMISSIONS[type];
+        return !permission || hasPermission(role, permission);
+      });
+      const results = await storage.search({
+        q: result.data.q,
+        types,
+        assigneeId: hasPermission(role, "workorders:read-all") ? undefined : req.user!.id,
+        limit: SEARCH_LIMIT_PER_TYPE,
       });
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching:', error);
+      res.status(500).json({ message: "Error searching" });
+    }
+  });
+
+  // Availability API endpoints
+  app.get("/api/availability", async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const to = req.query.to ? new Date(req.query.to as string) : addDays(from, 6);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
       
-      if (!updatedWorkOrder) {
-        return res.status(404).json({ message: "Work order not found" });
+      // Without availability:manage only the own availability can be requested; in the overview of all
+      // monteurs the leave of colleagues is shown without its type and reason
+      const canManage = hasPermission(req.user!.role, "availability:manage");
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      if (userId !== undefined && userId !== req.user!.id && !canManage) {
+        return res.status(403).json({ message: "Insufficient permissions" });
       }
       
-      console.log('Work order completed successfully:', updatedWorkOrder);
-      res.json(updatedWorkOrder);
+      const users = userId !== undefined
+        ? [await storage.getUser(userId)].filter(Boolean)
+        : (await storage.getAllUsers()).filter(user => user.role === "monteur");
+      
+      const availability = await Promise.all(users.map(async user => {
+        const days = await getAvailability(user!.id, from, to);
+        return {
+          userId: user!.id,
+          fullName: user!.fullName,
+          days: canManage || user!.id === req.user!.id ? days : withoutLeaveDetails(days),
+        };
+      }));
+      res.json(availability);
     } catch (error) {
-      console.error('Error completing work order:', error);
-      res.status(500).json({ message: "Error completing work order" });
+      console.error('Error fetching availability:', error);
+      res.status(500).json({ message: "Error fetching availability" });
     }
   });
 
-  // Materials API endpoints
-  app.get("/api/materials", async (req, res) => {
+  app.get("/api/users/:id/working-hours", async (req, res) => {
     try {
-      const materials = await storage.getAllMaterials();
-      res.json(materials);
+      const userId = parseInt(req.params.id);
+      if (userId !== req.user!.id && !hasPermission(req.user!.role, "availability:manage")) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const hours = await storage.getWorkingHours(userId);
+      res.json(hours);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching materials" });
+      res.status(500).json({ message: "Error fetching working hours" });
     }
   });
 
-  app.get("/api/materials/:id", async (req, res) => {
+  app.put("/api/users/:id/working-hours", requirePermission("availability:manage"), validateBody(workingHoursSchema), async (req, res) => {
     try {
-      const material = await storage.getMaterial(parseInt(req.params.id));
-      if (!material) {
-        return res.status(404).json({ message: "Material not found" });
+      const { hours }: z.infer<typeof workingHoursSchema> = req.body;
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(material);
+      
+      const saved = await storage.setWorkingHours(userId, hours.map(h => ({
+        userId,
+        weekday: h.weekday,
+        startTime: h.startTime,
+        endTime: h.endTime,
+      })));
+      res.json(saved);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching material" });
+      console.error('Error updating working hours:', error);
+      res.status(500).json({ message: "Error updating working hours" });
     }
   });
 
-  app.post("/api/materials", async (req, res) => {
+  // Leave requests API endpoints
+  app.get("/api/leave-requests", async (req, res) => {
     try {
-      const newMaterial = await storage.createMaterial(req.body);
-      res.status(201).json(newMaterial);
+      // A monteur only sees their own leave requests
+      const userId = isBeheerder(req)
+        ? (req.query.userId ? parseInt(req.query.userId as string) : undefined)
+        : req.user!.id;
+      const status = req.query.status as string | undefined;
+      
+      const leaveRequests = await storage.getLeaveRequests({ userId, status });
+      res.json(leaveRequests);
     } catch (error) {
-      res.status(500).json({ message: "Error creating material" });
+      res.status(500).json({ message: "Error fetching leave requests" });
     }
   });
 
-  app.put("/api/materials/:id", async (req, res) => {
+  app.post("/api/leave-requests", validateBody(leaveRequestSchema), async (req, res) => {
     try {
-      const updatedMaterial = await storage.updateMaterial(parseInt(req.params.id), req.body);
-      if (!updatedMaterial) {
-        return res.status(404).json({ message: "Material not found" });
+      const { type, startDate, endDate, reason, userId: requestedUserId }: z.infer<typeof leaveRequestSchema> = req.body;
+      
+      // A beheerder may register leave or sick days for someone else; those need no approval
+      const registeredByBeheerder = isBeheerder(req) && requestedUserId !== undefined;
+      const userId = registeredByBeheerder ? requestedUserId! : req.user!.id;
+      const autoApproved = registeredByBeheerder || type === "Ziek";
+      
+      const leaveRequest = await storage.createLeaveRequest({
+        userId,
+        type,
+        startDate,
+        endDate,
+        reason: reason || null,
+        status: autoApproved ? "Goedgekeurd" : "Aangevraagd",
+        reviewedBy: registeredByBeheerder ? req.user!.id : null,
+        reviewedAt: registeredByBeheerder ? new Date() : null,
+      });
+      res.status(201).json(leaveRequest);
+    } catch (error) {
+      console.error('Error creating leave request:', error);
+      res.status(500).json({ message: "Error creating leave request" });
+    }
+  });
+
+  app.patch("/api/leave-requests/:id/status", requirePermission("availability:manage"), validateBody(leaveStatusSchema), async (req, res) => {
+    try {
+      const { status }: z.infer<typeof leaveStatusSchema> = req.body;
+      const leaveRequest = await storage.updateLeaveRequest(parseInt(req.params.id), {
+        status,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+      });
+      if (!leaveRequest) {
+        return res.status(404).json({ message: "Leave request not found" });
       }
-      res.json(updatedMaterial);
+      res.json(leaveRequest);
     } catch (error) {
-      res.status(500).json({ message: "Error updating material" });
+      console.error('Error reviewing leave request:', error);
+      res.status(500).json({ message: "Error reviewing leave request" });
     }
   });
 
-  app.delete("/api/materials/:id", async (req, res) => {
+  app.delete("/api/leave-requests/:id", async (req, res) => {
     try {
-      const success = await storage.deleteMaterial(parseInt(req.params.id));
-      if (!success) {
-        return res.status(404).json({ message: "Material not found" });
+      const leaveRequest = await storage.getLeaveRequest(parseInt(req.params.id));
+      if (!leaveRequest) {
+        return res.status(404).json({ message: "Leave request not found" });
+      }
+      
+      // A monteur can only withdraw their own request while it is still pending
+      const ownPending = leaveRequest.userId === req.user!.id && leaveRequest.status === "Aangevraagd";
+      if (!isBeheerder(req) && !ownPending) {
+        return res.status(403).json({ message: "Not allowed to delete this leave request" });
       }
+      
+      await storage.deleteLeaveRequest(leaveRequest.id);
       res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "Error deleting material" });
+      res.status(500).json({ message: "Error deleting leave request" });
     }
   });
 
-  // Invoices API endpoints
-  app.get("/api/invoices", async (req, res) => {
+  // Holidays API endpoints
+  app.get("/api/holidays", async (req, res) => {
     try {
-      const invoices = await storage.getAllInvoices();
-      res.json(invoices);
+      const holidays = await storage.getAllHolidays();
+      res.json(holidays);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching invoices" });
+      res.status(500).json({ message: "Error fetching holidays" });
     }
   });
 
-  app.get("/api/invoices/:id", async (req, res) => {
+  app.post("/api/holidays", requirePermission("availability:manage"), validateBody(insertHolidaySchema), async (req, res) => {
     try {
-      const invoice = await storage.getInvoice(parseInt(req.params.id));
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
-      }
-      res.json(invoice);
+      const holiday = await storage.createHoliday(req.body);
+      res.status(201).json(holiday);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching invoice" });
+      res.status(500).json({ message: "Error creating holiday" });
     }
   });
 
-  app.post("/api/invoices", async (req, res) => {
+  app.delete("/api/holidays/:id", requirePermission("availability:manage"), async (req, res) => {
     try {
-      const newInvoice = await storage.createInvoice(req.body);
-      res.status(201).json(newInvoice);
+      const success = await storage.deleteHoliday(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+      res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "Error creating invoice" });
+      res.status(500).json({ message: "Error deleting holiday" });
     }
   });
 
-  app.put("/api/invoices/:id", async (req, res) => {
+  // Route planning API endpoints
+  app.get("/api/route", async (req, res) => {
     try {
-      const updatedInvoice = await storage.updateInvoice(parseInt(req.params.id), req.body);
-      if (!updatedInvoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : req.user!.id;
+      const day = req.query.date ? parseISO(req.query.date as string) : new Date();
+      if (isNaN(userId) || !isValid(day)) {
+        return res.status(400).json({ message: "Invalid userId or date" });
+      }
+      if (userId !== req.user!.id && !isBeheerder(req)) {
+        return res.status(403).json({ message: "You can only view your own route" });
       }
-      res.json(updatedInvoice);
+      
+      res.json(await getDayRoute(userId, day));
     } catch (error) {
-      res.status(500).json({ message: "Error updating invoice" });
+      res.status(500).json({ message: "Error fetching route" });
     }
   });
 
-  app.delete("/api/invoices/:id", async (req, res) => {
+  app.post("/api/route/optimise", async (req, res) => {
     try {
-      const success = await storage.deleteInvoice(parseInt(req.params.id));
-      if (!success) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const userId = req.body.userId ? parseInt(req.body.userId) : req.user!.id;
+      const day = req.body.date ? parseISO(req.body.date) : new Date();
+      if (isNaN(userId) || !isValid(day)) {
+        return res.status(400).json({ message: "Invalid userId or date" });
       }
-      res.status(204).end();
+      if (userId !== req.user!.id && !isBeheerder(req)) {
+        return res.status(403).json({ message: "You can only optimise your own route" });
+      }
+      
+      res.json(await optimiseDayRoute(userId, day));
     } catch (error) {
-      res.status(500).json({ message: "Error deleting invoice" });
+      res.status(500).json({ message: "Error optimising route" });
     }
   });
 
-  // Projects API endpoints
-  app.get("/api/projects", async (req, res) => {
+  // Maintenance contracts API endpoints
+  app.get("/api/maintenance-contracts", requirePermission("contracts:read"), async (req, res) => {
     try {
-      const projects = await storage.getAllProjects();
-      res.json(projects);
+      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+      const contracts = await storage.getAllMaintenanceContracts();
+      res.json(contracts
+        .filter(contract => customerId === undefined || contract.customerId === customerId)
+        .map(contract => ({
+          ...contract,
+          nextDate: contract.status === "Actief"
+            ? getNextContractOccurrence(contract, contract.generatedUntil ? new Date(contract.generatedUntil) : null)
+            : null,
+        })));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching projects" });
+      res.status(500).json({ message: "Error fetching maintenance contracts" });
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/maintenance-contracts/:id", requirePermission("contracts:read"), async (req, res) => {
     try {
-      const project = await storage.getProject(parseInt(req.params.id));
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const contract = await storage.getMaintenanceContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: "Maintenance contract not found" });
       }
-      res.json(project);
+      res.json(contract);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching project" });
+      res.status(500).json({ message: "Error fetching maintenance contract" });
     }
   });
 
-  app.post("/api/projects", async (req, res) => {
+  app.get("/api/maintenance-contracts/:id/workorders", requirePermission("contracts:read"), async (req, res) => {
     try {
-      const newProject = await storage.createProject(req.body);
-      res.status(201).json(newProject);
+      const workOrders = await storage.getWorkOrdersByContract(parseInt(req.params.id));
+      res.json(workOrders);
     } catch (error) {
-      res.status(500).json({ message: "Error creating project" });
+      res.status(500).json({ message: "Error fetching work orders" });
     }
   });
 
-  app.put("/api/projects/:id", async (req, res) => {
+  app.post("/api/maintenance-contracts", requirePermission("contracts:write"), validateBody(createMaintenanceContractSchema), async (req, res) => {
     try {
-      const updatedProject = await storage.updateProject(parseInt(req.params.id), req.body);
-      if (!updatedProject) {
-        return res.status(404).json({ message: "Project not found" });
+      const customer = await storage.getCustomer(req.body.customerId);
+      if (!customer) {
+        return res.status(400).json({ message: "Customer not found", errors: { customerId: "Customer not found" } });
       }
-      res.json(updatedProject);
+      
+      const contract = await storage.createMaintenanceContract(req.body);
+      // Plan the first visits right away instead of waiting for the next scheduler run
+      await generateMaintenanceWorkOrders();
+      res.status(201).json(await storage.getMaintenanceContract(contract.id) ?? contract);
     } catch (error) {
-      res.status(500).json({ message: "Error updating project" });
+      res.status(500).json({ message: "Error creating maintenance contract" });
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.put("/api/maintenance-contracts/:id", requirePermission("contracts:write"), validateBody(updateMaintenanceContractSchema), async (req, res) => {
     try {
-      const success = await storage.deleteProject(parseInt(req.params.id));
-      if (!success) {
-        return res.status(404).json({ message: "Project not found" });
+      const updatedContract = await storage.updateMaintenanceContract(parseInt(req.params.id), req.body);
+      if (!updatedContract) {
+        return res.status(404).json({ message: "Maintenance contract not found" });
       }
-      res.status(204).end();
+      res.json(updatedContract);
     } catch (error) {
-      res.status(500).json({ message: "Error deleting project" });
+      res.status(500).json({ message: "Error updating maintenance contract" });
+    }
+  });
+
+  app.delete("/api/maintenance-contracts/:id", requirePermission("contracts:write"), async (req, res) => {
+    try {
+      const success = await storage.deleteMaintenanceContract(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Maintenance contract not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting maintenance contract" });
+    }
+  });
+
+  // Manually run the work order generation (normally done by the scheduler)
+  app.post("/api/maintenance-contracts/generate", requirePermission("contracts:write"), async (req, res) => {
+    try {
+      const workOrders = await generateMaintenanceWorkOrders();
+      res.json(workOrders);
+    } catch (error) {
+      res.status(500).json({ message: "Error generating work orders" });
+    }
+  });
+
+  // Work Orders API endpoints
+  app.get("/api/workorders", async (req, res) => {
+    try {
+      const canReadAll = hasPermission(req.user!.role, "workorders:read-all");
+      // Without permission to see all work orders the list is limited to the user's own
+      const assignee = (req.query.assignee as string | undefined) ?? (canReadAll ? undefined : "me");
+      // "me" resolves to the logged-in user (Mijn werkbonnen)
+      const assigneeId = assignee === undefined ? undefined : assignee === "me" ? req.user!.id : parseInt(assignee);
+      if (assigneeId !== undefined) {
+        if (isNaN(assigneeId)) {
+          return res.status(400).json({ message: "Invalid assignee" });
+        }
+        if (assigneeId !== req.user!.id && !canReadAll) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+      }
+
+      if (req.query.page !== undefined) {
+        const result = workOrderListSchema.safeParse(req.query);
+        if (!result.success) {
+          return res.status(400).json(formatValidationError(result.error));
+        }
+        return res.json(await storage.getWorkOrdersPage({ ...result.data, assigneeId }));
+      }
+
+      if (assigneeId !== undefined) {
+        return res.json(await storage.getWorkOrdersByAssignee(assigneeId));
+      }
+
+      const workOrders = await storage.getAllWorkOrders();
+      res.json(workOrders);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching work orders" });
+    }
+  });
+
+  app.get("/api/workorders/:id", async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(parseInt(req.params.id));
+      if (!workOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (!await canAccessWorkOrder(req, workOrder.id)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      res.json(workOrder);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching work order" });
+    }
+  });
+
+  app.post("/api/workorders", requirePermission("workorders:write"), validateBody(insertWorkOrderSchema), async (req, res) => {
+    try {
+      const fields: InsertWorkOrder = req.body;
+      console.log('Creating work order, data:', fields);
+      const { error, ...schedule } = resolveWorkOrderSchedule(fields);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const workOrder = await storage.createWorkOrder({ ...fields, ...schedule });
+      console.log('Work order created:', workOrder);
+      res.status(201).json(workOrder);
+    } catch (error) {
+      console.error('Error creating work order:', error);
+      res.status(500).json({ message: "Error creating work order" });
+    }
+  });
+
+  app.put("/api/workorders/:id", requirePermission("workorders:write"), validateBody(insertWorkOrderSchema.partial()), async (req, res) => {
+    try {
+      const fields: Partial<InsertWorkOrder> = req.body;
+      console.log('Updating work order with id:', req.params.id, 'data:', fields);
+      const workOrderId = parseInt(req.params.id);
+      
+      const existingWorkOrder = await storage.getWorkOrder(workOrderId);
+      if (!existingWorkOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      
+      const { error, ...schedule } = resolveWorkOrderSchedule(fields, existingWorkOrder);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      // A work order moved to another day is no longer part of the optimised route of its old day
+      const routeUpdate = schedule.date && !isSameDay(schedule.date, new Date(existingWorkOrder.date))
+        ? { routeSequence: null }
+        : {};
+      
+      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, { ...fields, ...schedule, ...routeUpdate });
+      
+      if (!updatedWorkOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      
+      // Dependencies only exist within a project; when the work order moved or its end changed (a new end date
+      // or estimate), successors that would now start too early move along
+      if (updatedWorkOrder.projectId !== existingWorkOrder.projectId) {
+        await storage.deleteAllWorkOrderDependencies(workOrderId);
+      } else if (updatedWorkOrder.projectId && isRescheduled(existingWorkOrder, updatedWorkOrder)) {
+        await shiftDependentWorkOrders(updatedWorkOrder.projectId);
+      }
+      
+      invoiceReachedMilestones(updatedWorkOrder);
+      console.log('Updated work order:', updatedWorkOrder);
+      res.json(updatedWorkOrder);
+    } catch (error) {
+      console.error('Error updating work order:', error);
+      res.status(500).json({ message: "Error updating work order" });
+    }
+  });
+
+  app.delete("/api/workorders/:id", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const workOrderId = parseInt(req.params.id);
+      
+      const success = await storage.deleteWorkOrder(workOrderId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting work order:', error);
+      res.status(500).json({ message: "Error deleting work order" });
+    }
+  });
+
+  // Monteurs toewijzen aan werkbonnen
+  app.get("/api/workorders/:id/assignments", async (req, res) => {
+    try {
+      const workOrderId = parseInt(req.params.id);
+      const workOrder = await storage.getWorkOrder(workOrderId);
+      if (!workOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (!await canAccessWorkOrder(req, workOrderId)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      const assignments = await storage.getWorkOrderAssignments(workOrderId);
+      res.json(assignments);
+    } catch (error) {
+      console.error('Error fetching work order assignments:', error);
+      res.status(500).json({ message: "Error fetching work order assignments" });
+    }
+  });
+
+  app.post("/api/workorders/:id/assignments", requirePermission("workorders:write"), validateBody(assignmentSchema), async (req, res) => {
+    try {
+      const { userId, isLead }: z.infer<typeof assignmentSchema> = req.body;
+      const workOrderId = parseInt(req.params.id);
+      const [workOrder, user] = await Promise.all([
+        storage.getWorkOrder(workOrderId),
+        storage.getUser(userId),
+      ]);
+      if (!workOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const assignment = await storage.assignWorkOrder(workOrderId, user.id, Boolean(isLead));
+      
+      // Assigning is allowed, but the planner is warned when the monteur is unavailable
+      const { start, end } = getWorkOrderInterval(workOrder);
+      const warnings = await checkAvailability(user.id, start, end);
+      res.status(201).json({ ...assignment, warnings });
+    } catch (error) {
+      console.error('Error assigning work order:', error);
+      res.status(500).json({ message: "Error assigning work order" });
+    }
+  });
+
+  app.delete("/api/workorders/:id/assignments/:userId", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const success = await storage.unassignWorkOrder(
+        parseInt(req.params.id),
+        parseInt(req.params.userId)
+      );
+      if (!success) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error unassigning work order:', error);
+      res.status(500).json({ message: "Error unassigning work order" });
+    }
+  });
+
+  // Special endpoints voor werkbon status updates
+  app.patch("/api/workorders/:id/status", requirePermission("workorders:complete"), validateBody(workOrderStatusSchema), async (req, res) => {
+    try {
+      console.log('Updating work order status with id:', req.params.id, 'data:', req.body);
+      
+      const { status }: z.infer<typeof workOrderStatusSchema> = req.body;
+      const workOrderId = parseInt(req.params.id);
+      if (!await canAccessWorkOrder(req, workOrderId)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, { status });
+      
+      if (!updatedWorkOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      
+      invoiceReachedMilestones(updatedWorkOrder);
+      console.log('Updated work order after status update:', updatedWorkOrder);
+      res.json(updatedWorkOrder);
+    } catch (error) {
+      console.error('Error updating work order status:', error);
+      res.status(500).json({ message: "Error updating work order status" });
+    }
+  });
+  
+  // Complete work order with photos
+  app.put("/api/workorders/:id/complete", requirePermission("workorders:complete"), validateBody(completeWorkOrderSchema), async (req, res) => {
+    try {
+      console.log('Completing work order with id:', req.params.id, 'data:', req.body);
+      
+      const { notes, laborHours, photos }: z.infer<typeof completeWorkOrderSchema> = req.body;
+      const workOrderId = parseInt(req.params.id);
+      if (!await canAccessWorkOrder(req, workOrderId)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      const updatedWorkOrder = await storage.updateWorkOrder(workOrderId, { 
+        status: "Voltooid",
+        notes,
+        laborHours,
+        photos
+      });
+      
+      if (!updatedWorkOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      
+      invoiceReachedMilestones(updatedWorkOrder);
+      console.log('Work order completed successfully:', updatedWorkOrder);
+      res.json(updatedWorkOrder);
+    } catch (error) {
+      console.error('Error completing work order:', error);
+      res.status(500).json({ message: "Error completing work order" });
+    }
+  });
+
+  // Materials API endpoints
+  app.get("/api/materials", requirePermission("materials:read"), async (req, res) => {
+    try {
+      if (req.query.page !== undefined) {
+        const result = materialListSchema.safeParse(req.query);
+        if (!result.success) {
+          return res.status(400).json(formatValidationError(result.error));
+        }
+        return res.json(await storage.getMaterialsPage(result.data));
+      }
+
+      const materials = await storage.getAllMaterials();
+      res.json(materials);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching materials" });
+    }
+  });
+
+  // Distinct suppliers of all materials, for the supplier filter of the paged material list
+  app.get("/api/materials/suppliers", requirePermission("materials:read"), async (req, res) => {
+    try {
+      res.json(await storage.getMaterialSuppliers());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching suppliers" });
+    }
+  });
+
+  app.get("/api/materials/:id", requirePermission("materials:read"), async (req, res) => {
+    try {
+      const material = await storage.getMaterial(parseInt(req.params.id));
+      if (!material) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+      res.json(material);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching material" });
+    }
+  });
+
+  app.post("/api/materials", requirePermission("materials:write"), validateBody(insertMaterialSchema), async (req, res) => {
+    try {
+      const newMaterial = await storage.createMaterial(req.body);
+      res.status(201).json(newMaterial);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating material" });
+    }
+  });
+
+  app.put("/api/materials/:id", requirePermission("materials:write"), validateBody(insertMaterialSchema.partial()), async (req, res) => {
+    try {
+      const updatedMaterial = await storage.updateMaterial(parseInt(req.params.id), req.body);
+      if (!updatedMaterial) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+      res.json(updatedMaterial);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating material" });
+    }
+  });
+
+  app.delete("/api/materials/:id", requirePermission("materials:write"), async (req, res) => {
+    try {
+      const success = await storage.deleteMaterial(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting material" });
+    }
+  });
+
+  // Invoices API endpoints
+  app.get("/api/invoices", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      if (req.query.page !== undefined) {
+        const result = invoiceListSchema.safeParse(req.query);
+        if (!result.success) {
+          return res.status(400).json(formatValidationError(result.error));
+        }
+        return res.json(await storage.getInvoicesPage(result.data));
+      }
+
+      const invoices = await storage.getAllInvoices();
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invoices" });
+    }
+  });
+
+  // All invoices of a month as PDFs in one ZIP, e.g. for the bookkeeping; concepts are left out
+  app.get("/api/invoices/export", requirePermission("invoices:read"), async (req, res) => {
+    const result = invoiceExportSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json(formatValidationError(result.error));
+    }
+
+    try {
+      const start = parseISO(`${result.data.month}-01`);
+      const end = addMonths(start, 1);
+      const invoices = (await storage.getAllInvoices()).filter(invoice =>
+        invoice.status !== "Concept" && new Date(invoice.date) >= start && new Date(invoice.date) < end);
+      if (invoices.length === 0) {
+        return res.status(404).json({ message: "No invoices in this month" });
+      }
+
+      const [customers, template] = await Promise.all([storage.getAllCustomers(), loadInvoiceTemplate()]);
+      const pdfs = await Promise.all(invoices.map(invoice =>
+        renderInvoicePdf(invoice, customers.find(customer => customer.id === invoice.customerId), template)));
+
+      res.attachment(`Facturen-${result.data.month}.zip`);
+      const archive = new ZipArchive();
+      archive.on("error", (error: Error) => {
+        console.error('Error exporting invoices:', error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+      pdfs.forEach((pdf, index) => archive.append(pdf, { name: getInvoicePdfFileName(invoices[index]) }));
+      await archive.finalize();
+    } catch (error) {
+      console.error('Error exporting invoices:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Error exporting invoices" });
+      }
+    }
+  });
+
+  app.get("/api/invoices/:id", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invoice" });
+    }
+  });
+
+  app.get("/api/invoices/:id/pdf", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const [customer, template] = await Promise.all([storage.getCustomer(invoice.customerId), loadInvoiceTemplate()]);
+      const pdf = await renderInvoicePdf(invoice, customer, template);
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${getInvoicePdfFileName(invoice)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error rendering invoice PDF:', error);
+      res.status(500).json({ message: "Error rendering invoice PDF" });
+    }
+  });
+
+  // The e-mail as it would be sent, so it can be checked before sending
+  app.get("/api/invoices/:id/mail-preview", requirePermission("invoices:read"), async (req, res) => {
+    const result = invoiceMailSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json(formatValidationError(result.error));
+    }
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const customer = await storage.getCustomer(invoice.customerId);
+      res.json(await renderInvoiceMail(invoice, customer, result.data.type));
+    } catch (error) {
+      console.error('Error rendering invoice mail:', error);
+      res.status(500).json({ message: "Error rendering invoice mail" });
+    }
+  });
+
+  app.get("/api/invoices/:id/mails", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      res.json(await storage.getInvoiceMails(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invoice mails" });
+    }
+  });
+
+  app.post("/api/invoices/:id/send", requirePermission("invoices:write"), validateBody(sendInvoiceSchema), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const { type, recipient }: z.infer<typeof sendInvoiceSchema> = req.body;
+      const customer = await storage.getCustomer(invoice.customerId);
+      const to = recipient ?? customer?.email;
+      if (!to) {
+        return res.status(400).json({ message: "Customer has no e-mail address" });
+      }
+      const sent = await sendInvoiceMail(invoice, customer, to, type);
+      res.status(201).json(sent);
+    } catch (error) {
+      console.error('Error sending invoice:', error);
+      res.status(500).json({ message: "Error sending invoice" });
+    }
+  });
+
+  // Dunning steps of an invoice, in order
+  app.get("/api/invoices/:id/reminders", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      res.json(await storage.getInvoiceReminders(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invoice reminders" });
+    }
+  });
+
+  app.get("/api/invoices/:id/reminders/:reminderId/pdf", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      const reminder = invoice && (await storage.getInvoiceReminders(invoice.id))
+        .find(r => r.id === parseInt(req.params.reminderId));
+      if (!invoice || !reminder) {
+        return res.status(404).json({ message: "Invoice reminder not found" });
+      }
+      const customer = await storage.getCustomer(invoice.customerId);
+      const pdf = await renderReminderLetter(invoice, customer, reminder);
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${getReminderLetterFileName(invoice, reminder)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error rendering reminder letter:', error);
+      res.status(500).json({ message: "Error rendering reminder letter" });
+    }
+  });
+
+  app.get("/api/invoices/:id/payments", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      res.json(await storage.getPayments(parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching payments" });
+    }
+  });
+
+  // Registers a (partial) payment; the status of the invoice follows from its open balance
+  app.post("/api/invoices/:id/payments", requirePermission("invoices:write"), validateBody(paymentFields), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const fields: z.infer<typeof paymentFields> = req.body;
+      const payment = await storage.createPayment({ ...fields, invoiceId: invoice.id });
+      res.status(201).json({ payment, invoice: await syncPaymentStatus(invoice) });
+    } catch (error) {
+      res.status(500).json({ message: "Error registering payment" });
+    }
+  });
+
+  app.delete("/api/invoices/:id/payments/:paymentId", requirePermission("invoices:write"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      const payment = await storage.getPayment(parseInt(req.params.paymentId));
+      if (!invoice || !payment || payment.invoiceId !== invoice.id) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      await storage.deletePayment(payment.id);
+      res.json(await syncPaymentStatus(invoice));
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting payment" });
+    }
+  });
+
+  // Manually mark overdue invoices and send the reminders that are due (normally done by the scheduler)
+  app.post("/api/invoices/dunning", requirePermission("invoices:write"), async (req, res) => {
+    try {
+      res.json(await runDunning());
+    } catch (error) {
+      res.status(500).json({ message: "Error running dunning" });
+    }
+  });
+
+  app.post("/api/invoices", requirePermission("invoices:write"), validateBody(invoiceFields), async (req, res) => {
+    try {
+      const invoice: z.infer<typeof invoiceFields> = req.body;
+      const reverseChargeError = await getReverseChargeError(invoice.customerId, invoice.items);
+      if (reverseChargeError) {
+        return res.status(400).json({ message: reverseChargeError });
+      }
+      const newInvoice = await storage.createInvoice({ ...invoice, amount: getInvoiceTotals(invoice.items).total });
+      res.status(201).json(newInvoice);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating invoice" });
+    }
+  });
+
+  app.put("/api/invoices/:id", requirePermission("invoices:write"), validateBody(updateInvoiceSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getInvoice(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const invoice: z.infer<typeof updateInvoiceSchema> = req.body;
+      const reverseChargeError = await getReverseChargeError(
+        invoice.customerId ?? existing.customerId,
+        invoice.items ?? getInvoiceLines(existing.items),
+      );
+      if (reverseChargeError) {
+        return res.status(400).json({ message: reverseChargeError });
+      }
+      const updatedInvoice = await storage.updateInvoice(id, {
+        ...invoice,
+        ...(invoice.items ? { amount: getInvoiceTotals(invoice.items).total } : {}),
+      });
+      if (!updatedInvoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      // A changed amount can make a paid invoice open again, or the other way around
+      const payments = invoice.items ? await storage.getPayments(id) : [];
+      res.json(payments.length > 0 ? await syncPaymentStatus(updatedInvoice) : updatedInvoice);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating invoice" });
+    }
+  });
+
+  app.delete("/api/invoices/:id", requirePermission("invoices:write"), async (req, res) => {
+    try {
+      const success = await storage.deleteInvoice(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting invoice" });
+    }
+  });
+
+  // Mail templates API endpoints
+  app.get("/api/mail-templates", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      res.json(await getMailTemplates());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching mail templates" });
+    }
+  });
+
+  app.put("/api/mail-templates/:key", requirePermission("invoices:write"), validateBody(mailTemplateFields), async (req, res) => {
+    const key = req.params.key as MailTemplateKey;
+    if (!MAIL_TEMPLATE_KEYS.includes(key)) {
+      return res.status(404).json({ message: "Mail template not found" });
+    }
+    try {
+      const template: z.infer<typeof mailTemplateFields> = req.body;
+      res.json(await storage.upsertMailTemplate({ ...template, key }));
+    } catch (error) {
+      res.status(500).json({ message: "Error saving mail template" });
+    }
+  });
+
+  // Quotes API endpoints
+  app.get("/api/quotes", requirePermission("quotes:read"), async (req, res) => {
+    try {
+      res.json(await storage.getAllQuotes());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching quotes" });
+    }
+  });
+
+  app.get("/api/quotes/:id", requirePermission("quotes:read"), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching quote" });
+    }
+  });
+
+  app.post("/api/quotes", requirePermission("quotes:write"), validateBody(createQuoteSchema), async (req, res) => {
+    try {
+      const quote: z.infer<typeof createQuoteSchema> = req.body;
+      const newQuote = await storage.createQuote({ ...quote, amount: getQuoteTotal(quote.items) });
+      res.status(201).json(newQuote);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating quote" });
+    }
+  });
+
+  // A converted quote is the basis of a work order or project and its invoice, so it no longer changes
+  app.put("/api/quotes/:id", requirePermission("quotes:write"), validateBody(updateQuoteSchema), async (req, res) => {
+    try {
+      const existingQuote = await storage.getQuote(parseInt(req.params.id));
+      if (!existingQuote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (existingQuote.invoiceId !== null) {
+        return res.status(400).json({ message: "A converted quote cannot be changed" });
+      }
+      const quote: z.infer<typeof updateQuoteSchema> = req.body;
+      const updatedQuote = await storage.updateQuote(existingQuote.id, {
+        ...quote,
+        ...(quote.items ? { amount: getQuoteTotal(quote.items) } : {}),
+      });
+      res.json(updatedQuote);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating quote" });
+    }
+  });
+
+  app.delete("/api/quotes/:id", requirePermission("quotes:write"), async (req, res) => {
+    try {
+      const success = await storage.deleteQuote(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting quote" });
+    }
+  });
+
+  // Turn an accepted quote into a work order or project plus a concept invoice, in one go
+  app.post("/api/quotes/:id/convert", requirePermission("quotes:write"), validateBody(convertQuoteSchema), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (quote.status !== "Geaccepteerd") {
+        return res.status(400).json({ message: "Only accepted quotes can be converted" });
+      }
+      if (quote.invoiceId !== null) {
+        return res.status(400).json({ message: "Quote has already been converted" });
+      }
+      const { target, date }: z.infer<typeof convertQuoteSchema> = req.body;
+      res.status(201).json(await convertQuote(quote, target, date ?? new Date()));
+    } catch (error) {
+      console.error('Error converting quote:', error);
+      res.status(500).json({ message: "Error converting quote" });
+    }
+  });
+
+  // Projects API endpoints; the progress of a project is derived from its work orders
+  app.get("/api/projects", requirePermission("projects:read"), async (req, res) => {
+    try {
+      const [projects, workOrderStatuses] = await Promise.all([
+        storage.getAllProjects(),
+        storage.getProjectWorkOrderStatuses(),
+      ]);
+      const projectsWithProgress: ProjectWithProgress[] = projects.map(project => ({
+        ...project,
+        ...getProjectProgress(workOrderStatuses.filter(workOrder => workOrder.projectId === project.id)),
+      }));
+      res.json(canViewProjectFinancials(req) ? projectsWithProgress : projectsWithProgress.map(withoutFinancials));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching projects" });
+    }
+  });
+
+  // Budget versus actual costs, invoiced amount and margin of every project
+  app.get("/api/projects/financials", requirePermission("projects:financial"), async (req, res) => {
+    try {
+      res.json(await getFinancials(await storage.getAllProjects()));
+    } catch (error) {
+      console.error('Error fetching project financials:', error);
+      res.status(500).json({ message: "Error fetching project financials" });
+    }
+  });
+
+  app.get("/api/projects/:id", requirePermission("projects:read"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const workOrders = await storage.getWorkOrdersByProject(project.id);
+      const projectWithProgress: ProjectWithProgress = { ...project, ...getProjectProgress(workOrders) };
+      res.json(canViewProjectFinancials(req) ? projectWithProgress : withoutFinancials(projectWithProgress));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching project" });
+    }
+  });
+
+  app.get("/api/projects/:id/financials", requirePermission("projects:financial"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const [financials] = await getFinancials([project]);
+      res.json(financials);
+    } catch (error) {
+      console.error('Error fetching project financials:', error);
+      res.status(500).json({ message: "Error fetching project financials" });
+    }
+  });
+
+  // Work orders of a project; users that may not see all work orders only get the ones assigned to them
+  app.get("/api/projects/:id/workorders", requirePermission("projects:read"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const workOrders = await storage.getWorkOrdersByProject(project.id);
+      if (hasPermission(req.user!.role, "workorders:read-all")) {
+        return res.json(workOrders);
+      }
+      const assigned = new Set((await storage.getWorkOrdersByAssignee(req.user!.id)).map(workOrder => workOrder.id));
+      res.json(workOrders.filter(workOrder => assigned.has(workOrder.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching project work orders" });
+    }
+  });
+
+  app.post("/api/projects", requirePermission("projects:write"), validateBody(createProjectSchema), async (req, res) => {
+    try {
+      const newProject = await storage.createProject(req.body);
+      res.status(201).json(newProject);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating project" });
+    }
+  });
+
+  app.put("/api/projects/:id", requirePermission("projects:write"), validateBody(updateProjectSchema), async (req, res) => {
+    try {
+      const updatedProject = await storage.updateProject(parseInt(req.params.id), req.body);
+      if (!updatedProject) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(updatedProject);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating project" });
+    }
+  });
+
+  app.delete("/api/projects/:id", requirePermission("projects:write"), async (req, res) => {
+    try {
+      const success = await storage.deleteProject(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting project" });
+    }
+  });
+
+  // Link a work order to a project; a work order is part of at most one project, so it moves from its previous one
+  app.put("/api/projects/:id/workorders/:workOrderId", requirePermission("projects:write"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const existingWorkOrder = await storage.getWorkOrder(parseInt(req.params.workOrderId));
+      if (!existingWorkOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (existingWorkOrder.projectId !== project.id) {
+        await storage.deleteAllWorkOrderDependencies(existingWorkOrder.id);
+      }
+      const workOrder = await storage.updateWorkOrder(existingWorkOrder.id, { projectId: project.id });
+      res.json(workOrder);
+    } catch (error) {
+      res.status(500).json({ message: "Error linking work order" });
+    }
+  });
+
+  app.delete("/api/projects/:id/workorders/:workOrderId", requirePermission("projects:write"), async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(parseInt(req.params.workOrderId));
+      if (!workOrder || workOrder.projectId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Work order not found in project" });
+      }
+      await storage.deleteAllWorkOrderDependencies(workOrder.id);
+      await storage.updateWorkOrder(workOrder.id, { projectId: null });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error unlinking work order" });
+    }
+  });
+
+  // Instalment schedule (termijnen) of a project with the amount of every term
+  app.get("/api/projects/:id/instalments", requirePermission("projects:financial"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(getInstalmentAmounts(project.price, await storage.getProjectInstalments(project.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching project instalments" });
+    }
+  });
+
+  // Replaces the terms that are not invoiced yet; together with the invoiced terms they must add up to 100%
+  // of the quoted price. Terms that are already due are invoiced right away.
+  app.put("/api/projects/:id/instalments", requirePermission("projects:financial"), validateBody(instalmentScheduleSchema), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { instalments }: z.infer<typeof instalmentScheduleSchema> = req.body;
+      if (project.price == null && instalments.length > 0) {
+        return res.status(400).json({ message: "Project has no quoted price" });
+      }
+
+      const existing = await storage.getProjectInstalments(project.id);
+      const invoiced = existing.filter(instalment => instalment.invoiceId !== null);
+      const open = existing.filter(instalment => instalment.invoiceId === null);
+      if (instalments.some(instalment => instalment.id !== undefined && !open.some(o => o.id === instalment.id))) {
+        return res.status(400).json({ message: "Invoiced instalments cannot be changed" });
+      }
+
+      const workOrderIds = new Set((await storage.getWorkOrdersByProject(project.id)).map(workOrder => workOrder.id));
+      if (instalments.some(instalment => instalment.milestoneWorkOrderId && !workOrderIds.has(instalment.milestoneWorkOrderId))) {
+        return res.status(400).json({ message: "A milestone must be a work order of the project" });
+      }
+
+      const percentages = [...invoiced, ...instalments].map(instalment => instalment.percentage);
+      if (percentages.length > 0 && !isCompleteSchedule(percentages)) {
+        return res.status(400).json({ message: "The instalments must add up to 100% of the quoted price" });
+      }
+
+      const keptIds = new Set(instalments.map(instalment => instalment.id));
+      for (const instalment of open.filter(o => !keptIds.has(o.id))) {
+        await storage.deleteProjectInstalment(instalment.id);
+      }
+      const firstSequence = Math.max(0, ...invoiced.map(instalment => instalment.sequence)) + 1;
+      for (let index = 0; index < instalments.length; index++) {
+        const { id, ...instalment } = instalments[index];
+        const values = {
+          ...instalment,
+          dueDate: instalment.dueDate ?? null,
+          milestoneWorkOrderId: instalment.milestoneWorkOrderId ?? null,
+          sequence: firstSequence + index,
+        };
+        if (id !== undefined) {
+          await storage.updateProjectInstalment(id, values);
+        } else {
+          await storage.createProjectInstalment({ ...values, projectId: project.id });
+        }
+      }
+
+      await generateDueInstalmentInvoices(project.id);
+      res.json(getInstalmentAmounts(project.price, await storage.getProjectInstalments(project.id)));
+    } catch (error) {
+      console.error('Error saving project instalments:', error);
+      res.status(500).json({ message: "Error saving project instalments" });
+    }
+  });
+
+  // Invoice a term now, e.g. when the customer asks for the invoice before the date
+  app.post("/api/projects/:id/instalments/:instalmentId/invoice", requirePermission("invoices:write"), async (req, res) => {
+    try {
+      const instalment = await storage.getProjectInstalment(parseInt(req.params.instalmentId));
+      if (!instalment || instalment.projectId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Instalment not found in project" });
+      }
+      if (instalment.invoiceId !== null) {
+        return res.status(400).json({ message: "Instalment has already been invoiced" });
+      }
+      const project = await storage.getProject(instalment.projectId);
+      if (project?.price == null) {
+        return res.status(400).json({ message: "Project has no quoted price" });
+      }
+      res.status(201).json(await invoiceInstalment(instalment));
+    } catch (error) {
+      console.error('Error invoicing project instalment:', error);
+      res.status(500).json({ message: "Error invoicing project instalment" });
+    }
+  });
+
+  // Gantt planning of a project; users that may not see all work orders only get the ones assigned to them,
+  // the critical path is still determined over the whole project
+  app.get("/api/projects/:id/gantt", requirePermission("projects:read"), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const projectGantt = await getProjectGantt(project);
+      const gantt = canViewProjectFinancials(req)
+        ? projectGantt
+        : { ...projectGantt, project: withoutFinancials(projectGantt.project) };
+      if (hasPermission(req.user!.role, "workorders:read-all")) {
+        return res.json(gantt);
+      }
+      const assigned = new Set((await storage.getWorkOrdersByAssignee(req.user!.id)).map(workOrder => workOrder.id));
+      res.json({
+        ...gantt,
+        tasks: gantt.tasks.filter(task => assigned.has(task.id)),
+        dependencies: gantt.dependencies.filter(dependency =>
+          assigned.has(dependency.workOrderId) && assigned.has(dependency.dependsOnId)),
+      });
+    } catch (error) {
+      console.error('Error fetching project gantt:', error);
+      res.status(500).json({ message: "Error fetching project planning" });
+    }
+  });
+
+  // Finish-to-start dependency: the work order can only start once the work order it depends on is finished.
+  // Both work orders must be part of the same project; the work order is moved if it starts too early.
+  app.post("/api/projects/:id/dependencies", requirePermission("projects:write"), validateBody(dependencySchema), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const { workOrderId, dependsOnId }: z.infer<typeof dependencySchema> = req.body;
+      const workOrders = await storage.getWorkOrdersByProject(projectId);
+      if (![workOrderId, dependsOnId].every(id => workOrders.some(workOrder => workOrder.id === id))) {
+        return res.status(400).json({ message: "Both work orders must be part of the project" });
+      }
+
+      const dependencies = await storage.getWorkOrderDependencies(workOrders.map(workOrder => workOrder.id));
+      if (createsCycle(dependencies, workOrderId, dependsOnId)) {
+        return res.status(400).json({ message: "This dependency would create a cycle" });
+      }
+
+      const dependency = await storage.createWorkOrderDependency({ workOrderId, dependsOnId });
+      await shiftDependentWorkOrders(projectId);
+      res.status(201).json(dependency);
+    } catch (error) {
+      console.error('Error creating work order dependency:', error);
+      res.status(500).json({ message: "Error creating dependency" });
+    }
+  });
+
+  app.delete("/api/projects/:id/dependencies/:workOrderId/:dependsOnId", requirePermission("projects:write"), async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(parseInt(req.params.workOrderId));
+      if (!workOrder || workOrder.projectId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Work order not found in project" });
+      }
+      const success = await storage.deleteWorkOrderDependency(workOrder.id, parseInt(req.params.dependsOnId));
+      if (!success) {
+        return res.status(404).json({ message: "Dependency not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting dependency" });
     }
   });
 
@@ -1,15 +1,26 @@
 import { 
-  users, customers, materials, workOrders, invoices, projects,
-  type User, type InsertUser, type Customer, type InsertCustomer, 
-  type Material, type InsertMaterial, type WorkOrder, type InsertWorkOrder, 
-  type Invoice, type InsertInvoice, type Project, type InsertProject 
+  users, loginAttempts, auditLogs, passwordResetTokens, customers, materials, maintenanceContracts, workOrders, workOrderAssignments, workOrderDependencies, workingHours, leaveRequests, holidays,
+  invoices, projects, projectInstalments, quotes, mailTemplates, invoiceMails, invoiceReminders, payments,
+  type User, type InsertUser, type TwoFactorSettings, type LoginLockout, type LoginAttempt, type InsertLoginAttempt, type AuditLog, type InsertAuditLog, type PasswordResetToken, type InsertPasswordResetToken, type Customer, type InsertCustomer, 
+  type Material, type InsertMaterial, type MaintenanceContract, type InsertMaintenanceContract, type WorkOrder, type InsertWorkOrder, 
+  type WorkOrderAssignment, type WorkOrderDependency, type InsertWorkOrderDependency, type WorkingHours, type InsertWorkingHours, 
+  type LeaveRequest, type InsertLeaveRequest, type Holiday, type InsertHoliday, 
+  type Invoice, type InsertInvoice, type Project, type InsertProject, type ProjectInstalment, type InsertProjectInstalment, type Quote, type InsertQuote, 
+  type MailTemplate, type InsertMailTemplate, type InvoiceMail, type InsertInvoiceMail, type InvoiceReminder, type InsertInvoiceReminder, 
+  type Payment, type InsertPayment 
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, desc, and, or } from "drizzle-orm";
-import { hashPassword } from "./auth";
+import { eq, asc, desc, and, or, sql, isNull, isNotNull, ne, ilike, gte, lt, lte, inArray, type AnyColumn, type SQL } from "drizzle-orm";
+import { withAuditTrail } from "./audit";
+import {
+  paginate, parseSort, WORK_ORDER_SORT_FIELDS, CUSTOMER_SORT_FIELDS, MATERIAL_SORT_FIELDS, INVOICE_SORT_FIELDS,
+  type Page, type ListQuery, type WorkOrderListQuery, type CustomerListQuery, type MaterialListQuery, type InvoiceListQuery,
+} from "@shared/pagination";
+import type { SearchQuery, SearchResult, SearchType } from "@shared/search";
+import type { ProjectWorkOrderCosts, ProjectWorkOrderStatus } from "@shared/projects";
 
 const MemoryStore = createMemoryStore(session);
 const PgSessionStore = connectPg(session);
@@ -19,10 +30,35 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  updateUserTwoFactor(id: number, settings: TwoFactorSettings): Promise<User | undefined>;
+  updateUserLockout(id: number, lockout: LoginLockout): Promise<User | undefined>;
+  // Counts a failed login in a single update, so concurrent attempts are all counted; returns the new count
+  incrementFailedLoginAttempts(id: number): Promise<number | undefined>;
+  // Records the time step of an accepted TOTP code; false when that step or a later one was already used
+  consumeTwoFactorStep(id: number, step: number): Promise<boolean>;
+  // Removes a (hashed) backup code; false when the user does not have it (anymore)
+  consumeTwoFactorBackupCode(id: number, codeHash: string): Promise<boolean>;
+  
+  // Login history methods
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginAttempts(filter?: { userId?: number; success?: boolean; limit?: number }): Promise<LoginAttempt[]>;
+  
+  // Audit trail methods
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(entity: string, entityId: number): Promise<AuditLog[]>;
+  
+  // Password reset token methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokensUsed(userId: number): Promise<void>;
   
   // Customer methods
   getAllCustomers(): Promise<Customer[]>;
+  getCustomersPage(query: CustomerListQuery): Promise<Page<Customer>>;
   getCustomer(id: number): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
@@ -30,6 +66,8 @@ export interface IStorage {
   
   // Material methods
   getAllMaterials(): Promise<Material[]>;
+  getMaterialsPage(query: MaterialListQuery): Promise<Page<Material>>;
+  getMaterialSuppliers(): Promise<string[]>;
   getMaterial(id: number): Promise<Material | undefined>;
   createMaterial(material: InsertMaterial): Promise<Material>;
   updateMaterial(id: number, material: Partial<InsertMaterial>): Promise<Material | undefined>;
@@ -37,18 +75,63 @@ export interface IStorage {
   
   // Work Order methods
   getAllWorkOrders(): Promise<WorkOrder[]>;
+  getWorkOrdersPage(query: WorkOrderListQuery): Promise<Page<WorkOrder>>;
   getWorkOrder(id: number): Promise<WorkOrder | undefined>;
   createWorkOrder(workOrder: InsertWorkOrder): Promise<WorkOrder>;
   updateWorkOrder(id: number, workOrder: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined>;
   deleteWorkOrder(id: number): Promise<boolean>;
+  getWorkOrdersByContract(contractId: number): Promise<WorkOrder[]>;
+  getWorkOrdersByProject(projectId: number): Promise<WorkOrder[]>;
+  getProjectWorkOrderStatuses(): Promise<ProjectWorkOrderStatus[]>;
+  getProjectWorkOrderCosts(): Promise<ProjectWorkOrderCosts[]>;
+  
+  // Work Order assignment methods
+  getWorkOrdersByAssignee(userId: number): Promise<WorkOrder[]>;
+  getWorkOrderAssignments(workOrderId: number): Promise<WorkOrderAssignment[]>;
+  assignWorkOrder(workOrderId: number, userId: number, isLead?: boolean): Promise<WorkOrderAssignment>;
+  unassignWorkOrder(workOrderId: number, userId: number): Promise<boolean>;
+  
+  // Work order dependency methods (finish-to-start, within a project)
+  getWorkOrderDependencies(workOrderIds: number[]): Promise<WorkOrderDependency[]>;
+  createWorkOrderDependency(dependency: InsertWorkOrderDependency): Promise<WorkOrderDependency>;
+  deleteWorkOrderDependency(workOrderId: number, dependsOnId: number): Promise<boolean>;
+  deleteAllWorkOrderDependencies(workOrderId: number): Promise<void>;
+  
+  // Availability methods
+  getWorkingHours(userId: number): Promise<WorkingHours[]>;
+  setWorkingHours(userId: number, hours: InsertWorkingHours[]): Promise<WorkingHours[]>;
+  getLeaveRequests(filter?: { userId?: number; status?: string }): Promise<LeaveRequest[]>;
+  getLeaveRequest(id: number): Promise<LeaveRequest | undefined>;
+  createLeaveRequest(leaveRequest: InsertLeaveRequest): Promise<LeaveRequest>;
+  updateLeaveRequest(id: number, leaveRequest: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined>;
+  deleteLeaveRequest(id: number): Promise<boolean>;
+  getAllHolidays(): Promise<Holiday[]>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  deleteHoliday(id: number): Promise<boolean>;
+  
+  // Maintenance contract methods
+  getAllMaintenanceContracts(): Promise<MaintenanceContract[]>;
+  getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined>;
+  createMaintenanceContract(contract: InsertMaintenanceContract): Promise<MaintenanceContract>;
+  updateMaintenanceContract(id: number, contract: Partial<InsertMaintenanceContract>): Promise<MaintenanceContract | undefined>;
+  deleteMaintenanceContract(id: number): Promise<boolean>;
   
   // Invoice methods
   getAllInvoices(): Promise<Invoice[]>;
+  getInvoicesPage(query: InvoiceListQuery): Promise<Page<Invoice>>;
   getInvoice(id: number): Promise<Invoice | undefined>;
+  getProjectInvoices(projectIds: number[], workOrderIds: number[]): Promise<Invoice[]>; // Invoices of the projects or of their work orders
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
   deleteInvoice(id: number): Promise<boolean>;
   
+  // Quote methods
+  getAllQuotes(): Promise<Quote[]>;
+  getQuote(id: number): Promise<Quote | undefined>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+  deleteQuote(id: number): Promise<boolean>;
+  
   // Project methods
   getAllProjects(): Promise<Project[]>;
   getProject(id: number): Promise<Project | undefined>;
@@ -56,61 +139,187 @@ export interface IStorage {
   updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
   
+  // Project instalment methods
+  getProjectInstalments(projectId: number): Promise<ProjectInstalment[]>;
+  getOpenProjectInstalments(): Promise<ProjectInstalment[]>;
+  getProjectInstalment(id: number): Promise<ProjectInstalment | undefined>;
+  createProjectInstalment(instalment: InsertProjectInstalment): Promise<ProjectInstalment>;
+  updateProjectInstalment(id: number, instalment: Partial<InsertProjectInstalment>): Promise<ProjectInstalment | undefined>;
+  deleteProjectInstalment(id: number): Promise<boolean>;
+  
+  // Mail template methods; only templates that were edited are stored
+  getMailTemplates(): Promise<MailTemplate[]>;
+  upsertMailTemplate(template: InsertMailTemplate): Promise<MailTemplate>;
+  
+  // Invoice mail methods
+  getInvoiceMails(invoiceId: number): Promise<InvoiceMail[]>; // Newest first
+  createInvoiceMail(mail: InsertInvoiceMail): Promise<InvoiceMail>;
+  
+  // Invoice reminder (dunning) methods
+  getInvoiceReminders(invoiceId: number): Promise<InvoiceReminder[]>; // In order of their step
+  createInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder>;
+  
+  // Payment methods
+  getAllPayments(): Promise<Payment[]>;
+  getPayments(invoiceId: number): Promise<Payment[]>; // Oldest first
+  getPayment(id: number): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  deletePayment(id: number): Promise<boolean>;
+  
+  // Global search; results are grouped by type, best matches first
+  search(query: SearchQuery): Promise<SearchResult[]>;
+  
   // Session store
   sessionStore: session.Store;
 }
 
+// Helpers for the paged list methods
+function sortRows<T extends object>(rows: T[], sort: string | undefined): T[] {
+  const { field, descending } = parseSort(sort);
+  if (!field) return rows;
+  const key = field as keyof T;
+  return [...rows].sort((a: T, b: T) => {
+    const left = a[key] ?? "";
+    const right = b[key] ?? "";
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return descending ? -order : order;
+  });
+}
+
+function matchesSearch(q: string | undefined, ...values: (string | null | undefined)[]): boolean {
+  if (!q) return true;
+  const search = q.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(search));
+}
+
+function isInRange(date: Date, from?: Date, to?: Date): boolean {
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+function getStockStatus(material: Material): MaterialListQuery["stock"] {
+  const stock = material.stock ?? 0;
+  if (stock <= 0) return "out-of-stock";
+  return stock < (material.minStock ?? 0) ? "low-stock" : "in-stock";
+}
+
+function orderByColumn(columns: Record<string, AnyColumn>, sort: string | undefined): SQL[] {
+  const { field, descending } = parseSort(sort);
+  const column = field && field in columns ? columns[field] : undefined;
+  if (!column) return [];
+  return [descending ? desc(column) : asc(column)];
+}
+
+// Pattern for a case-insensitive "contains" search; LIKE wildcards in the search text are matched literally
+function likePattern(q: string): string {
+  return `%${q.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+function emptyPage<T>(query: ListQuery): Page<T> {
+  return { items: [], total: 0, page: query.page, pageSize: query.pageSize };
+}
+
+// Best trigram similarity (pg_trgm) of the search text to any of the columns, between 0 and 1
+function similarityRank(q: string, ...columns: AnyColumn[]): SQL<number> {
+  const similarities = columns.map(column => sql`similarity(${column}, ${q})`);
+  return sql<number>`greatest(${sql.join(similarities, sql`, `)})`;
+}
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private loginAttempts: Map<number, LoginAttempt>;
+  private auditLogs: Map<number, AuditLog>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
   private customers: Map<number, Customer>;
   private materials: Map<number, Material>;
+  private maintenanceContracts: Map<number, MaintenanceContract>;
   private workOrders: Map<number, WorkOrder>;
+  private workOrderAssignments: Map<number, WorkOrderAssignment>;
+  private workOrderDependencies: Map<number, WorkOrderDependency>;
+  private workingHours: Map<number, WorkingHours>;
+  private leaveRequests: Map<number, LeaveRequest>;
+  private holidays: Map<number, Holiday>;
   private invoices: Map<number, Invoice>;
+  private quotes: Map<number, Quote>;
   private projects: Map<number, Project>;
+  private projectInstalments: Map<number, ProjectInstalment>;
+  private mailTemplates: Map<number, MailTemplate>;
+  private invoiceMails: Map<number, InvoiceMail>;
+  private invoiceReminders: Map<number, InvoiceReminder>;
+  private payments: Map<number, Payment>;
   
   sessionStore: session.Store;
   
   // ID counters
   private userIdCounter: number;
+  private loginAttemptIdCounter: number;
+  private auditLogIdCounter: number;
+  private passwordResetTokenIdCounter: number;
   private customerIdCounter: number;
   private materialIdCounter: number;
+  private maintenanceContractIdCounter: number;
   private workOrderIdCounter: number;
+  private workOrderAssignmentIdCounter: number;
+  private workOrderDependencyIdCounter: number;
+  private workingHoursIdCounter: number;
+  private leaveRequestIdCounter: number;
+  private holidayIdCounter: number;
   private invoiceIdCounter: number;
+  private quoteIdCounter: number;
   private projectIdCounter: number;
+  private projectInstalmentIdCounter: number;
+  private mailTemplateIdCounter: number;
+  private invoiceMailIdCounter: number;
+  private invoiceReminderIdCounter: number;
+  private paymentIdCounter: number;
 
   constructor() {
     this.users = new Map();
+    this.loginAttempts = new Map();
+    this.auditLogs = new Map();
+    this.passwordResetTokens = new Map();
     this.customers = new Map();
     this.materials = new Map();
+    this.maintenanceContracts = new Map();
     this.workOrders = new Map();
+    this.workOrderAssignments = new Map();
+    this.workOrderDependencies = new Map();
+    this.workingHours = new Map();
+    this.leaveRequests = new Map();
+    this.holidays = new Map();
     this.invoices = new Map();
+    this.quotes = new Map();
     this.projects = new Map();
+    this.projectInstalments = new Map();
+    this.mailTemplates = new Map();
+    this.invoiceMails = new Map();
+    this.invoiceReminders = new Map();
+    this.payments = new Map();
     
     this.userIdCounter = 1;
+    this.loginAttemptIdCounter = 1;
+    this.auditLogIdCounter = 1;
+    this.passwordResetTokenIdCounter = 1;
     this.customerIdCounter = 1;
     this.materialIdCounter = 1;
+    this.maintenanceContractIdCounter = 1;
     this.workOrderIdCounter = 1;
+    this.workOrderAssignmentIdCounter = 1;
+    this.workOrderDependencyIdCounter = 1;
+    this.workingHoursIdCounter = 1;
+    this.leaveRequestIdCounter = 1;
+    this.holidayIdCounter = 1;
     this.invoiceIdCounter = 1;
+    this.quoteIdCounter = 1;
     this.projectIdCounter = 1;
+    this.projectInstalmentIdCounter = 1;
+    this.mailTemplateIdCounter = 1;
+    this.invoiceMailIdCounter = 1;
+    this.invoiceReminderIdCounter = 1;
+    this.paymentIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // 24 hours
     });
-    
-    // Create admin user
-    const adminId = this.userIdCounter++;
-    const adminUser: User = {
-      id: adminId,
-      username: "admin",
-      email: "admin@spartec.nl",
-      fullName: "Admin User",
-      phone: "06-12345678",
-      // hardcoded password is admin123
-      password: "c7ad44cbad762a5da0a452f9e854fdc1e0e7a52a38015f23f3eab1d80b931dd472634dfac71cd34ebc35d16ab7fb8a90c81f975113d6c7538dc69dd8de9077ec.e5e9fa1ba31ecd1ae84f75caaa474f3a",
-      role: "beheerder",
-      createdAt: new Date()
-    };
-    this.users.set(adminId, adminUser);
   }
 
   // User methods
@@ -124,6 +333,16 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
@@ -131,6 +350,13 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       role: insertUser.role || "monteur", 
+      active: insertUser.active ?? true,
+      twoFactorSecret: null,
+      twoFactorEnabled: false,
+      twoFactorBackupCodes: null,
+      twoFactorLastStep: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
       createdAt: now,
       email: insertUser.email || null,
       phone: insertUser.phone || null 
@@ -139,11 +365,128 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+    
+    const updatedUser = { ...existingUser, ...userData };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(id: number, settings: TwoFactorSettings): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+    
+    const updatedUser = { ...existingUser, ...settings };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserLockout(id: number, lockout: LoginLockout): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+    
+    const updatedUser = { ...existingUser, ...lockout };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async incrementFailedLoginAttempts(id: number): Promise<number | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const failedLoginAttempts = existingUser.failedLoginAttempts + 1;
+    this.users.set(id, { ...existingUser, failedLoginAttempts });
+    return failedLoginAttempts;
+  }
+
+  async consumeTwoFactorStep(id: number, step: number): Promise<boolean> {
+    const existingUser = this.users.get(id);
+    if (!existingUser || (existingUser.twoFactorLastStep !== null && existingUser.twoFactorLastStep >= step)) return false;
+    
+    this.users.set(id, { ...existingUser, twoFactorLastStep: step });
+    return true;
+  }
+
+  async consumeTwoFactorBackupCode(id: number, codeHash: string): Promise<boolean> {
+    const existingUser = this.users.get(id);
+    const backupCodes = existingUser?.twoFactorBackupCodes ?? [];
+    if (!existingUser || !backupCodes.includes(codeHash)) return false;
+    
+    this.users.set(id, { ...existingUser, twoFactorBackupCodes: backupCodes.filter(hashed => hashed !== codeHash) });
+    return true;
+  }
+
+  // Login history methods
+  async createLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const id = this.loginAttemptIdCounter++;
+    const attempt: LoginAttempt = {
+      ...insertAttempt,
+      id,
+      userId: insertAttempt.userId ?? null,
+      ipAddress: insertAttempt.ipAddress ?? null,
+      reason: insertAttempt.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.loginAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async getLoginAttempts(filter: { userId?: number; success?: boolean; limit?: number } = {}): Promise<LoginAttempt[]> {
+    return Array.from(this.loginAttempts.values())
+      .filter(attempt => filter.userId === undefined || attempt.userId === filter.userId)
+      .filter(attempt => filter.success === undefined || attempt.success === filter.success)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filter.limit ?? 100);
+  }
+
+  // Audit trail methods
+  async createAuditLog(insertEntry: InsertAuditLog): Promise<AuditLog> {
+    const id = this.auditLogIdCounter++;
+    const entry: AuditLog = { ...insertEntry, id, userId: insertEntry.userId ?? null, createdAt: new Date() };
+    this.auditLogs.set(id, entry);
+    return entry;
+  }
+
+  async getAuditLogs(entity: string, entityId: number): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(entry => entry.entity === entity && entry.entityId === entityId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  // Password reset token methods
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const token: PasswordResetToken = { ...insertToken, id, usedAt: null, createdAt: new Date() };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async markPasswordResetTokensUsed(userId: number): Promise<void> {
+    const now = new Date();
+    Array.from(this.passwordResetTokens.values())
+      .filter(token => token.userId === userId && !token.usedAt)
+      .forEach(token => this.passwordResetTokens.set(token.id, { ...token, usedAt: now }));
+  }
+
   // Customer methods
   async getAllCustomers(): Promise<Customer[]> {
     return Array.from(this.customers.values());
   }
 
+  async getCustomersPage(query: CustomerListQuery): Promise<Page<Customer>> {
+    const rows = Array.from(this.customers.values())
+      .filter(customer => !query.status || customer.status === query.status)
+      .filter(customer => !query.type || customer.type === query.type)
+      .filter(customer => matchesSearch(query.q, customer.name, customer.customerNumber, customer.street, customer.city, customer.email, customer.phone));
+    return paginate(sortRows(rows, query.sort ?? "name"), query);
+  }
+
   async getCustomer(id: number): Promise<Customer | undefined> {
     return this.customers.get(id);
   }
@@ -184,6 +527,20 @@ export class MemStorage implements IStorage {
     return Array.from(this.materials.values());
   }
 
+  async getMaterialsPage(query: MaterialListQuery): Promise<Page<Material>> {
+    const rows = Array.from(this.materials.values())
+      .filter(material => !query.category || material.category === query.category)
+      .filter(material => !query.supplier || material.supplier === query.supplier)
+      .filter(material => !query.stock || getStockStatus(material) === query.stock)
+      .filter(material => matchesSearch(query.q, material.name, material.articleNumber, material.brand, material.category));
+    return paginate(sortRows(rows, query.sort ?? "name"), query);
+  }
+
+  async getMaterialSuppliers(): Promise<string[]> {
+    const suppliers = Array.from(this.materials.values()).map(material => material.supplier);
+    return Array.from(new Set(suppliers.filter((supplier): supplier is string => !!supplier))).sort();
+  }
+
   async getMaterial(id: number): Promise<Material | undefined> {
     return this.materials.get(id);
   }
@@ -225,6 +582,21 @@ export class MemStorage implements IStorage {
     return Array.from(this.workOrders.values());
   }
 
+  async getWorkOrdersPage(query: WorkOrderListQuery): Promise<Page<WorkOrder>> {
+    const assignedIds = query.assigneeId === undefined ? undefined : new Set(
+      Array.from(this.workOrderAssignments.values())
+        .filter(assignment => assignment.userId === query.assigneeId)
+        .map(assignment => assignment.workOrderId)
+    );
+    const rows = Array.from(this.workOrders.values())
+      .filter(workOrder => !assignedIds || assignedIds.has(workOrder.id))
+      .filter(workOrder => !query.status || workOrder.status === query.status)
+      .filter(workOrder => query.customerId === undefined || workOrder.customerId === query.customerId)
+      .filter(workOrder => isInRange(workOrder.date, query.from, query.to))
+      .filter(workOrder => matchesSearch(query.q, workOrder.orderNumber, workOrder.title, workOrder.description));
+    return paginate(sortRows(rows, query.sort ?? "-date"), query);
+  }
+
   async getWorkOrder(id: number): Promise<WorkOrder | undefined> {
     return this.workOrders.get(id);
   }
@@ -241,9 +613,15 @@ export class MemStorage implements IStorage {
       // Ensure required fields have default values
       status: insertWorkOrder.status || "Ingepland",
       description: insertWorkOrder.description || null,
+      endDate: insertWorkOrder.endDate || null,
+      estimatedHours: insertWorkOrder.estimatedHours ?? null,
       laborHours: insertWorkOrder.laborHours || null,
       notes: insertWorkOrder.notes || null,
-      materials: insertWorkOrder.materials || []
+      materials: insertWorkOrder.materials || [],
+      photos: insertWorkOrder.photos || [],
+      contractId: insertWorkOrder.contractId ?? null,
+      routeSequence: insertWorkOrder.routeSequence ?? null,
+      projectId: insertWorkOrder.projectId ?? null
     };
     this.workOrders.set(id, workOrder);
     return workOrder;
@@ -259,18 +637,264 @@ export class MemStorage implements IStorage {
   }
 
   async deleteWorkOrder(id: number): Promise<boolean> {
+    Array.from(this.workOrderAssignments.values())
+      .filter(assignment => assignment.workOrderId === id)
+      .forEach(assignment => this.workOrderAssignments.delete(assignment.id));
+    await this.deleteAllWorkOrderDependencies(id);
     return this.workOrders.delete(id);
   }
 
+  async getWorkOrdersByContract(contractId: number): Promise<WorkOrder[]> {
+    return Array.from(this.workOrders.values()).filter(wo => wo.contractId === contractId);
+  }
+
+  async getWorkOrdersByProject(projectId: number): Promise<WorkOrder[]> {
+    return sortRows(Array.from(this.workOrders.values()).filter(wo => wo.projectId === projectId), "date");
+  }
+
+  async getProjectWorkOrderStatuses(): Promise<ProjectWorkOrderStatus[]> {
+    return Array.from(this.workOrders.values())
+      .filter(wo => wo.projectId !== null)
+      .map(wo => ({ projectId: wo.projectId!, status: wo.status }));
+  }
+
+  async getProjectWorkOrderCosts(): Promise<ProjectWorkOrderCosts[]> {
+    return Array.from(this.workOrders.values())
+      .filter(wo => wo.projectId !== null)
+      .map(wo => ({ id: wo.id, projectId: wo.projectId!, status: wo.status, laborHours: wo.laborHours, materials: wo.materials }));
+  }
+
+  // Work Order assignment methods
+  async getWorkOrdersByAssignee(userId: number): Promise<WorkOrder[]> {
+    const workOrderIds = new Set(
+      Array.from(this.workOrderAssignments.values())
+        .filter(assignment => assignment.userId === userId)
+        .map(assignment => assignment.workOrderId)
+    );
+    return Array.from(this.workOrders.values()).filter(wo => workOrderIds.has(wo.id));
+  }
+
+  async getWorkOrderAssignments(workOrderId: number): Promise<WorkOrderAssignment[]> {
+    return Array.from(this.workOrderAssignments.values())
+      .filter(assignment => assignment.workOrderId === workOrderId);
+  }
+
+  async assignWorkOrder(workOrderId: number, userId: number, isLead = false): Promise<WorkOrderAssignment> {
+    const existing = await this.getWorkOrderAssignments(workOrderId);
+    // The first technician on a work order automatically becomes the lead
+    const lead = isLead || existing.length === 0 || (existing.length === 1 && existing[0].userId === userId);
+
+    if (lead) {
+      existing
+        .filter(assignment => assignment.userId !== userId)
+        .forEach(assignment => this.workOrderAssignments.set(assignment.id, { ...assignment, isLead: false }));
+    }
+
+    const current = existing.find(assignment => assignment.userId === userId);
+    if (current) {
+      const updated = { ...current, isLead: lead || current.isLead };
+      this.workOrderAssignments.set(current.id, updated);
+      return updated;
+    }
+
+    const id = this.workOrderAssignmentIdCounter++;
+    const assignment: WorkOrderAssignment = {
+      id,
+      workOrderId,
+      userId,
+      isLead: lead,
+      createdAt: new Date()
+    };
+    this.workOrderAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async unassignWorkOrder(workOrderId: number, userId: number): Promise<boolean> {
+    const existing = await this.getWorkOrderAssignments(workOrderId);
+    const assignment = existing.find(a => a.userId === userId);
+    if (!assignment) return false;
+
+    this.workOrderAssignments.delete(assignment.id);
+
+    // Promote the longest-assigned remaining technician when the lead is removed
+    const remaining = existing.filter(a => a.id !== assignment.id);
+    if (assignment.isLead && remaining.length > 0) {
+      this.workOrderAssignments.set(remaining[0].id, { ...remaining[0], isLead: true });
+    }
+    return true;
+  }
+
+  // Work order dependency methods
+  async getWorkOrderDependencies(workOrderIds: number[]): Promise<WorkOrderDependency[]> {
+    return Array.from(this.workOrderDependencies.values())
+      .filter(dependency => workOrderIds.includes(dependency.workOrderId) || workOrderIds.includes(dependency.dependsOnId));
+  }
+
+  async createWorkOrderDependency(insertDependency: InsertWorkOrderDependency): Promise<WorkOrderDependency> {
+    const id = this.workOrderDependencyIdCounter++;
+    const dependency: WorkOrderDependency = { ...insertDependency, id, createdAt: new Date() };
+    this.workOrderDependencies.set(id, dependency);
+    return dependency;
+  }
+
+  async deleteWorkOrderDependency(workOrderId: number, dependsOnId: number): Promise<boolean> {
+    const dependency = Array.from(this.workOrderDependencies.values())
+      .find(d => d.workOrderId === workOrderId && d.dependsOnId === dependsOnId);
+    return !!dependency && this.workOrderDependencies.delete(dependency.id);
+  }
+
+  async deleteAllWorkOrderDependencies(workOrderId: number): Promise<void> {
+    (await this.getWorkOrderDependencies([workOrderId]))
+      .forEach(dependency => this.workOrderDependencies.delete(dependency.id));
+  }
+
+  // Availability methods
+  async getWorkingHours(userId: number): Promise<WorkingHours[]> {
+    return Array.from(this.workingHours.values())
+      .filter(hours => hours.userId === userId)
+      .sort((a, b) => a.weekday - b.weekday);
+  }
+
+  async setWorkingHours(userId: number, hours: InsertWorkingHours[]): Promise<WorkingHours[]> {
+    Array.from(this.workingHours.values())
+      .filter(existing => existing.userId === userId)
+      .forEach(existing => this.workingHours.delete(existing.id));
+
+    hours.forEach(insertHours => {
+      const id = this.workingHoursIdCounter++;
+      this.workingHours.set(id, { ...insertHours, id, userId });
+    });
+    return this.getWorkingHours(userId);
+  }
+
+  async getLeaveRequests(filter: { userId?: number; status?: string } = {}): Promise<LeaveRequest[]> {
+    return Array.from(this.leaveRequests.values())
+      .filter(request => filter.userId === undefined || request.userId === filter.userId)
+      .filter(request => filter.status === undefined || request.status === filter.status)
+      .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
+  }
+
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    return this.leaveRequests.get(id);
+  }
+
+  async createLeaveRequest(insertLeaveRequest: InsertLeaveRequest): Promise<LeaveRequest> {
+    const id = this.leaveRequestIdCounter++;
+    const leaveRequest: LeaveRequest = {
+      ...insertLeaveRequest,
+      id,
+      createdAt: new Date(),
+      // Ensure required fields have default values
+      status: insertLeaveRequest.status || "Aangevraagd",
+      reason: insertLeaveRequest.reason || null,
+      reviewedBy: insertLeaveRequest.reviewedBy || null,
+      reviewedAt: insertLeaveRequest.reviewedAt || null
+    };
+    this.leaveRequests.set(id, leaveRequest);
+    return leaveRequest;
+  }
+
+  async updateLeaveRequest(id: number, leaveRequestData: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined> {
+    const existingLeaveRequest = this.leaveRequests.get(id);
+    if (!existingLeaveRequest) return undefined;
+
+    const updatedLeaveRequest = { ...existingLeaveRequest, ...leaveRequestData };
+    this.leaveRequests.set(id, updatedLeaveRequest);
+    return updatedLeaveRequest;
+  }
+
+  async deleteLeaveRequest(id: number): Promise<boolean> {
+    return this.leaveRequests.delete(id);
+  }
+
+  async getAllHolidays(): Promise<Holiday[]> {
+    return Array.from(this.holidays.values())
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  async createHoliday(insertHoliday: InsertHoliday): Promise<Holiday> {
+    const id = this.holidayIdCounter++;
+    const holiday: Holiday = { ...insertHoliday, id, createdAt: new Date() };
+    this.holidays.set(id, holiday);
+    return holiday;
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    return this.holidays.delete(id);
+  }
+
+  // Maintenance contract methods
+  async getAllMaintenanceContracts(): Promise<MaintenanceContract[]> {
+    return Array.from(this.maintenanceContracts.values());
+  }
+
+  async getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined> {
+    return this.maintenanceContracts.get(id);
+  }
+
+  async createMaintenanceContract(insertContract: InsertMaintenanceContract): Promise<MaintenanceContract> {
+    const id = this.maintenanceContractIdCounter++;
+    const contractNumber = `OC-${new Date().getFullYear()}-${String(id).padStart(4, '0')}`;
+    const contract: MaintenanceContract = {
+      ...insertContract,
+      id,
+      contractNumber,
+      createdAt: new Date(),
+      // Ensure required fields have default values
+      status: insertContract.status || "Actief",
+      description: insertContract.description || null,
+      endDate: insertContract.endDate || null,
+      price: insertContract.price ?? 0,
+      workOrderDescription: insertContract.workOrderDescription || null,
+      estimatedHours: insertContract.estimatedHours ?? null,
+      defaultAssigneeId: insertContract.defaultAssigneeId ?? null,
+      generatedUntil: insertContract.generatedUntil || null
+    };
+    this.maintenanceContracts.set(id, contract);
+    return contract;
+  }
+
+  async updateMaintenanceContract(id: number, contractData: Partial<InsertMaintenanceContract>): Promise<MaintenanceContract | undefined> {
+    const existingContract = this.maintenanceContracts.get(id);
+    if (!existingContract) return undefined;
+
+    const updatedContract = { ...existingContract, ...contractData };
+    this.maintenanceContracts.set(id, updatedContract);
+    return updatedContract;
+  }
+
+  async deleteMaintenanceContract(id: number): Promise<boolean> {
+    // Generated work orders are kept, only the link to the contract is removed
+    Array.from(this.workOrders.values())
+      .filter(wo => wo.contractId === id)
+      .forEach(wo => this.workOrders.set(wo.id, { ...wo, contractId: null }));
+    return this.maintenanceContracts.delete(id);
+  }
+
   // Invoice methods
   async getAllInvoices(): Promise<Invoice[]> {
     return Array.from(this.invoices.values());
   }
 
+  async getInvoicesPage(query: InvoiceListQuery): Promise<Page<Invoice>> {
+    const rows = Array.from(this.invoices.values())
+      .filter(invoice => !query.status || invoice.status === query.status)
+      .filter(invoice => query.customerId === undefined || invoice.customerId === query.customerId)
+      .filter(invoice => isInRange(invoice.date, query.from, query.to))
+      .filter(invoice => matchesSearch(query.q, invoice.invoiceNumber, this.customers.get(invoice.customerId)?.name));
+    return paginate(sortRows(rows, query.sort ?? "-date"), query);
+  }
+
   async getInvoice(id: number): Promise<Invoice | undefined> {
     return this.invoices.get(id);
   }
 
+  async getProjectInvoices(projectIds: number[], workOrderIds: number[]): Promise<Invoice[]> {
+    return Array.from(this.invoices.values()).filter(invoice =>
+      (invoice.projectId !== null && projectIds.includes(invoice.projectId)) ||
+      (invoice.workOrderId !== null && workOrderIds.includes(invoice.workOrderId)));
+  }
+
   async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
     const id = this.invoiceIdCounter++;
     const now = new Date();
@@ -283,6 +907,7 @@ export class MemStorage implements IStorage {
       // Ensure required fields have default values
       status: insertInvoice.status || "Concept",
       workOrderId: insertInvoice.workOrderId || null,
+      projectId: insertInvoice.projectId ?? null,
       items: insertInvoice.items || []
     };
     this.invoices.set(id, invoice);
@@ -299,9 +924,57 @@ export class MemStorage implements IStorage {
   }
 
   async deleteInvoice(id: number): Promise<boolean> {
+    Array.from(this.invoiceMails.values())
+      .filter(mail => mail.invoiceId === id)
+      .forEach(mail => this.invoiceMails.delete(mail.id));
+    Array.from(this.invoiceReminders.values())
+      .filter(reminder => reminder.invoiceId === id)
+      .forEach(reminder => this.invoiceReminders.delete(reminder.id));
+    Array.from(this.payments.values())
+      .filter(payment => payment.invoiceId === id)
+      .forEach(payment => this.payments.delete(payment.id));
     return this.invoices.delete(id);
   }
 
+  // Quote methods
+  async getAllQuotes(): Promise<Quote[]> {
+    return sortRows(Array.from(this.quotes.values()), "-date");
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    return this.quotes.get(id);
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    const id = this.quoteIdCounter++;
+    const quote: Quote = {
+      ...insertQuote,
+      id,
+      quoteNumber: `O-${new Date().getFullYear()}-${String(id).padStart(4, '0')}`,
+      createdAt: new Date(),
+      status: insertQuote.status || "Concept",
+      description: insertQuote.description || null,
+      workOrderId: insertQuote.workOrderId ?? null,
+      projectId: insertQuote.projectId ?? null,
+      invoiceId: insertQuote.invoiceId ?? null,
+    };
+    this.quotes.set(id, quote);
+    return quote;
+  }
+
+  async updateQuote(id: number, quoteData: Partial<InsertQuote>): Promise<Quote | undefined> {
+    const existingQuote = this.quotes.get(id);
+    if (!existingQuote) return undefined;
+
+    const updatedQuote = { ...existingQuote, ...quoteData };
+    this.quotes.set(id, updatedQuote);
+    return updatedQuote;
+  }
+
+  async deleteQuote(id: number): Promise<boolean> {
+    return this.quotes.delete(id);
+  }
+
   // Project methods
   async getAllProjects(): Promise<Project[]> {
     return Array.from(this.projects.values());
@@ -322,8 +995,12 @@ export class MemStorage implements IStorage {
       status: insertProject.status || "Gepland",
       description: insertProject.description || null,
       endDate: insertProject.endDate || null,
-      progress: insertProject.progress || 0,
-      workOrders: insertProject.workOrders || []
+      price: insertProject.price ?? null,
+      budgetLaborHours: insertProject.budgetLaborHours ?? 0,
+      budgetMaterials: insertProject.budgetMaterials ?? 0,
+      budgetSubcontracting: insertProject.budgetSubcontracting ?? 0,
+      laborCostRate: insertProject.laborCostRate ?? 0,
+      subcontractingCosts: insertProject.subcontractingCosts ?? 0,
     };
     this.projects.set(id, project);
     return project;
@@ -339,10 +1016,194 @@ export class MemStorage implements IStorage {
   }
 
   async deleteProject(id: number): Promise<boolean> {
+    // Work orders stay, but are no longer part of the project
+    Array.from(this.workOrders.values())
+      .filter(wo => wo.projectId === id)
+      .forEach(wo => this.workOrders.set(wo.id, { ...wo, projectId: null }));
+    Array.from(this.invoices.values())
+      .filter(invoice => invoice.projectId === id)
+      .forEach(invoice => this.invoices.set(invoice.id, { ...invoice, projectId: null }));
+    Array.from(this.projectInstalments.values())
+      .filter(instalment => instalment.projectId === id)
+      .forEach(instalment => this.projectInstalments.delete(instalment.id));
     return this.projects.delete(id);
   }
+
+  // Project instalment methods
+  async getProjectInstalments(projectId: number): Promise<ProjectInstalment[]> {
+    return sortRows(Array.from(this.projectInstalments.values()).filter(i => i.projectId === projectId), "sequence");
+  }
+
+  async getOpenProjectInstalments(): Promise<ProjectInstalment[]> {
+    return Array.from(this.projectInstalments.values()).filter(i => i.invoiceId === null);
+  }
+
+  async getProjectInstalment(id: number): Promise<ProjectInstalment | undefined> {
+    return this.projectInstalments.get(id);
+  }
+
+  async createProjectInstalment(insertInstalment: InsertProjectInstalment): Promise<ProjectInstalment> {
+    const id = this.projectInstalmentIdCounter++;
+    const instalment: ProjectInstalment = {
+      ...insertInstalment,
+      id,
+      createdAt: new Date(),
+      dueDate: insertInstalment.dueDate ?? null,
+      milestoneWorkOrderId: insertInstalment.milestoneWorkOrderId ?? null,
+      invoiceId: insertInstalment.invoiceId ?? null,
+      invoicedAt: insertInstalment.invoicedAt ?? null,
+    };
+    this.projectInstalments.set(id, instalment);
+    return instalment;
+  }
+
+  async updateProjectInstalment(id: number, instalmentData: Partial<InsertProjectInstalment>): Promise<ProjectInstalment | undefined> {
+    const existingInstalment = this.projectInstalments.get(id);
+    if (!existingInstalment) return undefined;
+
+    const updatedInstalment = { ...existingInstalment, ...instalmentData };
+    this.projectInstalments.set(id, updatedInstalment);
+    return updatedInstalment;
+  }
+
+  async deleteProjectInstalment(id: number): Promise<boolean> {
+    return this.projectInstalments.delete(id);
+  }
+
+  // Mail template methods
+  async getMailTemplates(): Promise<MailTemplate[]> {
+    return Array.from(this.mailTemplates.values());
+  }
+
+  async upsertMailTemplate(insertTemplate: InsertMailTemplate): Promise<MailTemplate> {
+    const existing = Array.from(this.mailTemplates.values()).find(t => t.key === insertTemplate.key);
+    const template: MailTemplate = {
+      ...insertTemplate,
+      id: existing?.id ?? this.mailTemplateIdCounter++,
+      updatedAt: new Date(),
+    };
+    this.mailTemplates.set(template.id, template);
+    return template;
+  }
+
+  // Invoice mail methods
+  async getInvoiceMails(invoiceId: number): Promise<InvoiceMail[]> {
+    return sortRows(Array.from(this.invoiceMails.values()).filter(mail => mail.invoiceId === invoiceId), "-sentAt");
+  }
+
+  async createInvoiceMail(insertMail: InsertInvoiceMail): Promise<InvoiceMail> {
+    const id = this.invoiceMailIdCounter++;
+    const mail: InvoiceMail = { ...insertMail, id, sentAt: new Date() };
+    this.invoiceMails.set(id, mail);
+    return mail;
+  }
+
+  // Invoice reminder (dunning) methods
+  async getInvoiceReminders(invoiceId: number): Promise<InvoiceReminder[]> {
+    return sortRows(Array.from(this.invoiceReminders.values()).filter(reminder => reminder.invoiceId === invoiceId), "step");
+  }
+
+  async createInvoiceReminder(insertReminder: InsertInvoiceReminder): Promise<InvoiceReminder> {
+    const id = this.invoiceReminderIdCounter++;
+    const reminder: InvoiceReminder = {
+      ...insertReminder,
+      id,
+      collectionCosts: insertReminder.collectionCosts ?? null,
+      recipient: insertReminder.recipient ?? null,
+      createdAt: new Date(),
+    };
+    this.invoiceReminders.set(id, reminder);
+    return reminder;
+  }
+
+  // Payment methods
+  async getAllPayments(): Promise<Payment[]> {
+    return Array.from(this.payments.values());
+  }
+
+  async getPayments(invoiceId: number): Promise<Payment[]> {
+    return sortRows(Array.from(this.payments.values()).filter(payment => payment.invoiceId === invoiceId), "date");
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const id = this.paymentIdCounter++;
+    const payment: Payment = { ...insertPayment, id, reference: insertPayment.reference ?? null, createdAt: new Date() };
+    this.payments.set(id, payment);
+    return payment;
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    return this.payments.delete(id);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+    const add = <T>(type: SearchType, rows: T[], toResult: (row: T) => SearchResult) => {
+      if (query.types.includes(type)) results.push(...rows.slice(0, query.limit).map(toResult));
+    };
+
+    add("customer",
+      Array.from(this.customers.values()).filter(customer => matchesSearch(query.q, customer.name, customer.customerNumber)),
+      customer => ({ type: "customer", id: customer.id, title: customer.name, subtitle: `${customer.customerNumber} · ${customer.city}` }));
+
+    const assigned = query.assigneeId === undefined ? undefined : new Set(
+      Array.from(this.workOrderAssignments.values())
+        .filter(assignment => assignment.userId === query.assigneeId)
+        .map(assignment => assignment.workOrderId));
+    add("workorder",
+      Array.from(this.workOrders.values())
+        .filter(workOrder => !assigned || assigned.has(workOrder.id))
+        .filter(workOrder => matchesSearch(query.q, workOrder.orderNumber, workOrder.title)),
+      workOrder => ({ type: "workorder", id: workOrder.id, title: workOrder.orderNumber, subtitle: workOrder.title }));
+
+    add("invoice",
+      Array.from(this.invoices.values()).filter(invoice => matchesSearch(query.q, invoice.invoiceNumber)),
+      invoice => ({ type: "invoice", id: invoice.id, title: invoice.invoiceNumber, subtitle: this.customers.get(invoice.customerId)?.name }));
+
+    add("material",
+      Array.from(this.materials.values()).filter(material => matchesSearch(query.q, material.articleNumber)),
+      material => ({ type: "material", id: material.id, title: material.articleNumber, subtitle: material.name }));
+
+    return results;
+  }
 }
 
+// Columns the paged list methods can sort on, by the field name used in the sort parameter
+const WORK_ORDER_COLUMNS: Record<typeof WORK_ORDER_SORT_FIELDS[number], AnyColumn> = {
+  date: workOrders.date,
+  orderNumber: workOrders.orderNumber,
+  title: workOrders.title,
+  status: workOrders.status,
+  createdAt: workOrders.createdAt,
+};
+
+const CUSTOMER_COLUMNS: Record<typeof CUSTOMER_SORT_FIELDS[number], AnyColumn> = {
+  name: customers.name,
+  customerNumber: customers.customerNumber,
+  city: customers.city,
+  createdAt: customers.createdAt,
+};
+
+const MATERIAL_COLUMNS: Record<typeof MATERIAL_SORT_FIELDS[number], AnyColumn> = {
+  name: materials.name,
+  articleNumber: materials.articleNumber,
+  category: materials.category,
+  price: materials.price,
+  stock: materials.stock,
+};
+
+const INVOICE_COLUMNS: Record<typeof INVOICE_SORT_FIELDS[number], AnyColumn> = {
+  date: invoices.date,
+  dueDate: invoices.dueDate,
+  invoiceNumber: invoices.invoiceNumber,
+  amount: invoices.amount,
+  status: invoices.status,
+};
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -363,30 +1224,6 @@ export class DatabaseStorage implements IStorage {
         checkPeriod: 86400000, // 24 hours
       });
     }
-    
-    // Initialize database with admin user
-    this.initializeDatabase();
-  }
-
-  private async initializeDatabase() {
-    try {
-      // Check if admin user exists
-      const adminUser = await this.getUserByUsername('admin');
-      if (!adminUser) {
-        // Create initial admin user
-        await this.createUser({
-          username: "admin",
-          fullName: "Admin User",
-          email: "admin@spar-tec.nl",
-          phone: "06-12345678",
-          password: await hashPassword("admin123"),
-          role: "beheerder",
-        });
-        console.log("Admin user created successfully");
-      }
-    } catch (error) {
-      console.error('Error initializing database:', error);
-    }
   }
 
   // User methods
@@ -402,67 +1239,269 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     try {
-      console.log(`Looking up user by username: "${username}"`);
-      
       // Use case-insensitive search for better matching
-      const sqlQuery = `
-        SELECT * FROM users 
-        WHERE LOWER(username) = LOWER($1)
-      `;
-      
-      // Use direct pool query for more flexibility
-      const result = await pool.query(sqlQuery, [username]);
-      
-      if (result.rows.length === 0) {
-        console.log(`No user found with username: "${username}"`);
-        return undefined;
-      }
-      
-      const user = result.rows[0];
-      console.log(`Found user: ${user.username} (ID: ${user.id})`);
-      return user;
+      const result = await db.select().from(users)
+        .where(sql`LOWER(${users.username}) = LOWER(${username})`);
+      return result[0];
     } catch (error) {
       console.error('Error getting user by username:', error);
       return undefined;
     }
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUserByEmail(email: string): Promise<User | undefined> {
     try {
-      const [user] = await db.insert(users).values(insertUser).returning();
-      return user;
+      const result = await db.select().from(users)
+        .where(sql`LOWER(${users.email}) = LOWER(${email})`);
+      return result[0];
     } catch (error) {
-      console.error('Error creating user:', error);
-      throw error;
+      console.error('Error getting user by e-mail:', error);
+      return undefined;
     }
   }
 
-  // Customer methods
-  async getAllCustomers(): Promise<Customer[]> {
+  async getAllUsers(): Promise<User[]> {
     try {
-      return await db.select().from(customers).orderBy(desc(customers.id));
+      return await db.select().from(users).orderBy(users.fullName);
     } catch (error) {
-      console.error('Error getting all customers:', error);
+      console.error('Error getting all users:', error);
       return [];
     }
   }
 
-  async getCustomer(id: number): Promise<Customer | undefined> {
+  async createUser(insertUser: InsertUser): Promise<User> {
     try {
-      const result = await db.select().from(customers).where(eq(customers.id, id));
-      return result[0];
+      const [user] = await db.insert(users).values(insertUser).returning();
+      return user;
     } catch (error) {
-      console.error('Error getting customer by ID:', error);
-      return undefined;
+      console.error('Error creating user:', error);
+      throw error;
     }
   }
 
-  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
     try {
-      // Generate customer number
-      const customerNumber = await this.generateCustomerNumber();
-      const [customer] = await db.insert(customers)
-        .values({ ...insertCustomer, customerNumber })
+      const [user] = await db.update(users)
+        .set(userData)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating user:', error);
+      return undefined;
+    }
+  }
+
+  async updateUserTwoFactor(id: number, settings: TwoFactorSettings): Promise<User | undefined> {
+    try {
+      const [user] = await db.update(users)
+        .set(settings)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating two-factor settings:', error);
+      return undefined;
+    }
+  }
+
+  async updateUserLockout(id: number, lockout: LoginLockout): Promise<User | undefined> {
+    try {
+      const [user] = await db.update(users)
+        .set(lockout)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating login lockout:', error);
+      return undefined;
+    }
+  }
+
+  async incrementFailedLoginAttempts(id: number): Promise<number | undefined> {
+    try {
+      const [user] = await db.update(users)
+        .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+        .where(eq(users.id, id))
+        .returning({ failedLoginAttempts: users.failedLoginAttempts });
+      return user?.failedLoginAttempts;
+    } catch (error) {
+      console.error('Error counting failed login attempt:', error);
+      return undefined;
+    }
+  }
+
+  async consumeTwoFactorStep(id: number, step: number): Promise<boolean> {
+    try {
+      // Conditional update, so two requests with the same code cannot both succeed
+      const result = await db.update(users)
+        .set({ twoFactorLastStep: step })
+        .where(and(
+          eq(users.id, id),
+          or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step)),
+        ))
+        .returning({ id: users.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error recording two-factor step:', error);
+      return false;
+    }
+  }
+
+  async consumeTwoFactorBackupCode(id: number, codeHash: string): Promise<boolean> {
+    try {
+      // Conditional update, so two requests with the same backup code cannot both succeed
+      const result = await db.update(users)
+        .set({ twoFactorBackupCodes: sql`${users.twoFactorBackupCodes} - ${codeHash}::text` })
+        .where(and(
+          eq(users.id, id),
+          sql`${users.twoFactorBackupCodes} @> ${JSON.stringify([codeHash])}::jsonb`,
+        ))
+        .returning({ id: users.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error using two-factor backup code:', error);
+      return false;
+    }
+  }
+
+  // Login history methods
+  async createLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    try {
+      const [attempt] = await db.insert(loginAttempts).values(insertAttempt).returning();
+      return attempt;
+    } catch (error) {
+      console.error('Error creating login attempt:', error);
+      throw error;
+    }
+  }
+
+  async getLoginAttempts(filter: { userId?: number; success?: boolean; limit?: number } = {}): Promise<LoginAttempt[]> {
+    try {
+      const conditions = [];
+      if (filter.userId !== undefined) conditions.push(eq(loginAttempts.userId, filter.userId));
+      if (filter.success !== undefined) conditions.push(eq(loginAttempts.success, filter.success));
+      return await db.select().from(loginAttempts)
+        .where(and(...conditions))
+        .orderBy(desc(loginAttempts.createdAt))
+        .limit(filter.limit ?? 100);
+    } catch (error) {
+      console.error('Error getting login attempts:', error);
+      return [];
+    }
+  }
+
+  // Audit trail methods
+  async createAuditLog(insertEntry: InsertAuditLog): Promise<AuditLog> {
+    try {
+      const [entry] = await db.insert(auditLogs).values(insertEntry).returning();
+      return entry;
+    } catch (error) {
+      console.error('Error creating audit log:', error);
+      throw error;
+    }
+  }
+
+  async getAuditLogs(entity: string, entityId: number): Promise<AuditLog[]> {
+    try {
+      return await db.select().from(auditLogs)
+        .where(and(eq(auditLogs.entity, entity), eq(auditLogs.entityId, entityId)))
+        .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id));
+    } catch (error) {
+      console.error('Error getting audit logs:', error);
+      return [];
+    }
+  }
+
+  // Password reset token methods
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    try {
+      const [token] = await db.insert(passwordResetTokens).values(insertToken).returning();
+      return token;
+    } catch (error) {
+      console.error('Error creating password reset token:', error);
+      throw error;
+    }
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error('Error getting password reset token:', error);
+      return undefined;
+    }
+  }
+
+  async markPasswordResetTokensUsed(userId: number): Promise<void> {
+    try {
+      await db.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+    } catch (error) {
+      console.error('Error marking password reset tokens as used:', error);
+    }
+  }
+
+  // Customer methods
+  async getAllCustomers(): Promise<Customer[]> {
+    try {
+      return await db.select().from(customers).orderBy(desc(customers.id));
+    } catch (error) {
+      console.error('Error getting all customers:', error);
+      return [];
+    }
+  }
+
+  async getCustomersPage(query: CustomerListQuery): Promise<Page<Customer>> {
+    try {
+      const conditions = [];
+      if (query.status) conditions.push(eq(customers.status, query.status));
+      if (query.type) conditions.push(eq(customers.type, query.type));
+      if (query.q) {
+        const pattern = likePattern(query.q);
+        conditions.push(or(
+          ilike(customers.name, pattern),
+          ilike(customers.customerNumber, pattern),
+          ilike(customers.street, pattern),
+          ilike(customers.city, pattern),
+          ilike(customers.email, pattern),
+          ilike(customers.phone, pattern),
+        ));
+      }
+      const where = and(...conditions);
+      const [items, [{ total }]] = await Promise.all([
+        db.select().from(customers)
+          .where(where)
+          .orderBy(...orderByColumn(CUSTOMER_COLUMNS, query.sort ?? "name"), desc(customers.id))
+          .limit(query.pageSize)
+          .offset((query.page - 1) * query.pageSize),
+        db.select({ total: sql<number>`count(*)::int` }).from(customers).where(where),
+      ]);
+      return { items, total, page: query.page, pageSize: query.pageSize };
+    } catch (error) {
+      console.error('Error getting customers page:', error);
+      return emptyPage(query);
+    }
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    try {
+      const result = await db.select().from(customers).where(eq(customers.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting customer by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    try {
+      // Generate customer number
+      const customerNumber = await this.generateCustomerNumber();
+      const [customer] = await db.insert(customers)
+        .values({ ...insertCustomer, customerNumber })
         .returning();
       return customer;
     } catch (error) {
@@ -533,6 +1572,55 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getMaterialsPage(query: MaterialListQuery): Promise<Page<Material>> {
+    try {
+      const conditions = [];
+      if (query.category) conditions.push(eq(materials.category, query.category));
+      if (query.supplier) conditions.push(eq(materials.supplier, query.supplier));
+      const stock = sql`coalesce(${materials.stock}, 0)`;
+      const minStock = sql`coalesce(${materials.minStock}, 0)`;
+      if (query.stock === "out-of-stock") conditions.push(sql`${stock} <= 0`);
+      if (query.stock === "low-stock") conditions.push(sql`${stock} > 0 and ${stock} < ${minStock}`);
+      if (query.stock === "in-stock") conditions.push(sql`${stock} > 0 and ${stock} >= ${minStock}`);
+      if (query.q) {
+        const pattern = likePattern(query.q);
+        conditions.push(or(
+          ilike(materials.name, pattern),
+          ilike(materials.articleNumber, pattern),
+          ilike(materials.brand, pattern),
+          ilike(materials.category, pattern),
+        ));
+      }
+      const where = and(...conditions);
+      const [items, [{ total }]] = await Promise.all([
+        db.select().from(materials)
+          .where(where)
+          .orderBy(...orderByColumn(MATERIAL_COLUMNS, query.sort ?? "name"), desc(materials.id))
+          .limit(query.pageSize)
+          .offset((query.page - 1) * query.pageSize),
+        db.select({ total: sql<number>`count(*)::int` }).from(materials).where(where),
+      ]);
+      return { items, total, page: query.page, pageSize: query.pageSize };
+    } catch (error) {
+      console.error('Error getting materials page:', error);
+      return emptyPage(query);
+    }
+  }
+
+  async getMaterialSuppliers(): Promise<string[]> {
+    try {
+      const rows = await db.selectDistinct({ supplier: materials.supplier })
+        .from(materials)
+        .where(and(isNotNull(materials.supplier), ne(materials.supplier, "")))
+        .orderBy(asc(materials.supplier));
+      return rows.map(row => row.supplier!);
+    } catch (error) {
+      console.error('Error getting material suppliers:', error);
+      return [];
+    }
+  }
+
+
   async getMaterial(id: number): Promise<Material | undefined> {
     try {
       const result = await db.select().from(materials).where(eq(materials.id, id));
@@ -618,6 +1706,42 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getWorkOrdersPage(query: WorkOrderListQuery): Promise<Page<WorkOrder>> {
+    try {
+      const conditions = [];
+      if (query.assigneeId !== undefined) {
+        conditions.push(inArray(workOrders.id, db.select({ id: workOrderAssignments.workOrderId })
+          .from(workOrderAssignments)
+          .where(eq(workOrderAssignments.userId, query.assigneeId))));
+      }
+      if (query.status) conditions.push(eq(workOrders.status, query.status));
+      if (query.customerId !== undefined) conditions.push(eq(workOrders.customerId, query.customerId));
+      if (query.from) conditions.push(gte(workOrders.date, query.from));
+      if (query.to) conditions.push(lte(workOrders.date, query.to));
+      if (query.q) {
+        const pattern = likePattern(query.q);
+        conditions.push(or(
+          ilike(workOrders.orderNumber, pattern),
+          ilike(workOrders.title, pattern),
+          ilike(workOrders.description, pattern),
+        ));
+      }
+      const where = and(...conditions);
+      const [items, [{ total }]] = await Promise.all([
+        db.select().from(workOrders)
+          .where(where)
+          .orderBy(...orderByColumn(WORK_ORDER_COLUMNS, query.sort ?? "-date"), desc(workOrders.id))
+          .limit(query.pageSize)
+          .offset((query.page - 1) * query.pageSize),
+        db.select({ total: sql<number>`count(*)::int` }).from(workOrders).where(where),
+      ]);
+      return { items, total, page: query.page, pageSize: query.pageSize };
+    } catch (error) {
+      console.error('Error getting work orders page:', error);
+      return emptyPage(query);
+    }
+  }
+
   async getWorkOrder(id: number): Promise<WorkOrder | undefined> {
     try {
       const result = await db.select().from(workOrders).where(eq(workOrders.id, id));
@@ -640,11 +1764,11 @@ export class DatabaseStorage implements IStorage {
       const query = `
         INSERT INTO work_orders (
           order_number, title, description, customer_id, 
-          date, status, labor_hours, notes, materials
+          date, end_date, estimated_hours, status, labor_hours, notes, materials, contract_id, project_id
         ) VALUES (
           $1, $2, $3, $4, 
-          NOW(), $5, $6, $7, $8
-        ) RETURNING *
+          $5, $6, $7, $8, $9, $10, $11, $12, $13
+        ) RETURNING id
       `;
       
       // Convert materials to JSON string
@@ -658,14 +1782,20 @@ export class DatabaseStorage implements IStorage {
         data.title,
         data.description,
         data.customerId,
+        new Date(data.date),
+        data.endDate ? new Date(data.endDate) : null,
+        data.estimatedHours ?? null,
         data.status || 'Ingepland',
         data.laborHours || 0,
         data.notes || '',
-        materialsJson
+        materialsJson,
+        data.contractId ?? null,
+        data.projectId ?? null
       ]);
       
-      if (result.rows.length > 0) {
-        const workOrder = result.rows[0];
+      // Read back through drizzle, as the raw row has the column names instead of the field names
+      const workOrder = result.rows.length > 0 ? await this.getWorkOrder(result.rows[0].id) : undefined;
+      if (workOrder) {
         console.log('Successfully created work order:', workOrder);
         return workOrder;
       } else {
@@ -718,8 +1848,8 @@ export class DatabaseStorage implements IStorage {
       }
       
       // Build SQL update parts based on provided fields
-      const updateParts = [];
-      const values = [id]; // First param is always the ID
+      const updateParts: string[] = [];
+      const values: unknown[] = [id]; // First param is always the ID
       let paramIndex = 2; // Start from 2 since $1 is the ID
       
       // Build dynamic SET clause based on provided fields
@@ -768,6 +1898,26 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
+      if (data.endDate !== undefined) {
+        updateParts.push(`end_date = $${paramIndex++}`);
+        values.push(data.endDate === null ? null : new Date(data.endDate));
+      }
+      
+      if (data.estimatedHours !== undefined) {
+        updateParts.push(`estimated_hours = $${paramIndex++}`);
+        values.push(data.estimatedHours);
+      }
+      
+      if (data.routeSequence !== undefined) {
+        updateParts.push(`route_sequence = $${paramIndex++}`);
+        values.push(data.routeSequence);
+      }
+      
+      if (data.projectId !== undefined) {
+        updateParts.push(`project_id = $${paramIndex++}`);
+        values.push(data.projectId);
+      }
+      
       // Return early if no fields to update
       if (updateParts.length === 0) {
         return existingWorkOrder;
@@ -778,7 +1928,7 @@ export class DatabaseStorage implements IStorage {
         UPDATE work_orders
         SET ${updateParts.join(', ')}
         WHERE id = $1
-        RETURNING *
+        RETURNING id
       `;
       
       console.log('SQL update query:', query);
@@ -786,11 +1936,7 @@ export class DatabaseStorage implements IStorage {
       
       const result = await pool.query(query, values);
       
-      if (result.rows.length > 0) {
-        return result.rows[0];
-      } else {
-        return undefined;
-      }
+      return result.rows.length > 0 ? await this.getWorkOrder(id) : undefined;
     } catch (error) {
       console.error('Error updating work order:', error);
       return undefined;
@@ -807,147 +1953,930 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Invoice methods
-  async getAllInvoices(): Promise<Invoice[]> {
+  async getWorkOrdersByContract(contractId: number): Promise<WorkOrder[]> {
     try {
-      return await db.select().from(invoices).orderBy(desc(invoices.id));
+      return await db.select().from(workOrders)
+        .where(eq(workOrders.contractId, contractId))
+        .orderBy(workOrders.date);
     } catch (error) {
-      console.error('Error getting all invoices:', error);
+      console.error('Error getting work orders by contract:', error);
       return [];
     }
   }
 
-  async getInvoice(id: number): Promise<Invoice | undefined> {
+  async getWorkOrdersByProject(projectId: number): Promise<WorkOrder[]> {
     try {
-      const result = await db.select().from(invoices).where(eq(invoices.id, id));
-      return result[0];
+      return await db.select().from(workOrders)
+        .where(eq(workOrders.projectId, projectId))
+        .orderBy(workOrders.date);
     } catch (error) {
-      console.error('Error getting invoice by ID:', error);
-      return undefined;
+      console.error('Error getting work orders by project:', error);
+      return [];
     }
   }
 
-  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+  async getProjectWorkOrderStatuses(): Promise<ProjectWorkOrderStatus[]> {
     try {
-      // Generate invoice number
-      const invoiceNumber = await this.generateInvoiceNumber();
-      const [invoice] = await db.insert(invoices)
-        .values({ ...insertInvoice, invoiceNumber })
-        .returning();
-      return invoice;
+      const rows = await db.select({ projectId: workOrders.projectId, status: workOrders.status })
+        .from(workOrders)
+        .where(isNotNull(workOrders.projectId));
+      return rows.map(row => ({ projectId: row.projectId!, status: row.status }));
     } catch (error) {
-      console.error('Error creating invoice:', error);
-      throw error;
+      console.error('Error getting project work order statuses:', error);
+      return [];
     }
   }
 
-  private async generateInvoiceNumber(): Promise<string> {
+  async getProjectWorkOrderCosts(): Promise<ProjectWorkOrderCosts[]> {
     try {
-      const result = await db.select({ invoiceNumber: invoices.invoiceNumber })
-        .from(invoices)
-        .orderBy(desc(invoices.id))
-        .limit(1);
-      
-      const year = new Date().getFullYear();
-      const prefix = `F-${year}-`;
-      
-      if (result.length === 0) {
-        return `${prefix}0001`;
-      }
-      
-      const latestNumber = result[0].invoiceNumber;
-      if (latestNumber && latestNumber.startsWith(prefix)) {
-        const number = parseInt(latestNumber.substring(prefix.length));
-        if (!isNaN(number)) {
-          return `${prefix}${(number + 1).toString().padStart(4, '0')}`;
-        }
-      }
-      
-      return `${prefix}0001`;
+      const rows = await db.select({
+        id: workOrders.id,
+        projectId: workOrders.projectId,
+        status: workOrders.status,
+        laborHours: workOrders.laborHours,
+        materials: workOrders.materials,
+      })
+        .from(workOrders)
+        .where(isNotNull(workOrders.projectId));
+      return rows.map(row => ({ ...row, projectId: row.projectId! }));
     } catch (error) {
-      console.error('Error generating invoice number:', error);
-      return `F-${new Date().getFullYear()}-0001`;
+      console.error('Error getting project work order costs:', error);
+      return [];
     }
   }
 
-  async updateInvoice(id: number, invoiceData: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+  // Work Order assignment methods
+  async getWorkOrdersByAssignee(userId: number): Promise<WorkOrder[]> {
     try {
-      const [invoice] = await db.update(invoices)
-        .set(invoiceData)
-        .where(eq(invoices.id, id))
-        .returning();
-      return invoice;
+      const result = await db.select({ workOrder: workOrders })
+        .from(workOrders)
+        .innerJoin(workOrderAssignments, eq(workOrderAssignments.workOrderId, workOrders.id))
+        .where(eq(workOrderAssignments.userId, userId))
+        .orderBy(desc(workOrders.id));
+      return result.map(row => row.workOrder);
     } catch (error) {
-      console.error('Error updating invoice:', error);
-      return undefined;
+      console.error('Error getting work orders by assignee:', error);
+      return [];
     }
   }
 
-  async deleteInvoice(id: number): Promise<boolean> {
+  async getWorkOrderAssignments(workOrderId: number): Promise<WorkOrderAssignment[]> {
     try {
-      const result = await db.delete(invoices).where(eq(invoices.id, id)).returning();
-      return result.length > 0;
+      return await db.select()
+        .from(workOrderAssignments)
+        .where(eq(workOrderAssignments.workOrderId, workOrderId))
+        .orderBy(workOrderAssignments.id);
     } catch (error) {
-      console.error('Error deleting invoice:', error);
-      return false;
+      console.error('Error getting work order assignments:', error);
+      return [];
     }
   }
 
-  // Project methods
-  async getAllProjects(): Promise<Project[]> {
+  async assignWorkOrder(workOrderId: number, userId: number, isLead = false): Promise<WorkOrderAssignment> {
     try {
-      return await db.select().from(projects).orderBy(desc(projects.id));
+      const existing = await this.getWorkOrderAssignments(workOrderId);
+      // The first technician on a work order automatically becomes the lead
+      const lead = isLead || existing.length === 0 || (existing.length === 1 && existing[0].userId === userId);
+
+      if (lead) {
+        await db.update(workOrderAssignments)
+          .set({ isLead: false })
+          .where(eq(workOrderAssignments.workOrderId, workOrderId));
+      }
+
+      const current = existing.find(assignment => assignment.userId === userId);
+      const [assignment] = await db.insert(workOrderAssignments)
+        .values({ workOrderId, userId, isLead: lead })
+        .onConflictDoUpdate({
+          target: [workOrderAssignments.workOrderId, workOrderAssignments.userId],
+          set: { isLead: lead || (current?.isLead ?? false) },
+        })
+        .returning();
+      return assignment;
     } catch (error) {
-      console.error('Error getting all projects:', error);
-      return [];
+      console.error('Error assigning work order:', error);
+      throw error;
     }
   }
 
-  async getProject(id: number): Promise<Project | undefined> {
+  async unassignWorkOrder(workOrderId: number, userId: number): Promise<boolean> {
     try {
-      const result = await db.select().from(projects).where(eq(projects.id, id));
-      return result[0];
+      const [removed] = await db.delete(workOrderAssignments)
+        .where(and(
+          eq(workOrderAssignments.workOrderId, workOrderId),
+          eq(workOrderAssignments.userId, userId)
+        ))
+        .returning();
+      if (!removed) return false;
+
+      // Promote the longest-assigned remaining technician when the lead is removed
+      if (removed.isLead) {
+        const [next] = await this.getWorkOrderAssignments(workOrderId);
+        if (next) {
+          await db.update(workOrderAssignments)
+            .set({ isLead: true })
+            .where(eq(workOrderAssignments.id, next.id));
+        }
+      }
+      return true;
     } catch (error) {
-      console.error('Error getting project by ID:', error);
-      return undefined;
+      console.error('Error unassigning work order:', error);
+      return false;
     }
   }
 
-  async createProject(insertProject: InsertProject): Promise<Project> {
+  // Work order dependency methods
+  async getWorkOrderDependencies(workOrderIds: number[]): Promise<WorkOrderDependency[]> {
+    if (workOrderIds.length === 0) return [];
     try {
-      const [project] = await db.insert(projects)
-        .values(insertProject)
-        .returning();
-      return project;
+      return await db.select().from(workOrderDependencies)
+        .where(or(
+          inArray(workOrderDependencies.workOrderId, workOrderIds),
+          inArray(workOrderDependencies.dependsOnId, workOrderIds),
+        ));
     } catch (error) {
-      console.error('Error creating project:', error);
-      throw error;
+      console.error('Error getting work order dependencies:', error);
+      return [];
     }
   }
 
-  async updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project | undefined> {
+  async createWorkOrderDependency(insertDependency: InsertWorkOrderDependency): Promise<WorkOrderDependency> {
     try {
-      const [project] = await db.update(projects)
-        .set(projectData)
-        .where(eq(projects.id, id))
+      const [dependency] = await db.insert(workOrderDependencies)
+        .values(insertDependency)
+        .onConflictDoNothing()
         .returning();
-      return project;
+      if (dependency) return dependency;
+
+      // Already existed
+      const [existing] = await db.select().from(workOrderDependencies)
+        .where(and(
+          eq(workOrderDependencies.workOrderId, insertDependency.workOrderId),
+          eq(workOrderDependencies.dependsOnId, insertDependency.dependsOnId),
+        ));
+      return existing;
     } catch (error) {
-      console.error('Error updating project:', error);
-      return undefined;
+      console.error('Error creating work order dependency:', error);
+      throw error;
     }
   }
 
-  async deleteProject(id: number): Promise<boolean> {
+  async deleteWorkOrderDependency(workOrderId: number, dependsOnId: number): Promise<boolean> {
     try {
-      const result = await db.delete(projects).where(eq(projects.id, id)).returning();
+      const result = await db.delete(workOrderDependencies)
+        .where(and(
+          eq(workOrderDependencies.workOrderId, workOrderId),
+          eq(workOrderDependencies.dependsOnId, dependsOnId),
+        ))
+        .returning();
       return result.length > 0;
     } catch (error) {
-      console.error('Error deleting project:', error);
+      console.error('Error deleting work order dependency:', error);
       return false;
     }
   }
+
+  async deleteAllWorkOrderDependencies(workOrderId: number): Promise<void> {
+    try {
+      await db.delete(workOrderDependencies)
+        .where(or(
+          eq(workOrderDependencies.workOrderId, workOrderId),
+          eq(workOrderDependencies.dependsOnId, workOrderId),
+        ));
+    } catch (error) {
+      console.error('Error deleting work order dependencies:', error);
+      throw error;
+    }
+  }
+
+  // Availability methods
+  async getWorkingHours(userId: number): Promise<WorkingHours[]> {
+    try {
+      return await db.select()
+        .from(workingHours)
+        .where(eq(workingHours.userId, userId))
+        .orderBy(workingHours.weekday);
+    } catch (error) {
+      console.error('Error getting working hours:', error);
+      return [];
+    }
+  }
+
+  async setWorkingHours(userId: number, hours: InsertWorkingHours[]): Promise<WorkingHours[]> {
+    try {
+      await db.delete(workingHours).where(eq(workingHours.userId, userId));
+      if (hours.length > 0) {
+        await db.insert(workingHours).values(hours.map(h => ({ ...h, userId })));
+      }
+      return await this.getWorkingHours(userId);
+    } catch (error) {
+      console.error('Error setting working hours:', error);
+      throw error;
+    }
+  }
+
+  async getLeaveRequests(filter: { userId?: number; status?: string } = {}): Promise<LeaveRequest[]> {
+    try {
+      const conditions = [];
+      if (filter.userId !== undefined) conditions.push(eq(leaveRequests.userId, filter.userId));
+      if (filter.status !== undefined) conditions.push(eq(leaveRequests.status, filter.status));
+
+      return await db.select()
+        .from(leaveRequests)
+        .where(and(...conditions))
+        .orderBy(desc(leaveRequests.startDate));
+    } catch (error) {
+      console.error('Error getting leave requests:', error);
+      return [];
+    }
+  }
+
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    try {
+      const result = await db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting leave request by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createLeaveRequest(insertLeaveRequest: InsertLeaveRequest): Promise<LeaveRequest> {
+    try {
+      const [leaveRequest] = await db.insert(leaveRequests)
+        .values(insertLeaveRequest)
+        .returning();
+      return leaveRequest;
+    } catch (error) {
+      console.error('Error creating leave request:', error);
+      throw error;
+    }
+  }
+
+  async updateLeaveRequest(id: number, leaveRequestData: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined> {
+    try {
+      const [leaveRequest] = await db.update(leaveRequests)
+        .set(leaveRequestData)
+        .where(eq(leaveRequests.id, id))
+        .returning();
+      return leaveRequest;
+    } catch (error) {
+      console.error('Error updating leave request:', error);
+      return undefined;
+    }
+  }
+
+  async deleteLeaveRequest(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(leaveRequests).where(eq(leaveRequests.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting leave request:', error);
+      return false;
+    }
+  }
+
+  async getAllHolidays(): Promise<Holiday[]> {
+    try {
+      return await db.select().from(holidays).orderBy(holidays.date);
+    } catch (error) {
+      console.error('Error getting all holidays:', error);
+      return [];
+    }
+  }
+
+  async createHoliday(insertHoliday: InsertHoliday): Promise<Holiday> {
+    try {
+      const [holiday] = await db.insert(holidays)
+        .values(insertHoliday)
+        .returning();
+      return holiday;
+    } catch (error) {
+      console.error('Error creating holiday:', error);
+      throw error;
+    }
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(holidays).where(eq(holidays.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      return false;
+    }
+  }
+
+  // Maintenance contract methods
+  async getAllMaintenanceContracts(): Promise<MaintenanceContract[]> {
+    try {
+      return await db.select().from(maintenanceContracts).orderBy(desc(maintenanceContracts.id));
+    } catch (error) {
+      console.error('Error getting all maintenance contracts:', error);
+      return [];
+    }
+  }
+
+  async getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined> {
+    try {
+      const result = await db.select().from(maintenanceContracts).where(eq(maintenanceContracts.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting maintenance contract by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createMaintenanceContract(insertContract: InsertMaintenanceContract): Promise<MaintenanceContract> {
+    try {
+      // Generate contract number
+      const contractNumber = await this.generateContractNumber();
+      const [contract] = await db.insert(maintenanceContracts)
+        .values({ ...insertContract, contractNumber })
+        .returning();
+      return contract;
+    } catch (error) {
+      console.error('Error creating maintenance contract:', error);
+      throw error;
+    }
+  }
+
+  private async generateContractNumber(): Promise<string> {
+    try {
+      const result = await db.select({ contractNumber: maintenanceContracts.contractNumber })
+        .from(maintenanceContracts)
+        .orderBy(desc(maintenanceContracts.id))
+        .limit(1);
+      
+      const year = new Date().getFullYear();
+      const prefix = `OC-${year}-`;
+      
+      if (result.length === 0) {
+        return `${prefix}0001`;
+      }
+      
+      const latestNumber = result[0].contractNumber;
+      if (latestNumber && latestNumber.startsWith(prefix)) {
+        const number = parseInt(latestNumber.substring(prefix.length));
+        if (!isNaN(number)) {
+          return `${prefix}${(number + 1).toString().padStart(4, '0')}`;
+        }
+      }
+      
+      return `${prefix}0001`;
+    } catch (error) {
+      console.error('Error generating contract number:', error);
+      return `OC-${new Date().getFullYear()}-0001`;
+    }
+  }
+
+  async updateMaintenanceContract(id: number, contractData: Partial<InsertMaintenanceContract>): Promise<MaintenanceContract | undefined> {
+    try {
+      const [contract] = await db.update(maintenanceContracts)
+        .set(contractData)
+        .where(eq(maintenanceContracts.id, id))
+        .returning();
+      return contract;
+    } catch (error) {
+      console.error('Error updating maintenance contract:', error);
+      return undefined;
+    }
+  }
+
+  async deleteMaintenanceContract(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(maintenanceContracts).where(eq(maintenanceContracts.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting maintenance contract:', error);
+      return false;
+    }
+  }
+
+  // Invoice methods
+  async getAllInvoices(): Promise<Invoice[]> {
+    try {
+      return await db.select().from(invoices).orderBy(desc(invoices.id));
+    } catch (error) {
+      console.error('Error getting all invoices:', error);
+      return [];
+    }
+  }
+
+  async getInvoicesPage(query: InvoiceListQuery): Promise<Page<Invoice>> {
+    try {
+      const conditions = [];
+      if (query.status) conditions.push(eq(invoices.status, query.status));
+      if (query.customerId !== undefined) conditions.push(eq(invoices.customerId, query.customerId));
+      if (query.from) conditions.push(gte(invoices.date, query.from));
+      if (query.to) conditions.push(lte(invoices.date, query.to));
+      if (query.q) {
+        const pattern = likePattern(query.q);
+        conditions.push(or(
+          ilike(invoices.invoiceNumber, pattern),
+          inArray(invoices.customerId, db.select({ id: customers.id }).from(customers).where(ilike(customers.name, pattern))),
+        ));
+      }
+      const where = and(...conditions);
+      const [items, [{ total }]] = await Promise.all([
+        db.select().from(invoices)
+          .where(where)
+          .orderBy(...orderByColumn(INVOICE_COLUMNS, query.sort ?? "-date"), desc(invoices.id))
+          .limit(query.pageSize)
+          .offset((query.page - 1) * query.pageSize),
+        db.select({ total: sql<number>`count(*)::int` }).from(invoices).where(where),
+      ]);
+      return { items, total, page: query.page, pageSize: query.pageSize };
+    } catch (error) {
+      console.error('Error getting invoices page:', error);
+      return emptyPage(query);
+    }
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    try {
+      const result = await db.select().from(invoices).where(eq(invoices.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting invoice by ID:', error);
+      return undefined;
+    }
+  }
+
+  async getProjectInvoices(projectIds: number[], workOrderIds: number[]): Promise<Invoice[]> {
+    const conditions = [
+      ...(projectIds.length > 0 ? [inArray(invoices.projectId, projectIds)] : []),
+      ...(workOrderIds.length > 0 ? [inArray(invoices.workOrderId, workOrderIds)] : []),
+    ];
+    if (conditions.length === 0) return [];
+    try {
+      return await db.select().from(invoices).where(or(...conditions));
+    } catch (error) {
+      console.error('Error getting project invoices:', error);
+      return [];
+    }
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    try {
+      // Generate invoice number
+      const invoiceNumber = await this.generateInvoiceNumber();
+      const [invoice] = await db.insert(invoices)
+        .values({ ...insertInvoice, invoiceNumber })
+        .returning();
+      return invoice;
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      throw error;
+    }
+  }
+
+  private async generateInvoiceNumber(): Promise<string> {
+    try {
+      const result = await db.select({ invoiceNumber: invoices.invoiceNumber })
+        .from(invoices)
+        .orderBy(desc(invoices.id))
+        .limit(1);
+      
+      const year = new Date().getFullYear();
+      const prefix = `F-${year}-`;
+      
+      if (result.length === 0) {
+        return `${prefix}0001`;
+      }
+      
+      const latestNumber = result[0].invoiceNumber;
+      if (latestNumber && latestNumber.startsWith(prefix)) {
+        const number = parseInt(latestNumber.substring(prefix.length));
+        if (!isNaN(number)) {
+          return `${prefix}${(number + 1).toString().padStart(4, '0')}`;
+        }
+      }
+      
+      return `${prefix}0001`;
+    } catch (error) {
+      console.error('Error generating invoice number:', error);
+      return `F-${new Date().getFullYear()}-0001`;
+    }
+  }
+
+  async updateInvoice(id: number, invoiceData: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    try {
+      const [invoice] = await db.update(invoices)
+        .set(invoiceData)
+        .where(eq(invoices.id, id))
+        .returning();
+      return invoice;
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      return undefined;
+    }
+  }
+
+  async deleteInvoice(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(invoices).where(eq(invoices.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      return false;
+    }
+  }
+
+  // Quote methods
+  async getAllQuotes(): Promise<Quote[]> {
+    try {
+      return await db.select().from(quotes).orderBy(desc(quotes.date), desc(quotes.id));
+    } catch (error) {
+      console.error('Error getting all quotes:', error);
+      return [];
+    }
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    try {
+      const result = await db.select().from(quotes).where(eq(quotes.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting quote by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    try {
+      const quoteNumber = await this.generateQuoteNumber();
+      const [quote] = await db.insert(quotes)
+        .values({ ...insertQuote, quoteNumber })
+        .returning();
+      return quote;
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      throw error;
+    }
+  }
+
+  // Same scheme as the invoice numbers: O-<year>-<sequence>, restarting every year
+  private async generateQuoteNumber(): Promise<string> {
+    try {
+      const prefix = `O-${new Date().getFullYear()}-`;
+      const result = await db.select({ quoteNumber: quotes.quoteNumber })
+        .from(quotes)
+        .where(ilike(quotes.quoteNumber, `${prefix}%`))
+        .orderBy(desc(quotes.quoteNumber))
+        .limit(1);
+
+      const number = result.length > 0 ? parseInt(result[0].quoteNumber.substring(prefix.length)) : 0;
+      return `${prefix}${((isNaN(number) ? 0 : number) + 1).toString().padStart(4, '0')}`;
+    } catch (error) {
+      console.error('Error generating quote number:', error);
+      return `O-${new Date().getFullYear()}-0001`;
+    }
+  }
+
+  async updateQuote(id: number, quoteData: Partial<InsertQuote>): Promise<Quote | undefined> {
+    try {
+      const [quote] = await db.update(quotes)
+        .set(quoteData)
+        .where(eq(quotes.id, id))
+        .returning();
+      return quote;
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      return undefined;
+    }
+  }
+
+  async deleteQuote(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(quotes).where(eq(quotes.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting quote:', error);
+      return false;
+    }
+  }
+
+  // Project methods
+  async getAllProjects(): Promise<Project[]> {
+    try {
+      return await db.select().from(projects).orderBy(desc(projects.id));
+    } catch (error) {
+      console.error('Error getting all projects:', error);
+      return [];
+    }
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    try {
+      const result = await db.select().from(projects).where(eq(projects.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting project by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    try {
+      const [project] = await db.insert(projects)
+        .values(insertProject)
+        .returning();
+      return project;
+    } catch (error) {
+      console.error('Error creating project:', error);
+      throw error;
+    }
+  }
+
+  async updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project | undefined> {
+    try {
+      const [project] = await db.update(projects)
+        .set(projectData)
+        .where(eq(projects.id, id))
+        .returning();
+      return project;
+    } catch (error) {
+      console.error('Error updating project:', error);
+      return undefined;
+    }
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(projects).where(eq(projects.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      return false;
+    }
+  }
+
+  // Project instalment methods
+  async getProjectInstalments(projectId: number): Promise<ProjectInstalment[]> {
+    try {
+      return await db.select().from(projectInstalments)
+        .where(eq(projectInstalments.projectId, projectId))
+        .orderBy(projectInstalments.sequence);
+    } catch (error) {
+      console.error('Error getting project instalments:', error);
+      return [];
+    }
+  }
+
+  async getOpenProjectInstalments(): Promise<ProjectInstalment[]> {
+    try {
+      return await db.select().from(projectInstalments).where(isNull(projectInstalments.invoiceId));
+    } catch (error) {
+      console.error('Error getting open project instalments:', error);
+      return [];
+    }
+  }
+
+  async getProjectInstalment(id: number): Promise<ProjectInstalment | undefined> {
+    try {
+      const result = await db.select().from(projectInstalments).where(eq(projectInstalments.id, id));
+      return result[0];
+    } catch (error) {
+      console.error('Error getting project instalment by ID:', error);
+      return undefined;
+    }
+  }
+
+  async createProjectInstalment(insertInstalment: InsertProjectInstalment): Promise<ProjectInstalment> {
+    try {
+      const [instalment] = await db.insert(projectInstalments)
+        .values(insertInstalment)
+        .returning();
+      return instalment;
+    } catch (error) {
+      console.error('Error creating project instalment:', error);
+      throw error;
+    }
+  }
+
+  async updateProjectInstalment(id: number, instalmentData: Partial<InsertProjectInstalment>): Promise<ProjectInstalment | undefined> {
+    try {
+      const [instalment] = await db.update(projectInstalments)
+        .set(instalmentData)
+        .where(eq(projectInstalments.id, id))
+        .returning();
+      return instalment;
+    } catch (error) {
+      console.error('Error updating project instalment:', error);
+      return undefined;
+    }
+  }
+
+  async deleteProjectInstalment(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(projectInstalments).where(eq(projectInstalments.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting project instalment:', error);
+      return false;
+    }
+  }
+
+  // Mail template methods
+  async getMailTemplates(): Promise<MailTemplate[]> {
+    try {
+      return await db.select().from(mailTemplates);
+    } catch (error) {
+      console.error('Error getting mail templates:', error);
+      return [];
+    }
+  }
+
+  async upsertMailTemplate(insertTemplate: InsertMailTemplate): Promise<MailTemplate> {
+    try {
+      const [template] = await db.insert(mailTemplates)
+        .values(insertTemplate)
+        .onConflictDoUpdate({
+          target: mailTemplates.key,
+          set: { subject: insertTemplate.subject, body: insertTemplate.body, updatedAt: new Date() },
+        })
+        .returning();
+      return template;
+    } catch (error) {
+      console.error('Error saving mail template:', error);
+      throw error;
+    }
+  }
+
+  // Invoice mail methods
+  async getInvoiceMails(invoiceId: number): Promise<InvoiceMail[]> {
+    try {
+      return await db.select().from(invoiceMails)
+        .where(eq(invoiceMails.invoiceId, invoiceId))
+        .orderBy(desc(invoiceMails.sentAt), desc(invoiceMails.id));
+    } catch (error) {
+      console.error('Error getting invoice mails:', error);
+      return [];
+    }
+  }
+
+  async createInvoiceMail(insertMail: InsertInvoiceMail): Promise<InvoiceMail> {
+    try {
+      const [mail] = await db.insert(invoiceMails)
+        .values(insertMail)
+        .returning();
+      return mail;
+    } catch (error) {
+      console.error('Error creating invoice mail:', error);
+      throw error;
+    }
+  }
+
+  // Invoice reminder (dunning) methods
+  async getInvoiceReminders(invoiceId: number): Promise<InvoiceReminder[]> {
+    try {
+      return await db.select().from(invoiceReminders)
+        .where(eq(invoiceReminders.invoiceId, invoiceId))
+        .orderBy(invoiceReminders.step);
+    } catch (error) {
+      console.error('Error getting invoice reminders:', error);
+      return [];
+    }
+  }
+
+  async createInvoiceReminder(insertReminder: InsertInvoiceReminder): Promise<InvoiceReminder> {
+    try {
+      const [reminder] = await db.insert(invoiceReminders)
+        .values(insertReminder)
+        .returning();
+      return reminder;
+    } catch (error) {
+      console.error('Error creating invoice reminder:', error);
+      throw error;
+    }
+  }
+
+  // Payment methods
+  async getAllPayments(): Promise<Payment[]> {
+    try {
+      return await db.select().from(payments);
+    } catch (error) {
+      console.error('Error getting all payments:', error);
+      return [];
+    }
+  }
+
+  async getPayments(invoiceId: number): Promise<Payment[]> {
+    try {
+      return await db.select().from(payments)
+        .where(eq(payments.invoiceId, invoiceId))
+        .orderBy(payments.date, payments.id);
+    } catch (error) {
+      console.error('Error getting payments:', error);
+      return [];
+    }
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    try {
+      const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+      return payment;
+    } catch (error) {
+      console.error('Error getting payment:', error);
+      return undefined;
+    }
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    try {
+      const [payment] = await db.insert(payments)
+        .values(insertPayment)
+        .returning();
+      return payment;
+    } catch (error) {
+      console.error('Error creating payment:', error);
+      throw error;
+    }
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(payments).where(eq(payments.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      return false;
+    }
+  }
+
+  // Matches with ILIKE, which the trigram indexes speed up, and ranks by trigram similarity
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    try {
+      const pattern = likePattern(query.q);
+      const searches = (type: SearchType, run: () => Promise<SearchResult[]>) =>
+        query.types.includes(type) ? run() : Promise.resolve([]);
+
+      const groups = await Promise.all([
+        searches("customer", async () => {
+          const rows = await db.select().from(customers)
+            .where(or(ilike(customers.name, pattern), ilike(customers.customerNumber, pattern)))
+            .orderBy(desc(similarityRank(query.q, customers.name, customers.customerNumber)), asc(customers.name))
+            .limit(query.limit);
+          return rows.map(customer => ({
+            type: "customer" as const,
+            id: customer.id,
+            title: customer.name,
+            subtitle: `${customer.customerNumber} · ${customer.city}`,
+          }));
+        }),
+        searches("workorder", async () => {
+          const conditions = [or(ilike(workOrders.orderNumber, pattern), ilike(workOrders.title, pattern))];
+          if (query.assigneeId !== undefined) {
+            conditions.push(inArray(workOrders.id, db.select({ id: workOrderAssignments.workOrderId })
+              .from(workOrderAssignments)
+              .where(eq(workOrderAssignments.userId, query.assigneeId))));
+          }
+          const rows = await db.select().from(workOrders)
+            .where(and(...conditions))
+            .orderBy(desc(similarityRank(query.q, workOrders.orderNumber, workOrders.title)), desc(workOrders.date))
+            .limit(query.limit);
+          return rows.map(workOrder => ({
+            type: "workorder" as const,
+            id: workOrder.id,
+            title: workOrder.orderNumber,
+            subtitle: workOrder.title,
+          }));
+        }),
+        searches("invoice", async () => {
+          const rows = await db.select({ invoice: invoices, customerName: customers.name })
+            .from(invoices)
+            .leftJoin(customers, eq(invoices.customerId, customers.id))
+            .where(ilike(invoices.invoiceNumber, pattern))
+            .orderBy(desc(similarityRank(query.q, invoices.invoiceNumber)), desc(invoices.date))
+            .limit(query.limit);
+          return rows.map(({ invoice, customerName }) => ({
+            type: "invoice" as const,
+            id: invoice.id,
+            title: invoice.invoiceNumber,
+            subtitle: customerName ?? undefined,
+          }));
+        }),
+        searches("material", async () => {
+          const rows = await db.select().from(materials)
+            .where(ilike(materials.articleNumber, pattern))
+            .orderBy(desc(similarityRank(query.q, materials.articleNumber)), asc(materials.articleNumber))
+            .limit(query.limit);
+          return rows.map(material => ({
+            type: "material" as const,
+            id: material.id,
+            title: material.articleNumber,
+            subtitle: material.name,
+          }));
+        }),
+      ]);
+      return groups.flat();
+    } catch (error) {
+      console.error('Error searching:', error);
+      return [];
+    }
+  }
 }
 
-// Use database storage instead of memory storage
-export const storage = new DatabaseStorage();
+// Use database storage instead of memory storage; all changes are recorded in the audit trail
+export const storage = withAuditTrail(new DatabaseStorage());
@@ -0,0 +1,72 @@
+import express, { type Express } from "express";
+import { createRequire } from "module";
+import request from "supertest";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { isTwoFactorRequired } from "@shared/permissions";
+
+// The ES module build of drizzle-kit/api cannot be loaded (it requires Node built-ins dynamically)
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// Test doubles and helpers for the server tests, which run against an in-process PostgreSQL (PGlite) with the
+// schema of shared/schema.ts. A test file swaps it in for the real database with:
+//
+//   vi.mock("./db", async () => (await import("./testing")).createTestDatabase());
+
+// Stand-in for the Neon pool: the raw queries of DatabaseStorage and the session store only use `query`
+export interface TestPool {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+}
+
+export async function createTestDatabase() {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  await client.exec("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  // Normally created by connect-pg-simple, whose table.sql PGlite cannot run as a single query
+  await client.exec(`
+    CREATE TABLE "session" ("sid" varchar PRIMARY KEY, "sess" json NOT NULL, "expire" timestamp(6) NOT NULL);
+    CREATE INDEX "IDX_session_expire" ON "session" ("expire");
+  `);
+
+  const pool: TestPool = {
+    query: (text, params) => client.query(text, params),
+  };
+  return { pool, db: drizzle(client, { schema }) };
+}
+
+// The API as served by index.ts, without Vite and the schedulers
+export async function createTestApp(): Promise<Express> {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+  return app;
+}
+
+// Creates a user and returns an agent that is logged in as that user; roles that need two-factor
+// authentication are enrolled and pass the second step as well
+export async function loginAs(app: Express, user: { username: string; role: string }) {
+  const { hashPassword } = await import("./auth");
+  const { storage } = await import("./storage");
+  const { generateTotpSecret, getTotpCode } = await import("./totp");
+  const password = "test-password";
+  const { id } = await storage.createUser({ ...user, fullName: user.username, password: await hashPassword(password) });
+
+  const agent = request.agent(app);
+  if (isTwoFactorRequired(user.role)) {
+    const secret = generateTotpSecret();
+    await storage.updateUserTwoFactor(id, { twoFactorSecret: secret, twoFactorEnabled: true, twoFactorBackupCodes: [] });
+    await agent.post("/api/login").send({ username: user.username, password }).expect(200, { twoFactorRequired: true });
+    await agent.post("/api/login/2fa").send({ code: getTotpCode(secret) }).expect(200);
+  } else {
+    await agent.post("/api/login").send({ username: user.username, password }).expect(200);
+  }
+  return agent;
+}
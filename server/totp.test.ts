@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { generateTotpSecret, getTotpCode, verifyTotp } from "./totp";
+
+describe("verifyTotp", () => {
+  const secret = generateTotpSecret();
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+  const step = Math.floor(now / 30000);
+
+  it("accepts the code of the current step and its neighbours", () => {
+    expect(verifyTotp(secret, getTotpCode(secret, now), null, now)).toBe(step);
+    expect(verifyTotp(secret, getTotpCode(secret, now - 30000), null, now)).toBe(step - 1);
+    expect(verifyTotp(secret, getTotpCode(secret, now + 30000), null, now)).toBe(step + 1);
+    expect(verifyTotp(secret, getTotpCode(secret, now - 60000), null, now)).toBeNull();
+  });
+
+  it("rejects codes of steps up to the last accepted one", () => {
+    const code = getTotpCode(secret, now);
+    expect(verifyTotp(secret, code, step, now)).toBeNull();
+    expect(verifyTotp(secret, code, step + 1, now)).toBeNull();
+    expect(verifyTotp(secret, code, step - 1, now)).toBe(step);
+  });
+});
@@ -0,0 +1,97 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps: SHA-1, 6 digits, 30 second steps
+
+const ISSUER = "PlanningSync";
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (let i = 0; i < cleaned.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(cleaned[i]);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return binary.toString().padStart(DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// The code an authenticator app shows at the given time
+export function getTotpCode(secret: string, now = Date.now()): string {
+  return generateCode(base32Decode(secret), Math.floor(now / 1000 / STEP_SECONDS));
+}
+
+// Accepts the code of the current step and of one step before and after, to allow for clock drift, and returns
+// the step of the code or null. A code can only be used once: steps up to the last accepted one are rejected.
+export function verifyTotp(secret: string, code: string, lastStep: number | null, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const step = Math.floor(now / 1000 / STEP_SECONDS);
+  for (const drift of [-1, 0, 1]) {
+    if ((lastStep === null || step + drift > lastStep) && generateCode(key, step + drift) === normalized) {
+      return step + drift;
+    }
+  }
+  return null;
+}
+
+// URL encoded in the QR code that authenticator apps scan during enrolment
+export function getOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
+
+// Single-use codes for when the authenticator app is unavailable, formatted as xxxx-xxxx
+export function generateBackupCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(4).toString("hex");
+    return `${code.substring(0, 4)}-${code.substring(4)}`;
+  });
+}
+
+// Backup codes are random, so a plain SHA-256 hash is sufficient for storing them
+export function hashBackupCode(code: string): string {
+  return createHash("sha256").update(code.toLowerCase().replace(/[^0-9a-f]/g, "")).digest("hex");
+}
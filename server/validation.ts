@@ -0,0 +1,45 @@
+import type { NextFunction, Request, Response } from "express";
+import { z, type ZodError, type ZodTypeAny } from "zod";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "@shared/pagination";
+
+// Body of a 400 response for invalid input. `errors` maps the path of every invalid field
+// (e.g. "email" or "items.0.price") to its message, so forms can show it next to the input.
+export interface ValidationErrorResponse {
+  message: string;
+  errors: Record<string, string>;
+}
+
+export function formatValidationError(error: ZodError): ValidationErrorResponse {
+  const errors: Record<string, string> = {};
+  error.errors.forEach(issue => {
+    const path = issue.path.join(".");
+    if (!(path in errors)) errors[path] = issue.message;
+  });
+
+  return { message: error.errors[0].message, errors };
+}
+
+// Replaces req.body with the parsed body, or responds with 400 when it does not match the schema.
+// Fields that are not part of the schema are dropped.
+export function validateBody(schema: ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json(formatValidationError(result.error));
+    }
+    req.body = result.data;
+    next();
+  };
+}
+
+// Query parameters shared by the paged list endpoints; `sort` must name one of the sortable fields
+export function listQuerySchema(sortFields: readonly string[]) {
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    sort: z.string()
+      .refine(sort => sortFields.includes(sort.replace(/^-/, "")), `Sort must be one of: ${sortFields.join(", ")}`)
+      .optional(),
+    q: z.string().trim().optional().transform(q => q || undefined),
+  });
+}
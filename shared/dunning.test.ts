@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DUNNING_DAYS, getCollectionCosts, getNextDunningStep } from "./dunning";
+
+describe("getCollectionCosts", () => {
+  it.each([
+    [100, 40], // Minimum
+    [1000, 150], // 15%
+    [3000, 425], // 15% of 2500 and 10% of the rest
+    [300000, 3275], // Every band up to 0.5% over 200000
+    [2000000, 6775], // Maximum
+  ])("charges over a principal of %d: %d", (principal, costs) => {
+    expect(getCollectionCosts(principal)).toBe(costs);
+  });
+
+  it("charges nothing when nothing is owed", () => {
+    expect(getCollectionCosts(0)).toBe(0);
+  });
+});
+
+describe("getNextDunningStep", () => {
+  const day = (date: string) => new Date(`${date}T09:00:00`);
+  const dueDate = day("2026-03-01");
+
+  it("waits for the days after the due date of the first step", () => {
+    expect(getNextDunningStep(dueDate, [], DEFAULT_DUNNING_DAYS, day("2026-03-07"))).toBeNull();
+    expect(getNextDunningStep(dueDate, [], DEFAULT_DUNNING_DAYS, day("2026-03-08"))).toBe(1);
+  });
+
+  it("continues with the step after the last one sent", () => {
+    const reminders = [{ step: 1, createdAt: day("2026-03-08") }];
+    expect(getNextDunningStep(dueDate, reminders, DEFAULT_DUNNING_DAYS, day("2026-03-21"))).toBeNull();
+    expect(getNextDunningStep(dueDate, reminders, DEFAULT_DUNNING_DAYS, day("2026-03-22"))).toBe(2);
+  });
+
+  it("gives the customer the full interval when the previous step was sent late", () => {
+    const reminders = [{ step: 1, createdAt: day("2026-03-20") }];
+    expect(getNextDunningStep(dueDate, reminders, DEFAULT_DUNNING_DAYS, day("2026-04-02"))).toBeNull();
+    expect(getNextDunningStep(dueDate, reminders, DEFAULT_DUNNING_DAYS, day("2026-04-03"))).toBe(2);
+  });
+
+  it("stops after the final notice", () => {
+    const reminders = [1, 2, 3].map(step => ({ step, createdAt: day("2026-04-05") }));
+    expect(getNextDunningStep(dueDate, reminders, DEFAULT_DUNNING_DAYS, day("2026-12-01"))).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { addDays, startOfDay } from "date-fns";
+import type { InvoiceReminder } from "./schema";
+import type { MailTemplateKey } from "./mailTemplates";
+
+// Dunning sequence of an overdue invoice: the mail template (and letter) of each step. The final notice is the
+// "veertiendagenbrief" that announces the statutory collection costs.
+export const DUNNING_STEPS: MailTemplateKey[] = ["reminder", "secondReminder", "finalNotice"];
+
+// Days after the due date on which each step is sent
+export const DEFAULT_DUNNING_DAYS = [7, 21, 35];
+
+// Bands of the Besluit vergoeding voor buitengerechtelijke incassokosten (WIK): a percentage of each part of the principal
+const COLLECTION_COST_BANDS = [
+  { upTo: 2500, percentage: 15 },
+  { upTo: 5000, percentage: 10 },
+  { upTo: 10000, percentage: 5 },
+  { upTo: 200000, percentage: 1 },
+  { upTo: Infinity, percentage: 0.5 },
+];
+const MIN_COLLECTION_COSTS = 40;
+const MAX_COLLECTION_COSTS = 6775;
+
+export function getDunningTemplateKey(step: number): MailTemplateKey {
+  return DUNNING_STEPS[step - 1];
+}
+
+// Statutory collection costs over an unpaid amount, excl. VAT
+export function getCollectionCosts(principal: number): number {
+  if (principal <= 0) return 0;
+  let lowerBound = 0;
+  const costs = COLLECTION_COST_BANDS.reduce((sum, band) => {
+    const part = Math.max(0, Math.min(principal, band.upTo) - lowerBound);
+    lowerBound = band.upTo;
+    return sum + part * band.percentage / 100;
+  }, 0);
+  return Math.round(Math.min(Math.max(costs, MIN_COLLECTION_COSTS), MAX_COLLECTION_COSTS) * 100) / 100;
+}
+
+// The step that is due for an overdue invoice, or null. A step waits for its day after the due date and, when the
+// previous step was sent late, for the same interval after that step, so a customer always gets time to pay.
+export function getNextDunningStep(
+  dueDate: Date | string,
+  reminders: Pick<InvoiceReminder, "step" | "createdAt">[],
+  dunningDays: number[],
+  now = new Date(),
+): number | null {
+  const previous = reminders.reduce<Pick<InvoiceReminder, "step" | "createdAt"> | undefined>(
+    (latest, reminder) => !latest || reminder.step > latest.step ? reminder : latest, undefined);
+  const step = (previous?.step ?? 0) + 1;
+  if (step > DUNNING_STEPS.length) return null;
+
+  const dueAt = addDays(startOfDay(new Date(dueDate)), dunningDays[step - 1]);
+  const afterPrevious = previous
+    ? addDays(startOfDay(new Date(previous.createdAt)), dunningDays[step - 1] - dunningDays[step - 2])
+    : dueAt;
+  return now >= dueAt && now >= afterPrevious ? step : null;
+}
@@ -0,0 +1,122 @@
+import type { WorkOrder, WorkOrderDependency } from "./schema";
+import type { ProjectWithProgress } from "./projects";
+import { getWorkOrderInterval } from "./planning";
+
+// Gantt planning of the work orders of a project with finish-to-start dependencies.
+// Cancelled work orders are left out; completed work orders are never moved.
+
+type Dependency = Pick<WorkOrderDependency, "workOrderId" | "dependsOnId">;
+type ScheduledWorkOrder = Pick<WorkOrder, "id" | "status" | "date" | "endDate" | "estimatedHours" | "laborHours">;
+
+export interface GanttTask {
+  id: number;
+  orderNumber: string;
+  title: string;
+  status: string;
+  start: string; // ISO date
+  end: string; // ISO date
+}
+
+export interface GanttData {
+  project: ProjectWithProgress;
+  tasks: GanttTask[];
+  dependencies: Dependency[];
+  criticalPath: number[]; // Ids of the work orders without slack
+}
+
+export interface ScheduleChange {
+  id: number;
+  date: Date;
+  endDate: Date;
+}
+
+function isScheduled(workOrder: Pick<WorkOrder, "status">): boolean {
+  return workOrder.status !== "Geannuleerd";
+}
+
+// Whether adding "workOrderId depends on dependsOnId" would make a work order (indirectly) depend on itself
+export function createsCycle(dependencies: Dependency[], workOrderId: number, dependsOnId: number): boolean {
+  if (workOrderId === dependsOnId) return true;
+  // Walk the predecessors of dependsOnId; reaching workOrderId means it already depends on workOrderId
+  const stack = [dependsOnId];
+  const visited = new Set<number>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === workOrderId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies.filter(dependency => dependency.workOrderId === current).forEach(dependency => stack.push(dependency.dependsOnId));
+  }
+  return false;
+}
+
+// Work orders in an order in which every work order comes after the ones it depends on
+function topologicalOrder<T extends { id: number }>(workOrders: T[], dependencies: Dependency[]): T[] {
+  const byId = new Map(workOrders.map(workOrder => [workOrder.id, workOrder]));
+  const ordered: T[] = [];
+  const visited = new Set<number>();
+
+  const visit = (workOrder: T) => {
+    if (visited.has(workOrder.id)) return;
+    visited.add(workOrder.id);
+    dependencies
+      .filter(dependency => dependency.workOrderId === workOrder.id)
+      .forEach(dependency => {
+        const predecessor = byId.get(dependency.dependsOnId);
+        if (predecessor) visit(predecessor);
+      });
+    ordered.push(workOrder);
+  };
+
+  workOrders.forEach(visit);
+  return ordered;
+}
+
+// New start and end of every work order that starts before one of its predecessors has finished. The work
+// order is moved to the latest finish of its predecessors and keeps its duration; moves ripple through
+// to the work orders that depend on it. Work orders that can start earlier are not pulled forward.
+export function getScheduleChanges(workOrders: ScheduledWorkOrder[], dependencies: Dependency[]): ScheduleChange[] {
+  const scheduled = workOrders.filter(isScheduled);
+  const intervals = new Map(scheduled.map(workOrder => [workOrder.id, getWorkOrderInterval(workOrder)]));
+  const changes: ScheduleChange[] = [];
+
+  topologicalOrder(scheduled, dependencies).forEach(workOrder => {
+    const interval = intervals.get(workOrder.id)!;
+    const earliestStart = Math.max(...dependencies
+      .filter(dependency => dependency.workOrderId === workOrder.id)
+      .map(dependency => intervals.get(dependency.dependsOnId)?.end.getTime() ?? 0));
+    if (workOrder.status === "Voltooid" || earliestStart <= interval.start.getTime()) return;
+
+    const shift = earliestStart - interval.start.getTime();
+    const moved = { start: new Date(earliestStart), end: new Date(interval.end.getTime() + shift) };
+    intervals.set(workOrder.id, moved);
+    changes.push({ id: workOrder.id, date: moved.start, endDate: moved.end });
+  });
+
+  return changes;
+}
+
+// Critical path method: the work orders whose latest allowed start, counted back from the end of the
+// project's last work order through their successors, equals their planned start. Any delay of these
+// delays the whole project.
+export function getCriticalPath(workOrders: ScheduledWorkOrder[], dependencies: Dependency[]): number[] {
+  const scheduled = workOrders.filter(isScheduled);
+  if (scheduled.length === 0) return [];
+
+  const intervals = new Map(scheduled.map(workOrder => [workOrder.id, getWorkOrderInterval(workOrder)]));
+  const projectEnd = Math.max(...Array.from(intervals.values()).map(interval => interval.end.getTime()));
+  const latestStart = new Map<number, number>();
+
+  topologicalOrder(scheduled, dependencies).reverse().forEach(workOrder => {
+    const interval = intervals.get(workOrder.id)!;
+    const successorStarts = dependencies
+      .filter(dependency => dependency.dependsOnId === workOrder.id && latestStart.has(dependency.workOrderId))
+      .map(dependency => latestStart.get(dependency.workOrderId)!);
+    const latestFinish = Math.min(projectEnd, ...successorStarts);
+    latestStart.set(workOrder.id, latestFinish - (interval.end.getTime() - interval.start.getTime()));
+  });
+
+  return scheduled
+    .filter(workOrder => latestStart.get(workOrder.id)! <= intervals.get(workOrder.id)!.start.getTime())
+    .map(workOrder => workOrder.id);
+}
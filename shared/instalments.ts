@@ -0,0 +1,41 @@
+import type { ProjectInstalment, WorkOrder } from "./schema";
+
+// Instalment invoicing (termijnfacturen): the quoted price of a project is invoiced in terms, each a
+// percentage of the price, on a date or when its milestone work order is completed.
+
+export const INVOICE_PAYMENT_DAYS = 30;
+
+export type ProjectInstalmentWithAmount = ProjectInstalment & {
+  amount: number | null; // Share of the quoted price; null while the project has no price
+};
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Whether the percentages of all terms together add up to the whole quoted price
+export function isCompleteSchedule(percentages: number[]): boolean {
+  return Math.abs(percentages.reduce((sum, percentage) => sum + percentage, 0) - 100) < 0.01;
+}
+
+// Amount of every term; the last term gets what is left after rounding, so the terms add up to the price exactly
+export function getInstalmentAmounts(price: number | null, instalments: ProjectInstalment[]): ProjectInstalmentWithAmount[] {
+  const ordered = [...instalments].sort((a, b) => a.sequence - b.sequence);
+  let remaining = price ?? 0;
+  return ordered.map((instalment, index) => {
+    if (price == null) return { ...instalment, amount: null };
+    const amount = index === ordered.length - 1 && isCompleteSchedule(ordered.map(i => i.percentage))
+      ? roundAmount(remaining)
+      : roundAmount(price * instalment.percentage / 100);
+    remaining -= amount;
+    return { ...instalment, amount };
+  });
+}
+
+export function isInstalmentDue(
+  instalment: ProjectInstalment,
+  milestone: Pick<WorkOrder, "status"> | undefined,
+  now = new Date(),
+): boolean {
+  if (instalment.invoiceId !== null) return false;
+  if (instalment.milestoneWorkOrderId !== null) return milestone?.status === "Voltooid";
+  return instalment.dueDate !== null && new Date(instalment.dueDate) <= now;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { getInvoiceLines, getInvoiceSubtotal, getInvoiceTotals, type InvoiceLine } from "./invoices";
+
+const line = (price: number, vatRate: InvoiceLine["vatRate"] = "21", quantity = 1): InvoiceLine =>
+  ({ description: "Werkzaamheden", quantity, price, vatRate });
+
+describe("getInvoiceTotals", () => {
+  it("totals the lines per VAT rate", () => {
+    expect(getInvoiceTotals([line(100), line(50, "9"), line(25, "21", 2)])).toEqual({
+      subtotal: 200,
+      vat: [{ vatRate: "21", base: 150, vat: 31.5 }, { vatRate: "9", base: 50, vat: 4.5 }],
+      vatTotal: 36,
+      total: 236,
+      reverseCharge: false,
+    });
+  });
+
+  it("rounds the VAT once per rate instead of per line", () => {
+    // Per line 0.0147 would round to 0.01 three times
+    const totals = getInvoiceTotals([line(0.07), line(0.07), line(0.07)]);
+    expect(totals.vat).toEqual([{ vatRate: "21", base: 0.21, vat: 0.04 }]);
+    expect(totals.total).toBe(0.25);
+  });
+
+  it("rounds every line total to cents", () => {
+    expect(getInvoiceTotals([line(0.333, "21", 3)]).subtotal).toBe(1);
+  });
+
+  it("charges no VAT on reverse-charged lines and marks the invoice", () => {
+    const totals = getInvoiceTotals([line(1000, "verlegd"), line(200, "vrijgesteld")]);
+    expect(totals).toMatchObject({ subtotal: 1200, vatTotal: 0, total: 1200, reverseCharge: true });
+    expect(totals.vat.map(summary => summary.vatRate)).toEqual(["verlegd", "vrijgesteld"]);
+  });
+});
+
+describe("getInvoiceLines", () => {
+  it("charges the default rate on lines stored without a VAT rate", () => {
+    expect(getInvoiceLines([{ description: "Tegels", quantity: "2", price: 10 }]))
+      .toEqual([{ description: "Tegels", quantity: 2, price: 10, vatRate: "21" }]);
+  });
+});
+
+describe("getInvoiceSubtotal", () => {
+  it("uses the amount of an invoice without lines", () => {
+    expect(getInvoiceSubtotal({ amount: 121, items: null })).toBe(121);
+    expect(getInvoiceSubtotal({ amount: 121, items: [line(100)] })).toBe(100);
+  });
+});
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import type { Invoice } from "./schema";
+
+// Dutch VAT (BTW) per invoice line. Reverse-charged (verlegd) VAT is paid by the business customer instead of
+// on the invoice; exempt (vrijgesteld) lines fall outside VAT altogether.
+export const VAT_RATES = ["21", "9", "0", "verlegd", "vrijgesteld"] as const;
+export type VatRate = typeof VAT_RATES[number];
+
+export const DEFAULT_VAT_RATE: VatRate = "21";
+
+export const VAT_RATE_LABELS: Record<VatRate, string> = {
+  "21": "21%",
+  "9": "9%",
+  "0": "0%",
+  verlegd: "BTW verlegd",
+  vrijgesteld: "Vrijgesteld",
+};
+
+const VAT_PERCENTAGES: Record<VatRate, number> = {
+  "21": 21,
+  "9": 9,
+  "0": 0,
+  verlegd: 0,
+  vrijgesteld: 0,
+};
+
+// Notice that is mandatory on an invoice with reverse-charged VAT
+export const REVERSE_CHARGE_NOTICE = "BTW verlegd naar de afnemer (art. 12 lid 3 Wet OB)";
+
+export const invoiceLineSchema = z.object({
+  description: z.string().min(1),
+  quantity: z.number(),
+  price: z.number(), // Per unit, excl. VAT
+  vatRate: z.enum(VAT_RATES).default(DEFAULT_VAT_RATE),
+});
+
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+
+export interface VatSummary {
+  vatRate: VatRate;
+  base: number; // Total of the lines with this rate, excl. VAT
+  vat: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number; // Excl. VAT
+  vat: VatSummary[]; // Per rate, in the order of VAT_RATES
+  vatTotal: number;
+  total: number; // Incl. VAT; the amount of the invoice
+  reverseCharge: boolean;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Lines as stored in invoices.items; lines from before VAT rates were recorded are charged the default rate
+export function getInvoiceLines(items: unknown): InvoiceLine[] {
+  if (!Array.isArray(items)) return [];
+  return items.map(item => ({
+    description: item?.description ?? "",
+    quantity: Number(item?.quantity) || 0,
+    price: Number(item?.price) || 0,
+    vatRate: VAT_RATES.includes(item?.vatRate) ? item.vatRate : DEFAULT_VAT_RATE,
+  }));
+}
+
+export function getInvoiceLineTotal(line: Pick<InvoiceLine, "quantity" | "price">): number {
+  return roundAmount(line.quantity * line.price);
+}
+
+// VAT is calculated per rate over the total of its lines, so rounding happens once per rate
+export function getInvoiceTotals(lines: InvoiceLine[]): InvoiceTotals {
+  const vat = VAT_RATES
+    .filter(vatRate => lines.some(line => line.vatRate === vatRate))
+    .map(vatRate => {
+      const base = roundAmount(lines
+        .filter(line => line.vatRate === vatRate)
+        .reduce((sum, line) => sum + getInvoiceLineTotal(line), 0));
+      return { vatRate, base, vat: roundAmount(base * VAT_PERCENTAGES[vatRate] / 100) };
+    });
+  const subtotal = roundAmount(vat.reduce((sum, summary) => sum + summary.base, 0));
+  const vatTotal = roundAmount(vat.reduce((sum, summary) => sum + summary.vat, 0));
+
+  return {
+    subtotal,
+    vat,
+    vatTotal,
+    total: roundAmount(subtotal + vatTotal),
+    reverseCharge: lines.some(line => line.vatRate === "verlegd"),
+  };
+}
+
+// Revenue of an invoice excl. VAT; invoices without lines only have their amount
+export function getInvoiceSubtotal(invoice: Pick<Invoice, "amount" | "items">): number {
+  const lines = getInvoiceLines(invoice.items);
+  return lines.length > 0 ? getInvoiceTotals(lines).subtotal : invoice.amount;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { renderMailTemplate } from "./mailTemplates";
+
+describe("renderMailTemplate", () => {
+  it("fills in the known placeholders and leaves the unknown ones", () => {
+    expect(renderMailTemplate("Factuur {{ invoiceNumber }} van {{customerName}}: {{onbekend}}", {
+      invoiceNumber: "F-2026-0001",
+      customerName: "Jansen",
+    })).toBe("Factuur F-2026-0001 van Jansen: {{onbekend}}");
+  });
+
+  it("does not fill in properties of the object prototype", () => {
+    expect(renderMailTemplate("{{constructor}} {{toString}} {{__proto__}}", {}))
+      .toBe("{{constructor}} {{toString}} {{__proto__}}");
+  });
+});
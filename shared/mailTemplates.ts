@@ -0,0 +1,91 @@
+// E-mails to customers are rendered from templates with {{placeholders}}. The templates can be edited;
+// until then the defaults below are used.
+
+export const MAIL_TEMPLATE_KEYS = ["invoice", "reminder", "secondReminder", "finalNotice"] as const;
+export type MailTemplateKey = typeof MAIL_TEMPLATE_KEYS[number];
+
+export const MAIL_TEMPLATE_LABELS: Record<MailTemplateKey, string> = {
+  invoice: "Factuur",
+  reminder: "Betalingsherinnering",
+  secondReminder: "Tweede herinnering",
+  finalNotice: "Laatste aanmaning",
+};
+
+// Values available in every template, with a description for the editor
+export const MAIL_PLACEHOLDERS = {
+  invoiceNumber: "Factuurnummer",
+  invoiceDate: "Factuurdatum",
+  dueDate: "Vervaldatum",
+  amount: "Factuurbedrag (incl. BTW)",
+  openBalance: "Nog te betalen bedrag",
+  customerName: "Naam van de klant",
+  companyName: "Naam van het bedrijf",
+  collectionCosts: "Incassokosten (WIK) over het nog te betalen bedrag",
+} as const;
+
+export type MailPlaceholderValues = Record<keyof typeof MAIL_PLACEHOLDERS, string>;
+
+export interface MailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export const DEFAULT_MAIL_TEMPLATES: Record<MailTemplateKey, MailTemplateContent> = {
+  invoice: {
+    subject: "Factuur {{invoiceNumber}} van {{companyName}}",
+    body: [
+      "Beste {{customerName}},",
+      "",
+      "In de bijlage vindt u factuur {{invoiceNumber}} van {{invoiceDate}} voor een bedrag van {{amount}}. Wij verzoeken u dit bedrag vóór {{dueDate}} te voldoen.",
+      "",
+      "Met vriendelijke groet,",
+      "{{companyName}}",
+    ].join("\n"),
+  },
+  reminder: {
+    subject: "Herinnering: factuur {{invoiceNumber}} van {{companyName}}",
+    body: [
+      "Beste {{customerName}},",
+      "",
+      "Volgens onze administratie is factuur {{invoiceNumber}} van {{invoiceDate}} voor een bedrag van {{amount}} nog niet (volledig) betaald. Er staat nog {{openBalance}} open; de vervaldatum was {{dueDate}}. De factuur vindt u nogmaals in de bijlage.",
+      "",
+      "Wij verzoeken u het openstaande bedrag zo spoedig mogelijk te voldoen. Heeft u inmiddels betaald, dan kunt u deze herinnering als niet verzonden beschouwen.",
+      "",
+      "Met vriendelijke groet,",
+      "{{companyName}}",
+    ].join("\n"),
+  },
+  secondReminder: {
+    subject: "Tweede herinnering: factuur {{invoiceNumber}} van {{companyName}}",
+    body: [
+      "Beste {{customerName}},",
+      "",
+      "Onlangs stuurden wij u een herinnering voor factuur {{invoiceNumber}} van {{invoiceDate}} voor een bedrag van {{amount}}. Tot op heden hebben wij uw betaling niet (volledig) ontvangen; er staat nog {{openBalance}} open. De vervaldatum was {{dueDate}}.",
+      "",
+      "Wij verzoeken u dringend het openstaande bedrag binnen 7 dagen te voldoen. Heeft u inmiddels betaald, dan kunt u deze herinnering als niet verzonden beschouwen.",
+      "",
+      "Met vriendelijke groet,",
+      "{{companyName}}",
+    ].join("\n"),
+  },
+  finalNotice: {
+    subject: "Laatste aanmaning: factuur {{invoiceNumber}} van {{companyName}}",
+    body: [
+      "Beste {{customerName}},",
+      "",
+      "Ondanks eerdere herinneringen hebben wij de betaling van factuur {{invoiceNumber}} van {{invoiceDate}} voor een bedrag van {{amount}} nog niet (volledig) ontvangen; er staat nog {{openBalance}} open. De vervaldatum was {{dueDate}}.",
+      "",
+      "Wij sommeren u het openstaande bedrag binnen 14 dagen na ontvangst van deze aanmaning te voldoen. Betaalt u niet binnen deze termijn, dan zijn wij genoodzaakt de vordering uit handen te geven en bent u daarnaast buitengerechtelijke incassokosten verschuldigd van {{collectionCosts}}, berekend volgens het Besluit vergoeding voor buitengerechtelijke incassokosten.",
+      "",
+      "Met vriendelijke groet,",
+      "{{companyName}}",
+    ].join("\n"),
+  },
+};
+
+// Replaces the known {{placeholders}}; unknown ones are left as they are, so a typo stays visible. Only own
+// values count, so e.g. {{constructor}} is not filled in from the object prototype.
+export function renderMailTemplate(text: string, values: Partial<Record<string, string>>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    (Object.hasOwn(values, name) ? values[name] : undefined) ?? placeholder);
+}
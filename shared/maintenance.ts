@@ -0,0 +1,49 @@
+import { addMonths } from "date-fns";
+import type { MaintenanceContract } from "./schema";
+
+export const CONTRACT_INTERVALS = [
+  { months: 1, label: "Maandelijks" },
+  { months: 3, label: "Per kwartaal" },
+  { months: 6, label: "Halfjaarlijks" },
+  { months: 12, label: "Jaarlijks" },
+];
+
+export const CONTRACT_STATUSES = ["Actief", "Gepauzeerd", "Beëindigd"] as const;
+
+type ContractSchedule = Pick<MaintenanceContract, "startDate" | "endDate" | "intervalMonths">;
+
+// Date of the n-th visit (0 = start date). Always computed from the start date so that
+// month-end dates do not drift (31 jan -> 28 feb -> 31 mrt).
+export function getContractOccurrence(contract: ContractSchedule, index: number): Date {
+  return addMonths(new Date(contract.startDate), contract.intervalMonths * index);
+}
+
+// Returns all visits after `after` (exclusive) up to and including `until`, limited by the contract end date
+export function getContractOccurrences(contract: ContractSchedule, after: Date | null, until: Date): Date[] {
+  const occurrences: Date[] = [];
+  const end = contract.endDate ? new Date(contract.endDate) : null;
+
+  for (let index = 0; ; index++) {
+    const occurrence = getContractOccurrence(contract, index);
+    if (occurrence > until || (end && occurrence > end)) break;
+    if (!after || occurrence > after) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+// The first visit after `after` that has not been planned yet, or null when the contract has ended
+export function getNextContractOccurrence(contract: ContractSchedule, after: Date | null): Date | null {
+  const end = contract.endDate ? new Date(contract.endDate) : null;
+
+  for (let index = 0; ; index++) {
+    const occurrence = getContractOccurrence(contract, index);
+    if (end && occurrence > end) return null;
+    if (!after || occurrence > after) return occurrence;
+  }
+}
+
+export function getIntervalLabel(intervalMonths: number): string {
+  return CONTRACT_INTERVALS.find(interval => interval.months === intervalMonths)?.label
+    ?? `Elke ${intervalMonths} maanden`;
+}
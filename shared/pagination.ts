@@ -0,0 +1,70 @@
+// Paging, sorting and filtering of the list endpoints. A list endpoint returns a Page when the request
+// has a `page` parameter, and the plain array of all rows otherwise (for lookups and dropdowns).
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  total: number; // Number of rows matching the filters, over all pages
+  page: number;
+  pageSize: number;
+}
+
+export interface ListQuery {
+  page: number;
+  pageSize: number;
+  sort?: string; // Field to sort on; a leading "-" sorts descending, e.g. "-date"
+  q?: string; // Free text search
+}
+
+export interface WorkOrderListQuery extends ListQuery {
+  status?: string;
+  customerId?: number;
+  assigneeId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface CustomerListQuery extends ListQuery {
+  status?: string;
+  type?: string;
+}
+
+export const STOCK_STATUSES = ["in-stock", "low-stock", "out-of-stock"] as const;
+
+export interface MaterialListQuery extends ListQuery {
+  category?: string;
+  supplier?: string;
+  stock?: typeof STOCK_STATUSES[number];
+}
+
+export interface InvoiceListQuery extends ListQuery {
+  status?: string;
+  customerId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export const WORK_ORDER_SORT_FIELDS = ["date", "orderNumber", "title", "status", "createdAt"] as const;
+export const CUSTOMER_SORT_FIELDS = ["name", "customerNumber", "city", "createdAt"] as const;
+export const MATERIAL_SORT_FIELDS = ["name", "articleNumber", "category", "price", "stock"] as const;
+export const INVOICE_SORT_FIELDS = ["date", "dueDate", "invoiceNumber", "amount", "status"] as const;
+
+export function parseSort(sort: string | undefined): { field?: string; descending: boolean } {
+  if (!sort) return { descending: false };
+  return sort.startsWith("-")
+    ? { field: sort.slice(1), descending: true }
+    : { field: sort, descending: false };
+}
+
+// Rows of one page of an already filtered and sorted list; used by the in-memory storage
+export function paginate<T>(rows: T[], query: ListQuery): Page<T> {
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: rows.slice(start, start + query.pageSize),
+    total: rows.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
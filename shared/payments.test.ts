@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Invoice, Payment } from "./schema";
+import { getCustomerStatement, getInvoiceBalance, getPaymentStatus } from "./payments";
+
+const now = new Date("2026-04-15T12:00:00");
+
+const invoice = (fields: Partial<Invoice> = {}): Invoice => ({
+  id: 1,
+  invoiceNumber: "F-2026-0001",
+  customerId: 1,
+  workOrderId: null,
+  projectId: null,
+  date: new Date("2026-03-01T12:00:00"),
+  dueDate: new Date("2026-03-31T12:00:00"),
+  amount: 121,
+  status: "Verzonden",
+  items: [],
+  createdAt: new Date("2026-03-01T12:00:00"),
+  ...fields,
+});
+
+const payment = (amount: number, invoiceId = 1): Payment => ({
+  id: 1, invoiceId, date: now, amount, method: "bank", reference: null, createdAt: now,
+});
+
+describe("getInvoiceBalance", () => {
+  it("rounds the paid amount and the balance to cents", () => {
+    expect(getInvoiceBalance({ amount: 0.3 }, [payment(0.1), payment(0.1)])).toEqual({ paid: 0.2, openBalance: 0.1 });
+  });
+});
+
+describe("getPaymentStatus", () => {
+  it("keeps the status of a partly paid invoice", () => {
+    expect(getPaymentStatus(invoice(), [payment(100)], now)).toBe("Verzonden");
+    expect(getPaymentStatus(invoice({ status: "Te laat" }), [payment(100)], now)).toBe("Te laat");
+  });
+
+  it("marks a fully paid or overpaid invoice as paid", () => {
+    expect(getPaymentStatus(invoice(), [payment(100), payment(21)], now)).toBe("Betaald");
+    expect(getPaymentStatus(invoice({ status: "Te laat" }), [payment(150)], now)).toBe("Betaald");
+  });
+
+  it("reopens a paid invoice whose payment was deleted", () => {
+    const paid = invoice({ status: "Betaald" });
+    expect(getPaymentStatus(paid, [], now)).toBe("Te laat");
+    expect(getPaymentStatus(paid, [payment(21)], new Date("2026-03-20T12:00:00"))).toBe("Verzonden");
+  });
+
+  it("does not mark a concept without payments as paid", () => {
+    expect(getPaymentStatus(invoice({ status: "Concept", amount: 0 }), [], now)).toBe("Concept");
+  });
+});
+
+describe("getCustomerStatement", () => {
+  it("lists the open sent invoices of the customer, oldest first", () => {
+    const invoices = [
+      invoice({ id: 1, invoiceNumber: "F-2026-0002", date: new Date("2026-03-10T12:00:00"), dueDate: new Date("2026-04-30T12:00:00") }),
+      invoice({ id: 2, invoiceNumber: "F-2026-0001" }),
+      invoice({ id: 3, status: "Concept" }),
+      invoice({ id: 4, status: "Betaald" }),
+      invoice({ id: 5, customerId: 2 }),
+    ];
+    const payments = [payment(21, 2), payment(121, 4)];
+
+    const statement = getCustomerStatement(1, invoices, payments, now);
+    expect(statement.items.map(item => [item.invoiceNumber, item.paid, item.openBalance, item.daysOverdue])).toEqual([
+      ["F-2026-0001", 21, 100, 15],
+      ["F-2026-0002", 0, 121, 0],
+    ]);
+    expect(statement.totalOpen).toBe(221);
+  });
+
+  it("keeps overpaid invoices as a negative balance", () => {
+    const statement = getCustomerStatement(1, [invoice({ status: "Betaald" })], [payment(131)], now);
+    expect(statement.items.map(item => item.openBalance)).toEqual([-10]);
+    expect(statement.totalOpen).toBe(-10);
+  });
+});
@@ -0,0 +1,82 @@
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import type { Invoice, Payment } from "./schema";
+
+export const PAYMENT_METHODS = ["bank", "pin", "contant"] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank: "Bank",
+  pin: "Pin",
+  contant: "Contant",
+};
+
+export interface InvoiceBalance {
+  paid: number;
+  openBalance: number; // Negative when more than the amount was paid
+}
+
+// An open item on the statement of a customer: an invoice that is not (exactly) paid
+export interface CustomerStatementItem extends InvoiceBalance {
+  invoiceId: number;
+  invoiceNumber: string;
+  date: Date;
+  dueDate: Date;
+  status: string;
+  amount: number;
+  daysOverdue: number; // 0 when not yet due
+}
+
+export interface CustomerStatement {
+  customerId: number;
+  items: CustomerStatementItem[]; // Oldest first
+  totalOpen: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getInvoiceBalance(invoice: Pick<Invoice, "amount">, payments: Pick<Payment, "amount">[]): InvoiceBalance {
+  const paid = roundAmount(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  return { paid, openBalance: roundAmount(invoice.amount - paid) };
+}
+
+// The status that follows from the payments: a fully paid invoice is Betaald; an invoice that is no longer fully
+// paid (a payment was removed or the amount raised) goes back to Verzonden or, past its due date, Te laat.
+// Other statuses are not affected by partial payments.
+export function getPaymentStatus(
+  invoice: Pick<Invoice, "amount" | "status" | "dueDate">,
+  payments: Pick<Payment, "amount">[],
+  now = new Date(),
+): string {
+  if (payments.length > 0 && getInvoiceBalance(invoice, payments).openBalance <= 0) return "Betaald";
+  if (invoice.status !== "Betaald") return invoice.status;
+  return new Date(invoice.dueDate) < startOfDay(now) ? "Te laat" : "Verzonden";
+}
+
+// Sent invoices whose balance is not zero, with the payments of the customer; concepts are not owed yet
+export function getCustomerStatement(
+  customerId: number,
+  invoices: Invoice[],
+  payments: Payment[],
+  now = new Date(),
+): CustomerStatement {
+  const items = invoices
+    .filter(invoice => invoice.customerId === customerId && invoice.status !== "Concept")
+    .map(invoice => ({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      date: invoice.date,
+      dueDate: invoice.dueDate,
+      status: invoice.status,
+      amount: invoice.amount,
+      ...getInvoiceBalance(invoice, payments.filter(payment => payment.invoiceId === invoice.id)),
+      daysOverdue: Math.max(0, differenceInCalendarDays(now, new Date(invoice.dueDate))),
+    }))
+    .filter(item => item.openBalance !== 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return {
+    customerId,
+    items,
+    totalOpen: roundAmount(items.reduce((sum, item) => sum + item.openBalance, 0)),
+  };
+}
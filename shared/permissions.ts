@@ -0,0 +1,58 @@
+// Role based permission model, shared by the API (enforcement) and the client (hiding actions)
+
+export const ROLES = ["monteur", "beheerder"] as const;
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | "dashboard:financial"
+  | "customers:read"
+  | "customers:write"
+  | "materials:read"
+  | "materials:write"
+  | "workorders:read-all" // Without it only assigned work orders are visible
+  | "workorders:write" // Create, plan, assign and delete work orders
+  | "workorders:complete" // Update the status of and complete (own) work orders
+  | "invoices:read"
+  | "invoices:write"
+  | "quotes:read"
+  | "quotes:write" // Create, send and convert quotes
+  | "projects:read"
+  | "projects:write"
+  | "projects:financial" // Budgets, costs and margins of projects
+  | "contracts:read"
+  | "contracts:write"
+  | "availability:manage" // Working hours, holidays and reviewing leave requests
+  | "users:manage";
+
+const PERMISSIONS: Record<Permission, Role[]> = {
+  "dashboard:financial": ["beheerder"],
+  "customers:read": ["monteur", "beheerder"],
+  "customers:write": ["beheerder"],
+  "materials:read": ["monteur", "beheerder"],
+  "materials:write": ["beheerder"],
+  "workorders:read-all": ["beheerder"],
+  "workorders:write": ["beheerder"],
+  "workorders:complete": ["monteur", "beheerder"],
+  "invoices:read": ["beheerder"],
+  "invoices:write": ["beheerder"],
+  "quotes:read": ["beheerder"],
+  "quotes:write": ["beheerder"],
+  "projects:read": ["monteur", "beheerder"],
+  "projects:write": ["beheerder"],
+  "projects:financial": ["beheerder"],
+  "contracts:read": ["beheerder"],
+  "contracts:write": ["beheerder"],
+  "availability:manage": ["beheerder"],
+  "users:manage": ["beheerder"],
+};
+
+// Roles that must protect their account with two-factor authentication, as they can see all financial data
+const TWO_FACTOR_ROLES: Role[] = ["beheerder"];
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (PERMISSIONS[permission] as string[]).includes(role);
+}
+
+export function isTwoFactorRequired(role: string | null | undefined): boolean {
+  return !!role && (TWO_FACTOR_ROLES as string[]).includes(role);
+}
@@ -0,0 +1,25 @@
+import type { WorkOrder } from "./schema";
+
+// Work orders without an end time or estimated duration take one hour in the planning
+export const DEFAULT_DURATION_HOURS = 1;
+
+export interface PlanningInterval {
+  start: Date;
+  end: Date;
+}
+
+export function getWorkOrderInterval(workOrder: Pick<WorkOrder, "date" | "endDate" | "estimatedHours" | "laborHours">): PlanningInterval {
+  const start = new Date(workOrder.date);
+  if (workOrder.endDate) {
+    return { start, end: new Date(workOrder.endDate) };
+  }
+
+  const hours = [workOrder.estimatedHours, workOrder.laborHours]
+    .find((value): value is number => !!value && value > 0) ?? DEFAULT_DURATION_HOURS;
+  const end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+  return { start, end };
+}
+
+export function intervalsOverlap(a: PlanningInterval, b: PlanningInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
@@ -0,0 +1,113 @@
+import type { Invoice, Project, WorkOrder } from "./schema";
+import { getInvoiceSubtotal } from "./invoices";
+
+export const PROJECT_STATUSES = ["Gepland", "In uitvoering", "Voltooid", "Gepauzeerd"] as const;
+
+// Progress of a project, derived from its work orders; cancelled work orders do not count
+export interface ProjectProgress {
+  workOrderCount: number;
+  completedWorkOrderCount: number;
+  progress: number; // Percentage of the work orders that is completed, 0-100
+}
+
+export type ProjectWithProgress = Project & ProjectProgress;
+
+// Status of a work order that is part of a project; enough to compute the progress of all projects at once
+export interface ProjectWorkOrderStatus {
+  projectId: number;
+  status: string;
+}
+
+export function getProjectProgress(workOrders: Pick<WorkOrder, "status">[]): ProjectProgress {
+  const counted = workOrders.filter(workOrder => workOrder.status !== "Geannuleerd");
+  const completed = counted.filter(workOrder => workOrder.status === "Voltooid").length;
+  return {
+    workOrderCount: counted.length,
+    completedWorkOrderCount: completed,
+    progress: counted.length === 0 ? 0 : Math.round((completed / counted.length) * 100),
+  };
+}
+
+// Costs of a work order that is part of a project; enough to compute the financials of all projects at once
+export type ProjectWorkOrderCosts = Pick<WorkOrder, "id" | "status" | "laborHours" | "materials"> & { projectId: number };
+
+// Material as stored in the materials JSON of a work order
+interface UsedMaterial {
+  id: number;
+  quantity: number;
+  price?: number; // Price at the time of use; only used when the material no longer exists
+}
+
+export interface ProjectCosts {
+  laborHours: number;
+  labor: number;
+  materials: number;
+  subcontracting: number;
+  total: number;
+}
+
+// Budget versus actual of a project (amounts excl. VAT)
+export interface ProjectFinancials {
+  projectId: number;
+  budget: ProjectCosts;
+  actual: ProjectCosts;
+  invoiced: number; // Invoices of the project (instalments) and of its work orders excl. VAT, except concepts
+  margin: number; // Invoiced minus actual costs
+  expectedMargin: number | null; // Quoted price minus budget; null without a quoted price
+  budgetUsed: number | null; // Actual costs as a percentage of the budget; null without a budget
+  laborHoursUsed: number | null; // Actual labour hours as a percentage of the budgeted hours
+  overBudget: boolean; // Whether budgetUsed or laborHoursUsed exceeds the warning percentage
+  warningPercentage: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+function getCosts(laborHours: number, laborCostRate: number, materials: number, subcontracting: number): ProjectCosts {
+  const labor = laborHours * laborCostRate;
+  return {
+    laborHours: roundAmount(laborHours),
+    labor: roundAmount(labor),
+    materials: roundAmount(materials),
+    subcontracting: roundAmount(subcontracting),
+    total: roundAmount(labor + materials + subcontracting),
+  };
+}
+
+// Actual material costs are priced at the current price of the material; cancelled work orders do not count
+export function getProjectFinancials(
+  project: Project,
+  workOrders: Pick<WorkOrder, "status" | "laborHours" | "materials">[],
+  materialPrices: Map<number, number>,
+  invoices: Pick<Invoice, "amount" | "status" | "items">[],
+  warningPercentage: number,
+): ProjectFinancials {
+  const counted = workOrders.filter(workOrder => workOrder.status !== "Geannuleerd");
+  const laborHours = counted.reduce((sum, workOrder) => sum + (workOrder.laborHours ?? 0), 0);
+  const materialCosts = counted.reduce((sum, workOrder) => {
+    const used = Array.isArray(workOrder.materials) ? workOrder.materials as UsedMaterial[] : [];
+    return sum + used.reduce((total, material) =>
+      total + (material.quantity || 0) * (materialPrices.get(material.id) ?? material.price ?? 0), 0);
+  }, 0);
+
+  const budget = getCosts(project.budgetLaborHours, project.laborCostRate, project.budgetMaterials, project.budgetSubcontracting);
+  const actual = getCosts(laborHours, project.laborCostRate, materialCosts, project.subcontractingCosts);
+  const invoiced = roundAmount(invoices
+    .filter(invoice => invoice.status !== "Concept")
+    .reduce((sum, invoice) => sum + getInvoiceSubtotal(invoice), 0));
+  const percentage = (value: number, of: number) => of > 0 ? Math.round((value / of) * 100) : null;
+  const budgetUsed = percentage(actual.total, budget.total);
+  const laborHoursUsed = percentage(actual.laborHours, budget.laborHours);
+
+  return {
+    projectId: project.id,
+    budget,
+    actual,
+    invoiced,
+    margin: roundAmount(invoiced - actual.total),
+    expectedMargin: project.price == null ? null : roundAmount(project.price - budget.total),
+    budgetUsed,
+    laborHoursUsed,
+    overBudget: [budgetUsed, laborHoursUsed].some(used => used !== null && used > warningPercentage),
+    warningPercentage,
+  };
+}
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const QUOTE_STATUSES = ["Concept", "Verzonden", "Geaccepteerd", "Afgewezen"] as const;
+export const QUOTE_LINE_TYPES = ["Arbeid", "Materiaal", "Tekst"] as const;
+export const QUOTE_CONVERSION_TARGETS = ["workorder", "project"] as const;
+export const QUOTE_VALIDITY_DAYS = 30;
+
+// Line of a quote: labour (quantity in hours), a material from the catalogue or free text without an amount
+export const quoteLineSchema = z.object({
+  type: z.enum(QUOTE_LINE_TYPES),
+  description: z.string().min(1),
+  quantity: z.number().min(0),
+  price: z.number().min(0), // Per hour or per unit (excl. VAT)
+  materialId: z.number().int().positive().nullable().optional(),
+}).refine(line => line.type !== "Materiaal" || !!line.materialId, {
+  message: "A material line must refer to a material",
+  path: ["materialId"],
+});
+
+export type QuoteLine = z.infer<typeof quoteLineSchema>;
+export type QuoteConversionTarget = typeof QUOTE_CONVERSION_TARGETS[number];
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getQuoteLineTotal(line: QuoteLine): number {
+  return line.type === "Tekst" ? 0 : roundAmount(line.quantity * line.price);
+}
+
+export function getQuoteTotal(lines: QuoteLine[]): number {
+  return roundAmount(lines.reduce((sum, line) => sum + getQuoteLineTotal(line), 0));
+}
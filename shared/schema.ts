@@ -1,7 +1,12 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique, index, type ExtraConfigColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Trigram index for the global search (ILIKE '%...%' and similarity ranking). Requires the pg_trgm
+// extension: run `CREATE EXTENSION IF NOT EXISTS pg_trgm` on the database before `npm run db:push`.
+const trigramIndex = (name: string, column: ExtraConfigColumn) =>
+  index(name).using("gin", column.op("gin_trgm_ops"));
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -10,6 +15,45 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: text("role").default("monteur").notNull(), // monteur or beheerder
   phone: text("phone"),
+  active: boolean("active").default(true).notNull(), // Deactivated users can no longer log in
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret, set when enrolment starts
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(),
+  twoFactorBackupCodes: jsonb("two_factor_backup_codes").$type<string[]>(), // Hashes of the unused backup codes
+  twoFactorLastStep: integer("two_factor_last_step"), // Time step of the last accepted TOTP code; codes up to it are rejected
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(), // Consecutive failures since the last successful login
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Login history, including attempts for unknown usernames
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  success: boolean("success").notNull(),
+  reason: text("reason"), // Why a login failed: invalid_credentials, invalid_code, locked, throttled or inactive
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use tokens of the forgot password flow; only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Who changed what and when; every create, update and delete through the storage layer is recorded
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Null for changes made by the system
+  entity: text("entity").notNull(), // customer, workorder, invoice, ...
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete, assign, unassign, send, remind, pay, unpay, link or unlink
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -25,7 +69,10 @@ export const customers = pgTable("customers", {
   phone: text("phone"),
   status: text("status").default("Actief").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  trigramIndex("customers_name_trgm", table.name),
+  trigramIndex("customers_customer_number_trgm", table.customerNumber),
+]);
 
 export const materials = pgTable("materials", {
   id: serial("id").primaryKey(),
@@ -38,6 +85,29 @@ export const materials = pgTable("materials", {
   minStock: integer("min_stock").default(0),
   supplier: text("supplier"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  trigramIndex("materials_article_number_trgm", table.articleNumber),
+]);
+
+// Recurring service contract (e.g. yearly boiler maintenance) from which work orders are generated
+export const maintenanceContracts = pgTable("maintenance_contracts", {
+  id: serial("id").primaryKey(),
+  contractNumber: text("contract_number").notNull().unique(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  status: text("status").default("Actief").notNull(), // Actief, Gepauzeerd or Beëindigd
+  intervalMonths: integer("interval_months").notNull(), // Recurrence: 1, 3, 6 or 12 months
+  startDate: timestamp("start_date").notNull(), // First maintenance visit (date and time)
+  endDate: timestamp("end_date"),
+  price: real("price").default(0).notNull(), // Contract price per year (excl. VAT)
+  // Default work order template
+  workOrderTitle: text("work_order_title").notNull(),
+  workOrderDescription: text("work_order_description"),
+  estimatedHours: real("estimated_hours"),
+  defaultAssigneeId: integer("default_assignee_id").references(() => users.id, { onDelete: "set null" }),
+  generatedUntil: timestamp("generated_until"), // Date of the last visit for which a work order was generated
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const workOrders = pgTable("work_orders", {
@@ -46,12 +116,74 @@ export const workOrders = pgTable("work_orders", {
   title: text("title").notNull(),
   description: text("description"),
   customerId: integer("customer_id").notNull(),
-  date: timestamp("date").notNull(),
+  date: timestamp("date").notNull(), // Planned start
+  endDate: timestamp("end_date"), // Planned end
+  estimatedHours: real("estimated_hours"),
   status: text("status").default("Ingepland").notNull(),
   laborHours: real("labor_hours").default(0),
   notes: text("notes"),
   materials: jsonb("materials"), // Array of used materials
   photos: jsonb("photos"), // Array of photo data (base64 strings)
+  contractId: integer("contract_id").references(() => maintenanceContracts.id, { onDelete: "set null" }),
+  routeSequence: integer("route_sequence"), // Stop number in the optimised route of the day
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  trigramIndex("work_orders_order_number_trgm", table.orderNumber),
+  trigramIndex("work_orders_title_trgm", table.title),
+]);
+
+// Links work orders to technicians (monteurs); one assignment per order is the lead
+export const workOrderAssignments = pgTable("work_order_assignments", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  isLead: boolean("is_lead").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("work_order_assignments_work_order_user").on(table.workOrderId, table.userId),
+]);
+
+// Finish-to-start dependency between two work orders of a project: the work order cannot start
+// before the one it depends on has finished
+export const workOrderDependencies = pgTable("work_order_dependencies", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id, { onDelete: "cascade" }),
+  dependsOnId: integer("depends_on_id").notNull().references(() => workOrders.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("work_order_dependencies_work_order_depends_on").on(table.workOrderId, table.dependsOnId),
+]);
+
+// Weekly working hours of a technician, one row per weekday
+export const workingHours = pgTable("working_hours", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekday: integer("weekday").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text("start_time").notNull(), // HH:mm
+  endTime: text("end_time").notNull(), // HH:mm
+}, (table) => [
+  unique("working_hours_user_weekday").on(table.userId, table.weekday),
+]);
+
+export const leaveRequests = pgTable("leave_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // Vakantie, Verlof or Ziek
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  status: text("status").default("Aangevraagd").notNull(), // Aangevraagd, Goedgekeurd or Afgewezen
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Public holidays (feestdagen) on which nobody is available
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: timestamp("date").notNull(),
+  name: text("name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -60,13 +192,16 @@ export const invoices = pgTable("invoices", {
   invoiceNumber: text("invoice_number").notNull().unique(),
   customerId: integer("customer_id").notNull(),
   workOrderId: integer("work_order_id"),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }), // Instalment invoices of a project
   date: timestamp("date").notNull(),
   dueDate: timestamp("due_date").notNull(),
   amount: real("amount").notNull(),
   status: text("status").default("Concept").notNull(),
   items: jsonb("items"), // Invoice line items
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  trigramIndex("invoices_invoice_number_trgm", table.invoiceNumber),
+]);
 
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
@@ -75,31 +210,228 @@ export const projects = pgTable("projects", {
   customerId: integer("customer_id").notNull(),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
-  progress: integer("progress").default(0),
-  status: text("status").default("Gepland").notNull(),
-  workOrders: jsonb("work_orders"), // Array of related work order IDs
+  status: text("status").default("Gepland").notNull(), // Gepland, In uitvoering, Voltooid or Gepauzeerd
+  price: real("price"), // Quoted fixed price (excl. VAT)
+  // Budget (excl. VAT); labour is budgeted in hours and valued at the labour cost rate
+  budgetLaborHours: real("budget_labor_hours").default(0).notNull(),
+  budgetMaterials: real("budget_materials").default(0).notNull(),
+  budgetSubcontracting: real("budget_subcontracting").default(0).notNull(),
+  laborCostRate: real("labor_cost_rate").default(0).notNull(), // Cost price of an hour of labour
+  subcontractingCosts: real("subcontracting_costs").default(0).notNull(), // Actual costs of subcontractors, entered by hand
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Quote (offerte) for a customer. Once accepted it is converted into a work order or a project plus a
+// concept invoice, which both get the lines of the quote.
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  quoteNumber: text("quote_number").notNull().unique(),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  date: timestamp("date").notNull(),
+  validUntil: timestamp("valid_until").notNull(),
+  status: text("status").default("Concept").notNull(), // Concept, Verzonden, Geaccepteerd or Afgewezen
+  items: jsonb("items").notNull(), // Array of quote lines (labour, material or free text)
+  amount: real("amount").notNull(), // Total of the lines (excl. VAT)
+  // Set once the quote is converted
+  workOrderId: integer("work_order_id").references(() => workOrders.id, { onDelete: "set null" }),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  trigramIndex("quotes_quote_number_trgm", table.quoteNumber),
+]);
+
+// Instalment (termijn) of the quoted price of a project, invoiced on a date or when a milestone is reached.
+// The milestone is a work order of the project that is completed; a term has either a date or a milestone.
+export const projectInstalments = pgTable("project_instalments", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // Order of the term within the project, from 1
+  description: text("description").notNull(), // E.g. "Start werkzaamheden"
+  percentage: real("percentage").notNull(), // Share of the quoted price
+  dueDate: timestamp("due_date"),
+  milestoneWorkOrderId: integer("milestone_work_order_id").references(() => workOrders.id, { onDelete: "set null" }),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }), // Set once invoiced
+  invoicedAt: timestamp("invoiced_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Editable e-mail template (subject and body with placeholders); without a stored template the default applies
+export const mailTemplates = pgTable("mail_templates", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // invoice or reminder
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// E-mail with an invoice or a payment reminder that was sent to the customer
+export const invoiceMails = pgTable("invoice_mails", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // Key of the mail template
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+});
+
+// Payments received on an invoice; an invoice can be paid in parts, or more than its amount
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  date: timestamp("date").notNull(),
+  amount: real("amount").notNull(),
+  method: text("method").notNull(), // bank, pin or contant
+  reference: text("reference"), // E.g. the description of the bank transfer
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Steps of the dunning sequence of an overdue invoice, with the letter that was generated for it
+export const invoiceReminders = pgTable("invoice_reminders", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  step: integer("step").notNull(), // 1 = first reminder, 2 = second reminder, 3 = final notice
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  collectionCosts: real("collection_costs"), // Statutory collection costs (WIK), only on the final notice
+  recipient: text("recipient"), // E-mailed to; null when the customer has no e-mail address and the letter is posted
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Export the insert schemas and types
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true, createdAt: true });
-export const insertMaterialSchema = createInsertSchema(materials).omit({ id: true, createdAt: true });
-export const insertWorkOrderSchema = createInsertSchema(workOrders).omit({ id: true, createdAt: true });
-export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true });
-export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true });
+// Dates arrive as ISO strings in JSON request bodies
+const coerceDate = () => z.coerce.date();
+const optionalDate = z.coerce.date().nullable().optional();
+const optionalAmount = z.number().min(0).nullable().optional();
+const optionalCount = z.number().int().min(0).nullable().optional();
+
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, twoFactorSecret: true, twoFactorEnabled: true, twoFactorBackupCodes: true, twoFactorLastStep: true, failedLoginAttempts: true, lockedUntil: true });
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({ id: true, createdAt: true });
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true, usedAt: true, createdAt: true });
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: schema => schema.min(1),
+  email: schema => schema.email(),
+}).omit({ id: true, customerNumber: true, createdAt: true });
+export const insertMaterialSchema = createInsertSchema(materials, {
+  name: schema => schema.min(1),
+  category: schema => schema.min(1),
+  price: schema => schema.min(0),
+  stock: optionalCount,
+  minStock: optionalCount,
+}).omit({ id: true, articleNumber: true, createdAt: true });
+export const insertMaintenanceContractSchema = createInsertSchema(maintenanceContracts, {
+  startDate: coerceDate,
+  endDate: optionalDate,
+  generatedUntil: optionalDate,
+}).omit({ id: true, contractNumber: true, createdAt: true });
+export const insertWorkOrderSchema = createInsertSchema(workOrders, {
+  title: schema => schema.min(1),
+  date: coerceDate,
+  endDate: optionalDate,
+  estimatedHours: optionalAmount,
+  laborHours: optionalAmount,
+}).omit({ id: true, orderNumber: true, createdAt: true });
+export const insertWorkOrderAssignmentSchema = createInsertSchema(workOrderAssignments).omit({ id: true, createdAt: true });
+export const insertWorkOrderDependencySchema = createInsertSchema(workOrderDependencies).omit({ id: true, createdAt: true });
+export const insertWorkingHoursSchema = createInsertSchema(workingHours).omit({ id: true });
+export const insertLeaveRequestSchema = createInsertSchema(leaveRequests, {
+  startDate: coerceDate,
+  endDate: coerceDate,
+  reviewedAt: optionalDate,
+}).omit({ id: true, createdAt: true });
+export const insertHolidaySchema = createInsertSchema(holidays, {
+  date: coerceDate,
+  name: schema => schema.min(1),
+}).omit({ id: true, createdAt: true });
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  date: coerceDate,
+  dueDate: coerceDate,
+  amount: schema => schema.min(0),
+}).omit({ id: true, invoiceNumber: true, createdAt: true });
+export const insertProjectSchema = createInsertSchema(projects, {
+  title: schema => schema.min(1),
+  startDate: coerceDate,
+  endDate: optionalDate,
+  price: optionalAmount,
+  budgetLaborHours: schema => schema.min(0).optional(),
+  budgetMaterials: schema => schema.min(0).optional(),
+  budgetSubcontracting: schema => schema.min(0).optional(),
+  laborCostRate: schema => schema.min(0).optional(),
+  subcontractingCosts: schema => schema.min(0).optional(),
+}).omit({ id: true, createdAt: true });
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  title: schema => schema.min(1),
+  date: coerceDate,
+  validUntil: coerceDate,
+  amount: schema => schema.min(0),
+}).omit({ id: true, quoteNumber: true, createdAt: true });
+export const insertProjectInstalmentSchema = createInsertSchema(projectInstalments, {
+  description: schema => schema.min(1),
+  percentage: schema => schema.gt(0).max(100),
+  dueDate: optionalDate,
+  invoicedAt: optionalDate,
+}).omit({ id: true, createdAt: true });
+export const insertMailTemplateSchema = createInsertSchema(mailTemplates, {
+  subject: schema => schema.min(1),
+  body: schema => schema.min(1),
+}).omit({ id: true, updatedAt: true });
+export const insertInvoiceMailSchema = createInsertSchema(invoiceMails, {
+  recipient: schema => schema.email(),
+}).omit({ id: true, sentAt: true });
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  date: coerceDate,
+  amount: schema => schema.positive(),
+}).omit({ id: true, createdAt: true });
+export const insertInvoiceReminderSchema = createInsertSchema(invoiceReminders).omit({ id: true, createdAt: true });
 
 // Export the types
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type InsertMaterial = z.infer<typeof insertMaterialSchema>;
+export type InsertMaintenanceContract = z.infer<typeof insertMaintenanceContractSchema>;
 export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
+export type InsertWorkOrderAssignment = z.infer<typeof insertWorkOrderAssignmentSchema>;
+export type InsertWorkOrderDependency = z.infer<typeof insertWorkOrderDependencySchema>;
+export type InsertWorkingHours = z.infer<typeof insertWorkingHoursSchema>;
+export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type InsertProjectInstalment = z.infer<typeof insertProjectInstalmentSchema>;
+export type InsertMailTemplate = z.infer<typeof insertMailTemplateSchema>;
+export type InsertInvoiceMail = z.infer<typeof insertInvoiceMailSchema>;
+export type InsertInvoiceReminder = z.infer<typeof insertInvoiceReminderSchema>;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 
 export type User = typeof users.$inferSelect;
+export type TwoFactorSettings = Pick<User, "twoFactorSecret" | "twoFactorEnabled" | "twoFactorBackupCodes">;
+export type LoginLockout = Pick<User, "failedLoginAttempts" | "lockedUntil">;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+// Per changed field the value before and after the change; "before" is missing on create, "after" on delete
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
 export type Material = typeof materials.$inferSelect;
+export type MaintenanceContract = typeof maintenanceContracts.$inferSelect;
 export type WorkOrder = typeof workOrders.$inferSelect;
+export type WorkOrderAssignment = typeof workOrderAssignments.$inferSelect;
+export type WorkOrderDependency = typeof workOrderDependencies.$inferSelect;
+export type WorkingHours = typeof workingHours.$inferSelect;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
 export type Invoice = typeof invoices.$inferSelect;
 export type Project = typeof projects.$inferSelect;
+export type ProjectInstalment = typeof projectInstalments.$inferSelect;
+export type Quote = typeof quotes.$inferSelect;
+export type MailTemplate = typeof mailTemplates.$inferSelect;
+export type InvoiceMail = typeof invoiceMails.$inferSelect;
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
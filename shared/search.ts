@@ -0,0 +1,21 @@
+// Global search (command palette) across customers, work orders, invoices and materials
+
+export const SEARCH_TYPES = ["customer", "workorder", "invoice", "material"] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export const SEARCH_MIN_LENGTH = 2;
+export const SEARCH_LIMIT_PER_TYPE = 5;
+
+export interface SearchResult {
+  type: SearchType;
+  id: number;
+  title: string; // Number of the record, e.g. "WO-2024-001", or the customer name
+  subtitle?: string;
+}
+
+export interface SearchQuery {
+  q: string;
+  types: SearchType[]; // Only these types are searched, e.g. depending on the permissions of the user
+  assigneeId?: number; // Only work orders assigned to this user
+  limit: number; // Maximum number of results per type
+}